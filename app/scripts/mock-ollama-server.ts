@@ -0,0 +1,74 @@
+// Run the mock Ollama server for offline development:
+//   npm run mock:ollama -- --port 11435 --latency 200 --scenario scenario.json
+//
+// A scenario file is JSON of the form
+//   {
+//     "models": [{ "name": "llama3.2:3b" }],
+//     "defaultResponse": "...",
+//     "chunkDelayMs": 20,
+//     "rules": [{ "match": "invoice", "regex": false, "response": "..." }]
+//   }
+// Then point the app at http://127.0.0.1:<port> in Settings → Model Provider.
+import * as fs from 'fs';
+import { MockOllamaServer, MockFailure, MockModel } from '../src/lib/mock-ollama-server';
+
+interface ScenarioRule {
+  match: string;
+  regex?: boolean;
+  model?: string;
+  response?: string;
+  chunks?: string[];
+  latencyMs?: number;
+  failure?: MockFailure;
+  times?: number;
+}
+
+interface Scenario {
+  models?: MockModel[];
+  defaultResponse?: string;
+  chunkDelayMs?: number;
+  rules?: ScenarioRule[];
+}
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const scenarioPath = readArg('scenario');
+  const scenario: Scenario = scenarioPath ? JSON.parse(fs.readFileSync(scenarioPath, 'utf8')) : {};
+
+  const server = new MockOllamaServer({
+    port: Number(readArg('port') ?? 11435),
+    latencyMs: Number(readArg('latency') ?? 0),
+    models: scenario.models,
+    defaultResponse: scenario.defaultResponse,
+    chunkDelayMs: scenario.chunkDelayMs,
+  });
+
+  for (const { match, regex, response, failure, ...options } of scenario.rules || []) {
+    const matcher = regex ? new RegExp(match, 'i') : match;
+    if (failure) {
+      server.failWhen(matcher, failure, { response, ...options });
+    } else {
+      server.respondTo(matcher, response, options);
+    }
+  }
+
+  server.on('request', ({ method, path }) => console.log(`${method} ${path}`));
+
+  const endpoint = await server.start();
+  console.log(`Mock Ollama server listening on ${endpoint}`);
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start mock Ollama server:', error);
+  process.exit(1);
+});
@@ -1,7 +1,17 @@
 import { EventEmitter } from 'events';
-import { SystemMonitor, SystemHealth, getSystemMonitor } from '../lib/system-monitor';
-import { OllamaClient, OllamaModel, getOllamaClient } from '../lib/ollama-client';
+import { SystemMonitor, SystemHealth, ModelResidency, getSystemMonitor } from '../lib/system-monitor';
+import { LLMProvider, LLMHealthStatus, getLLMProvider } from '../lib/llm-provider';
+import { ContentExtractionService, getContentExtractionService } from '../lib/content-extractor';
+import { AnalysisError, AnalysisErrorType } from '../lib/logger';
 import { PriorityQueue } from './priority-queue';
+import {
+  ANALYSIS_SCHEMAS,
+  parseAnalysisResponse,
+  buildRepairPrompt,
+  getResultSummary,
+  applyNamingProfileToSuggestions,
+} from './analysis-schemas';
+import { PromptTemplateManager, type AnalysisType } from './prompt-templates';
 import { 
   AgentTask, 
   AgentSlot, 
@@ -11,7 +21,9 @@ import {
   CreateTaskParams,
   FileAnalysisTask,
   BatchProcessingTask,
-  HealthCheckTask
+  HealthCheckTask,
+  TaskStore,
+  SessionQueueStats
 } from './task-types';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -27,6 +39,12 @@ export interface AgentManagerConfig {
   healthCheckInterval: number;     // Health monitoring interval (default: 30000 = 30s)
   emergencyStopEnabled: boolean;   // Enable emergency stop on critical conditions
   slotRecomputeInterval: number;   // Interval to recompute slot capacity (default: 5000 = 5s)
+  taskAgingIntervalMs: number;     // Queued tasks gain a priority level per interval waited (default: 120000 = 2min)
+  fairSessionScheduling: boolean;  // Analysis sessions take turns at the same priority (default: true)
+  modelSlotLimits: Record<string, number>;  // Caps a model's slot pool below what memory allows (default: none)
+  modelBatching: boolean;          // Prefer queued tasks for loaded models at the same priority (default: true)
+  modelKeepAlive: string | number; // How long the model server keeps a model loaded after a request (default: '10m')
+  idleModelUnloadMs: number;       // Unload models no task has used for this long (default: 300000 = 5min)
 }
 
 /**
@@ -47,10 +65,12 @@ export interface AgentManagerStatus {
   availableSlots: number;
   runningTasks: number;
   queuedTasks: number;
+  waitingTasks: number;            // Queued tasks whose dependencies have not completed
   systemHealth: SystemHealth;
   memoryUtilization: number;
   lastSlotRecompute: number;
   emergencyMode: boolean;
+  sessionQueues: SessionQueueStats[];  // Queued work per analysis session, dispatched next first
 }
 
 /**
@@ -63,14 +83,20 @@ export class AgentManager extends EventEmitter {
   
   // Core components
   private systemMonitor: SystemMonitor;
-  private ollamaClient: OllamaClient;
+  private llmProvider: LLMProvider;
+  private contentExtractor: ContentExtractionService;
   private taskQueue: PriorityQueue;
+  private taskStore: TaskStore | null = null;
   
   // State management
   private isRunning: boolean = false;
   private totalSlots: number = 0;
   private activeSlots: Map<string, AgentSlot> = new Map();
+  private runningTasks: Map<string, AgentTask> = new Map(); // Dispatched tasks leave the queue
+  private waitingTasks: Map<string, AgentTask> = new Map(); // Enter the queue once their dependencies complete
+  private dependents: Map<string, Set<string>> = new Map();  // Task id → waiting tasks that depend on it
   private modelMemoryEstimates: Map<string, number> = new Map();
+  private residentModels: Map<string, { loadedAt: number; lastUsedAt: number }> = new Map(); // Loaded in the model server
   
   // Timers and intervals
   private slotRecomputeTimer: NodeJS.Timeout | null = null;
@@ -89,6 +115,12 @@ export class AgentManager extends EventEmitter {
     healthCheckInterval: 30 * 1000, // 30 seconds
     emergencyStopEnabled: true,
     slotRecomputeInterval: 5 * 1000, // 5 seconds
+    taskAgingIntervalMs: 2 * 60 * 1000, // 2 minutes
+    fairSessionScheduling: true,
+    modelSlotLimits: {},
+    modelBatching: true,
+    modelKeepAlive: '10m',
+    idleModelUnloadMs: 5 * 60 * 1000, // 5 minutes
   };
 
   private static readonly DEFAULT_THRESHOLDS: MemoryThresholds = {
@@ -113,8 +145,12 @@ export class AgentManager extends EventEmitter {
       osReservedMemory: this.config.osReservedMemory,
     });
     
-    this.ollamaClient = getOllamaClient();
-    this.taskQueue = new PriorityQueue();
+    this.llmProvider = getLLMProvider();
+    this.contentExtractor = getContentExtractionService();
+    this.taskQueue = new PriorityQueue({
+      agingIntervalMs: this.config.taskAgingIntervalMs,
+      fairSharing: this.config.fairSessionScheduling,
+    });
     
     // Set up event listeners
     this.setupEventListeners();
@@ -162,6 +198,78 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  /**
+   * Switch to another model provider, e.g. after the endpoint changes in
+   * Settings. Running tasks finish on the provider they started with.
+   */
+  public async setLLMProvider(provider: LLMProvider): Promise<void> {
+    if (provider === this.llmProvider) return;
+
+    this.llmProvider.off('health-update', this.handleProviderHealth);
+    this.llmProvider = provider;
+    this.llmProvider.on('health-update', this.handleProviderHealth);
+
+    this.modelMemoryEstimates.clear();
+    if (this.isRunning) {
+      await this.loadModelMemoryEstimates();
+      await this.recomputeSlotCapacity();
+    }
+  }
+
+  /**
+   * Persist tasks and their state transitions. Set before start() so no
+   * transition goes unrecorded.
+   */
+  public setTaskStore(store: TaskStore | null): void {
+    this.taskStore = store;
+  }
+
+  /**
+   * Recover tasks persisted by a previous process: tasks it left running go
+   * back to the queue with a retry used, and queued tasks outside an analysis
+   * session are enqueued again. Session tasks wait until their session is
+   * resumed, see restoreTasks().
+   */
+  public recoverTasks(): { requeued: number; failed: number; restored: number } {
+    if (!this.taskStore) {
+      return { requeued: 0, failed: 0, restored: 0 };
+    }
+
+    const { requeued, failed } = this.taskStore.recoverInterruptedTasks();
+    const restored = this.restoreTasks(this.taskStore.loadTasks({ states: [TaskState.QUEUED], sessionId: null }));
+
+    console.log(`Recovered persisted tasks: ${restored} restored, ${requeued} interrupted tasks requeued, ${failed} failed`);
+    return { requeued, failed, restored };
+  }
+
+  /**
+   * Put persisted queued tasks back in the queue under their original ids.
+   * Returns how many were restored; tasks already known are skipped. Tasks
+   * wait for dependencies restored with them, while dependencies no longer
+   * persisted as queued are taken as complete.
+   */
+  public restoreTasks(tasks: AgentTask[]): number {
+    const restorable = tasks.filter(task => task.state === TaskState.QUEUED && !this.isKnownTask(task.id));
+    let restored = 0;
+
+    // Held first, so dependencies between the restored tasks are seen whatever their order
+    restorable.forEach(task => this.waitingTasks.set(task.id, task));
+
+    for (const task of restorable) {
+      this.waitingTasks.delete(task.id);
+      if (!this.holdForDependencies(task)) {
+        this.taskQueue.enqueue(task);
+      }
+      this.emit('task-restored', task);
+      restored++;
+    }
+
+    if (restored > 0) {
+      process.nextTick(() => this.processTaskQueue());
+    }
+    return restored;
+  }
+
   /**
    * Stop the Agent Manager and cleanup resources
    */
@@ -181,10 +289,16 @@ export class AgentManager extends EventEmitter {
       this.healthCheckTimer = null;
     }
 
-    // Cancel all running tasks
-    const runningTasks = this.taskQueue.getRunningTasks();
-    for (const task of runningTasks) {
-      await this.cancelTask(task.id, 'Manager shutdown');
+    // Running tasks go back to the queue so a persisted task runs again after restart
+    for (const task of Array.from(this.runningTasks.values())) {
+      const slot = Array.from(this.activeSlots.values()).find(s => s.taskId === task.id);
+      if (slot) {
+        await this.cleanupSlot(slot.slotId);
+      }
+      this.runningTasks.delete(task.id);
+      task.startedAt = undefined;
+      this.transitionTask(task, TaskState.QUEUED);
+      this.taskQueue.enqueue(task);
     }
 
     // Stop system monitoring
@@ -213,7 +327,10 @@ export class AgentManager extends EventEmitter {
       task.estimatedMemoryMB = this.estimateTaskMemory(task);
     }
 
-    this.taskQueue.enqueue(task);
+    if (!this.holdForDependencies(task)) {
+      this.taskQueue.enqueue(task);
+    }
+    this.taskStore?.saveTask(task);
     
     this.emit('task-created', task);
     console.log(`Task ${taskId} created and queued (type: ${task.type}, priority: ${TaskPriority[task.priority]})`);
@@ -228,21 +345,34 @@ export class AgentManager extends EventEmitter {
    * Cancel a running or queued task
    */
   public async cancelTask(taskId: string, reason: string = 'User requested'): Promise<boolean> {
-    const task = this.taskQueue.getTask(taskId);
+    const runningTask = this.runningTasks.get(taskId);
+    const waitingTask = this.waitingTasks.get(taskId);
+    const task = runningTask || waitingTask || this.taskQueue.getTask(taskId);
     if (!task) return false;
 
     // If task is running, clean up the slot
-    if (task.state === TaskState.RUNNING) {
+    let success: boolean;
+    if (waitingTask) {
+      this.waitingTasks.delete(taskId);
+      task.completedAt = Date.now();
+      success = true;
+    } else if (runningTask) {
       const slot = Array.from(this.activeSlots.values()).find(s => s.taskId === taskId);
       if (slot) {
         await this.cleanupSlot(slot.slotId);
       }
+      this.runningTasks.delete(taskId);
+      task.completedAt = Date.now();
+      success = true;
+    } else {
+      success = this.taskQueue.cancelTask(taskId);
     }
 
-    const success = this.taskQueue.cancelTask(taskId);
     if (success) {
+      this.transitionTask(task, TaskState.CANCELLED);
       this.emit('task-cancelled', { taskId, reason });
       console.log(`Task ${taskId} cancelled: ${reason}`);
+      this.cancelDependents(task, `Prerequisite ${describeTask(task)} was cancelled: ${reason}`);
     }
 
     return success;
@@ -258,12 +388,14 @@ export class AgentManager extends EventEmitter {
       isRunning: this.isRunning,
       totalSlots: this.totalSlots,
       availableSlots: this.totalSlots - this.activeSlots.size,
-      runningTasks: queueStats.byState[TaskState.RUNNING] || 0,
+      runningTasks: this.runningTasks.size,
       queuedTasks: queueStats.byState[TaskState.QUEUED] || 0,
-      systemHealth: this.lastSystemHealth!,
+      waitingTasks: this.waitingTasks.size,
+      systemHealth: this.withModelResidency(this.lastSystemHealth)!,
       memoryUtilization: this.lastSystemHealth ? this.lastSystemHealth.memory.memoryPressure : 0,
       lastSlotRecompute: Date.now(), // This would track actual last recompute time
       emergencyMode: this.emergencyMode,
+      sessionQueues: queueStats.bySession,
     };
   }
 
@@ -312,7 +444,7 @@ export class AgentManager extends EventEmitter {
   private setupEventListeners(): void {
     this.systemMonitor.on('health-update', (health: SystemHealth) => {
       this.lastSystemHealth = health;
-      this.emit('system-health', health);
+      this.emit('system-health', this.withModelResidency(health)!);
     });
 
     this.systemMonitor.on('monitoring-error', (error: Error) => {
@@ -320,11 +452,13 @@ export class AgentManager extends EventEmitter {
       this.emit('monitoring-error', error);
     });
 
-    this.ollamaClient.on('health-update', (health) => {
-      this.emit('ollama-health', health);
-    });
+    this.llmProvider.on('health-update', this.handleProviderHealth);
   }
 
+  private handleProviderHealth = (health: LLMHealthStatus): void => {
+    this.emit('llm-health', health);
+  };
+
   /**
    * Start periodic background tasks
    */
@@ -332,6 +466,7 @@ export class AgentManager extends EventEmitter {
     // Slot capacity recomputation
     this.slotRecomputeTimer = setInterval(async () => {
       await this.recomputeSlotCapacity();
+      await this.unloadModels(this.getUnusedModels(this.config.idleModelUnloadMs));
     }, this.config.slotRecomputeInterval);
 
     // Health monitoring
@@ -350,20 +485,41 @@ export class AgentManager extends EventEmitter {
     const availableSlots = this.totalSlots - this.activeSlots.size;
     if (availableSlots <= 0) return;
 
-    // Get next queued task
-    const task = this.taskQueue.dequeue();
-    if (!task) return;
+    // Get next queued task whose model has a free slot, favouring loaded models
+    const task = this.taskQueue.dequeue({
+      canDispatch: queued => this.hasModelSlot(queued),
+      prefer: this.config.modelBatching ? queued => this.residentModels.has(this.getTaskModelName(queued)) : undefined,
+    });
+    if (!task) {
+      // Make room for a model that does not fit beside the loaded ones
+      const blocked = this.taskQueue.getQueuedTasks().some(queued =>
+        queued.type !== 'health-check' && !this.canLoadModel(queued.modelName, this.getModelMemory(queued.modelName, queued.estimatedMemoryMB))
+      );
+      const unused = blocked ? this.getUnusedModels() : [];
+      if (unused.length > 0) {
+        await this.unloadModels(unused);
+        await this.recomputeSlotCapacity();
+        process.nextTick(() => this.processTaskQueue());
+      }
+      return;
+    }
 
     try {
       await this.dispatchTask(task);
     } catch (error) {
       console.error(`Failed to dispatch task ${task.id}:`, error);
-      this.taskQueue.updateTaskState(task.id, TaskState.FAILED);
+      this.runningTasks.delete(task.id);
+      task.completedAt = Date.now();
       
-      this.emit('task-failed', {
+      const failureResult: TaskResult = {
         taskId: task.id,
-        error: error instanceof Error ? error : new Error(String(error))
-      });
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        executionTimeMs: 0,
+      };
+      this.transitionTask(task, TaskState.FAILED, failureResult);
+      this.emit('task-failed', failureResult);
+      this.cancelDependents(task, `Prerequisite ${describeTask(task)} failed: ${failureResult.error!.message}`);
     }
 
     // Continue processing if more slots available
@@ -388,10 +544,19 @@ export class AgentManager extends EventEmitter {
       allocatedMemoryMB: memoryMB,
       startTime: Date.now(),
       isActive: true,
+      abortController: new AbortController(),
     };
 
     this.activeSlots.set(slotId, slot);
-    this.taskQueue.updateTaskState(task.id, TaskState.RUNNING);
+    this.runningTasks.set(task.id, task);
+    task.startedAt = Date.now();
+
+    // The model server loads the model for its first request
+    if (task.type !== 'health-check' && !this.residentModels.has(modelName)) {
+      this.residentModels.set(modelName, { loadedAt: task.startedAt, lastUsedAt: task.startedAt });
+    }
+
+    this.transitionTask(task, TaskState.RUNNING);
 
     console.log(`Dispatching task ${task.id} to slot ${slotId} (model: ${modelName}, memory: ${memoryMB}MB)`);
 
@@ -427,15 +592,28 @@ export class AgentManager extends EventEmitter {
           throw new Error(`Unknown task type: ${(task as any).type}`);
       }
 
-      // Record successful completion
-      this.taskQueue.updateTaskState(task.id, TaskState.COMPLETED, Date.now());
+      // A task cancelled or requeued by shutdown while it ran keeps that state
+      if (this.runningTasks.get(task.id) !== task) return;
+
+      // Record successful completion; no longer running, so dependents can be queued
+      this.runningTasks.delete(task.id);
+      task.completedAt = Date.now();
+      this.transitionTask(task, TaskState.COMPLETED, result);
       this.taskQueue.recordTaskResult(result);
       
       this.emit('task-completed', result);
       console.log(`Task ${task.id} completed in ${Date.now() - startTime}ms`);
 
+      // File analyses report model and validation errors as unsuccessful results
+      if (result.success) {
+        this.releaseDependents(task, result);
+      } else {
+        this.cancelDependents(task, `Prerequisite ${describeTask(task)} failed: ${result.error?.message || 'no result'}`);
+      }
+
     } catch (error) {
       const errorObj = error instanceof Error ? error : new Error(String(error));
+      if (this.runningTasks.get(task.id) !== task) return;
       
       // Handle retry logic
       if (task.retryCount < task.maxRetries && this.shouldRetryTask(task, errorObj)) {
@@ -443,13 +621,14 @@ export class AgentManager extends EventEmitter {
         console.log(`Retrying task ${task.id} (attempt ${task.retryCount}/${task.maxRetries})`);
         
         // Re-queue the task
-        this.taskQueue.updateTaskState(task.id, TaskState.QUEUED);
+        task.startedAt = undefined;
+        this.transitionTask(task, TaskState.QUEUED);
         this.taskQueue.enqueue(task);
         
         this.emit('task-retry', { taskId: task.id, attempt: task.retryCount, error: errorObj });
       } else {
         // Task failed permanently
-        this.taskQueue.updateTaskState(task.id, TaskState.FAILED, Date.now());
+        task.completedAt = Date.now();
         
         const failureResult: TaskResult = {
           taskId: task.id,
@@ -458,17 +637,113 @@ export class AgentManager extends EventEmitter {
           executionTimeMs: Date.now() - startTime,
         };
         
+        this.transitionTask(task, TaskState.FAILED, failureResult);
         this.taskQueue.recordTaskResult(failureResult);
         this.emit('task-failed', failureResult);
         
         console.error(`Task ${task.id} failed permanently:`, errorObj.message);
+        this.cancelDependents(task, `Prerequisite ${describeTask(task)} failed: ${errorObj.message}`);
       }
     } finally {
       // Always cleanup slot
+      if (this.runningTasks.get(task.id) === task) {
+        this.runningTasks.delete(task.id);
+      }
       await this.cleanupSlot(slot.slotId);
     }
   }
 
+  /**
+   * Move a task to a new state and persist the transition. Dispatched tasks
+   * are no longer in the queue, so their state is set on the task itself.
+   */
+  private transitionTask(task: AgentTask, state: TaskState, result?: TaskResult): void {
+    const previous = task.state;
+    task.state = state;
+    if (previous !== state) {
+      console.log(`Task ${task.id} state changed: ${previous} → ${state}`);
+    }
+    this.taskStore?.updateTask(task, result);
+  }
+
+  private isKnownTask(taskId: string): boolean {
+    return this.runningTasks.has(taskId) || this.waitingTasks.has(taskId) || !!this.taskQueue.getTask(taskId);
+  }
+
+  /**
+   * Hold a task back while any of its dependencies is queued, waiting or
+   * running. Dependencies the manager does not know have already finished.
+   */
+  private holdForDependencies(task: AgentTask): boolean {
+    const pending = (task.dependencies || []).filter(id =>
+      this.runningTasks.has(id) ||
+      this.waitingTasks.has(id) ||
+      this.taskQueue.getTask(id)?.state === TaskState.QUEUED
+    );
+    if (pending.length === 0) return false;
+
+    this.waitingTasks.set(task.id, task);
+    for (const id of pending) {
+      if (!this.dependents.has(id)) {
+        this.dependents.set(id, new Set());
+      }
+      this.dependents.get(id)!.add(task.id);
+    }
+    return true;
+  }
+
+  /**
+   * Hand a completed task's result to the tasks waiting on it and queue those
+   * with no dependencies left
+   */
+  private releaseDependents(task: AgentTask, result: TaskResult): void {
+    const dependentIds = this.dependents.get(task.id);
+    if (!dependentIds) return;
+    this.dependents.delete(task.id);
+
+    for (const id of dependentIds) {
+      const dependent = this.waitingTasks.get(id);
+      if (!dependent) continue;
+
+      if (dependent.type === 'file-analysis' && result.result?.analysis !== undefined) {
+        dependent.upstreamAnalyses = [
+          ...(dependent.upstreamAnalyses || []),
+          { analysisType: result.result.resultType, result: result.result.analysis },
+        ];
+      }
+
+      this.waitingTasks.delete(id);
+      if (!this.holdForDependencies(dependent)) {
+        this.taskQueue.enqueue(dependent);
+        console.log(`Task ${id} ready: dependencies completed`);
+      }
+      // Saved again so a restart keeps the upstream results
+      this.taskStore?.saveTask(dependent);
+    }
+  }
+
+  /**
+   * Cancel every task that waits, directly or through others, on a task that
+   * will not complete
+   */
+  private cancelDependents(task: AgentTask, reason: string): void {
+    const dependentIds = this.dependents.get(task.id);
+    if (!dependentIds) return;
+    this.dependents.delete(task.id);
+
+    for (const id of dependentIds) {
+      const dependent = this.waitingTasks.get(id);
+      if (!dependent) continue;
+
+      this.waitingTasks.delete(id);
+      dependent.completedAt = Date.now();
+      this.transitionTask(dependent, TaskState.CANCELLED);
+      this.emit('task-cancelled', { taskId: id, reason });
+      console.log(`Task ${id} cancelled: ${reason}`);
+      this.cancelDependents(dependent, reason);
+    }
+  }
+
   /**
    * Execute file analysis task
    */
@@ -476,53 +751,57 @@ export class AgentManager extends EventEmitter {
     const startTime = Date.now();
     
     try {
-      // Read file content (would implement file reading logic)
-      const fileContent = `Content of ${task.filePath}`; // Placeholder
+      const content = await this.readFileContent(task.filePath, task.contentHash, task.contentOptions);
+      const fileContent = task.upstreamAnalyses?.length
+        ? `${content}\n\n${PromptTemplateManager.describeUpstreamAnalyses(task.upstreamAnalyses)}`
+        : content;
       
-      // Build prompt based on analysis type
+      // Prompt and response schema both follow the result type
+      const resultType = task.resultType || this.getResultType(task.analysisType);
+
+      // The task's template carries its instructions, naming profile and feedback examples
       let prompt = '';
-      switch (task.analysisType) {
-        case 'classification':
-          prompt = `Classify the following file content:\n\n${fileContent}\n\nClassification:`;
-          break;
-        case 'summary':
-          prompt = `Summarize the following file content:\n\n${fileContent}\n\nSummary:`;
-          break;
-        case 'extraction':
-          prompt = `Extract key information from the following file content:\n\n${fileContent}\n\nExtracted Information:`;
-          break;
-        default:
-          prompt = task.promptTemplate.replace('{{content}}', fileContent);
+      if (task.promptTemplate) {
+        prompt = fillPromptTemplate(task.promptTemplate, fileContent);
+      } else {
+        switch (resultType) {
+          case 'rename-suggestions':
+            prompt = `Suggest better, more descriptive filenames for the following file content:\n\n${fileContent}\n\nFilename suggestions:`;
+            break;
+          case 'classification':
+            prompt = `Classify the following file content:\n\n${fileContent}\n\nClassification:`;
+            break;
+          case 'content-summary':
+            prompt = `Summarize the following file content:\n\n${fileContent}\n\nSummary:`;
+            break;
+          default:
+            prompt = `Extract key information from the following file content:\n\n${fileContent}\n\nExtracted Information:`;
+        }
+      }
+
+      if (task.expectedResponseFormat === 'json') {
+        return await this.executeStructuredAnalysis(task, slot, prompt, resultType, startTime);
       }
 
       // Execute Ollama inference with timeout and retry logic
-      const inference = await this.ollamaClient.executeInference(
+      const inference = await this.llmProvider.executeInference(
         task.modelName, 
         prompt, 
         {
-          format: task.expectedResponseFormat === 'json' ? 'json' : 'text',
+          format: 'text',
           timeout: task.timeoutMs,
           temperature: 0.1, // Low temperature for consistent analysis
           maxTokens: 2048,
+          signal: slot.abortController.signal,
+          keepAlive: this.config.modelKeepAlive,
         }
       );
 
-      // Parse response based on expected format
-      let parsedResult: any = inference.response;
-      if (task.expectedResponseFormat === 'json') {
-        try {
-          parsedResult = JSON.parse(inference.response);
-        } catch (parseError) {
-          console.warn(`Failed to parse JSON response for task ${task.id}, using raw text`);
-          parsedResult = { text: inference.response };
-        }
-      }
-
       return {
         taskId: task.id,
         success: true,
         result: {
-          analysis: parsedResult,
+          analysis: inference.response,
           confidence: 0.95, // Would calculate based on model response
           filePath: task.filePath,
           analysisType: task.analysisType,
@@ -542,6 +821,118 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  /**
+   * Run a JSON analysis constrained to its result schema. Responses that fail
+   * validation are repaired locally where possible, then re-prompted once
+   * with the validation errors before failing with an AnalysisError.
+   */
+  private async executeStructuredAnalysis(
+    task: FileAnalysisTask,
+    slot: AgentSlot,
+    prompt: string,
+    resultType: AnalysisType,
+    startTime: number
+  ): Promise<TaskResult> {
+    const inferenceOptions = {
+      format: ANALYSIS_SCHEMAS[resultType],
+      timeout: task.timeoutMs,
+      temperature: 0.1, // Low temperature for consistent analysis
+      maxTokens: 2048,
+      signal: slot.abortController.signal,
+      keepAlive: this.config.modelKeepAlive,
+    };
+
+    const inference = await this.llmProvider.executeInference(task.modelName, prompt, inferenceOptions);
+    let parsed = parseAnalysisResponse(inference.response, resultType);
+    let reprompted = false;
+
+    if (!parsed.success) {
+      console.warn(`Invalid ${resultType} response for task ${task.id}, re-prompting:`, parsed.errors);
+      const retry = await this.llmProvider.executeInference(
+        task.modelName,
+        buildRepairPrompt(prompt, inference.response, parsed.errors, resultType),
+        inferenceOptions
+      );
+      parsed = parseAnalysisResponse(retry.response, resultType);
+      reprompted = true;
+    }
+
+    if (!parsed.success) {
+      throw new AnalysisError(
+        AnalysisErrorType.AI_INVALID_RESPONSE,
+        `Model response does not match the ${resultType} schema: ${parsed.errors.slice(0, 3).join('; ')}`,
+        {
+          fileId: task.metadata.fileId !== undefined ? String(task.metadata.fileId) : undefined,
+          fileName: task.metadata.fileName,
+          stage: 'response-validation',
+          recoverable: true,
+          retryCount: task.retryCount,
+        }
+      );
+    }
+
+    const { confidence, reasoning } = getResultSummary(parsed.value, resultType);
+    const analysis = task.namingProfile && resultType === 'rename-suggestions'
+      ? applyNamingProfileToSuggestions(parsed.value, task.namingProfile)
+      : parsed.value;
+
+    return {
+      taskId: task.id,
+      success: true,
+      result: {
+        analysis,
+        resultType,
+        confidence,
+        reasoning,
+        repaired: parsed.repaired || reprompted,
+        fileId: task.metadata.fileId,
+        fileName: task.metadata.fileName,
+        filePath: task.filePath,
+        analysisType: task.analysisType,
+        modelUsed: task.modelName,
+      },
+      executionTimeMs: Date.now() - startTime,
+      memoryUsedMB: slot.allocatedMemoryMB,
+    };
+  }
+
+  /**
+   * Result schema for tasks created without an explicit result type
+   */
+  private getResultType(analysisType: FileAnalysisTask['analysisType']): AnalysisType {
+    switch (analysisType) {
+      case 'summary':
+        return 'content-summary';
+      case 'extraction':
+        return 'metadata-extraction';
+      default:
+        return 'classification';
+    }
+  }
+
+  /**
+   * Read file content for prompts, honouring the task's content options
+   */
+  private async readFileContent(
+    filePath: string,
+    contentHash?: string,
+    options: FileAnalysisTask['contentOptions'] = {}
+  ): Promise<string> {
+    const nameOnly = `File: ${filePath} (no extractable text content)`;
+
+    if (options.includeFileContent === false) {
+      return nameOnly;
+    }
+
+    const extracted = await this.contentExtractor.extract(filePath, {
+      maxLength: options.contentPreviewLength,
+      sha256: contentHash,
+    });
+
+    // Binary and unsupported formats fall back to name-only analysis
+    return extracted && extracted.text ? extracted.text : nameOnly;
+  }
+
   /**
    * Execute batch processing task
    */
@@ -558,16 +949,18 @@ export class AgentManager extends EventEmitter {
           for (const filePath of batch) {
             try {
               // Create individual file analysis sub-task
-              const fileContent = `Content of ${filePath}`; // Placeholder
+              const fileContent = await this.readFileContent(filePath);
               const prompt = `Analyze the following file content:\n\n${fileContent}\n\nAnalysis:`;
               
-              const inference = await this.ollamaClient.executeInference(
+              const inference = await this.llmProvider.executeInference(
                 task.modelName,
                 prompt,
                 {
                   timeout: Math.floor(task.timeoutMs / task.filePaths.length), // Divide timeout across files
                   temperature: 0.1,
                   maxTokens: 1024,
+                  signal: slot.abortController.signal,
+                  keepAlive: this.config.modelKeepAlive,
                 }
               );
               
@@ -599,16 +992,18 @@ export class AgentManager extends EventEmitter {
         
         const processBatch = async (filePath: string): Promise<any> => {
           try {
-            const fileContent = `Content of ${filePath}`;
+            const fileContent = await this.readFileContent(filePath);
             const prompt = `Analyze the following file content:\n\n${fileContent}\n\nAnalysis:`;
             
-            const inference = await this.ollamaClient.executeInference(
+            const inference = await this.llmProvider.executeInference(
               task.modelName,
               prompt,
               {
                 timeout: task.timeoutMs,
                 temperature: 0.1,
                 maxTokens: 1024,
+                signal: slot.abortController.signal,
+                keepAlive: this.config.modelKeepAlive,
               }
             );
             
@@ -676,7 +1071,7 @@ export class AgentManager extends EventEmitter {
 
     switch (task.component) {
       case 'ollama':
-        result = await this.ollamaClient.getHealthStatus();
+        result = await this.llmProvider.getHealthStatus();
         break;
       case 'database':
         result = { status: 'healthy', connected: true }; // Database check implementation
@@ -698,13 +1093,20 @@ export class AgentManager extends EventEmitter {
   }
 
   /**
-   * Cleanup completed or failed task slot
+   * Cleanup completed or failed task slot. A request still in flight, as
+   * when the task is cancelled or the manager stops, is aborted.
    */
   private async cleanupSlot(slotId: string): Promise<void> {
     const slot = this.activeSlots.get(slotId);
     if (!slot) return;
 
     this.activeSlots.delete(slotId);
+    slot.abortController.abort();
+
+    const resident = this.residentModels.get(slot.modelName);
+    if (resident) {
+      resident.lastUsedAt = Date.now();
+    }
     
     console.log(`Slot ${slotId} cleaned up (task: ${slot.taskId})`);
     this.emit('slot-freed', slot);
@@ -716,14 +1118,144 @@ export class AgentManager extends EventEmitter {
   }
 
   /**
-   * Load model memory estimates from database or Ollama
+   * Load models before a run so its first tasks do not each wait for a
+   * load. Models are loaded one at a time, skipping those already loaded or
+   * without the memory to load beside them. Returns the models now loaded.
+   */
+  public async preloadModels(modelNames: string[]): Promise<string[]> {
+    const requested = Array.from(new Set(modelNames));
+
+    for (const modelName of requested) {
+      if (this.residentModels.has(modelName)) continue;
+
+      if (!this.canLoadModel(modelName, this.getModelMemory(modelName))) {
+        console.warn(`Not preloading ${modelName}: not enough memory beside the loaded models`);
+        continue;
+      }
+
+      if (await this.llmProvider.preloadModel(modelName, this.config.modelKeepAlive)) {
+        const now = Date.now();
+        this.residentModels.set(modelName, { loadedAt: now, lastUsedAt: now });
+        this.emit('model-loaded', { modelName });
+      }
+    }
+
+    return requested.filter(modelName => this.residentModels.has(modelName));
+  }
+
+  /**
+   * Models loaded in the model server with their slot pools, most recently
+   * used first
+   */
+  public getModelResidency(): ModelResidency[] {
+    const queuedTasks = new Map<string, number>();
+    for (const task of this.taskQueue.getQueuedTasks()) {
+      const modelName = this.getTaskModelName(task);
+      queuedTasks.set(modelName, (queuedTasks.get(modelName) || 0) + 1);
+    }
+
+    return Array.from(this.residentModels.entries())
+      .map(([modelName, { loadedAt, lastUsedAt }]) => {
+        const memoryMB = this.getModelMemory(modelName);
+        return {
+          modelName,
+          memoryMB,
+          activeSlots: this.countModelSlots(modelName),
+          slotLimit: this.getModelSlotLimit(modelName, memoryMB),
+          queuedTasks: queuedTasks.get(modelName) || 0,
+          loadedAt,
+          lastUsedAt,
+        };
+      })
+      .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  private withModelResidency(health: SystemHealth | null): SystemHealth | null {
+    return health && { ...health, models: this.getModelResidency() };
+  }
+
+  /**
+   * Whether a task's model has a free slot in its pool and, when the model
+   * is not loaded yet, the memory to load it
+   */
+  private hasModelSlot(task: AgentTask): boolean {
+    if (task.type === 'health-check') return true;
+
+    const memoryMB = this.getModelMemory(task.modelName, task.estimatedMemoryMB);
+    return this.countModelSlots(task.modelName) < this.getModelSlotLimit(task.modelName, memoryMB) &&
+      this.canLoadModel(task.modelName, memoryMB);
+  }
+
+  /**
+   * Size of a model's slot pool: the slots its memory allows, within the
+   * global slot count and any configured limit. Every model gets at least
+   * one slot, so a model larger than the free memory still runs one task
+   * at a time.
+   */
+  private getModelSlotLimit(modelName: string, memoryMB: number): number {
+    const availableMB = this.lastSystemHealth
+      ? this.lastSystemHealth.memory.availableForAgents / (1024 * 1024)
+      : Infinity;
+    const memoryBasedSlots = Math.max(1, Math.floor(availableMB / (memoryMB * this.config.safetyFactor)));
+
+    return Math.min(memoryBasedSlots, this.totalSlots, this.config.modelSlotLimits[modelName] ?? Infinity);
+  }
+
+  /**
+   * A model can load when it already is loaded, nothing else is, or it fits
+   * in the free memory beside the loaded models
+   */
+  private canLoadModel(modelName: string, memoryMB: number): boolean {
+    if (this.residentModels.has(modelName) || this.residentModels.size === 0 || !this.lastSystemHealth) {
+      return true;
+    }
+    const availableMB = this.lastSystemHealth.memory.availableForAgents / (1024 * 1024);
+    return memoryMB * this.config.safetyFactor <= availableMB;
+  }
+
+  private countModelSlots(modelName: string): number {
+    return Array.from(this.activeSlots.values()).filter(slot => slot.modelName === modelName).length;
+  }
+
+  private getModelMemory(modelName: string, fallbackMB?: number): number {
+    return this.modelMemoryEstimates.get(modelName) || fallbackMB || 4096; // 4GB default
+  }
+
+  /**
+   * Loaded models that no running or queued task needs and that have been
+   * idle for at least idleForMs. Tasks waiting on dependencies do not keep a
+   * model loaded, as their dependencies may need the memory.
+   */
+  private getUnusedModels(idleForMs: number = 0): string[] {
+    const now = Date.now();
+    const neededModels = new Set(this.taskQueue.getQueuedTasks().map(task => this.getTaskModelName(task)));
+
+    return Array.from(this.residentModels.entries())
+      .filter(([modelName, { lastUsedAt }]) =>
+        now - lastUsedAt >= idleForMs &&
+        !neededModels.has(modelName) &&
+        this.countModelSlots(modelName) === 0
+      )
+      .map(([modelName]) => modelName);
+  }
+
+  private async unloadModels(modelNames: string[]): Promise<void> {
+    for (const modelName of modelNames) {
+      this.residentModels.delete(modelName);
+      await this.llmProvider.unloadModel(modelName);
+      this.emit('model-unloaded', { modelName });
+    }
+  }
+
+  /**
+   * Load model memory estimates from the model provider
    */
   private async loadModelMemoryEstimates(): Promise<void> {
     try {
-      const models = await this.ollamaClient.getModels();
+      const models = await this.llmProvider.getModels();
       
       for (const model of models) {
-        const memoryMB = this.ollamaClient.estimateModelMemory(model) / (1024 * 1024);
+        const memoryMB = this.llmProvider.estimateModelMemory(model) / (1024 * 1024);
         this.modelMemoryEstimates.set(model.name, memoryMB);
       }
       
@@ -804,6 +1336,18 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  /**
+   * Cancel every running task, aborting its inference and freeing its slot
+   * straight away. Returns the number of tasks cancelled.
+   */
+  public async cancelRunningTasks(reason: string): Promise<number> {
+    const runningTasks = Array.from(this.runningTasks.values());
+    for (const task of runningTasks) {
+      await this.cancelTask(task.id, reason);
+    }
+    return runningTasks.length;
+  }
+
   /**
    * Emergency stop all operations
    */
@@ -812,13 +1356,19 @@ export class AgentManager extends EventEmitter {
     this.emergencyMode = true;
 
     // Cancel all running tasks
-    const runningTasks = this.taskQueue.getRunningTasks();
-    for (const task of runningTasks) {
-      await this.cancelTask(task.id, `Emergency stop: ${reason}`);
-    }
+    await this.cancelRunningTasks(`Emergency stop: ${reason}`);
 
-    // Clear queue
+    // Clear queue and the tasks waiting on queued ones, recording them as
+    // cancelled so a restart does not pick them up again
+    const pendingTasks = [...this.taskQueue.getQueuedTasks(), ...this.waitingTasks.values()];
     this.taskQueue.clear();
+    this.waitingTasks.clear();
+    this.dependents.clear();
+    for (const task of pendingTasks) {
+      task.completedAt = Date.now();
+      this.transitionTask(task, TaskState.CANCELLED);
+      this.emit('task-cancelled', { taskId: task.id, reason: `Emergency stop: ${reason}` });
+    }
 
     this.emit('emergency-stop', { reason });
   }
@@ -827,7 +1377,7 @@ export class AgentManager extends EventEmitter {
    * Emergency eviction of lowest priority tasks
    */
   private async emergencyEviction(): Promise<void> {
-    const runningTasks = this.taskQueue.getRunningTasks();
+    const runningTasks = Array.from(this.runningTasks.values());
     
     // Sort by priority (higher numbers = lower priority)
     runningTasks.sort((a, b) => b.priority - a.priority);
@@ -907,3 +1457,18 @@ export function destroyAgentManager(): Promise<void> {
   }
   return Promise.resolve();
 }
+
+/**
+ * Put file content in place of the template's {{content}}, or after the
+ * template when it has no placeholder
+ */
+function fillPromptTemplate(template: string, content: string): string {
+  return template.includes('{{content}}')
+    ? template.replace('{{content}}', () => content)
+    : `${template}\n\n${content}`;
+}
+
+function describeTask(task: AgentTask): string {
+  const stage = task.type === 'file-analysis' ? task.resultType || task.analysisType : task.type;
+  return `${stage} task ${task.id}`;
+}
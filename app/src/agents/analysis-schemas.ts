@@ -0,0 +1,294 @@
+/**
+ * JSON schemas for structured analysis results
+ * Constrains model output per analysis type, validates responses and repairs
+ * the common ways models break JSON before falling back to a re-prompt
+ */
+
+import type { JsonSchema } from '../lib/llm-provider';
+import { getConfidenceScorer, type NamingProfile } from '../lib/confidence-scorer';
+import type { AnalysisType } from './prompt-templates';
+
+const confidence: JsonSchema = { type: 'number', minimum: 0, maximum: 100, description: 'Confidence from 0 to 100' };
+const reasoning: JsonSchema = { type: 'string' };
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Response schema for each analysis type. Fields beyond the listed ones are
+ * allowed so richer prompts keep working.
+ */
+export const ANALYSIS_SCHEMAS: Record<AnalysisType, JsonSchema> = {
+  'rename-suggestions': {
+    type: 'object',
+    properties: {
+      suggestions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            filename: { type: 'string', minLength: 1 },
+            tokens: { type: 'object', description: 'Value of each naming convention part, when asked for' },
+            confidence,
+            reasoning,
+          },
+          required: ['filename', 'confidence', 'reasoning'],
+        },
+      },
+      originalName: { type: 'string' },
+      analysisNotes: { type: 'string' },
+    },
+    required: ['suggestions'],
+  },
+  'classification': {
+    type: 'object',
+    properties: {
+      primaryCategory: { type: 'string', minLength: 1 },
+      secondaryCategories: stringList,
+      contentType: { type: 'string' },
+      priority: { type: 'string', enum: ['high', 'medium', 'low'] },
+      confidence,
+      reasoning,
+    },
+    required: ['primaryCategory', 'confidence', 'reasoning'],
+  },
+  'content-summary': {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', minLength: 1 },
+      keyPoints: stringList,
+      fileType: { type: 'string' },
+      confidence,
+      reasoning,
+    },
+    required: ['summary', 'confidence', 'reasoning'],
+  },
+  'metadata-extraction': {
+    type: 'object',
+    properties: {
+      coreMetadata: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          type: { type: 'string' },
+          format: { type: 'string' },
+        },
+        required: ['title', 'type'],
+      },
+      contentMetadata: {
+        type: 'object',
+        properties: {
+          subject: { type: 'string' },
+          keywords: stringList,
+          themes: stringList,
+        },
+      },
+      confidence,
+      reasoning,
+    },
+    required: ['coreMetadata', 'confidence', 'reasoning'],
+  },
+};
+
+export type AnalysisResponseParseResult =
+  | { success: true; value: any; repaired: boolean }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate a value against a schema, returning one message per violation
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, at: string = '$'): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${at}: expected ${schema.type}, got ${describeType(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${at}: must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${at}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${at}: must be <= ${schema.maximum}`);
+  }
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${at}: must not be empty`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${at}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(item, schema.items!, `${at}[${index}]`)));
+    }
+  } else if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push(`${at}.${key}: is required`);
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateAgainstSchema(record[key], propertySchema, `${at}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Extract the first balanced JSON object from text such as markdown fences
+ * or prose around the answer
+ */
+export function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return text.slice(start, i + 1);
+  }
+
+  return null;
+}
+
+/**
+ * Remove commas directly before a closing brace or bracket, outside strings
+ */
+export function removeTrailingCommas(json: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(json.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+
+  return result;
+}
+
+/**
+ * Parse and validate a model response for an analysis type, repairing
+ * surrounding text and trailing commas if the raw response does not parse
+ */
+export function parseAnalysisResponse(response: string, analysisType: AnalysisType): AnalysisResponseParseResult {
+  let value: unknown;
+  let repaired = false;
+
+  try {
+    value = JSON.parse(response);
+  } catch (parseError) {
+    const extracted = extractJsonObject(response);
+    if (!extracted) {
+      return { success: false, errors: [`Response is not JSON: ${(parseError as Error).message}`] };
+    }
+
+    try {
+      value = JSON.parse(removeTrailingCommas(extracted));
+      repaired = true;
+    } catch (repairError) {
+      return { success: false, errors: [`Response is not valid JSON: ${(repairError as Error).message}`] };
+    }
+  }
+
+  const errors = validateAgainstSchema(value, ANALYSIS_SCHEMAS[analysisType]);
+  return errors.length > 0 ? { success: false, errors } : { success: true, value, repaired };
+}
+
+/**
+ * Follow-up prompt asking the model to correct a response that failed validation
+ */
+export function buildRepairPrompt(originalPrompt: string, response: string, errors: string[], analysisType: AnalysisType): string {
+  return `${originalPrompt}
+
+Your previous response could not be used:
+${response.slice(0, 2000)}
+
+It failed validation with these errors:
+${errors.slice(0, 10).map(error => `- ${error}`).join('\n')}
+
+Respond again with only a JSON object matching this schema, without any other text:
+${JSON.stringify(ANALYSIS_SCHEMAS[analysisType])}`;
+}
+
+/**
+ * Rewrite validated rename suggestions to follow a naming profile. The
+ * model's own name is kept as modelFilename when it changes, and required
+ * parts the model left out are listed in missingTokens.
+ */
+export function applyNamingProfileToSuggestions(value: any, profile: NamingProfile): any {
+  const scorer = getConfidenceScorer();
+  return {
+    ...value,
+    namingProfileId: profile.id,
+    suggestions: value.suggestions.map((suggestion: any) => {
+      const tokens = suggestion.tokens && typeof suggestion.tokens === 'object' ? suggestion.tokens : undefined;
+      const result = scorer.applyNamingProfile(suggestion.filename, profile, tokens);
+      return {
+        ...suggestion,
+        filename: result.filename,
+        ...(result.reformatted ? { modelFilename: suggestion.filename } : {}),
+        ...(result.missingTokens.length > 0 ? { missingTokens: result.missingTokens } : {}),
+      };
+    }),
+  };
+}
+
+/**
+ * Confidence (0-100) and reasoning of a validated result; for rename
+ * suggestions, those of the best suggestion
+ */
+export function getResultSummary(value: any, analysisType: AnalysisType): { confidence: number; reasoning?: string } {
+  if (analysisType === 'rename-suggestions') {
+    const best = value.suggestions.reduce((top: any, suggestion: any) =>
+      suggestion.confidence > top.confidence ? suggestion : top);
+    return { confidence: best.confidence, reasoning: best.reasoning };
+  }
+  return { confidence: value.confidence, reasoning: value.reasoning };
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
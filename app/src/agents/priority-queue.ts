@@ -1,19 +1,69 @@
-import { AgentTask, TaskPriority, TaskState, QueueStats, TaskResult } from './task-types';
+import { AgentTask, TaskPriority, TaskState, QueueStats, SessionQueueStats, TaskResult } from './task-types';
 
 /**
- * Priority-based task queue with FIFO ordering within priority levels
+ * Scheduling configuration
+ */
+export interface PriorityQueueConfig {
+  agingIntervalMs: number;          // A queued task gains one priority level per interval waited
+  maxAgedPriority: TaskPriority;    // Aging never lifts a task above this level
+  fairSharing: boolean;             // Sessions at the same effective priority take turns
+}
+
+/**
+ * Constraints from the dispatcher on which queued task is taken next
+ */
+export interface DispatchSelector {
+  canDispatch?: (task: AgentTask) => boolean;  // Tasks failing this are passed over and stay queued
+  prefer?: (task: AgentTask) => boolean;       // Go first among tasks at the same effective priority
+}
+
+// Lane key for tasks outside any analysis session
+const NO_SESSION = '';
+
+interface DispatchCandidate {
+  task: AgentTask;
+  lane: AgentTask[];
+  effectivePriority: TaskPriority;
+  preferred: boolean;
+  turn: number;                     // Dispatch sequence of the session's last task; lower goes first
+}
+
+/**
+ * Priority-based task queue with FIFO ordering within priority levels.
+ *
+ * Queued tasks gain a priority level for every agingIntervalMs they wait, so
+ * background work cannot starve behind a steady stream of higher priority
+ * tasks. Among tasks at the same effective priority, analysis sessions
+ * (metadata.sessionId) take turns, so one large batch does not hold every
+ * slot ahead of a session started after it.
  */
 export class PriorityQueue {
   // Separate queues for each priority level
   private queues: Map<TaskPriority, AgentTask[]> = new Map();
+  // The same tasks split per session, oldest first, for dispatch
+  private lanes: Map<TaskPriority, Map<string, AgentTask[]>> = new Map();
+  private enqueuedAt: Map<string, number> = new Map();
+  private sessionTurns: Map<string, number> = new Map();
+  private lastDispatchedAt: Map<string, number> = new Map();
+  private dispatchSequence: number = 0;
   private completedTasks: TaskResult[] = [];
   private maxCompletedHistory: number = 1000;
+  private config: PriorityQueueConfig;
+
+  private static readonly DEFAULT_CONFIG: PriorityQueueConfig = {
+    agingIntervalMs: 2 * 60 * 1000, // 2 minutes per level
+    maxAgedPriority: TaskPriority.HIGH,
+    fairSharing: true,
+  };
+
+  constructor(config: Partial<PriorityQueueConfig> = {}) {
+    this.config = { ...PriorityQueue.DEFAULT_CONFIG, ...config };
 
-  constructor() {
     // Initialize empty queues for each priority level
     Object.values(TaskPriority).forEach(priority => {
       if (typeof priority === 'number') {
         this.queues.set(priority, []);
+        this.lanes.set(priority, new Map());
       }
     });
   }
@@ -29,47 +79,58 @@ export class PriorityQueue {
 
     // Insert task maintaining FIFO order within priority
     queue.push(task);
+    this.addToLane(task);
+    this.enqueuedAt.set(task.id, Date.now());
 
     console.log(`Task ${task.id} enqueued with priority ${TaskPriority[task.priority]} (queue size: ${queue.length})`);
   }
 
   /**
-   * Get next highest priority task from queues
+   * Get next task to dispatch: the highest effective priority, with sessions
+   * taking turns at the same priority. The selector can pass over tasks that
+   * cannot run yet and favour others, e.g. tasks for an already loaded model.
    */
-  public dequeue(): AgentTask | null {
-    // Check queues in priority order (lowest number = highest priority)
-    const priorities = Array.from(this.queues.keys()).sort((a, b) => a - b);
-    
-    for (const priority of priorities) {
-      const queue = this.queues.get(priority)!;
-      const task = queue.find(t => t.state === TaskState.QUEUED);
-      
-      if (task) {
-        // Remove from queue but keep reference for state tracking
-        const index = queue.indexOf(task);
-        queue.splice(index, 1);
-        
-        console.log(`Task ${task.id} dequeued from priority ${TaskPriority[priority]} queue`);
-        return task;
-      }
+  public dequeue(selector: DispatchSelector = {}): AgentTask | null {
+    const now = Date.now();
+    const next = this.selectNext(now, selector);
+    if (!next) return null; // No queued tasks available
+
+    const { task, lane, effectivePriority } = next;
+    const queue = this.queues.get(task.priority)!;
+    queue.splice(queue.indexOf(task), 1);
+    lane.splice(lane.indexOf(task), 1);
+    if (lane.length === 0) {
+      this.lanes.get(task.priority)!.delete(getSessionKey(task));
     }
 
-    return null; // No queued tasks available
+    const session = getSessionKey(task);
+    this.sessionTurns.set(session, ++this.dispatchSequence);
+    this.lastDispatchedAt.set(session, now);
+    this.enqueuedAt.delete(task.id);
+
+    const aged = effectivePriority !== task.priority ? ` (aged to ${TaskPriority[effectivePriority]})` : '';
+    console.log(`Task ${task.id} dequeued from priority ${TaskPriority[task.priority]} queue${aged}`);
+    return task;
   }
 
   /**
    * Peek at next task without removing it
    */
   public peek(): AgentTask | null {
-    const priorities = Array.from(this.queues.keys()).sort((a, b) => a - b);
-    
-    for (const priority of priorities) {
-      const queue = this.queues.get(priority)!;
-      const task = queue.find(t => t.state === TaskState.QUEUED);
-      if (task) return task;
+    return this.selectNext(Date.now())?.task ?? null;
+  }
+
+  /**
+   * Priority a queued task is dispatched at after aging
+   */
+  public getEffectivePriority(task: AgentTask, now: number = Date.now()): TaskPriority {
+    if (task.priority <= this.config.maxAgedPriority) {
+      return task.priority;
     }
 
-    return null;
+    const waited = now - this.getWaitingSince(task);
+    const levels = Math.floor(waited / this.config.agingIntervalMs);
+    return Math.max(this.config.maxAgedPriority, task.priority - levels);
   }
 
   /**
@@ -155,7 +216,8 @@ export class PriorityQueue {
     const stats: QueueStats = {
       total: allTasks.length,
       byPriority: {} as Record<TaskPriority, number>,
-      byState: {} as Record<TaskState, number>
+      byState: {} as Record<TaskState, number>,
+      bySession: [],
     };
 
     // Initialize counters
@@ -184,9 +246,35 @@ export class PriorityQueue {
       stats.averageWaitTime = waitTimes.reduce((sum, time) => sum + time, 0) / waitTimes.length;
     }
 
+    stats.bySession = this.getSessionStats(queuedTasks);
+
     return stats;
   }
 
+  /**
+   * Wait times per session, sessions dispatched next first
+   */
+  private getSessionStats(queuedTasks: AgentTask[]): SessionQueueStats[] {
+    const now = Date.now();
+    const bySession = new Map<string, AgentTask[]>();
+    for (const task of queuedTasks) {
+      const session = getSessionKey(task);
+      bySession.set(session, [...(bySession.get(session) || []), task]);
+    }
+
+    return Array.from(bySession, ([session, tasks]) => {
+      const waitTimes = tasks.map(t => now - this.getWaitingSince(t));
+      return {
+        sessionId: session === NO_SESSION ? null : session,
+        queuedTasks: tasks.length,
+        longestWaitTime: Math.max(...waitTimes),
+        averageWaitTime: waitTimes.reduce((sum, time) => sum + time, 0) / waitTimes.length,
+        nextPriority: Math.min(...tasks.map(t => this.getEffectivePriority(t, now))),
+        lastDispatchedAt: this.lastDispatchedAt.get(session),
+      };
+    }).sort((a, b) => a.nextPriority - b.nextPriority || b.longestWaitTime - a.longestWaitTime);
+  }
+
   /**
    * Get tasks that are currently running
    */
@@ -233,6 +321,10 @@ export class PriorityQueue {
       }));
     }
 
+    if (removedCount > 0) {
+      this.rebuildLanes();
+    }
+
     if (removedCount > 0) {
       console.log(`Cleaned up ${removedCount} old completed tasks`);
     }
@@ -307,7 +399,93 @@ export class PriorityQueue {
     for (const queue of this.queues.values()) {
       queue.length = 0;
     }
+    for (const sessions of this.lanes.values()) {
+      sessions.clear();
+    }
+    this.enqueuedAt.clear();
+    this.sessionTurns.clear();
+    this.lastDispatchedAt.clear();
     this.completedTasks.length = 0;
     console.log('All task queues cleared');
   }
+
+  private selectNext(now: number, selector: DispatchSelector = {}): DispatchCandidate | null {
+    const { canDispatch, prefer } = selector;
+    let best: DispatchCandidate | null = null;
+
+    for (const sessions of this.lanes.values()) {
+      for (const [session, lane] of sessions) {
+        // The lane's oldest dispatchable task, and its oldest preferred one
+        let first: AgentTask | undefined;
+        let preferred: AgentTask | undefined;
+        for (const task of lane) {
+          if (task.state !== TaskState.QUEUED || (canDispatch && !canDispatch(task))) continue;
+          first = first || task;
+          if (!prefer || prefer(task)) {
+            preferred = task;
+            break;
+          }
+        }
+
+        for (const task of new Set([first, preferred])) {
+          if (!task) continue;
+          const candidate: DispatchCandidate = {
+            task,
+            lane,
+            effectivePriority: this.getEffectivePriority(task, now),
+            preferred: task === preferred,
+            turn: this.config.fairSharing ? (this.sessionTurns.get(session) ?? 0) : 0,
+          };
+          if (!best || this.comesBefore(candidate, best)) {
+            best = candidate;
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private comesBefore(a: DispatchCandidate, b: DispatchCandidate): boolean {
+    if (a.effectivePriority !== b.effectivePriority) return a.effectivePriority < b.effectivePriority;
+    if (a.preferred !== b.preferred) return a.preferred;
+    if (a.turn !== b.turn) return a.turn < b.turn;
+    if (a.task.priority !== b.task.priority) return a.task.priority < b.task.priority;
+    return a.task.createdAt < b.task.createdAt;
+  }
+
+  /**
+   * Insert by creation time, so retried and restored tasks keep their place
+   */
+  private addToLane(task: AgentTask): void {
+    const sessions = this.lanes.get(task.priority)!;
+    const session = getSessionKey(task);
+    if (!sessions.has(session)) {
+      sessions.set(session, []);
+    }
+
+    const lane = sessions.get(session)!;
+    let index = lane.length;
+    while (index > 0 && lane[index - 1].createdAt > task.createdAt) {
+      index--;
+    }
+    lane.splice(index, 0, task);
+  }
+
+  private rebuildLanes(): void {
+    for (const sessions of this.lanes.values()) {
+      sessions.clear();
+    }
+    for (const queue of this.queues.values()) {
+      queue.forEach(task => this.addToLane(task));
+    }
+  }
+
+  private getWaitingSince(task: AgentTask): number {
+    return this.enqueuedAt.get(task.id) ?? task.createdAt;
+  }
+}
+
+function getSessionKey(task: AgentTask): string {
+  return typeof task.metadata?.sessionId === 'string' ? task.metadata.sessionId : NO_SESSION;
 }
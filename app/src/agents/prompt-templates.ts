@@ -3,6 +3,9 @@
  * Provides specialized prompts for different file types and analysis requirements
  */
 
+import { getContentExtractionService } from '../lib/content-extractor';
+import type { NamingProfile } from '../lib/confidence-scorer';
+
 /**
  * File type categories for prompt selection
  */
@@ -24,6 +27,25 @@ export type AnalysisType =
   | 'content-summary'     // Summarize file content and purpose
   | 'metadata-extraction' // Extract key metadata and properties
 
+/**
+ * Order analyses of one file run in when several are requested; each stage
+ * sees the results of the stages before it
+ */
+export const ANALYSIS_PIPELINE: AnalysisType[] = [
+  'metadata-extraction',
+  'classification',
+  'content-summary',
+  'rename-suggestions',
+];
+
+/**
+ * Result of an earlier analysis of the same file
+ */
+export interface UpstreamAnalysis {
+  analysisType: AnalysisType;
+  result: any;                     // Validated response of that analysis
+}
+
 /**
  * File context information for prompt generation
  */
@@ -37,6 +59,18 @@ export interface FileContext {
   mimeType?: string;
   createdAt?: number;
   modifiedAt?: number;
+  contentPreview?: string;         // Extracted text content, already truncated
+  upstreamAnalyses?: UpstreamAnalysis[]; // Earlier pipeline stages for this file
+}
+
+/**
+ * A past review decision on a similar file, shown to the model as an example
+ */
+export interface FewShotExample {
+  fileName: string;                // Name of the reviewed file
+  suggestedValue: string;
+  decision: 'approve' | 'reject';
+  correctedValue?: string;         // What the reviewer chose instead
 }
 
 /**
@@ -49,6 +83,42 @@ export interface PromptOptions {
   maxTokens?: number;             // Maximum response tokens
   responseFormat: 'json' | 'text'; // Expected response format
   customInstructions?: string;     // Additional custom instructions
+  namingProfile?: NamingProfile;   // House style rename suggestions must follow
+  feedbackExamples?: FewShotExample[]; // Review decisions on similar files
+}
+
+const UPSTREAM_LABELS: Record<AnalysisType, string> = {
+  'metadata-extraction': 'Metadata',
+  'classification': 'Classification',
+  'content-summary': 'Summary',
+  'rename-suggestions': 'Suggested names',
+};
+
+// One line per earlier result, from the fields its schema guarantees or commonly carries
+const UPSTREAM_DESCRIPTIONS: Record<AnalysisType, (result: any) => string | undefined> = {
+  'metadata-extraction': result => joinDescribed([
+    result.coreMetadata?.title && `title "${result.coreMetadata.title}"`,
+    result.coreMetadata?.type && `type ${result.coreMetadata.type}`,
+    result.contentMetadata?.subject && `subject ${result.contentMetadata.subject}`,
+    result.contentMetadata?.keywords?.length && `keywords ${result.contentMetadata.keywords.join(', ')}`,
+  ]),
+  'classification': result => joinDescribed([
+    result.primaryCategory,
+    result.contentType,
+    result.secondaryCategories?.length && `also ${result.secondaryCategories.join(', ')}`,
+  ]),
+  'content-summary': result => joinDescribed([
+    result.summary,
+    result.keyPoints?.length && `key points: ${result.keyPoints.join(', ')}`,
+  ]),
+  'rename-suggestions': result => joinDescribed([
+    Array.isArray(result.suggestions) && result.suggestions.map((s: any) => s.filename).join(', '),
+  ]),
+};
+
+function joinDescribed(parts: unknown[]): string | undefined {
+  const described = parts.filter((part): part is string => typeof part === 'string' && part.trim() !== '');
+  return described.length > 0 ? described.join('; ') : undefined;
 }
 
 /**
@@ -72,6 +142,7 @@ export class PromptTemplateManager {
   ): string {
     const fileCategory = this.categorizeFile(context);
     const sizeCategory = this.categorizeFileSize(context.fileSize);
+    context = this.applyContentOptions(context, options);
     
     switch (analysisType) {
       case 'rename-suggestions':
@@ -117,8 +188,8 @@ ${categoryGuidelines}
 - Keep the original file extension: ${context.fileExtension}
 - Use clear, descriptive language
 - Follow filesystem naming conventions (no special characters: / \\ : * ? " < > |)
-- Maximum filename length: 100 characters
-- Use hyphens or underscores for word separation
+${options.namingProfile ? this.describeNamingProfile(options.namingProfile) : `- Maximum filename length: 100 characters
+- Use hyphens or underscores for word separation`}
 - Avoid generic terms like "file", "document", "untitled"
 
 CONTEXT CLUES TO CONSIDER:
@@ -126,14 +197,59 @@ CONTEXT CLUES TO CONSIDER:
 - File size: ${fileSizeKB}KB (${sizeCategory})
 - Current name pattern: ${context.fileName}
 ${context.relativePathFromRoot ? `- Path structure: ${context.relativePathFromRoot}` : ''}
-
+${options.feedbackExamples?.length ? `\n${this.describeFeedbackExamples(options.feedbackExamples)}\n` : ''}
 ${options.customInstructions || ''}
 
-${options.responseFormat === 'json' ? this.getJsonResponseFormat('rename') : this.getTextResponseFormat('rename')}`;
+${options.responseFormat === 'json' ? this.getJsonResponseFormat(options.namingProfile ? 'rename-with-tokens' : 'rename') : this.getTextResponseFormat('rename')}`;
 
     return prompt;
   }
 
+  /**
+   * Requirement lines describing a naming profile, for rename prompts
+   */
+  public static describeNamingProfile(profile: NamingProfile): string {
+    const tokens = Array.from(profile.template.matchAll(/\{([a-z_]+)\}/g), match => match[1]);
+    const caseStyles: Record<NamingProfile['caseStyle'], string> = {
+      kebab: 'lowercase words',
+      snake: 'lowercase words',
+      camel: 'camelCase',
+      pascal: 'PascalCase',
+      lower: 'lowercase words',
+      upper: 'UPPERCASE words',
+      preserve: 'words in their natural case',
+    };
+    const joined = profile.caseStyle === 'camel' || profile.caseStyle === 'pascal'
+      ? ''
+      : ` joined with "${profile.separator}"`;
+
+    return [
+      `- Follow the "${profile.name}" naming convention: ${profile.template} (before the extension)`,
+      `- Write ${caseStyles[profile.caseStyle]}${joined} inside each part`,
+      tokens.includes('date') ? `- Write dates as ${profile.dateFormat}` : '',
+      profile.requiredTokens.length > 0 ? `- Always include: ${profile.requiredTokens.join(', ')}` : '',
+      tokens.length > 0 ? `- Give the value of each part (${tokens.join(', ')}) in "tokens"` : '',
+      `- Maximum filename length: ${profile.maxLength} characters`,
+    ].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Past review decisions on similar files, so suggestions follow what the
+   * user accepted before
+   */
+  public static describeFeedbackExamples(examples: FewShotExample[]): string {
+    const lines = examples.map(example => {
+      if (example.correctedValue) {
+        return `- ${example.fileName}: "${example.suggestedValue}" was replaced with "${example.correctedValue}"`;
+      }
+      return example.decision === 'approve'
+        ? `- ${example.fileName}: "${example.suggestedValue}" was accepted`
+        : `- ${example.fileName}: "${example.suggestedValue}" was rejected`;
+    });
+
+    return `PAST DECISIONS ON SIMILAR FILES (follow the accepted style, avoid what was rejected):\n${lines.join('\n')}`;
+  }
+
   /**
    * Generate classification prompt
    */
@@ -168,7 +284,7 @@ AVAILABLE PRIMARY CATEGORIES:
 - personal: Individual documents, photos
 - work: Professional documents, projects
 - system: Configuration, logs, temporary files
-
+${options.feedbackExamples?.length ? `\n${this.describeFeedbackExamples(options.feedbackExamples)}\n` : ''}
 ${options.customInstructions || ''}
 
 ${options.responseFormat === 'json' ? this.getJsonResponseFormat('classification') : this.getTextResponseFormat('classification')}`;
@@ -256,6 +372,25 @@ ${options.responseFormat === 'json' ? this.getJsonResponseFormat('metadata') : t
     return prompt;
   }
 
+  /**
+   * Drop or trim the content preview according to prompt options
+   */
+  private static applyContentOptions(context: FileContext, options: PromptOptions): FileContext {
+    if (!context.contentPreview) {
+      return context;
+    }
+
+    if (options.includeFileContent === false) {
+      return { ...context, contentPreview: undefined };
+    }
+
+    if (options.contentPreviewLength !== undefined) {
+      return { ...context, contentPreview: PromptUtils.truncateContent(context.contentPreview, options.contentPreviewLength) };
+    }
+
+    return context;
+  }
+
   /**
    * Build base file context string
    */
@@ -270,13 +405,35 @@ ${options.responseFormat === 'json' ? this.getJsonResponseFormat('metadata') : t
 ${context.relativePathFromRoot ? `- Relative Path: ${context.relativePathFromRoot}` : ''}
 ${context.mimeType ? `- MIME Type: ${context.mimeType}` : ''}
 ${context.createdAt ? `- Created: ${new Date(context.createdAt).toLocaleDateString()}` : ''}
-${context.modifiedAt ? `- Modified: ${new Date(context.modifiedAt).toLocaleDateString()}` : ''}`;
+${context.modifiedAt ? `- Modified: ${new Date(context.modifiedAt).toLocaleDateString()}` : ''}${context.contentPreview ? `
+
+FILE CONTENT PREVIEW:
+"""
+${PromptUtils.sanitizeForPrompt(context.contentPreview)}
+"""` : ''}${context.upstreamAnalyses?.length ? `
+
+${this.describeUpstreamAnalyses(context.upstreamAnalyses)}` : ''}`;
+  }
+
+  /**
+   * Results of earlier analyses of the file, so later stages build on them
+   * instead of guessing again
+   */
+  public static describeUpstreamAnalyses(analyses: UpstreamAnalysis[]): string {
+    const lines = analyses.flatMap(({ analysisType, result }) => {
+      const description = UPSTREAM_DESCRIPTIONS[analysisType]?.(result ?? {});
+      return description
+        ? [`- ${UPSTREAM_LABELS[analysisType]}: ${PromptUtils.truncateContent(PromptUtils.sanitizeForPrompt(description), 400)}`]
+        : [];
+    });
+
+    return lines.length > 0 ? `EARLIER ANALYSIS OF THIS FILE:\n${lines.join('\n')}` : '';
   }
 
   /**
    * Categorize file by type
    */
-  private static categorizeFile(context: FileContext): FileTypeCategory {
+  public static categorizeFile(context: Pick<FileContext, 'fileExtension'>): FileTypeCategory {
     const ext = (context.fileExtension || '').toLowerCase();
     
     // Document extensions
@@ -454,6 +611,21 @@ ${context.modifiedAt ? `- Modified: ${new Date(context.modifiedAt).toLocaleDateS
   "analysisNotes": "Overall insights about filename improvements",
   "namingPattern": "Description of recommended naming pattern"
 }`;
+
+      case 'rename-with-tokens':
+        return `RESPONSE FORMAT (JSON):
+{
+  "suggestions": [
+    {
+      "filename": "suggested-filename-1.ext",
+      "tokens": { "part": "value for each part of the naming convention" },
+      "confidence": 85,
+      "reasoning": "Explanation of why this name is better"
+    }
+  ],
+  "originalName": "current-filename.ext",
+  "analysisNotes": "Overall insights about filename improvements"
+}`;
         
       case 'classification':
         return `RESPONSE FORMAT (JSON):
@@ -604,10 +776,9 @@ export class PromptUtils {
   /**
    * Extract file content preview safely
    */
-  public static extractContentPreview(filePath: string, maxLength: number = 500): Promise<string> {
-    // This would implement secure file content reading
-    // For now, return a placeholder
-    return Promise.resolve(`[Content preview for ${filePath} - ${maxLength} chars max]`);
+  public static async extractContentPreview(filePath: string, maxLength: number = 500, sha256?: string): Promise<string> {
+    const extracted = await getContentExtractionService().extract(filePath, { maxLength, sha256 });
+    return extracted ? extracted.text : '';
   }
 
   /**
@@ -1,3 +1,6 @@
+import type { AnalysisType, PromptOptions, UpstreamAnalysis } from './prompt-templates';
+import type { NamingProfile } from '../lib/confidence-scorer';
+
 /**
  * Task priority levels for agent execution
  */
@@ -37,6 +40,7 @@ export interface AgentTaskBase {
   maxRetries: number;
   metadata: Record<string, any>;
   estimatedMemoryMB: number;
+  dependencies?: string[];               // Ids of tasks that must complete before this one is dispatched
 }
 
 /**
@@ -49,6 +53,11 @@ export interface FileAnalysisTask extends AgentTaskBase {
   analysisType: 'classification' | 'summary' | 'extraction';
   promptTemplate: string;
   expectedResponseFormat: 'json' | 'text';
+  resultType?: AnalysisType;             // Schema JSON responses must satisfy; derived from analysisType if unset
+  contentHash?: string;                  // files.sha256, used as extracted content cache key
+  contentOptions?: Pick<PromptOptions, 'includeFileContent' | 'contentPreviewLength'>;
+  namingProfile?: NamingProfile;         // Rename suggestions are reformatted to follow it
+  upstreamAnalyses?: UpstreamAnalysis[]; // Results of its dependencies, added as each completes
 }
 
 /**
@@ -102,6 +111,20 @@ export interface QueueStats {
   byState: Record<TaskState, number>;
   oldestQueuedTask?: number; // Timestamp of oldest queued task
   averageWaitTime?: number;  // Average wait time in ms
+  bySession: SessionQueueStats[];
+}
+
+/**
+ * Queued work of one analysis session, or of tasks outside any session
+ * (sessionId null). Explains why a session's tasks have not started yet.
+ */
+export interface SessionQueueStats {
+  sessionId: string | null;
+  queuedTasks: number;
+  longestWaitTime: number;               // Ms the oldest queued task has waited
+  averageWaitTime: number;               // Ms
+  nextPriority: TaskPriority;            // Effective priority of its next task, after aging
+  lastDispatchedAt?: number;             // Timestamp a task of the session last left the queue
 }
 
 /**
@@ -114,4 +137,21 @@ export interface AgentSlot {
   allocatedMemoryMB: number;
   startTime: number;
   isActive: boolean;
+  abortController: AbortController;  // Aborts the task's in-flight inference when the slot is cleaned up
+}
+
+/**
+ * Durable record of agent tasks. AgentManager saves each task when it is
+ * created and records every state transition, so queued work survives a
+ * restart.
+ */
+export interface TaskStore {
+  saveTask(task: AgentTask): void;
+  updateTask(task: AgentTask, result?: TaskResult): void;
+  /**
+   * Tasks left running by a previous process go back to the queue with one
+   * retry used, or fail once their retries are exhausted
+   */
+  recoverInterruptedTasks(): { requeued: number; failed: number };
+  loadTasks(filter: { states: TaskState[]; sessionId?: string | null }): AgentTask[];
 }
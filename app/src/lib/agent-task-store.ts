@@ -0,0 +1,212 @@
+import { Logger } from './logger';
+import type { AgentTaskFilters, AgentTaskRecord, DatabaseManager } from './database';
+import { TaskState, type AgentTask, type TaskResult, type TaskStore } from '../agents/task-types';
+
+export interface AgentTaskStoreConfig {
+  finishedTaskRetentionMs: number;  // Finished tasks outside a session are deleted after this
+}
+
+const FINISHED_STATES: AgentTaskRecord['state'][] = ['completed', 'failed', 'cancelled', 'timeout'];
+
+/**
+ * Agent tasks persisted in the agent_tasks table.
+ *
+ * Tasks that belong to an analysis session carry its request id in
+ * metadata.sessionId; they stay in the table until the session completes or
+ * is cancelled, so an interrupted session can be resumed with the results it
+ * already has.
+ */
+export class AgentTaskStore implements TaskStore {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly config: AgentTaskStoreConfig;
+
+  static readonly DEFAULT_CONFIG: AgentTaskStoreConfig = {
+    finishedTaskRetentionMs: 7 * 24 * 60 * 60 * 1000,
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, config: Partial<AgentTaskStoreConfig> = {}) {
+    this.database = database;
+    this.logger = logger;
+    this.config = { ...AgentTaskStore.DEFAULT_CONFIG, ...config };
+  }
+
+  public saveTask(task: AgentTask): void {
+    try {
+      this.database.saveAgentTask(toRecord(task));
+    } catch (error) {
+      this.logger.warn('AgentTaskStore', 'Failed to persist task', { taskId: task.id, error: String(error) });
+    }
+  }
+
+  /**
+   * Record the task's current state, with its result once it has finished
+   */
+  public updateTask(task: AgentTask, result?: TaskResult): void {
+    try {
+      const updated = this.database.updateAgentTask(task.id, {
+        state: task.state,
+        retryCount: task.retryCount,
+        startedAt: task.startedAt ?? null,
+        completedAt: task.completedAt ?? null,
+        ...(result ? {
+          executionTimeMs: result.executionTimeMs,
+          errorMessage: result.error?.message ?? null,
+          resultData: result.result === undefined ? null : JSON.stringify(result.result),
+        } : {}),
+      });
+
+      // Tasks created before the store was attached are saved on their first transition
+      if (!updated) {
+        this.database.saveAgentTask(toRecord(task, result));
+      }
+    } catch (error) {
+      this.logger.warn('AgentTaskStore', 'Failed to persist task state', {
+        taskId: task.id,
+        state: task.state,
+        error: String(error),
+      });
+    }
+  }
+
+  public recoverInterruptedTasks(): { requeued: number; failed: number } {
+    const interrupted = this.database.getAgentTasks({ states: ['running'] });
+    let requeued = 0;
+    let failed = 0;
+
+    for (const record of interrupted) {
+      const retryCount = record.retryCount + 1;
+      if (retryCount > record.maxRetries) {
+        this.database.updateAgentTask(record.id, {
+          state: 'failed',
+          completedAt: Date.now(),
+          errorMessage: 'Interrupted while running and no retries are left',
+        });
+        failed++;
+      } else {
+        this.database.updateAgentTask(record.id, { state: 'queued', retryCount, startedAt: null });
+        requeued++;
+      }
+    }
+
+    if (interrupted.length > 0) {
+      this.logger.info('AgentTaskStore', 'Recovered tasks interrupted by the previous shutdown', { requeued, failed });
+    }
+    return { requeued, failed };
+  }
+
+  /**
+   * Persisted tasks in dispatch order. Tasks whose payload cannot be read are
+   * marked failed and skipped.
+   */
+  public loadTasks(filter: { states: TaskState[]; sessionId?: string | null }): AgentTask[] {
+    const tasks: AgentTask[] = [];
+
+    for (const record of this.database.getAgentTasks(filter)) {
+      try {
+        tasks.push({
+          ...JSON.parse(record.payload),
+          state: record.state as TaskState,
+          retryCount: record.retryCount,
+          startedAt: record.startedAt ?? undefined,
+          completedAt: record.completedAt ?? undefined,
+        });
+      } catch (error) {
+        this.logger.warn('AgentTaskStore', 'Ignoring task with an unreadable payload', {
+          taskId: record.id,
+          error: String(error),
+        });
+        this.database.updateAgentTask(record.id, {
+          state: 'failed',
+          completedAt: Date.now(),
+          errorMessage: 'Task could not be restored',
+        });
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Results of a session's finished tasks. Failed tasks without result data
+   * are described by their metadata.
+   */
+  public loadResults(sessionId: string): TaskResult[] {
+    return this.database.getAgentTasks({ sessionId, states: ['completed', 'failed', 'timeout'] }).map(record => {
+      const metadata = parseJson(record.metadata) ?? {};
+      return {
+        taskId: record.id,
+        success: record.state === 'completed' && !record.errorMessage,
+        result: parseJson(record.resultData) ?? {
+          fileId: metadata.fileId,
+          fileName: metadata.fileName,
+          filePath: record.filePath ?? undefined,
+          resultType: metadata.analysisRequest,
+          modelUsed: record.modelName ?? undefined,
+        },
+        error: record.errorMessage ? new Error(record.errorMessage) : undefined,
+        executionTimeMs: record.executionTimeMs ?? 0,
+      };
+    });
+  }
+
+  public countTasks(filter: AgentTaskFilters): number {
+    return this.database.countAgentTasks(filter);
+  }
+
+  /**
+   * Forget a finished or abandoned session's tasks
+   */
+  public deleteSessionTasks(sessionId: string): number {
+    return this.database.deleteAgentTasks({ sessionId });
+  }
+
+  /**
+   * Delete finished tasks outside any session once they are older than the
+   * retention period
+   */
+  public cleanupFinishedTasks(): number {
+    const removed = this.database.deleteAgentTasks({
+      sessionId: null,
+      states: FINISHED_STATES,
+      completedBefore: Date.now() - this.config.finishedTaskRetentionMs,
+    });
+    if (removed > 0) {
+      this.logger.info('AgentTaskStore', `Deleted ${removed} finished tasks`);
+    }
+    return removed;
+  }
+}
+
+function toRecord(task: AgentTask, result?: TaskResult): AgentTaskRecord {
+  return {
+    id: task.id,
+    type: task.type,
+    state: task.state,
+    priority: task.priority,
+    modelName: task.type === 'health-check' ? null : task.modelName,
+    filePath: task.type === 'file-analysis' ? task.filePath : null,
+    sessionId: task.metadata?.sessionId ?? null,
+    timeoutMs: task.timeoutMs,
+    retryCount: task.retryCount,
+    maxRetries: task.maxRetries,
+    estimatedMemoryMB: task.estimatedMemoryMB || 0,
+    createdAt: task.createdAt,
+    startedAt: task.startedAt ?? null,
+    completedAt: task.completedAt ?? null,
+    executionTimeMs: result?.executionTimeMs ?? null,
+    errorMessage: result?.error?.message ?? null,
+    resultData: result?.result === undefined ? null : JSON.stringify(result.result),
+    metadata: JSON.stringify(task.metadata ?? {}),
+    payload: JSON.stringify(task),
+  };
+}
+
+function parseJson(value: string | null): any {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
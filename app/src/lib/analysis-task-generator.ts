@@ -2,6 +2,8 @@ import { getDatabase, DatabaseManager, FileRecord } from './database';
 import { getAgentManager, AgentManager } from '../agents/agent-manager';
 import { logger, AnalysisError, AnalysisErrorType } from './logger';
 import { FileAnalysisTask, TaskPriority, CreateTaskParams } from '../agents/task-types';
+import { ANALYSIS_PIPELINE, PromptTemplateManager, type AnalysisType, type FewShotExample, type PromptOptions } from '../agents/prompt-templates';
+import type { NamingProfile } from './confidence-scorer';
 import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 
@@ -23,9 +25,13 @@ export interface AnalysisTaskGeneratorConfig {
 export interface GenerateTasksRequest {
   fileIds?: number[];                  // Specific file IDs to analyze (interactive mode)
   rootPath?: string;                   // Root path for batch analysis
-  analysisType: 'rename-suggestions' | 'classification' | 'content-summary';
+  analysisType: AnalysisType;
+  analysisTypes?: AnalysisType[];      // Several analyses per file, run in pipeline order; replaces analysisType
   isInteractive: boolean;              // User-triggered vs background analysis
   modelName: string;                   // Ollama model to use for analysis
+  modelNames?: Partial<Record<AnalysisType, string>>; // Model per analysis type, modelName for the rest
+  contentOptions?: Pick<PromptOptions, 'includeFileContent' | 'contentPreviewLength'>;
+  sessionId?: string;                  // Analysis session the tasks are persisted under
 }
 
 /**
@@ -40,12 +46,17 @@ export interface TaskGenerationResult {
 }
 
 /**
- * File analysis task generator that creates per-file analyze tasks from scanned file metadata
+ * File analysis task generator that creates per-file analyze tasks from scanned file metadata.
+ * When several analysis types are requested, each file gets one task per type
+ * in ANALYSIS_PIPELINE order, each depending on the file's earlier stages so
+ * it is prompted with their results.
  */
 export class AnalysisTaskGenerator {
   private config: AnalysisTaskGeneratorConfig;
   private database = getDatabase();
   private agentManager: AgentManager;
+  private namingProfileResolver?: (filePath: string) => NamingProfile | undefined;
+  private feedbackExampleResolver?: (filePath: string, analysisType: string) => FewShotExample[];
 
   private static readonly DEFAULT_CONFIG: AnalysisTaskGeneratorConfig = {
     batchSize: 50,                              // Process 50 files per batch
@@ -74,6 +85,20 @@ export class AnalysisTaskGenerator {
     this.agentManager = getAgentManager();
   }
 
+  /**
+   * Look up the naming profile rename suggestions for a file must follow
+   */
+  public setNamingProfileResolver(resolver: (filePath: string) => NamingProfile | undefined): void {
+    this.namingProfileResolver = resolver;
+  }
+
+  /**
+   * Look up past review decisions on similar files to show as examples
+   */
+  public setFeedbackExampleResolver(resolver: (filePath: string, analysisType: string) => FewShotExample[]): void {
+    this.feedbackExampleResolver = resolver;
+  }
+
   /**
    * Generate analysis tasks for specified files or root path
    */
@@ -159,6 +184,7 @@ export class AnalysisTaskGenerator {
       const taskIds: string[] = [];
       let tasksCreated = 0;
       let taskErrors = 0;
+      const analysisTypes = orderPipeline(request.analysisTypes?.length ? request.analysisTypes : [request.analysisType]);
 
       logger.info('AnalysisTaskGenerator', `Starting batch task creation`, {
         batchSize: this.config.batchSize,
@@ -171,23 +197,31 @@ export class AnalysisTaskGenerator {
         const batch = supportedFiles.slice(i, i + this.config.batchSize);
         
         for (const file of batch) {
-          try {
-            const taskId = await this.createFileAnalysisTask(file, request, priority);
-            taskIds.push(taskId);
-            tasksCreated++;
-            
-            logger.debug('AnalysisTaskGenerator', `Created task for file`, {
-              fileName: file.fileName,
-              taskId: taskId
-            });
-          } catch (error) {
-            taskErrors++;
-            logger.error('AnalysisTaskGenerator', `Failed to create analysis task for file`, error as Error, {
-              fileName: file.fileName,
-              filePath: file.path,
-              fileExtension: file.fileExtension
-            });
-            // Continue with other files
+          const stageTaskIds: string[] = [];
+
+          for (const analysisType of analysisTypes) {
+            try {
+              const taskId = await this.createFileAnalysisTask(file, { ...request, analysisType }, priority, stageTaskIds);
+              stageTaskIds.push(taskId);
+              taskIds.push(taskId);
+              tasksCreated++;
+              
+              logger.debug('AnalysisTaskGenerator', `Created task for file`, {
+                fileName: file.fileName,
+                analysisType,
+                taskId: taskId
+              });
+            } catch (error) {
+              taskErrors++;
+              logger.error('AnalysisTaskGenerator', `Failed to create analysis task for file`, error as Error, {
+                fileName: file.fileName,
+                filePath: file.path,
+                fileExtension: file.fileExtension,
+                analysisType
+              });
+              // Later stages of this file would miss its results; continue with other files
+              break;
+            }
           }
         }
 
@@ -251,23 +285,34 @@ export class AnalysisTaskGenerator {
   private async createFileAnalysisTask(
     file: FileRecord,
     request: GenerateTasksRequest,
-    priority: TaskPriority
+    priority: TaskPriority,
+    dependencies: string[] = []
   ): Promise<string> {
+    const modelName = request.modelNames?.[request.analysisType] || request.modelName;
+
     // Build analysis-specific prompt template based on type
-    const promptTemplate = this.buildPromptTemplate(file, request.analysisType);
+    const namingProfile = request.analysisType === 'rename-suggestions'
+      ? this.namingProfileResolver?.(file.path)
+      : undefined;
+    const feedbackExamples = this.feedbackExampleResolver?.(file.path, request.analysisType) ?? [];
+    const promptTemplate = this.buildPromptTemplate(file, request.analysisType, namingProfile, feedbackExamples);
 
     // Estimate memory requirements based on file size and model
-    const estimatedMemoryMB = this.estimateMemoryRequirements(file, request.modelName);
+    const estimatedMemoryMB = this.estimateMemoryRequirements(file, modelName);
 
     // Create task parameters
     const taskParams: CreateTaskParams<FileAnalysisTask> = {
       type: 'file-analysis',
       priority,
       filePath: file.path,
-      modelName: request.modelName,
+      modelName,
       analysisType: this.mapToAnalysisType(request.analysisType),
       promptTemplate,
       expectedResponseFormat: 'json', // Always expect JSON for structured responses
+      resultType: request.analysisType,
+      contentHash: file.sha256,
+      contentOptions: request.contentOptions,
+      namingProfile,
       timeoutMs: this.calculateTaskTimeout(file),
       maxRetries: 2,
       metadata: {
@@ -278,28 +323,34 @@ export class AnalysisTaskGenerator {
         analysisRequest: request.analysisType,
         isInteractive: request.isInteractive,
         requestId: uuidv4(), // Track related analysis requests
+        sessionId: request.sessionId,
       },
       estimatedMemoryMB,
+      dependencies: dependencies.length > 0 ? [...dependencies] : undefined,
     };
 
-    // Create task via Agent Manager
-    const taskId = this.agentManager.createTask(taskParams);
-
-    // Store task relationship in database for tracking
-    await this.recordTaskCreation(taskId, file.id!, request);
-
-    return taskId;
+    // Agent Manager persists the task with its session so the analysis can be resumed
+    return this.agentManager.createTask(taskParams);
   }
 
   /**
-   * Build analysis-specific prompt template
+   * Build analysis-specific prompt template. The agent manager puts the
+   * file's extracted content in place of {{content}}.
    */
-  private buildPromptTemplate(file: FileRecord, analysisType: string): string {
+  private buildPromptTemplate(
+    file: FileRecord,
+    analysisType: string,
+    namingProfile?: NamingProfile,
+    feedbackExamples: FewShotExample[] = []
+  ): string {
     const fileName = file.fileName || path.basename(file.path);
     const fileExtension = file.fileExtension || '';
     const fileSizeKB = Math.round(file.size / 1024);
     
-    const baseContext = `File: ${fileName}\nExtension: ${fileExtension}\nSize: ${fileSizeKB}KB\nPath: ${file.relativePathFromRoot || file.path}`;
+    const baseContext = `File: ${fileName}\nExtension: ${fileExtension}\nSize: ${fileSizeKB}KB\nPath: ${file.relativePathFromRoot || file.path}\n\nContent:\n{{content}}`;
+    const examples = feedbackExamples.length > 0
+      ? `\n${PromptTemplateManager.describeFeedbackExamples(feedbackExamples)}\n`
+      : '';
 
     switch (analysisType) {
       case 'rename-suggestions':
@@ -312,7 +363,7 @@ Based on the file information above, provide exactly 3 filename suggestions that
 2. Follow good filename conventions (no spaces, clear structure)
 3. Maintain the original file extension
 4. Are appropriate for the file type and context
-
+${namingProfile ? `\nNAMING CONVENTION:\n${PromptTemplateManager.describeNamingProfile(namingProfile)}\n` : ''}${examples}
 Respond in JSON format:
 {
   "suggestions": [
@@ -346,7 +397,7 @@ Analyze the file and classify it into relevant categories. Consider:
 - Likely content or purpose
 - Organization context
 - Priority level
-
+${examples}
 Respond in JSON format:
 {
   "primaryCategory": "documents|media|code|data|archive|other",
@@ -376,13 +427,39 @@ Respond in JSON format:
   "reasoning": "Basis for the summary and analysis"
 }`;
 
+      case 'metadata-extraction':
+        return `Extract the key metadata of the following file.
+
+${baseContext}
+
+Describe what the file is and what it is about:
+- A descriptive title and the specific file type
+- Subject, keywords and themes of its content
+${examples}
+Respond in JSON format:
+{
+  "coreMetadata": {
+    "title": "Descriptive title",
+    "type": "Specific file type",
+    "format": "Technical format details"
+  },
+  "contentMetadata": {
+    "subject": "Primary subject matter",
+    "keywords": ["keyword1", "keyword2", "keyword3"],
+    "themes": ["theme1", "theme2"]
+  },
+  "confidence": 80,
+  "reasoning": "Basis for the extracted metadata"
+}`;
+
       default:
         throw new Error(`Unknown analysis type: ${analysisType}`);
     }
   }
 
   /**
-   * Map request analysis type to task analysis type
+   * Map request analysis type to task analysis type. The task's prompt and
+   * response schema follow its resultType, not this coarser type.
    */
   private mapToAnalysisType(analysisType: string): 'classification' | 'summary' | 'extraction' {
     switch (analysisType) {
@@ -478,15 +555,6 @@ Respond in JSON format:
     return this.database.getFilesByRootPath(rootPath);
   }
 
-  /**
-   * Record task creation in database for tracking
-   */
-  private async recordTaskCreation(taskId: string, fileId: number, request: GenerateTasksRequest): Promise<void> {
-    // This would extend the agent_tasks table with additional metadata
-    // For now, we rely on the Agent Manager's built-in task tracking
-    console.log(`Task ${taskId} created for file ID ${fileId} (type: ${request.analysisType})`);
-  }
-
   /**
    * Utility sleep function
    */
@@ -510,6 +578,13 @@ Respond in JSON format:
   }
 }
 
+/**
+ * Requested analysis types without duplicates, in pipeline order
+ */
+function orderPipeline(analysisTypes: AnalysisType[]): AnalysisType[] {
+  return ANALYSIS_PIPELINE.filter(type => analysisTypes.includes(type));
+}
+
 // Singleton instance
 let generatorInstance: AnalysisTaskGenerator | null = null;
 
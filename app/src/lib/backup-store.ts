@@ -0,0 +1,453 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './logger';
+import type { DatabaseManager, BackupEntryRecord, BackupUsage } from './database';
+import type { BackupStorage } from './transactional-file-manager';
+import { hashFileStream } from '../workers/file-hasher';
+
+export interface BackupRetentionPolicy {
+  maxAgeDays: number;                  // Backups older than this are removed; 0 keeps them forever
+  maxTotalBytes: number;               // Oldest backups are removed until blobs fit; 0 disables the cap
+  keepLastPerFile: number;             // Newest backups kept per original path; 0 keeps all
+}
+
+export interface BackupGarbageCollectionResult {
+  backupsRemoved: number;
+  blobsRemoved: number;
+  bytesFreed: number;
+}
+
+interface BackupSummary {
+  backupId: string;
+  originalPath: string;
+  createdAt: number;
+  blobs: Map<string, number>;          // sha256 -> size
+}
+
+// sha256 of zero bytes; hashFileStream leaves empty files without a hash
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * Content-addressed store for operation backups.
+ *
+ * File contents live once per sha256 under blobs/, so backing up the same
+ * file for several operations costs its size only once. The backup_manifest
+ * table maps each backup to its blobs and to the tree shape needed to restore
+ * it. Backups are referred to as "backup://<id>" in operation backup paths and
+ * the journal; blobs nothing refers to are removed by collectGarbage().
+ */
+export class BackupStore extends EventEmitter implements BackupStorage {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly storeDirectory: string;
+  // Blobs written for backups whose manifest is not stored yet
+  private readonly pendingBlobs = new Map<string, number>();
+  private collecting: Promise<BackupGarbageCollectionResult> | null = null;
+
+  public static readonly REFERENCE_PREFIX = 'backup://';
+
+  private static readonly SETTINGS_KEY = 'backup_retention';
+
+  private static readonly DEFAULT_RETENTION: BackupRetentionPolicy = {
+    maxAgeDays: 30,
+    maxTotalBytes: 5 * 1024 * 1024 * 1024, // 5GB
+    keepLastPerFile: 5,
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, storeDirectory: string) {
+    super();
+    this.database = database;
+    this.logger = logger;
+    this.storeDirectory = storeDirectory;
+  }
+
+  public isBackupReference(value: string): boolean {
+    return value.startsWith(BackupStore.REFERENCE_PREFIX);
+  }
+
+  /**
+   * Back up a file, directory tree or symlink, returning its reference
+   */
+  public async createBackup(
+    sourcePath: string,
+    owner: { operationId: string; transactionId?: string }
+  ): Promise<string> {
+    const backupId = `bk_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+    const createdAt = Date.now();
+    const entries: BackupEntryRecord[] = [];
+    const writtenBlobs: string[] = [];
+
+    try {
+      await this.captureEntry(sourcePath, '', async (entry) => {
+        if (entry.sha256) {
+          writtenBlobs.push(entry.sha256);
+        }
+        entries.push({
+          ...entry,
+          backupId,
+          operationId: owner.operationId,
+          transactionId: owner.transactionId ?? null,
+          originalPath: sourcePath,
+          createdAt,
+        });
+      });
+
+      this.database.insertBackupEntries(entries);
+    } finally {
+      for (const sha256 of writtenBlobs) {
+        this.releasePendingBlob(sha256);
+      }
+    }
+
+    this.logger.debug('BackupStore', 'Backup created', {
+      backupId,
+      sourcePath,
+      entries: entries.length,
+    });
+
+    return BackupStore.REFERENCE_PREFIX + backupId;
+  }
+
+  /**
+   * Recreate a backed-up path at targetPath, including modes and times
+   */
+  public async restoreBackup(reference: string, targetPath: string): Promise<void> {
+    const entries = this.getEntries(reference);
+    if (entries.length === 0) {
+      throw new Error(`Backup not found: ${reference}`);
+    }
+
+    // Entries are ordered parents first; directory times are set last since
+    // creating their children would update them
+    const directories: Array<{ target: string; entry: BackupEntryRecord }> = [];
+
+    for (const entry of entries) {
+      const target = entry.relativePath ? path.join(targetPath, entry.relativePath) : targetPath;
+
+      switch (entry.entryType) {
+        case 'directory':
+          await fs.mkdir(target, { recursive: true });
+          directories.push({ target, entry });
+          break;
+        case 'symlink':
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.symlink(entry.linkTarget!, target);
+          break;
+        case 'file':
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.copyFile(this.getBlobPath(entry.sha256!), target);
+          await fs.chmod(target, entry.mode & 0o7777);
+          await fs.utimes(target, new Date(entry.mtime), new Date(entry.mtime));
+          break;
+      }
+    }
+
+    for (const { target, entry } of directories.reverse()) {
+      await fs.chmod(target, entry.mode & 0o7777);
+      await fs.utimes(target, new Date(entry.mtime), new Date(entry.mtime));
+    }
+  }
+
+  /**
+   * Whether a backup exists and all of its blobs are still on disk
+   */
+  public async hasBackup(reference: string): Promise<boolean> {
+    const entries = this.getEntries(reference);
+    if (entries.length === 0) {
+      return false;
+    }
+
+    try {
+      for (const entry of entries) {
+        if (entry.sha256) {
+          await fs.access(this.getBlobPath(entry.sha256));
+        }
+      }
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Forget a backup; its blobs are removed by the next garbage collection
+   * unless other backups share them
+   */
+  public async deleteBackup(reference: string): Promise<void> {
+    if (this.isBackupReference(reference)) {
+      this.database.deleteBackups([this.getBackupId(reference)]);
+    }
+  }
+
+  public getUsage(): BackupUsage {
+    return this.database.getBackupUsage();
+  }
+
+  public getRetentionPolicy(): BackupRetentionPolicy {
+    const saved = this.database.getSetting(BackupStore.SETTINGS_KEY);
+    return { ...BackupStore.DEFAULT_RETENTION, ...(saved ? JSON.parse(saved) : {}) };
+  }
+
+  public setRetentionPolicy(policy: Partial<BackupRetentionPolicy>): BackupRetentionPolicy {
+    const updated = { ...this.getRetentionPolicy(), ...policy };
+
+    for (const [key, value] of Object.entries(updated)) {
+      if (!Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid backup retention value for ${key}: ${value}`);
+      }
+    }
+
+    this.database.setSetting(BackupStore.SETTINGS_KEY, JSON.stringify(updated));
+    this.emit('retention-updated', updated);
+    return updated;
+  }
+
+  /**
+   * Apply the retention policy and remove blobs no backup refers to.
+   * Concurrent calls share one run.
+   */
+  public collectGarbage(now: number = Date.now()): Promise<BackupGarbageCollectionResult> {
+    if (!this.collecting) {
+      this.collecting = this.runGarbageCollection(now).finally(() => {
+        this.collecting = null;
+      });
+    }
+    return this.collecting;
+  }
+
+  private async runGarbageCollection(now: number): Promise<BackupGarbageCollectionResult> {
+    const expired = this.selectExpiredBackups(this.getRetentionPolicy(), now);
+    const backupsRemoved = this.database.deleteBackups(expired);
+
+    const unreferenced = this.database.getUnreferencedBackupBlobs()
+      .filter(blob => !this.pendingBlobs.has(blob.sha256));
+    let bytesFreed = 0;
+
+    for (const blob of unreferenced) {
+      await fs.rm(this.getBlobPath(blob.sha256), { force: true });
+      bytesFreed += blob.size;
+    }
+    const blobsRemoved = this.database.deleteBackupBlobs(unreferenced.map(blob => blob.sha256));
+
+    bytesFreed += await this.removeOrphanedFiles();
+
+    const result = { backupsRemoved, blobsRemoved, bytesFreed };
+    if (backupsRemoved > 0 || blobsRemoved > 0 || bytesFreed > 0) {
+      this.logger.info('BackupStore', 'Garbage collection completed', result);
+    }
+    this.emit('garbage-collected', result);
+    return result;
+  }
+
+  /**
+   * Backups the retention policy drops: those past the maximum age, those
+   * beyond the newest N per original path, then the oldest remaining ones
+   * until the blobs still referenced fit the size cap
+   */
+  private selectExpiredBackups(policy: BackupRetentionPolicy, now: number): string[] {
+    const backups = new Map<string, BackupSummary>();
+
+    for (const entry of this.database.getBackupEntries()) {
+      let backup = backups.get(entry.backupId);
+      if (!backup) {
+        backup = { backupId: entry.backupId, originalPath: entry.originalPath, createdAt: entry.createdAt, blobs: new Map() };
+        backups.set(entry.backupId, backup);
+      }
+      if (entry.sha256) {
+        backup.blobs.set(entry.sha256, entry.size);
+      }
+    }
+
+    const newestFirst = Array.from(backups.values()).sort((a, b) => b.createdAt - a.createdAt);
+    const expired = new Set<string>();
+
+    if (policy.maxAgeDays > 0) {
+      const cutoff = now - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+      newestFirst.filter(backup => backup.createdAt < cutoff).forEach(backup => expired.add(backup.backupId));
+    }
+
+    if (policy.keepLastPerFile > 0) {
+      const keptPerPath = new Map<string, number>();
+      for (const backup of newestFirst) {
+        const kept = keptPerPath.get(backup.originalPath) || 0;
+        if (kept >= policy.keepLastPerFile) {
+          expired.add(backup.backupId);
+        } else {
+          keptPerPath.set(backup.originalPath, kept + 1);
+        }
+      }
+    }
+
+    if (policy.maxTotalBytes > 0) {
+      const references = new Map<string, { size: number; count: number }>();
+      let totalBytes = 0;
+
+      const remaining = newestFirst.filter(backup => !expired.has(backup.backupId));
+      for (const backup of remaining) {
+        for (const [sha256, size] of backup.blobs) {
+          const reference = references.get(sha256);
+          if (reference) {
+            reference.count++;
+          } else {
+            references.set(sha256, { size, count: 1 });
+            totalBytes += size;
+          }
+        }
+      }
+
+      for (const backup of remaining.reverse()) {
+        if (totalBytes <= policy.maxTotalBytes) {
+          break;
+        }
+        expired.add(backup.backupId);
+        for (const sha256 of backup.blobs.keys()) {
+          const reference = references.get(sha256)!;
+          if (--reference.count === 0) {
+            totalBytes -= reference.size;
+          }
+        }
+      }
+    }
+
+    return Array.from(expired);
+  }
+
+  /**
+   * Remove blob files without a database row, e.g. left by a crash between
+   * writing a blob and recording it, and stale temporary files
+   */
+  private async removeOrphanedFiles(): Promise<number> {
+    const known = new Set(this.database.getBackupBlobHashes());
+    let bytesFreed = 0;
+
+    const blobsDirectory = path.join(this.storeDirectory, 'blobs');
+    for (const prefix of await this.listDirectory(blobsDirectory)) {
+      for (const name of await this.listDirectory(path.join(blobsDirectory, prefix))) {
+        if (!known.has(name) && !this.pendingBlobs.has(name)) {
+          bytesFreed += await this.removeFile(path.join(blobsDirectory, prefix, name));
+        }
+      }
+    }
+
+    // Temporary files of backups in progress are renamed away quickly
+    const tempDirectory = path.join(this.storeDirectory, 'tmp');
+    const staleBefore = Date.now() - 60 * 60 * 1000;
+    for (const name of await this.listDirectory(tempDirectory)) {
+      const tempPath = path.join(tempDirectory, name);
+      const stats = await fs.stat(tempPath).catch(() => null);
+      if (stats && stats.mtimeMs < staleBefore) {
+        bytesFreed += await this.removeFile(tempPath);
+      }
+    }
+
+    return bytesFreed;
+  }
+
+  /**
+   * Walk a path, storing file contents as blobs and reporting one entry per
+   * file, directory and symlink
+   */
+  private async captureEntry(
+    entryPath: string,
+    relativePath: string,
+    onEntry: (entry: Omit<BackupEntryRecord, 'backupId' | 'operationId' | 'transactionId' | 'originalPath' | 'createdAt'>) => Promise<void>
+  ): Promise<void> {
+    const stats = await fs.lstat(entryPath);
+    const base = { relativePath, mode: stats.mode, mtime: stats.mtimeMs, sha256: null, linkTarget: null, size: 0 };
+
+    if (stats.isSymbolicLink()) {
+      await onEntry({ ...base, entryType: 'symlink', linkTarget: await fs.readlink(entryPath) });
+    } else if (stats.isDirectory()) {
+      await onEntry({ ...base, entryType: 'directory' });
+      for (const name of (await fs.readdir(entryPath)).sort()) {
+        await this.captureEntry(path.join(entryPath, name), relativePath ? path.join(relativePath, name) : name, onEntry);
+      }
+    } else {
+      const sha256 = await this.storeBlob(entryPath, stats.size);
+      await onEntry({ ...base, entryType: 'file', sha256, size: stats.size });
+    }
+  }
+
+  /**
+   * Copy a file into the store unless a blob with the same content exists.
+   * The blob stays pending, protected from garbage collection, until the
+   * caller releases it.
+   */
+  private async storeBlob(filePath: string, size: number): Promise<string> {
+    const tempDirectory = path.join(this.storeDirectory, 'tmp');
+    const tempPath = path.join(tempDirectory, `${process.pid}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`);
+    await fs.mkdir(tempDirectory, { recursive: true });
+    let sha256: string | undefined;
+
+    try {
+      // Hash the copy rather than the source so the blob matches its name
+      // even if the source changes while it is read
+      await fs.copyFile(filePath, tempPath);
+      sha256 = (await hashFileStream(tempPath)) ?? EMPTY_SHA256;
+      this.pendingBlobs.set(sha256, (this.pendingBlobs.get(sha256) || 0) + 1);
+
+      const blobPath = this.getBlobPath(sha256);
+      if (await this.pathExists(blobPath)) {
+        await fs.rm(tempPath, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(blobPath), { recursive: true });
+        await fs.chmod(tempPath, 0o600);
+        await fs.rename(tempPath, blobPath);
+      }
+
+      this.database.insertBackupBlob(sha256, size);
+      return sha256;
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      if (sha256) {
+        this.releasePendingBlob(sha256);
+      }
+      throw error;
+    }
+  }
+
+  private releasePendingBlob(sha256: string): void {
+    const count = (this.pendingBlobs.get(sha256) || 0) - 1;
+    if (count > 0) {
+      this.pendingBlobs.set(sha256, count);
+    } else {
+      this.pendingBlobs.delete(sha256);
+    }
+  }
+
+  private getEntries(reference: string): BackupEntryRecord[] {
+    return this.isBackupReference(reference) ? this.database.getBackupEntries(this.getBackupId(reference)) : [];
+  }
+
+  private getBackupId(reference: string): string {
+    return reference.slice(BackupStore.REFERENCE_PREFIX.length);
+  }
+
+  private getBlobPath(sha256: string): string {
+    return path.join(this.storeDirectory, 'blobs', sha256.slice(0, 2), sha256);
+  }
+
+  private async pathExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async listDirectory(directory: string): Promise<string[]> {
+    try {
+      return await fs.readdir(directory);
+    } catch {
+      return [];
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<number> {
+    const stats = await fs.stat(filePath).catch(() => null);
+    await fs.rm(filePath, { force: true });
+    return stats?.size || 0;
+  }
+}
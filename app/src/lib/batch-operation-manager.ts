@@ -2,6 +2,7 @@ import { EventEmitter } from 'events';
 import { DatabaseManager } from './database';
 import { Logger } from './logger';
 import { OperationValidator, ValidationResult, FileOperation } from './operation-validator';
+import { ConflictStrategy, ConflictResolution, resolveDestinationConflicts } from './transactional-file-manager';
 
 interface PriorityItem<T> {
   item: T;
@@ -38,9 +39,12 @@ export interface BatchOperation {
   targetPath: string;
   confidence: number;
   priority: 'high' | 'medium' | 'low';
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
   createdAt: number;
   error?: string;
+  conflictStrategy?: ConflictStrategy;  // Overrides the manager's strategy for this operation
+  conflict?: ConflictResolution;        // Set when the target was taken
+  companionPaths?: string[];            // Sidecar files that move along with this one
 }
 
 export interface BatchGroup {
@@ -68,6 +72,7 @@ export interface BatchOperationManagerConfig {
     interactive: number;
     background: number;
   };
+  conflictStrategy: ConflictStrategy;
 }
 
 export class BatchOperationManager extends EventEmitter {
@@ -99,6 +104,7 @@ export class BatchOperationManager extends EventEmitter {
         interactive: 100,
         background: 50,
       },
+      conflictStrategy: 'ask',
       ...config,
     };
 
@@ -360,9 +366,35 @@ export class BatchOperationManager extends EventEmitter {
     this.emit('batch-started', { batchId: batch.id, batch });
 
     try {
+      // Settle taken destinations first so validation sees the final targets
+      const conflicts = await this.resolveConflicts(batch);
+      const pending = conflicts.filter(conflict => conflict.action === 'ask');
+      if (pending.length > 0) {
+        const errorMessage = `${pending.length} destination conflict(s) need a decision`;
+        this.logger.warn('BatchOperationManager', errorMessage, { batchId: batch.id });
+
+        batch.operations.forEach(op => {
+          op.status = 'failed';
+          op.error = errorMessage;
+        });
+
+        batch.status = 'failed';
+        batch.completedAt = Date.now();
+
+        this.emit('batch-failed', {
+          batchId: batch.id,
+          batch,
+          error: errorMessage,
+          conflicts
+        });
+
+        this.activeBatches.delete(batch.id);
+        return;
+      }
+
       // Validate batch operations before processing
       this.logger.info('BatchOperationManager', 'Validating batch operations', { batchId: batch.id });
-      const validationResult = await this.validateBatch(batch.operations);
+      const validationResult = await this.validateBatch(batch.operations.filter(op => op.status !== 'skipped'));
       
       if (!validationResult.isValid) {
         const errorMessage = `Batch validation failed: ${validationResult.errors.map(e => e.message).join('; ')}`;
@@ -428,11 +460,44 @@ export class BatchOperationManager extends EventEmitter {
     }
   }
 
+  /**
+   * Apply the conflict strategy to operations whose targets are taken: skipped
+   * operations are marked 'skipped', auto-suffixed ones get their new target
+   */
+  private async resolveConflicts(batch: BatchGroup): Promise<ConflictResolution[]> {
+    const fileOperations: FileOperation[] = batch.operations.map(op => ({
+      id: op.id,
+      type: op.type,
+      sourcePath: op.originalPath,
+      targetPath: op.targetPath,
+      fileId: op.fileId
+    }));
+    const decisions: Record<string, ConflictStrategy> = {};
+    batch.operations.forEach(op => {
+      if (op.conflictStrategy) decisions[op.id] = op.conflictStrategy;
+    });
+
+    const { resolutions } = await resolveDestinationConflicts(fileOperations, this.config.conflictStrategy, decisions);
+
+    for (const resolution of resolutions) {
+      const operation = batch.operations.find(op => op.id === resolution.operationId)!;
+      operation.conflict = resolution;
+      operation.targetPath = resolution.targetPath;
+
+      if (resolution.action === 'skip') {
+        operation.status = 'skipped';
+        this.emit('operation-skipped', { batchId: batch.id, operation });
+      }
+    }
+
+    return resolutions;
+  }
+
   private async processOperationsConcurrently(
     batch: BatchGroup,
     concurrencyLimit: number
   ): Promise<void> {
-    const operations = [...batch.operations];
+    const operations = batch.operations.filter(op => op.status !== 'skipped');
     const processing: Promise<void>[] = [];
 
     while (operations.length > 0 || processing.length > 0) {
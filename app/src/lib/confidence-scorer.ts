@@ -10,6 +10,32 @@ export interface SuggestionItem {
   confidence: number;            // AI-provided confidence (0-100)
   reasoning?: string;            // AI-provided reasoning
   originalConfidence: number;    // Original confidence before adjustment
+  tokens?: Record<string, string>; // Naming profile token values, when the model provided them
+}
+
+export type NamingCaseStyle = 'kebab' | 'snake' | 'camel' | 'pascal' | 'lower' | 'upper' | 'preserve';
+
+/**
+ * A house style file names must follow. The template places {token} values
+ * between literal text, e.g. "{date}_{client}_{project}_v{version}"; words
+ * inside a token value are cased by caseStyle and joined with separator.
+ * {date} values are written with dateFormat (YYYY, YY, MM and DD).
+ */
+export interface NamingProfile {
+  id: string;
+  name: string;
+  template: string;
+  dateFormat: string;
+  caseStyle: NamingCaseStyle;
+  separator: string;
+  maxLength: number;                   // Characters, without the extension
+  requiredTokens: string[];
+}
+
+export interface NamingProfileResult {
+  filename: string;
+  reformatted: boolean;
+  missingTokens: string[];
 }
 
 export interface ProcessedSuggestion extends SuggestionItem {
@@ -50,6 +76,33 @@ export interface ConfidenceScoringConfig {
   rewardSpecificity: boolean;       // Increase confidence for specific terms
 }
 
+export type ConfidenceWeights = Pick<ConfidenceScoringConfig,
+  'aiConsistencyWeight' | 'metadataAlignmentWeight' | 'structuralPatternWeight' | 'conventionComplianceWeight'>;
+
+/**
+ * What past review decisions say about suggestions for one file category.
+ * The weights replace the configured ones for filename suggestions and the
+ * multiplier scales the adjusted confidence of every suggestion.
+ */
+export interface FeedbackPrior {
+  category: string;
+  samples: number;                  // Review decisions the prior is based on
+  approvalRate: number;             // Smoothed share accepted as suggested (0-1)
+  confidenceMultiplier: number;
+  weights: ConfidenceWeights;
+}
+
+// A date written year first, with or without separators: 2024-03-15, 2024_03_15, 20240315
+const DATE_IN_NAME = /(?<!\d)((?:19|20)\d{2})[-_.]?(0[1-9]|1[0-2])[-_.]?(0[1-9]|[12]\d|3[01])(?!\d)/;
+
+function formatNamingDate(year: string, month: string, day: string, format: string): string {
+  return format
+    .replace('YYYY', year)
+    .replace('YY', year.slice(2))
+    .replace('MM', month)
+    .replace('DD', day);
+}
+
 /**
  * Core confidence scoring and suggestion processing service
  */
@@ -112,6 +165,8 @@ export class ConfidenceScorer {
       size: number;
       path: string;
       parentDirectory: string;
+      namingProfile?: NamingProfile;
+      feedbackPrior?: FeedbackPrior;
     }
   ): ProcessedSuggestion[] {
     const timerId = logger.startPerformanceTimer('ConfidenceScorer.processFilenameSuggestions');
@@ -241,6 +296,7 @@ export class ConfidenceScorer {
       size: number;
       path: string;
       mimeType?: string;
+      feedbackPrior?: FeedbackPrior;
     }
   ): ProcessedSuggestion[] {
     const processedSuggestions = suggestions.map((suggestion, index) => {
@@ -287,6 +343,15 @@ export class ConfidenceScorer {
   ): ProcessedSuggestion {
     const validationFlags: string[] = [];
     let adjustedConfidence = suggestion.confidence;
+
+    // Model output is rewritten to the house style before it is judged
+    const originalValue = suggestion.value;
+    if (fileMetadata.namingProfile) {
+      suggestion = {
+        ...suggestion,
+        value: this.applyNamingProfile(suggestion.value, fileMetadata.namingProfile, suggestion.tokens).filename
+      };
+    }
     
     // Validate filename structure
     const structureScore = this.validateFilenameStructure(suggestion.value, validationFlags);
@@ -299,13 +364,18 @@ export class ConfidenceScorer {
     
     // Check naming conventions
     const conventionScore = this.checkNamingConventions(suggestion.value, fileMetadata, validationFlags);
+    if (fileMetadata.namingProfile && suggestion.value !== originalValue) {
+      validationFlags.push('reformatted-to-profile');
+    }
     
     // Calculate weighted confidence adjustment
+    const prior: FeedbackPrior | undefined = fileMetadata.feedbackPrior;
+    const weights: ConfidenceWeights = prior?.weights ?? this.config;
     const weightedScore = 
-      (structureScore * this.config.structuralPatternWeight) +
-      (alignmentScore * this.config.metadataAlignmentWeight) +
-      (consistencyScore * this.config.aiConsistencyWeight) +
-      (conventionScore * this.config.conventionComplianceWeight);
+      (structureScore * weights.structuralPatternWeight) +
+      (alignmentScore * weights.metadataAlignmentWeight) +
+      (consistencyScore * weights.aiConsistencyWeight) +
+      (conventionScore * weights.conventionComplianceWeight);
     
     // Apply adjustment to original confidence
     adjustedConfidence = Math.min(100, Math.max(0, suggestion.confidence * (weightedScore / 100)));
@@ -321,6 +391,8 @@ export class ConfidenceScorer {
       adjustedConfidence = Math.min(100, adjustedConfidence * 1.1);
       validationFlags.push('specific-terminology');
     }
+
+    adjustedConfidence = this.applyFeedbackPrior(adjustedConfidence, prior, validationFlags);
     
     // Calculate overall quality score
     const qualityScore = this.calculateQualityScore(
@@ -366,6 +438,7 @@ export class ConfidenceScorer {
     
     // Adjust confidence based on validation
     adjustedConfidence = suggestion.confidence * (extensionAlignment / 100) * (specificityScore / 100);
+    adjustedConfidence = this.applyFeedbackPrior(adjustedConfidence, fileMetadata.feedbackPrior, validationFlags);
     
     const qualityScore = this.calculateQualityScore(
       adjustedConfidence,
@@ -422,6 +495,19 @@ export class ConfidenceScorer {
     };
   }
 
+  /**
+   * Scale confidence by how often reviewers accepted suggestions for files of
+   * the same category
+   */
+  private applyFeedbackPrior(confidence: number, prior: FeedbackPrior | undefined, flags: string[]): number {
+    if (!prior || prior.confidenceMultiplier === 1) {
+      return confidence;
+    }
+
+    flags.push(prior.confidenceMultiplier > 1 ? 'feedback-prior-raised' : 'feedback-prior-lowered');
+    return Math.min(100, confidence * prior.confidenceMultiplier);
+  }
+
   /**
    * Validate filename structure and patterns
    */
@@ -557,10 +643,27 @@ export class ConfidenceScorer {
   }
 
   /**
-   * Check naming convention compliance
+   * Check naming convention compliance, against the naming profile when the
+   * file has one
    */
   private checkNamingConventions(filename: string, metadata: any, flags: string[]): number {
     let score = 100;
+
+    const profile: NamingProfile | undefined = metadata?.namingProfile;
+    if (profile) {
+      const result = this.applyNamingProfile(filename, profile);
+      if (result.reformatted) {
+        score -= 20;
+        flags.push('naming-profile-mismatch');
+      } else {
+        flags.push('matches-naming-profile');
+      }
+      for (const token of result.missingTokens) {
+        score -= 25;
+        flags.push(`missing-required-token:${token}`);
+      }
+      return Math.max(0, score);
+    }
     
     // Check for consistent separator usage
     const hasHyphens = filename.includes('-');
@@ -588,6 +691,120 @@ export class ConfidenceScorer {
     return Math.max(0, score);
   }
 
+  /**
+   * Rewrite a filename to follow a naming profile. With token values the
+   * profile's template is filled in; otherwise the name's own words are
+   * recased and joined, with any date it contains rewritten and placed where
+   * the template wants it. Required tokens without a value are listed; for
+   * free-form names only a missing date can be told.
+   */
+  public applyNamingProfile(
+    filename: string,
+    profile: NamingProfile,
+    tokens?: Record<string, string>
+  ): NamingProfileResult {
+    const extension = path.extname(filename);
+    const stem = filename.slice(0, filename.length - extension.length);
+    const hasTokens = tokens !== undefined && Object.values(tokens).some(value => value && value.trim());
+
+    let formatted: string;
+    let missingTokens: string[];
+    if (hasTokens) {
+      ({ formatted, missingTokens } = this.renderNamingTemplate(profile, tokens!));
+    } else {
+      ({ formatted, missingTokens } = this.reformatToProfile(stem, profile));
+    }
+
+    if (formatted.length > profile.maxLength) {
+      formatted = formatted.slice(0, profile.maxLength).replace(/[\s._-]+$/, '');
+    }
+    formatted = formatted || stem;
+
+    const result = formatted + extension;
+    return { filename: result, reformatted: result !== filename, missingTokens };
+  }
+
+  private renderNamingTemplate(
+    profile: NamingProfile,
+    tokens: Record<string, string>
+  ): { formatted: string; missingTokens: string[] } {
+    const parts = profile.template.split(/(\{[a-z_]+\})/).filter(Boolean).map(part => {
+      const token = /^\{([a-z_]+)\}$/.exec(part)?.[1];
+      if (!token) return { text: part, token: undefined };
+      const value = (tokens[token] || '').trim();
+      return { text: value ? this.formatTokenValue(token, value, profile) : '', token };
+    });
+
+    // A missing token takes the literal text joining it to its neighbour along
+    for (let index = parts.length - 1; index >= 0; index--) {
+      if (index >= parts.length || !parts[index].token || parts[index].text) continue;
+      const joiner = index > 0 && !parts[index - 1].token ? index - 1
+        : index + 1 < parts.length && !parts[index + 1].token ? index + 1
+        : -1;
+      parts.splice(Math.min(index, joiner === -1 ? index : joiner), joiner === -1 ? 1 : 2);
+    }
+
+    return {
+      formatted: parts.map(part => part.text).join(''),
+      missingTokens: profile.requiredTokens.filter(token => !(tokens[token] || '').trim()),
+    };
+  }
+
+  private reformatToProfile(stem: string, profile: NamingProfile): { formatted: string; missingTokens: string[] } {
+    const dateMatch = DATE_IN_NAME.exec(stem);
+    const date = dateMatch ? formatNamingDate(dateMatch[1], dateMatch[2], dateMatch[3], profile.dateFormat) : null;
+    const body = this.formatWords(dateMatch ? stem.replace(dateMatch[0], ' ') : stem, profile);
+
+    let formatted = body;
+    if (date) {
+      const afterDate = /\{date\}([^{]*)/.exec(profile.template)?.[1] || profile.separator;
+      const beforeDate = /([^}]*)\{date\}$/.exec(profile.template)?.[1] || profile.separator;
+      formatted = !body ? date
+        : profile.template.endsWith('{date}') ? body + beforeDate + date
+        : date + afterDate + body;
+    }
+
+    return {
+      formatted,
+      missingTokens: profile.requiredTokens.filter(token => token === 'date' && !date),
+    };
+  }
+
+  private formatTokenValue(token: string, value: string, profile: NamingProfile): string {
+    if (token === 'date') {
+      const match = DATE_IN_NAME.exec(value);
+      if (match) return formatNamingDate(match[1], match[2], match[3], profile.dateFormat);
+    }
+    if (token === 'version' && /^v?\d+$/i.test(value)) {
+      return value.replace(/^v/i, '').padStart(2, '0');
+    }
+    return this.formatWords(value, profile);
+  }
+
+  /**
+   * Split text into words and join them in the profile's case style
+   */
+  private formatWords(text: string, profile: NamingProfile): string {
+    const words = text
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+    const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+    switch (profile.caseStyle) {
+      case 'camel':
+        return words.map((word, index) => index === 0 ? word.toLowerCase() : capitalize(word)).join('');
+      case 'pascal':
+        return words.map(capitalize).join('');
+      case 'upper':
+        return words.map(word => word.toUpperCase()).join(profile.separator);
+      case 'preserve':
+        return words.join(profile.separator);
+      default:
+        return words.map(word => word.toLowerCase()).join(profile.separator);
+    }
+  }
+
   /**
    * Check if filename contains generic terms
    */
@@ -0,0 +1,633 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type { DatabaseManager } from './database';
+import { logger } from './logger';
+
+/**
+ * Pluggable extractor interface - one implementation per family of file formats
+ */
+export interface ContentExtractor {
+  readonly name: string;
+  readonly extensions: string[];         // Lower-case extensions including the dot
+  readonly readsHead?: boolean;          // Reads only the first maxLength * HEAD_BYTES_PER_CHAR bytes
+  extract(filePath: string, maxLength: number): Promise<string>;
+}
+
+/**
+ * Options for a single extraction request
+ */
+export interface ExtractionOptions {
+  maxLength?: number;                    // Max characters of text to return
+  sha256?: string;                       // File hash used as cache key
+}
+
+/**
+ * Extraction result returned to callers
+ */
+export interface ExtractedContent {
+  text: string;
+  extractor: string;
+  originalLength: number;
+  isTruncated: boolean;
+  fromCache: boolean;
+}
+
+/**
+ * Content extraction service configuration
+ */
+export interface ContentExtractionConfig {
+  defaultMaxLength: number;              // Default characters returned per file
+  cacheMaxLength: number;                // Characters persisted per cache entry
+  maxFileSizeBytes: number;              // Files larger than this are not parsed
+  memoryCacheEntries: number;            // In-memory LRU size
+}
+
+// Bytes sampled when sniffing for binary content
+const BINARY_SNIFF_BYTES = 8192;
+
+// Head read per requested character; UTF-8 characters are at most 4 bytes
+export const HEAD_BYTES_PER_CHAR = 4;
+
+/**
+ * Read at most maxBytes from the start of a file
+ */
+async function readHead(filePath: string, maxBytes: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const { bytesRead } = await handle.read(buffer, 0, maxBytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Heuristic binary detection - NUL bytes never appear in text files
+ */
+function looksBinary(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, Math.min(buffer.length, BINARY_SNIFF_BYTES));
+  return sample.includes(0);
+}
+
+/**
+ * Decode a UTF-8 buffer, dropping a partial trailing character and BOM
+ */
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^\uFEFF/, '').replace(/\uFFFD$/, '');
+}
+
+/**
+ * Decode the common XML entities
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Collapse runs of blank lines and trailing whitespace
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Plain text and Markdown files
+ */
+export class PlainTextExtractor implements ContentExtractor {
+  public readonly name = 'plain-text';
+  public readonly extensions = ['.txt', '.md', '.markdown', '.rst', '.log', '.rtf', '.tex'];
+  public readonly readsHead = true;
+
+  public async extract(filePath: string, maxLength: number): Promise<string> {
+    const buffer = await readHead(filePath, maxLength * HEAD_BYTES_PER_CHAR);
+    if (looksBinary(buffer)) return '';
+
+    const text = decodeText(buffer);
+    return path.extname(filePath).toLowerCase() === '.rtf'
+      ? normalizeWhitespace(this.stripRtf(text))
+      : normalizeWhitespace(text);
+  }
+
+  private stripRtf(text: string): string {
+    return text
+      .replace(/\\par[d]?/g, '\n')
+      .replace(/\{\\\*[^{}]*\}/g, '')
+      .replace(/\\[a-z]+-?\d* ?/gi, '')
+      .replace(/[{}]/g, '');
+  }
+}
+
+/**
+ * JSON, XML, CSV and YAML data files
+ */
+export class StructuredDataExtractor implements ContentExtractor {
+  public readonly name = 'structured-data';
+  public readonly extensions = ['.json', '.xml', '.csv', '.tsv', '.yaml', '.yml'];
+
+  public readonly readsHead = true;
+
+  private static readonly MAX_TABULAR_ROWS = 50;
+
+  public async extract(filePath: string, maxLength: number): Promise<string> {
+    const buffer = await readHead(filePath, maxLength * HEAD_BYTES_PER_CHAR);
+    if (looksBinary(buffer)) return '';
+
+    const text = decodeText(buffer);
+    const ext = path.extname(filePath).toLowerCase();
+
+    switch (ext) {
+      case '.json':
+        return this.formatJson(text);
+      case '.xml':
+        return normalizeWhitespace(text.replace(/<!--[\s\S]*?-->/g, '').replace(/>\s+</g, '>\n<'));
+      case '.csv':
+      case '.tsv':
+        // Header plus leading rows are enough to describe tabular data
+        return text.split(/\r?\n/).slice(0, StructuredDataExtractor.MAX_TABULAR_ROWS).join('\n').trim();
+      default:
+        return normalizeWhitespace(text);
+    }
+  }
+
+  private formatJson(text: string): string {
+    try {
+      // Compact but readable - one level of indentation keeps structure visible
+      return JSON.stringify(JSON.parse(text), null, 1);
+    } catch {
+      // Truncated or invalid JSON is still useful as raw text
+      return normalizeWhitespace(text);
+    }
+  }
+}
+
+/**
+ * Source code files
+ */
+export class SourceCodeExtractor implements ContentExtractor {
+  public readonly name = 'source-code';
+  public readonly extensions = [
+    '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.hpp', '.cs', '.php',
+    '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.sh', '.sql', '.html', '.css', '.scss', '.vue',
+  ];
+  public readonly readsHead = true;
+
+  public async extract(filePath: string, maxLength: number): Promise<string> {
+    const buffer = await readHead(filePath, maxLength * HEAD_BYTES_PER_CHAR);
+    if (looksBinary(buffer)) return '';
+
+    // Keep code layout intact, only normalise line endings and blank runs
+    return normalizeWhitespace(decodeText(buffer));
+  }
+}
+
+/**
+ * Minimal ZIP reader for Office Open XML and OpenDocument containers
+ */
+export class ZipArchiveReader {
+  private static readonly EOCD_SIGNATURE = 0x06054b50;
+  private static readonly CENTRAL_SIGNATURE = 0x02014b50;
+  private static readonly LOCAL_SIGNATURE = 0x04034b50;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  /**
+   * Read a single entry by name, returns null when missing
+   */
+  public readEntry(entryName: string): Buffer | null {
+    const eocdOffset = this.findEndOfCentralDirectory();
+    if (eocdOffset < 0) {
+      throw new Error('Invalid ZIP archive: end of central directory not found');
+    }
+
+    const entryCount = this.buffer.readUInt16LE(eocdOffset + 10);
+    let offset = this.buffer.readUInt32LE(eocdOffset + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== ZipArchiveReader.CENTRAL_SIGNATURE) {
+        throw new Error('Invalid ZIP archive: corrupt central directory');
+      }
+
+      const method = this.buffer.readUInt16LE(offset + 10);
+      const compressedSize = this.buffer.readUInt32LE(offset + 20);
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const localHeaderOffset = this.buffer.readUInt32LE(offset + 42);
+      const name = this.buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      if (name === entryName) {
+        return this.readLocalEntry(localHeaderOffset, method, compressedSize);
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return null;
+  }
+
+  private readLocalEntry(offset: number, method: number, compressedSize: number): Buffer {
+    if (this.buffer.readUInt32LE(offset) !== ZipArchiveReader.LOCAL_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt local header');
+    }
+
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = this.buffer.subarray(dataStart, dataStart + compressedSize);
+
+    switch (method) {
+      case 0:
+        return data;
+      case 8:
+        return zlib.inflateRawSync(data);
+      default:
+        throw new Error(`Unsupported ZIP compression method: ${method}`);
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    // EOCD is 22 bytes plus an optional comment of up to 64KB
+    const minOffset = Math.max(0, this.buffer.length - 22 - 0xffff);
+    for (let offset = this.buffer.length - 22; offset >= minOffset; offset--) {
+      if (this.buffer.readUInt32LE(offset) === ZipArchiveReader.EOCD_SIGNATURE) {
+        return offset;
+      }
+    }
+    return -1;
+  }
+}
+
+/**
+ * DOCX and ODT documents (ZIP containers with XML bodies)
+ */
+export class OfficeDocumentExtractor implements ContentExtractor {
+  public readonly name = 'office-document';
+  public readonly extensions = ['.docx', '.odt'];
+
+  public async extract(filePath: string, _maxLength: number): Promise<string> {
+    const archive = new ZipArchiveReader(await fs.readFile(filePath));
+    const isOdt = path.extname(filePath).toLowerCase() === '.odt';
+
+    const xml = archive.readEntry(isOdt ? 'content.xml' : 'word/document.xml');
+    if (!xml) {
+      throw new Error(`Document body not found in ${path.basename(filePath)}`);
+    }
+
+    return isOdt ? this.odtToText(xml.toString('utf8')) : this.docxToText(xml.toString('utf8'));
+  }
+
+  private docxToText(xml: string): string {
+    const text = xml
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:br\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '');
+    return normalizeWhitespace(decodeXmlEntities(text));
+  }
+
+  private odtToText(xml: string): string {
+    const text = xml
+      .replace(/<text:tab\/>/g, '\t')
+      .replace(/<text:line-break\/>/g, '\n')
+      .replace(/<text:s(?: text:c="(\d+)")?\/>/g, (_, count) => ' '.repeat(Number(count) || 1))
+      .replace(/<\/text:(p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '');
+    return normalizeWhitespace(decodeXmlEntities(text));
+  }
+}
+
+/**
+ * PDF documents - pulls text operators out of (optionally Flate-compressed) content streams
+ */
+export class PdfTextExtractor implements ContentExtractor {
+  public readonly name = 'pdf';
+  public readonly extensions = ['.pdf'];
+
+  public async extract(filePath: string, maxLength: number): Promise<string> {
+    const buffer = await fs.readFile(filePath);
+    if (buffer.toString('latin1', 0, 5) !== '%PDF-') {
+      throw new Error(`Not a PDF file: ${path.basename(filePath)}`);
+    }
+
+    const raw = buffer.toString('latin1');
+    const streamPattern = /<<([\s\S]*?)>>\s*stream\r?\n/g;
+    const chunks: string[] = [];
+    let collected = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = streamPattern.exec(raw)) !== null && collected < maxLength) {
+      const dictionary = match[1];
+      const dataStart = match.index + match[0].length;
+      const dataEnd = raw.indexOf('endstream', dataStart);
+      if (dataEnd < 0) break;
+
+      streamPattern.lastIndex = dataEnd;
+
+      // Images, fonts and embedded files carry no page text
+      if (/\/Subtype\s*\/(Image|Form|XML)|\/Length1|\/FontFile/.test(dictionary)) continue;
+
+      const content = this.decodeStream(buffer.subarray(dataStart, dataEnd), dictionary);
+      if (!content || !content.includes('BT')) continue;
+
+      const text = this.extractTextOperators(content);
+      if (text) {
+        chunks.push(text);
+        collected += text.length;
+      }
+    }
+
+    return normalizeWhitespace(chunks.join('\n'));
+  }
+
+  private decodeStream(data: Buffer, dictionary: string): string | null {
+    if (!/\/Filter/.test(dictionary)) {
+      return data.toString('latin1');
+    }
+
+    if (!/\/FlateDecode/.test(dictionary)) {
+      return null; // Only Flate is supported
+    }
+
+    try {
+      return zlib.inflateSync(data).toString('latin1');
+    } catch {
+      try {
+        // Some writers emit trailing bytes after the deflate stream
+        return zlib.inflateSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString('latin1');
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  private extractTextOperators(content: string): string {
+    let output = '';
+    const blockPattern = /BT([\s\S]*?)ET/g;
+    let block: RegExpExecArray | null;
+
+    while ((block = blockPattern.exec(content)) !== null) {
+      const tokenPattern = /\((?:\\.|[^\\)])*\)|\[(?:\((?:\\.|[^\\)])*\)|[^\]])*\]\s*TJ|T\*|Td|TD|'|"/g;
+      let token: RegExpExecArray | null;
+
+      while ((token = tokenPattern.exec(block[1])) !== null) {
+        const value = token[0];
+        if (value.startsWith('(')) {
+          output += this.decodePdfString(value.slice(1, -1));
+        } else if (value.startsWith('[')) {
+          const parts = value.match(/\((?:\\.|[^\\)])*\)/g) || [];
+          output += parts.map(part => this.decodePdfString(part.slice(1, -1))).join('');
+        } else {
+          output += '\n';
+        }
+      }
+
+      output += '\n';
+    }
+
+    return output.trim();
+  }
+
+  private decodePdfString(value: string): string {
+    return value.replace(/\\(\d{1,3}|.)/g, (_, escaped: string) => {
+      if (/^\d+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+      switch (escaped) {
+        case 'n': return '\n';
+        case 'r': return '\r';
+        case 't': return '\t';
+        case 'b': return '';
+        case 'f': return '';
+        default: return escaped;
+      }
+    });
+  }
+}
+
+/**
+ * Content extraction service - routes files to extractors and caches text by
+ * file hash and extractor
+ */
+export class ContentExtractionService {
+  private config: ContentExtractionConfig;
+  private extractors: Map<string, ContentExtractor> = new Map();
+  private memoryCache: Map<string, ExtractedContent> = new Map();
+  private database: DatabaseManager | null;
+
+  private static readonly DEFAULT_CONFIG: ContentExtractionConfig = {
+    defaultMaxLength: 2000,
+    cacheMaxLength: 16000,
+    maxFileSizeBytes: 25 * 1024 * 1024,   // 25MB
+    memoryCacheEntries: 500,
+  };
+
+  constructor(config: Partial<ContentExtractionConfig> = {}, database?: DatabaseManager | null) {
+    this.config = { ...ContentExtractionService.DEFAULT_CONFIG, ...config };
+    this.database = database === undefined ? null : database;
+
+    this.registerExtractor(new PlainTextExtractor());
+    this.registerExtractor(new StructuredDataExtractor());
+    this.registerExtractor(new SourceCodeExtractor());
+    this.registerExtractor(new OfficeDocumentExtractor());
+    this.registerExtractor(new PdfTextExtractor());
+  }
+
+  /**
+   * Attach the database used for the persistent content cache
+   */
+  public setDatabase(database: DatabaseManager | null): void {
+    this.database = database;
+  }
+
+  /**
+   * Register an extractor, replacing any existing extractor for the same extensions
+   */
+  public registerExtractor(extractor: ContentExtractor): void {
+    for (const ext of extractor.extensions) {
+      this.extractors.set(ext.toLowerCase(), extractor);
+    }
+  }
+
+  /**
+   * Get the extractor responsible for a file, if any
+   */
+  public getExtractor(filePath: string): ContentExtractor | undefined {
+    return this.extractors.get(path.extname(filePath).toLowerCase());
+  }
+
+  /**
+   * Check whether text can be extracted from a file
+   */
+  public canExtract(filePath: string): boolean {
+    return this.getExtractor(filePath) !== undefined;
+  }
+
+  /**
+   * Extract text content from a file, returns null for unsupported or unreadable files
+   */
+  public async extract(filePath: string, options: ExtractionOptions = {}): Promise<ExtractedContent | null> {
+    const maxLength = options.maxLength || this.config.defaultMaxLength;
+    const extractor = this.getExtractor(filePath);
+    if (!extractor) return null;
+
+    if (options.sha256) {
+      const cached = this.getCached(options.sha256, extractor.name, maxLength);
+      if (cached) return cached;
+    }
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile() || stats.size > this.config.maxFileSizeBytes) {
+        logger.debug('ContentExtractor', 'Skipping file outside extraction limits', {
+          filePath,
+          size: stats.size,
+        });
+        return null;
+      }
+
+      // Extract enough for the cache so a later request with a larger preview can be served
+      const extractLength = Math.max(maxLength, this.config.cacheMaxLength);
+      const fullText = await extractor.extract(filePath, extractLength);
+      const cachedText = fullText.slice(0, this.config.cacheMaxLength);
+      // The rest of a file past the extractor's head read never made it into the text
+      const cutByHeadRead = !!extractor.readsHead && stats.size > extractLength * HEAD_BYTES_PER_CHAR;
+
+      if (options.sha256) {
+        this.storeCached(options.sha256, {
+          text: cachedText,
+          extractor: extractor.name,
+          originalLength: fullText.length,
+          isTruncated: cutByHeadRead || fullText.length > cachedText.length,
+          fromCache: false,
+        });
+      }
+
+      return this.truncate({
+        text: fullText,
+        extractor: extractor.name,
+        originalLength: fullText.length,
+        isTruncated: cutByHeadRead,
+        fromCache: false,
+      }, maxLength);
+    } catch (error) {
+      logger.warn('ContentExtractor', `Failed to extract content from ${filePath}`, {
+        extractor: extractor.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Drop all in-memory cache entries
+   */
+  public clearMemoryCache(): void {
+    this.memoryCache.clear();
+  }
+
+  private getCached(sha256: string, extractorName: string, maxLength: number): ExtractedContent | null {
+    const key = this.cacheKey(sha256, extractorName);
+    let entry = this.memoryCache.get(key);
+
+    if (entry) {
+      // Refresh LRU position
+      this.memoryCache.delete(key);
+      this.memoryCache.set(key, entry);
+    } else {
+      const record = this.safeDatabaseCall(db => db.getCachedContent(sha256, extractorName));
+      if (!record) return null;
+
+      entry = {
+        text: record.content,
+        extractor: record.extractor,
+        originalLength: record.originalLength,
+        isTruncated: record.isTruncated,
+        fromCache: true,
+      };
+      this.rememberInMemory(key, entry);
+    }
+
+    // A truncated entry cannot satisfy a request for more text than it holds
+    if (entry.isTruncated && maxLength > entry.text.length) {
+      return null;
+    }
+
+    return this.truncate({ ...entry, fromCache: true }, maxLength);
+  }
+
+  private storeCached(sha256: string, entry: ExtractedContent): void {
+    this.rememberInMemory(this.cacheKey(sha256, entry.extractor), entry);
+    this.safeDatabaseCall(db => db.setCachedContent({
+      sha256,
+      extractor: entry.extractor,
+      content: entry.text,
+      originalLength: entry.originalLength,
+      isTruncated: entry.isTruncated,
+    }));
+  }
+
+  /**
+   * The same file reads differently under another extractor, e.g. after one is replaced
+   */
+  private cacheKey(sha256: string, extractorName: string): string {
+    return `${extractorName}:${sha256}`;
+  }
+
+  private rememberInMemory(key: string, entry: ExtractedContent): void {
+    this.memoryCache.set(key, entry);
+    if (this.memoryCache.size > this.config.memoryCacheEntries) {
+      const oldestKey = this.memoryCache.keys().next().value;
+      if (oldestKey !== undefined) this.memoryCache.delete(oldestKey);
+    }
+  }
+
+  private truncate(entry: ExtractedContent, maxLength: number): ExtractedContent {
+    if (entry.text.length <= maxLength) return entry;
+    return { ...entry, text: entry.text.slice(0, maxLength), isTruncated: true };
+  }
+
+  private safeDatabaseCall<T>(operation: (db: DatabaseManager) => T): T | undefined {
+    if (!this.database) return undefined;
+    try {
+      return operation(this.database);
+    } catch (error) {
+      // Cache persistence is best-effort; extraction still works without it
+      logger.warn('ContentExtractor', 'Content cache unavailable', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get current configuration
+   */
+  public getConfig(): ContentExtractionConfig {
+    return { ...this.config };
+  }
+}
+
+// Singleton instance
+let extractionServiceInstance: ContentExtractionService | null = null;
+
+export function getContentExtractionService(config?: Partial<ContentExtractionConfig>): ContentExtractionService {
+  if (!extractionServiceInstance) {
+    extractionServiceInstance = new ContentExtractionService(config);
+  }
+  return extractionServiceInstance;
+}
+
+export function destroyContentExtractionService(): void {
+  extractionServiceInstance = null;
+}
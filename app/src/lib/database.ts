@@ -29,6 +29,14 @@ export interface JobRecord {
   updatedAt: number;
   fileCount: number;
   errorMessage?: string;
+  include?: string[];   // The scan's filters, which the file watcher applies to the root too
+  exclude?: string[];
+}
+
+export interface ScannedRoot {
+  rootPath: string;
+  include?: string[];
+  exclude?: string[];
 }
 
 export interface SuggestionRecord {
@@ -92,6 +100,181 @@ export interface ModelMetricRecord {
   updatedAt?: number;
 }
 
+export interface ContentCacheRecord {
+  sha256: string;
+  extractor: string;
+  content: string;
+  originalLength: number;
+  isTruncated: boolean;
+  createdAt?: number;
+  lastAccessedAt?: number;
+}
+
+export interface JournalOperationRecord {
+  journalId: string;
+  operationId: string;
+  transactionId: string;
+  operationType: 'rename' | 'move' | 'delete' | 'copy' | 'write';
+  fileId: number | null;
+  sourcePath: string;
+  targetPath: string | null;
+  status: string;
+  undoData: string;
+  backupPath: string | null;
+  fileSize: number;
+  fileHash: string | null;
+  originalMtime: number | null;
+  userId: string | null;
+  journaledAt: number;
+}
+
+export interface BackupBlobRecord {
+  sha256: string;
+  size: number;
+  createdAt: number;                   // Milliseconds since epoch
+}
+
+/**
+ * One entry of a backup. File backups have a single entry; directory backups
+ * have one per file, directory and symlink in the tree, with relativePath ''
+ * for the backed-up path itself.
+ */
+export interface BackupEntryRecord {
+  backupId: string;
+  operationId: string;
+  transactionId: string | null;
+  originalPath: string;
+  relativePath: string;
+  entryType: 'file' | 'directory' | 'symlink';
+  sha256: string | null;               // Blob holding the content, for files
+  linkTarget: string | null;           // For symlinks
+  mode: number;
+  mtime: number;                       // Milliseconds since epoch
+  size: number;
+  createdAt: number;                   // Milliseconds since epoch
+}
+
+export interface BackupUsage {
+  backupCount: number;
+  blobCount: number;
+  storedBytes: number;                 // Bytes on disk, each blob counted once
+  logicalBytes: number;                // Bytes the backups would take as plain copies
+  oldestBackupAt: number | null;
+}
+
+/**
+ * A review decision kept as a learning example. fileCategory is the prompt
+ * category of the file (document, image, code...).
+ */
+export interface ReviewFeedbackRecord {
+  id?: number;
+  filePath: string;
+  fileExtension: string;
+  fileCategory: string;
+  operation: string;
+  suggestedValue: string;
+  decision: 'approve' | 'reject';
+  correctedValue: string | null;
+  confidence: number;
+  validationFlags: string[];
+  reason: string;
+  source: 'review' | 'override';
+  reviewedBy: string;
+  decidedAt: number;                   // Milliseconds since epoch
+}
+
+export interface ReviewFeedbackFilters {
+  fileCategory?: string;
+  fileExtension?: string;
+  operation?: string;
+  decision?: 'approve' | 'reject';
+  before?: number;                     // Milliseconds since epoch, exclusive
+}
+
+/**
+ * An agent task as persisted by AgentTaskStore. payload is the full task as
+ * JSON, so queued tasks can be put back in the queue after a restart.
+ */
+export interface AgentTaskRecord {
+  id: string;
+  type: string;
+  state: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timeout';
+  priority: number;
+  modelName: string | null;
+  filePath: string | null;
+  sessionId: string | null;            // Analysis session (request id) the task belongs to
+  timeoutMs: number;
+  retryCount: number;
+  maxRetries: number;
+  estimatedMemoryMB: number;
+  createdAt: number;                   // Milliseconds since epoch
+  startedAt: number | null;
+  completedAt: number | null;
+  executionTimeMs: number | null;
+  errorMessage: string | null;
+  resultData: string | null;           // JSON
+  metadata: string;                    // JSON
+  payload: string;                     // JSON
+}
+
+export interface AgentTaskFilters {
+  states?: AgentTaskRecord['state'][];
+  sessionId?: string | null;           // null selects tasks outside any session
+  completedBefore?: number;            // Milliseconds since epoch, exclusive
+}
+
+export interface JournalQueryFilters {
+  operationId?: string;
+  transactionId?: string;
+  sourceId?: number;
+  sourcePath?: string;
+  type?: string;
+  userId?: string;
+  status?: string;
+  startDate?: number;                  // Milliseconds since epoch, inclusive
+  endDate?: number;                    // Milliseconds since epoch, exclusive
+}
+
+// Updatable AnalysisSessionRecord fields and their columns
+const ANALYSIS_SESSION_COLUMNS: Partial<Record<keyof AnalysisSessionRecord, string>> = {
+  sessionType: 'session_type',
+  rootPath: 'root_path',
+  analysisTypes: 'analysis_types',
+  totalFiles: 'total_files',
+  processedFiles: 'processed_files',
+  completedFiles: 'completed_files',
+  failedFiles: 'failed_files',
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+  totalDuration: 'total_duration',
+  averageFileDuration: 'average_file_duration',
+  successRate: 'success_rate',
+  errorSummary: 'error_summary',
+  modelsUsed: 'models_used',
+  status: 'status',
+  errorMessage: 'error_message',
+};
+
+const ANALYSIS_SESSION_SELECT = `
+  id, session_type as sessionType, root_path as rootPath, analysis_types as analysisTypes,
+  total_files as totalFiles, processed_files as processedFiles, completed_files as completedFiles,
+  failed_files as failedFiles, started_at as startedAt, completed_at as completedAt,
+  total_duration as totalDuration, average_file_duration as averageFileDuration, success_rate as successRate,
+  error_summary as errorSummary, models_used as modelsUsed, status, error_message as errorMessage,
+  created_at as createdAt, updated_at as updatedAt
+`;
+
+const AGENT_TASK_UPDATE_COLUMNS = {
+  state: 'state',
+  retryCount: 'retry_count',
+  startedAt: 'started_at',
+  completedAt: 'completed_at',
+  executionTimeMs: 'execution_time_ms',
+  errorMessage: 'error_message',
+  resultData: 'result_data',
+  payload: 'payload',
+};
+
 class DatabaseManager {
   private db: Database.Database;
   private isInitialized: boolean = false;
@@ -416,6 +599,182 @@ class DatabaseManager {
           CREATE INDEX IF NOT EXISTS idx_operations_user ON operations(user_id);
           CREATE INDEX IF NOT EXISTS idx_operations_parent ON operations(parent_operation_id);
         `
+      },
+      {
+        version: 6,
+        description: 'Add extracted content cache',
+        sql: `
+          -- Extracted text content keyed by file hash so unchanged files are not re-read
+          CREATE TABLE IF NOT EXISTS content_cache (
+            sha256 TEXT NOT NULL,
+            extractor TEXT NOT NULL,                -- Name of the extractor that produced the text
+            content TEXT NOT NULL,                  -- Extracted text (possibly truncated)
+            original_length INTEGER NOT NULL,       -- Length of the full extracted text
+            is_truncated BOOLEAN DEFAULT FALSE,
+            created_at INTEGER DEFAULT (unixepoch()),
+            last_accessed_at INTEGER DEFAULT (unixepoch()),
+            PRIMARY KEY (sha256, extractor)
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_content_cache_accessed ON content_cache(last_accessed_at);
+        `
+      },
+      {
+        version: 7,
+        description: 'Keep the include/exclude filters of scan jobs',
+        sql: `
+          ALTER TABLE jobs ADD COLUMN includePatterns TEXT;  -- JSON array, NULL when the scan had none
+          ALTER TABLE jobs ADD COLUMN excludePatterns TEXT;
+        `
+      },
+      {
+        version: 8,
+        description: 'Add deferred hashing state',
+        sql: `
+          -- Files left unhashed by the scan are hashed later; failures are not retried until the file changes
+          ALTER TABLE files ADD COLUMN hash_failed_at INTEGER;
+
+          CREATE INDEX IF NOT EXISTS idx_files_hash_pending ON files(size) WHERE sha256 IS NULL;
+        `
+      },
+      {
+        version: 9,
+        description: 'Persist operation journal entries',
+        sql: `
+          -- Journaled operations keep their undo data in the operations table
+          ALTER TABLE operations ADD COLUMN journal_id TEXT;
+          ALTER TABLE operations ADD COLUMN journaled_at INTEGER;   -- Milliseconds, orders undo dependencies
+
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_operations_journal ON operations(journal_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_journaled_at ON operations(journaled_at) WHERE journal_id IS NOT NULL;
+        `
+      },
+      {
+        version: 10,
+        description: 'Add content-addressed backup store',
+        sql: `
+          -- One row per stored blob; the file lives at blobs/<first two hex chars>/<sha256>
+          CREATE TABLE IF NOT EXISTS backup_blobs (
+            sha256 TEXT PRIMARY KEY,
+            size INTEGER NOT NULL,
+            created_at INTEGER NOT NULL               -- Milliseconds
+          );
+
+          -- Backed-up paths; a backup_id groups the entries of one directory tree
+          CREATE TABLE IF NOT EXISTS backup_manifest (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            backup_id TEXT NOT NULL,
+            operation_id TEXT NOT NULL,
+            transaction_id TEXT,
+            original_path TEXT NOT NULL,
+            relative_path TEXT NOT NULL DEFAULT '',   -- Path within the backed-up tree, '' for its root
+            entry_type TEXT NOT NULL CHECK (entry_type IN ('file', 'directory', 'symlink')),
+            sha256 TEXT REFERENCES backup_blobs(sha256),
+            link_target TEXT,
+            mode INTEGER NOT NULL,
+            mtime INTEGER NOT NULL,                   -- Milliseconds
+            size INTEGER NOT NULL DEFAULT 0,
+            created_at INTEGER NOT NULL               -- Milliseconds
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_backup_manifest_backup ON backup_manifest(backup_id);
+          CREATE INDEX IF NOT EXISTS idx_backup_manifest_operation ON backup_manifest(operation_id);
+          CREATE INDEX IF NOT EXISTS idx_backup_manifest_path ON backup_manifest(original_path);
+          CREATE INDEX IF NOT EXISTS idx_backup_manifest_sha256 ON backup_manifest(sha256);
+        `
+      },
+      {
+        version: 11,
+        description: 'Allow content rewrites in the operations table',
+        sql: `
+          -- SQLite cannot alter a CHECK constraint, so the table is rebuilt with 'write' added
+          CREATE TABLE operations_new (
+            id TEXT PRIMARY KEY,
+            transaction_id TEXT NOT NULL,
+            batch_id TEXT,
+            parent_operation_id TEXT,
+            operation_type TEXT NOT NULL CHECK (operation_type IN ('rename', 'move', 'delete', 'copy', 'write')),
+            file_id INTEGER,
+            source_path TEXT NOT NULL,
+            target_path TEXT,
+            status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'rolled_back')),
+            created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+            started_at INTEGER,
+            completed_at INTEGER,
+            undo_data TEXT,
+            backup_path TEXT,
+            file_size INTEGER DEFAULT 0,
+            file_hash TEXT,
+            original_mtime INTEGER,
+            error_message TEXT,
+            user_id TEXT,
+            duration_ms INTEGER DEFAULT 0,
+            journal_id TEXT,
+            journaled_at INTEGER,
+            FOREIGN KEY (file_id) REFERENCES files (id) ON DELETE SET NULL,
+            FOREIGN KEY (parent_operation_id) REFERENCES operations (id) ON DELETE CASCADE
+          );
+
+          INSERT INTO operations_new (
+            id, transaction_id, batch_id, parent_operation_id, operation_type, file_id, source_path, target_path,
+            status, created_at, started_at, completed_at, undo_data, backup_path, file_size, file_hash,
+            original_mtime, error_message, user_id, duration_ms, journal_id, journaled_at
+          )
+          SELECT
+            id, transaction_id, batch_id, parent_operation_id, operation_type, file_id, source_path, target_path,
+            status, created_at, started_at, completed_at, undo_data, backup_path, file_size, file_hash,
+            original_mtime, error_message, user_id, duration_ms, journal_id, journaled_at
+          FROM operations;
+
+          DROP TABLE operations;
+          ALTER TABLE operations_new RENAME TO operations;
+
+          CREATE INDEX IF NOT EXISTS idx_operations_transaction ON operations(transaction_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_batch ON operations(batch_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_status ON operations(status);
+          CREATE INDEX IF NOT EXISTS idx_operations_type ON operations(operation_type);
+          CREATE INDEX IF NOT EXISTS idx_operations_file_id ON operations(file_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_created ON operations(created_at);
+          CREATE INDEX IF NOT EXISTS idx_operations_user ON operations(user_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_parent ON operations(parent_operation_id);
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_operations_journal ON operations(journal_id);
+          CREATE INDEX IF NOT EXISTS idx_operations_journaled_at ON operations(journaled_at) WHERE journal_id IS NOT NULL;
+        `
+      },
+      {
+        version: 12,
+        description: 'Keep review decisions as feedback examples',
+        sql: `
+          CREATE TABLE IF NOT EXISTS review_feedback (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            file_path TEXT NOT NULL,
+            file_extension TEXT NOT NULL DEFAULT '',
+            file_category TEXT NOT NULL,
+            operation TEXT NOT NULL,
+            suggested_value TEXT NOT NULL,
+            decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject')),
+            corrected_value TEXT,                     -- Reviewer's own value, for overrides
+            confidence REAL NOT NULL,
+            validation_flags TEXT NOT NULL DEFAULT '[]',  -- JSON array
+            reason TEXT NOT NULL DEFAULT '',
+            source TEXT NOT NULL CHECK (source IN ('review', 'override')),
+            reviewed_by TEXT NOT NULL,
+            decided_at INTEGER NOT NULL               -- Milliseconds
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_review_feedback_category ON review_feedback(file_category, decided_at);
+          CREATE INDEX IF NOT EXISTS idx_review_feedback_extension ON review_feedback(file_extension, decided_at);
+        `
+      },
+      {
+        version: 13,
+        description: 'Persist agent tasks with their analysis session',
+        sql: `
+          ALTER TABLE agent_tasks ADD COLUMN session_id TEXT;
+          ALTER TABLE agent_tasks ADD COLUMN payload TEXT;  -- Full task JSON, used to re-enqueue after restart
+
+          CREATE INDEX IF NOT EXISTS idx_agent_tasks_session ON agent_tasks(session_id, state);
+        `
       }
     ];
 
@@ -459,6 +818,7 @@ class DatabaseManager {
         fileName = excluded.fileName,
         fileExtension = excluded.fileExtension,
         parentDirectory = excluded.parentDirectory,
+        hash_failed_at = NULL,
         updated_at = unixepoch()
     `);
 
@@ -497,6 +857,19 @@ class DatabaseManager {
     return stmt.get(filePath) as FileRecord | undefined;
   }
 
+  /**
+   * Files in a directory named after a stem plus extensions, e.g. IMG_1234.xmp
+   * and IMG_1234.CR2.xmp for the stem IMG_1234
+   */
+  public getFilesWithStem(parentDirectory: string, stem: string): FileRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM files
+      WHERE parentDirectory = ? AND fileName LIKE ? ESCAPE '\\'
+      ORDER BY fileName ASC
+    `);
+    return stmt.all(parentDirectory, `${stem.replace(/[\\%_]/g, '\\$&')}.%`) as FileRecord[];
+  }
+
   /**
    * Delete files that are no longer found in the file system
    */
@@ -520,6 +893,182 @@ class DatabaseManager {
     return result.changes;
   }
 
+  /**
+   * Get the change-detection state (path, size, mtime, hash) of every file under a root
+   */
+  public getFileStatesByRootPath(rootPath: string): Pick<FileRecord, 'path' | 'size' | 'mtime' | 'sha256'>[] {
+    const stmt = this.db.prepare(`
+      SELECT path, size, mtime, sha256 FROM files
+      WHERE parentDirectory = ? OR parentDirectory LIKE ?
+    `);
+    return stmt.all(rootPath, path.join(rootPath, '%')) as Pick<FileRecord, 'path' | 'size' | 'mtime' | 'sha256'>[];
+  }
+
+  /**
+   * Re-point an existing file row at its new path, keeping its id and suggestions
+   */
+  public moveFileRecord(fromPath: string, fileData: FileRecord): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE files SET
+        path = ?,
+        sha256 = ?,
+        size = ?,
+        mtime = ?,
+        lastScannedAt = ?,
+        relativePathFromRoot = ?,
+        fileName = ?,
+        fileExtension = ?,
+        parentDirectory = ?,
+        updated_at = unixepoch()
+      WHERE path = ?
+    `);
+
+    const result = stmt.run(
+      fileData.path,
+      fileData.sha256 || null,
+      fileData.size,
+      fileData.mtime,
+      fileData.lastScannedAt,
+      fileData.relativePathFromRoot || null,
+      fileData.fileName || null,
+      fileData.fileExtension || null,
+      fileData.parentDirectory || null,
+      fromPath
+    );
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete file rows by exact path
+   */
+  public deleteFilesByPath(filePaths: string[]): number {
+    if (filePaths.length === 0) {
+      return 0;
+    }
+
+    const stmt = this.db.prepare('DELETE FROM files WHERE path = ?');
+    const deleteAll = this.db.transaction((paths: string[]) => {
+      let deleted = 0;
+      for (const filePath of paths) {
+        deleted += stmt.run(filePath).changes;
+      }
+      return deleted;
+    });
+
+    return deleteAll(filePaths);
+  }
+
+  /**
+   * Get files still waiting for a content hash, smallest first
+   */
+  public getFilesPendingHash(limit: number, rootPath?: string): Pick<FileRecord, 'id' | 'path' | 'size' | 'mtime'>[] {
+    if (rootPath) {
+      const stmt = this.db.prepare(`
+        SELECT id, path, size, mtime FROM files
+        WHERE sha256 IS NULL AND size > 0 AND hash_failed_at IS NULL
+          AND (parentDirectory = ? OR parentDirectory LIKE ?)
+        ORDER BY size ASC
+        LIMIT ?
+      `);
+      return stmt.all(rootPath, path.join(rootPath, '%'), limit) as Pick<FileRecord, 'id' | 'path' | 'size' | 'mtime'>[];
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT id, path, size, mtime FROM files
+      WHERE sha256 IS NULL AND size > 0 AND hash_failed_at IS NULL
+      ORDER BY size ASC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as Pick<FileRecord, 'id' | 'path' | 'size' | 'mtime'>[];
+  }
+
+  /**
+   * Count files waiting for a content hash and their total size
+   */
+  public countFilesPendingHash(): { count: number; totalBytes: number } {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count, COALESCE(SUM(size), 0) as totalBytes FROM files
+      WHERE sha256 IS NULL AND size > 0 AND hash_failed_at IS NULL
+    `);
+    return stmt.get() as { count: number; totalBytes: number };
+  }
+
+  /**
+   * Store a deferred hash, unless the file changed since it was read
+   */
+  public setFileHash(filePath: string, sha256: string, mtime: number): boolean {
+    const stmt = this.db.prepare(`
+      UPDATE files SET sha256 = ?, updated_at = unixepoch()
+      WHERE path = ? AND mtime = ?
+    `);
+    return stmt.run(sha256, filePath, mtime).changes > 0;
+  }
+
+  /**
+   * Take the size and mtime a file has now, keeping it pending for deferred hashing
+   */
+  public updatePendingHashStats(filePath: string, size: number, mtime: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE files SET size = ?, mtime = ?, sha256 = NULL, hash_failed_at = NULL, updated_at = unixepoch()
+      WHERE path = ?
+    `);
+    stmt.run(size, mtime, filePath);
+  }
+
+  /**
+   * Exclude an unreadable file from deferred hashing until it is rescanned
+   */
+  public markHashFailed(filePath: string): void {
+    const stmt = this.db.prepare('UPDATE files SET hash_failed_at = unixepoch() WHERE path = ?');
+    stmt.run(filePath);
+  }
+
+  /**
+   * Get files whose content hash is shared with at least one other file
+   */
+  public getFilesWithDuplicateHashes(): FileRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM files
+      WHERE sha256 IN (
+        SELECT sha256 FROM files
+        WHERE sha256 IS NOT NULL
+        GROUP BY sha256
+        HAVING COUNT(*) > 1
+      )
+      ORDER BY sha256, path
+    `);
+    return stmt.all() as FileRecord[];
+  }
+
+  /**
+   * Get files sharing both size and mtime with another file (near-duplicate candidates)
+   */
+  public getFilesWithMatchingSizeAndMtime(): FileRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM files
+      WHERE size > 0 AND (size, mtime) IN (
+        SELECT size, mtime FROM files
+        WHERE size > 0
+        GROUP BY size, mtime
+        HAVING COUNT(*) > 1
+      )
+      ORDER BY size, mtime, path
+    `);
+    return stmt.all() as FileRecord[];
+  }
+
+  /**
+   * Mark every file under a root as verified by the scan at the given time
+   */
+  public markRootScanned(rootPath: string, scannedAt: number): number {
+    const stmt = this.db.prepare(`
+      UPDATE files SET lastScannedAt = ?
+      WHERE parentDirectory = ? OR parentDirectory LIKE ?
+    `);
+    return stmt.run(scannedAt, rootPath, path.join(rootPath, '%')).changes;
+  }
+
   /**
    * Settings operations
    */
@@ -579,8 +1128,8 @@ class DatabaseManager {
    */
   public createJob(jobData: Omit<JobRecord, 'id'>): number {
     const stmt = this.db.prepare(`
-      INSERT INTO jobs (rootPath, status, fileCount, errorMessage, createdAt, updatedAt) 
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO jobs (rootPath, status, fileCount, errorMessage, includePatterns, excludePatterns, createdAt, updatedAt) 
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
     
     const now = Math.floor(Date.now() / 1000);
@@ -589,6 +1138,8 @@ class DatabaseManager {
       jobData.status,
       jobData.fileCount,
       jobData.errorMessage || null,
+      jobData.include ? JSON.stringify(jobData.include) : null,
+      jobData.exclude ? JSON.stringify(jobData.exclude) : null,
       jobData.createdAt || now,
       jobData.updatedAt || now
     );
@@ -612,12 +1163,39 @@ class DatabaseManager {
 
   public getJob(id: number): JobRecord | undefined {
     const stmt = this.db.prepare('SELECT * FROM jobs WHERE id = ?');
-    return stmt.get(id) as JobRecord | undefined;
+    const row = stmt.get(id) as any;
+    return row ? this.toJobRecord(row) : undefined;
   }
 
   public getRecentJobs(limit: number = 10): JobRecord[] {
     const stmt = this.db.prepare('SELECT * FROM jobs ORDER BY createdAt DESC LIMIT ?');
-    return stmt.all(limit) as JobRecord[];
+    return (stmt.all(limit) as any[]).map(row => this.toJobRecord(row));
+  }
+
+  /**
+   * Get every root path that has completed at least one scan, with the
+   * filters of its latest completed scan
+   */
+  public getScannedRoots(): ScannedRoot[] {
+    const stmt = this.db.prepare(`
+      SELECT rootPath, includePatterns, excludePatterns FROM jobs
+      WHERE id IN (SELECT MAX(id) FROM jobs WHERE status = 'complete' GROUP BY rootPath)
+      ORDER BY rootPath
+    `);
+    return (stmt.all() as any[]).map(row => ({
+      rootPath: row.rootPath,
+      include: row.includePatterns ? JSON.parse(row.includePatterns) : undefined,
+      exclude: row.excludePatterns ? JSON.parse(row.excludePatterns) : undefined,
+    }));
+  }
+
+  private toJobRecord(row: any): JobRecord {
+    const { includePatterns, excludePatterns, ...job } = row;
+    return {
+      ...job,
+      include: includePatterns ? JSON.parse(includePatterns) : undefined,
+      exclude: excludePatterns ? JSON.parse(excludePatterns) : undefined,
+    };
   }
 
   /**
@@ -722,6 +1300,36 @@ class DatabaseManager {
     return stmt.all(...fileIds, analysisType, limit) as SuggestionRecord[];
   }
 
+  /**
+   * Get the best-ranked suggested value of one analysis type for each file
+   */
+  public getBestSuggestionValues(fileIds: number[], analysisType: string): Map<number, string> {
+    const values = new Map<number, string>();
+
+    // Stay well under SQLite's bound-parameter limit
+    for (let i = 0; i < fileIds.length; i += 500) {
+      const chunk = fileIds.slice(i, i + 500);
+      const placeholders = chunk.map(() => '?').join(',');
+      const rows = this.db.prepare(`
+        SELECT file_id as fileId, suggested_value as suggestedValue FROM (
+          SELECT file_id, suggested_value,
+                 ROW_NUMBER() OVER (
+                   PARTITION BY file_id
+                   ORDER BY is_recommended DESC, rank_position ASC, adjusted_confidence DESC
+                 ) as rn
+          FROM suggestions
+          WHERE file_id IN (${placeholders}) AND analysis_type = ?
+        ) WHERE rn = 1
+      `).all(...chunk, analysisType) as Array<{ fileId: number; suggestedValue: string }>;
+
+      for (const row of rows) {
+        values.set(row.fileId, row.suggestedValue);
+      }
+    }
+
+    return values;
+  }
+
   /**
    * Update suggestion recommendation status
    */
@@ -784,24 +1392,22 @@ class DatabaseManager {
    * Update analysis session
    */
   public updateAnalysisSession(sessionId: string, updates: Partial<AnalysisSessionRecord>): void {
-    const fields = Object.keys(updates).filter(key => key !== 'id').map(key => `${key} = ?`);
-    if (fields.length === 0) return;
+    const entries = Object.entries(updates).filter(([key]) => key in ANALYSIS_SESSION_COLUMNS);
+    if (entries.length === 0) return;
 
+    const fields = entries.map(([key]) => `${ANALYSIS_SESSION_COLUMNS[key as keyof AnalysisSessionRecord]} = ?`);
     fields.push('updated_at = unixepoch()');
-    const values = Object.keys(updates)
-      .filter(key => key !== 'id')
-      .map(key => (updates as any)[key]);
-    values.push(sessionId);
+    const values = entries.map(([, value]) => value ?? null);
 
     const stmt = this.db.prepare(`UPDATE analysis_sessions SET ${fields.join(', ')} WHERE id = ?`);
-    stmt.run(...values);
+    stmt.run(...values, sessionId);
   }
 
   /**
    * Get analysis session
    */
   public getAnalysisSession(sessionId: string): AnalysisSessionRecord | undefined {
-    const stmt = this.db.prepare('SELECT * FROM analysis_sessions WHERE id = ?');
+    const stmt = this.db.prepare(`SELECT ${ANALYSIS_SESSION_SELECT} FROM analysis_sessions WHERE id = ?`);
     return stmt.get(sessionId) as AnalysisSessionRecord | undefined;
   }
 
@@ -809,10 +1415,128 @@ class DatabaseManager {
    * Get recent analysis sessions
    */
   public getRecentAnalysisSessions(limit: number = 10): AnalysisSessionRecord[] {
-    const stmt = this.db.prepare('SELECT * FROM analysis_sessions ORDER BY started_at DESC LIMIT ?');
+    const stmt = this.db.prepare(`SELECT ${ANALYSIS_SESSION_SELECT} FROM analysis_sessions ORDER BY started_at DESC LIMIT ?`);
     return stmt.all(limit) as AnalysisSessionRecord[];
   }
 
+  /**
+   * Analysis sessions in a status, most recently started first
+   */
+  public getAnalysisSessionsByStatus(status: AnalysisSessionRecord['status']): AnalysisSessionRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT ${ANALYSIS_SESSION_SELECT} FROM analysis_sessions WHERE status = ? ORDER BY started_at DESC
+    `);
+    return stmt.all(status) as AnalysisSessionRecord[];
+  }
+
+  /**
+   * Agent task persistence
+   */
+
+  /**
+   * Insert a task, or replace it when it is saved again
+   */
+  public saveAgentTask(record: AgentTaskRecord): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO agent_tasks (
+        id, type, state, priority, model_name, file_path, session_id, timeout_ms, retry_count, max_retries,
+        estimated_memory_mb, created_at, started_at, completed_at, execution_time_ms, error_message,
+        result_data, metadata, payload
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.type,
+      record.state,
+      record.priority,
+      record.modelName,
+      record.filePath,
+      record.sessionId,
+      record.timeoutMs,
+      record.retryCount,
+      record.maxRetries,
+      Math.round(record.estimatedMemoryMB),
+      record.createdAt,
+      record.startedAt,
+      record.completedAt,
+      record.executionTimeMs,
+      record.errorMessage,
+      record.resultData,
+      record.metadata,
+      record.payload
+    );
+  }
+
+  /**
+   * Record a state transition. Returns false if the task is not persisted.
+   */
+  public updateAgentTask(
+    taskId: string,
+    updates: Partial<Pick<AgentTaskRecord, 'state' | 'retryCount' | 'startedAt' | 'completedAt' |
+      'executionTimeMs' | 'errorMessage' | 'resultData' | 'payload'>>
+  ): boolean {
+    const entries = Object.entries(updates).filter(([key]) => key in AGENT_TASK_UPDATE_COLUMNS);
+    if (entries.length === 0) return false;
+
+    const fields = entries.map(([key]) => `${AGENT_TASK_UPDATE_COLUMNS[key as keyof typeof AGENT_TASK_UPDATE_COLUMNS]} = ?`);
+    const values = entries.map(([, value]) => value ?? null);
+    return this.db.prepare(`UPDATE agent_tasks SET ${fields.join(', ')} WHERE id = ?`).run(...values, taskId).changes > 0;
+  }
+
+  /**
+   * Tasks matching the filters in dispatch order: priority, then creation time
+   */
+  public getAgentTasks(filters: AgentTaskFilters = {}): AgentTaskRecord[] {
+    const { where, params } = this.buildAgentTaskFilter(filters);
+    return this.db.prepare(`
+      SELECT id, type, state, priority, model_name as modelName, file_path as filePath, session_id as sessionId,
+             timeout_ms as timeoutMs, retry_count as retryCount, max_retries as maxRetries,
+             estimated_memory_mb as estimatedMemoryMB, created_at as createdAt, started_at as startedAt,
+             completed_at as completedAt, execution_time_ms as executionTimeMs, error_message as errorMessage,
+             result_data as resultData, metadata, payload
+      FROM agent_tasks
+      ${where ? `WHERE ${where}` : ''}
+      ORDER BY priority ASC, created_at ASC
+    `).all(...params) as AgentTaskRecord[];
+  }
+
+  public countAgentTasks(filters: AgentTaskFilters = {}): number {
+    const { where, params } = this.buildAgentTaskFilter(filters);
+    const row = this.db.prepare(`
+      SELECT COUNT(*) as count FROM agent_tasks ${where ? `WHERE ${where}` : ''}
+    `).get(...params) as { count: number };
+    return row.count;
+  }
+
+  public deleteAgentTasks(filters: AgentTaskFilters): number {
+    const { where, params } = this.buildAgentTaskFilter(filters);
+    if (!where) {
+      throw new Error('Refusing to delete agent tasks without filters');
+    }
+    return this.db.prepare(`DELETE FROM agent_tasks WHERE ${where}`).run(...params).changes;
+  }
+
+  private buildAgentTaskFilter(filters: AgentTaskFilters): { where: string; params: any[] } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    if (filters.states && filters.states.length > 0) {
+      clauses.push(`state IN (${filters.states.map(() => '?').join(', ')})`);
+      params.push(...filters.states);
+    }
+    if (filters.sessionId === null) {
+      clauses.push('session_id IS NULL');
+    } else if (filters.sessionId !== undefined) {
+      clauses.push('session_id = ?');
+      params.push(filters.sessionId);
+    }
+    if (filters.completedBefore !== undefined) {
+      clauses.push('completed_at < ?');
+      params.push(filters.completedBefore);
+    }
+
+    return { where: clauses.join(' AND '), params };
+  }
+
   /**
    * Model metrics management
    */
@@ -964,7 +1688,7 @@ class DatabaseManager {
     transactionId: string;
     batchId?: string;
     parentOperationId?: string;
-    operationType: 'rename' | 'move' | 'delete' | 'copy';
+    operationType: 'rename' | 'move' | 'delete' | 'copy' | 'write';
     fileId?: number;
     sourcePath: string;
     targetPath?: string;
@@ -1065,6 +1789,394 @@ class DatabaseManager {
     return result.changes > 0;
   }
 
+  /**
+   * Store a committed operation together with the data needed to undo it
+   */
+  public insertJournalOperation(record: Omit<JournalOperationRecord, 'status'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO operations (
+        id, journal_id, transaction_id, operation_type, file_id,
+        source_path, target_path, status, undo_data, backup_path,
+        file_size, file_hash, original_mtime, user_id,
+        completed_at, journaled_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 'completed', ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        journal_id = excluded.journal_id,
+        status = 'completed',
+        undo_data = excluded.undo_data,
+        backup_path = excluded.backup_path,
+        completed_at = excluded.completed_at,
+        journaled_at = excluded.journaled_at
+    `);
+
+    stmt.run(
+      record.operationId,
+      record.journalId,
+      record.transactionId,
+      record.operationType,
+      record.fileId,
+      record.sourcePath,
+      record.targetPath,
+      record.undoData,
+      record.backupPath,
+      record.fileSize,
+      record.fileHash,
+      record.originalMtime,
+      record.userId,
+      Math.floor(record.journaledAt / 1000),
+      record.journaledAt
+    );
+  }
+
+  /**
+   * Query journaled operations, newest first
+   */
+  public getJournalOperations(filters: JournalQueryFilters = {}, offset = 0, limit = -1): JournalOperationRecord[] {
+    const { where, params } = this.buildJournalFilter(filters);
+    const stmt = this.db.prepare(`
+      SELECT journal_id as journalId, id as operationId, transaction_id as transactionId,
+             operation_type as operationType, file_id as fileId, source_path as sourcePath,
+             target_path as targetPath, status, undo_data as undoData, backup_path as backupPath,
+             file_size as fileSize, file_hash as fileHash, original_mtime as originalMtime,
+             user_id as userId, journaled_at as journaledAt
+      FROM operations
+      WHERE ${where}
+      ORDER BY journaled_at DESC, rowid DESC
+      LIMIT ? OFFSET ?
+    `);
+    return stmt.all(...params, limit, offset) as JournalOperationRecord[];
+  }
+
+  /**
+   * Count journaled operations matching the filters
+   */
+  public countJournalOperations(filters: JournalQueryFilters = {}): number {
+    const { where, params } = this.buildJournalFilter(filters);
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM operations WHERE ${where}`).get(...params) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Remove journaled operations by journal ID
+   */
+  public deleteJournalOperations(journalIds: string[]): number {
+    if (journalIds.length === 0) {
+      return 0;
+    }
+
+    const stmt = this.db.prepare('DELETE FROM operations WHERE journal_id = ?');
+    const deleteAll = this.db.transaction((ids: string[]) => {
+      let deleted = 0;
+      for (const journalId of ids) {
+        deleted += stmt.run(journalId).changes;
+      }
+      return deleted;
+    });
+
+    return deleteAll(journalIds);
+  }
+
+  private buildJournalFilter(filters: JournalQueryFilters): { where: string; params: any[] } {
+    const clauses = ['journal_id IS NOT NULL'];
+    const params: any[] = [];
+
+    const exact: Array<[keyof JournalQueryFilters, string]> = [
+      ['operationId', 'id'],
+      ['transactionId', 'transaction_id'],
+      ['sourceId', 'file_id'],
+      ['sourcePath', 'source_path'],
+      ['type', 'operation_type'],
+      ['userId', 'user_id'],
+      ['status', 'status'],
+    ];
+    for (const [key, column] of exact) {
+      if (filters[key] !== undefined) {
+        clauses.push(`${column} = ?`);
+        params.push(filters[key]);
+      }
+    }
+
+    if (filters.startDate !== undefined) {
+      clauses.push('journaled_at >= ?');
+      params.push(filters.startDate);
+    }
+    if (filters.endDate !== undefined) {
+      clauses.push('journaled_at < ?');
+      params.push(filters.endDate);
+    }
+
+    return { where: clauses.join(' AND '), params };
+  }
+
+  /**
+   * Record a stored blob; blobs already known are left as they are
+   */
+  public insertBackupBlob(sha256: string, size: number): void {
+    this.db.prepare(`
+      INSERT INTO backup_blobs (sha256, size, created_at) VALUES (?, ?, ?)
+      ON CONFLICT(sha256) DO NOTHING
+    `).run(sha256, size, Date.now());
+  }
+
+  /**
+   * Store all entries of a backup atomically
+   */
+  public insertBackupEntries(entries: BackupEntryRecord[]): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO backup_manifest (
+        backup_id, operation_id, transaction_id, original_path, relative_path,
+        entry_type, sha256, link_target, mode, mtime, size, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAll = this.db.transaction((rows: BackupEntryRecord[]) => {
+      for (const entry of rows) {
+        stmt.run(
+          entry.backupId,
+          entry.operationId,
+          entry.transactionId,
+          entry.originalPath,
+          entry.relativePath,
+          entry.entryType,
+          entry.sha256,
+          entry.linkTarget,
+          entry.mode,
+          entry.mtime,
+          entry.size,
+          entry.createdAt
+        );
+      }
+    });
+
+    insertAll(entries);
+  }
+
+  /**
+   * Entries of one backup, or of all backups, parents before children
+   */
+  public getBackupEntries(backupId?: string): BackupEntryRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT backup_id as backupId, operation_id as operationId, transaction_id as transactionId,
+             original_path as originalPath, relative_path as relativePath, entry_type as entryType,
+             sha256, link_target as linkTarget, mode, mtime, size, created_at as createdAt
+      FROM backup_manifest
+      ${backupId !== undefined ? 'WHERE backup_id = ?' : ''}
+      ORDER BY created_at, backup_id, relative_path
+    `);
+    return (backupId !== undefined ? stmt.all(backupId) : stmt.all()) as BackupEntryRecord[];
+  }
+
+  /**
+   * Remove backups from the manifest; their blobs are left for garbage collection
+   */
+  public deleteBackups(backupIds: string[]): number {
+    if (backupIds.length === 0) {
+      return 0;
+    }
+
+    const stmt = this.db.prepare('DELETE FROM backup_manifest WHERE backup_id = ?');
+    const deleteAll = this.db.transaction((ids: string[]) => {
+      let deleted = 0;
+      for (const backupId of ids) {
+        deleted += stmt.run(backupId).changes > 0 ? 1 : 0;
+      }
+      return deleted;
+    });
+
+    return deleteAll(backupIds);
+  }
+
+  /**
+   * Blobs no backup refers to any more
+   */
+  public getUnreferencedBackupBlobs(): BackupBlobRecord[] {
+    return this.db.prepare(`
+      SELECT b.sha256, b.size, b.created_at as createdAt
+      FROM backup_blobs b
+      WHERE NOT EXISTS (SELECT 1 FROM backup_manifest m WHERE m.sha256 = b.sha256)
+    `).all() as BackupBlobRecord[];
+  }
+
+  public getBackupBlobHashes(): string[] {
+    return (this.db.prepare('SELECT sha256 FROM backup_blobs').all() as Array<{ sha256: string }>)
+      .map(row => row.sha256);
+  }
+
+  public deleteBackupBlobs(hashes: string[]): number {
+    if (hashes.length === 0) {
+      return 0;
+    }
+
+    const stmt = this.db.prepare('DELETE FROM backup_blobs WHERE sha256 = ?');
+    const deleteAll = this.db.transaction((rows: string[]) => {
+      let deleted = 0;
+      for (const sha256 of rows) {
+        deleted += stmt.run(sha256).changes;
+      }
+      return deleted;
+    });
+
+    return deleteAll(hashes);
+  }
+
+  /**
+   * Disk usage of the backup store
+   */
+  public getBackupUsage(): BackupUsage {
+    const manifest = this.db.prepare(`
+      SELECT COUNT(DISTINCT backup_id) as backupCount, COALESCE(SUM(size), 0) as logicalBytes,
+             MIN(created_at) as oldestBackupAt
+      FROM backup_manifest
+    `).get() as Pick<BackupUsage, 'backupCount' | 'logicalBytes' | 'oldestBackupAt'>;
+    const blobs = this.db.prepare(`
+      SELECT COUNT(*) as blobCount, COALESCE(SUM(size), 0) as storedBytes FROM backup_blobs
+    `).get() as Pick<BackupUsage, 'blobCount' | 'storedBytes'>;
+
+    return { ...manifest, ...blobs };
+  }
+
+  public insertReviewFeedback(record: Omit<ReviewFeedbackRecord, 'id'>): number {
+    const result = this.db.prepare(`
+      INSERT INTO review_feedback (
+        file_path, file_extension, file_category, operation, suggested_value, decision,
+        corrected_value, confidence, validation_flags, reason, source, reviewed_by, decided_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.filePath,
+      record.fileExtension,
+      record.fileCategory,
+      record.operation,
+      record.suggestedValue,
+      record.decision,
+      record.correctedValue,
+      record.confidence,
+      JSON.stringify(record.validationFlags),
+      record.reason,
+      record.source,
+      record.reviewedBy,
+      record.decidedAt
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Feedback examples matching the filters, newest first
+   */
+  public getReviewFeedback(filters: ReviewFeedbackFilters = {}, offset = 0, limit = -1): ReviewFeedbackRecord[] {
+    const { where, params } = this.buildReviewFeedbackFilter(filters);
+    const rows = this.db.prepare(`
+      SELECT id, file_path as filePath, file_extension as fileExtension, file_category as fileCategory,
+             operation, suggested_value as suggestedValue, decision, corrected_value as correctedValue,
+             confidence, validation_flags as validationFlags, reason, source, reviewed_by as reviewedBy,
+             decided_at as decidedAt
+      FROM review_feedback
+      ${where ? `WHERE ${where}` : ''}
+      ORDER BY decided_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, limit, offset) as Array<Omit<ReviewFeedbackRecord, 'validationFlags'> & { validationFlags: string }>;
+
+    return rows.map(row => ({ ...row, validationFlags: JSON.parse(row.validationFlags) }));
+  }
+
+  public countReviewFeedback(filters: ReviewFeedbackFilters = {}): number {
+    const { where, params } = this.buildReviewFeedbackFilter(filters);
+    const row = this.db.prepare(`
+      SELECT COUNT(*) as count FROM review_feedback ${where ? `WHERE ${where}` : ''}
+    `).get(...params) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Delete examples by id, or every example matching the filters
+   */
+  public deleteReviewFeedback(criteria: { ids: number[] } | ReviewFeedbackFilters): number {
+    if ('ids' in criteria) {
+      if (criteria.ids.length === 0) {
+        return 0;
+      }
+      const stmt = this.db.prepare('DELETE FROM review_feedback WHERE id = ?');
+      const deleteAll = this.db.transaction((ids: number[]) =>
+        ids.reduce((deleted, id) => deleted + stmt.run(id).changes, 0));
+      return deleteAll(criteria.ids);
+    }
+
+    const { where, params } = this.buildReviewFeedbackFilter(criteria);
+    return this.db.prepare(`DELETE FROM review_feedback ${where ? `WHERE ${where}` : ''}`).run(...params).changes;
+  }
+
+  private buildReviewFeedbackFilter(filters: ReviewFeedbackFilters): { where: string; params: any[] } {
+    const clauses: string[] = [];
+    const params: any[] = [];
+    const exact: Array<[keyof ReviewFeedbackFilters, string]> = [
+      ['fileCategory', 'file_category'],
+      ['fileExtension', 'file_extension'],
+      ['operation', 'operation'],
+      ['decision', 'decision'],
+    ];
+    for (const [key, column] of exact) {
+      if (filters[key] !== undefined) {
+        clauses.push(`${column} = ?`);
+        params.push(filters[key]);
+      }
+    }
+
+    if (filters.before !== undefined) {
+      clauses.push('decided_at < ?');
+      params.push(filters.before);
+    }
+
+    return { where: clauses.join(' AND '), params };
+  }
+
+  /**
+   * Get content a given extractor extracted for a file hash
+   */
+  public getCachedContent(sha256: string, extractor: string): ContentCacheRecord | undefined {
+    const row = this.db.prepare(`
+      SELECT sha256, extractor, content, original_length as originalLength,
+             is_truncated as isTruncated, created_at as createdAt, last_accessed_at as lastAccessedAt
+      FROM content_cache WHERE sha256 = ? AND extractor = ?
+    `).get(sha256, extractor) as (Omit<ContentCacheRecord, 'isTruncated'> & { isTruncated: number }) | undefined;
+
+    if (!row) return undefined;
+
+    this.db.prepare('UPDATE content_cache SET last_accessed_at = unixepoch() WHERE sha256 = ? AND extractor = ?')
+      .run(sha256, extractor);
+    return { ...row, isTruncated: !!row.isTruncated };
+  }
+
+  /**
+   * Store extracted content for a file hash
+   */
+  public setCachedContent(record: Omit<ContentCacheRecord, 'createdAt' | 'lastAccessedAt'>): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO content_cache (sha256, extractor, content, original_length, is_truncated)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(sha256, extractor) DO UPDATE SET
+        content = excluded.content,
+        original_length = excluded.original_length,
+        is_truncated = excluded.is_truncated,
+        last_accessed_at = unixepoch()
+    `);
+
+    stmt.run(
+      record.sha256,
+      record.extractor,
+      record.content,
+      record.originalLength,
+      record.isTruncated ? 1 : 0
+    );
+  }
+
+  /**
+   * Remove cached content that has not been accessed recently
+   */
+  public cleanupContentCache(daysToKeep: number = 30): number {
+    const cutoffTime = Math.floor(Date.now() / 1000) - (daysToKeep * 24 * 60 * 60);
+    const result = this.db.prepare('DELETE FROM content_cache WHERE last_accessed_at < ?').run(cutoffTime);
+    return result.changes;
+  }
+
   /**
    * Cleanup and close database
    */
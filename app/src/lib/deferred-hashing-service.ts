@@ -0,0 +1,226 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import { Logger } from './logger';
+import { DatabaseManager } from './database';
+import { hashFileStream } from '../workers/file-hasher';
+import type { ProgressUpdate } from '../workers/file-scanner';
+
+export interface DeferredHashingConfig {
+  batchSize: number;                   // Pending files fetched per query
+  idleDelayMs: number;                 // Pause between files to stay low priority
+  startDelayMs: number;                // Quiet period before a scheduled run starts
+  progressIntervalMs: number;          // Minimum interval between progress events
+}
+
+export interface DeferredHashingStatus {
+  running: boolean;
+  paused: boolean;
+  pendingFiles: number;
+  pendingBytes: number;
+  hashedThisRun: number;
+}
+
+/**
+ * Hashes files the scanner left without a sha256 (large media, archives).
+ *
+ * Runs after a scan reports complete and keeps all state in the files table:
+ * a file is pending while its sha256 is NULL, so work resumes after restarts
+ * simply by starting the service again.
+ */
+export class DeferredHashingService extends EventEmitter {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private config: DeferredHashingConfig;
+  private runPromise: Promise<void> | null = null;
+  private startTimer: NodeJS.Timeout | null = null;
+  private abortController: AbortController | null = null;
+  private paused = false;
+  private stopped = false;
+  private rerunRequested = false;
+  private hashedThisRun = 0;
+
+  private static readonly DEFAULT_CONFIG: DeferredHashingConfig = {
+    batchSize: 25,
+    idleDelayMs: 25,
+    startDelayMs: 2000,
+    progressIntervalMs: 500,
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, config: Partial<DeferredHashingConfig> = {}) {
+    super();
+    this.database = database;
+    this.logger = logger;
+    this.config = { ...DeferredHashingService.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Resume hashing left over from previous sessions
+   */
+  public start(): void {
+    this.stopped = false;
+    this.schedule();
+  }
+
+  /**
+   * Request a hashing run; coalesces with a run that is already active
+   */
+  public schedule(): void {
+    if (this.stopped || this.paused) return;
+
+    if (this.runPromise) {
+      this.rerunRequested = true;
+      return;
+    }
+
+    if (this.startTimer) clearTimeout(this.startTimer);
+    this.startTimer = setTimeout(() => {
+      this.startTimer = null;
+      this.runNow();
+    }, this.config.startDelayMs);
+  }
+
+  /**
+   * Pause hashing (e.g. while a scan is competing for disk I/O)
+   */
+  public pause(): void {
+    this.paused = true;
+    this.abortController?.abort();
+    if (this.startTimer) {
+      clearTimeout(this.startTimer);
+      this.startTimer = null;
+    }
+  }
+
+  public resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop hashing and wait for the current file to be abandoned
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    this.pause();
+    if (this.runPromise) {
+      await this.runPromise;
+    }
+  }
+
+  public getStatus(): DeferredHashingStatus {
+    const pending = this.database.countFilesPendingHash();
+    return {
+      running: this.runPromise !== null,
+      paused: this.paused,
+      pendingFiles: pending.count,
+      pendingBytes: pending.totalBytes,
+      hashedThisRun: this.hashedThisRun,
+    };
+  }
+
+  /**
+   * Start a run immediately and resolve when it finishes
+   */
+  public runNow(): Promise<void> {
+    if (!this.runPromise) {
+      this.runPromise = this.run().finally(() => {
+        this.runPromise = null;
+        if (this.rerunRequested) {
+          this.rerunRequested = false;
+          this.schedule();
+        }
+      });
+    }
+    return this.runPromise;
+  }
+
+  private async run(): Promise<void> {
+    const pending = this.database.countFilesPendingHash();
+    if (pending.count === 0) return;
+
+    this.hashedThisRun = 0;
+    this.logger.info('DeferredHashing', `Hashing ${pending.count} deferred files`, {
+      totalBytes: pending.totalBytes,
+    });
+
+    let bytesDone = 0;
+    let lastProgressAt = 0;
+    const sendProgress = (currentFile: string, bytesInFile: number, force = false) => {
+      const now = Date.now();
+      if (!force && now - lastProgressAt < this.config.progressIntervalMs) return;
+      lastProgressAt = now;
+
+      const progress: ProgressUpdate = {
+        fileCount: this.hashedThisRun,
+        currentFile,
+        percent: pending.totalBytes > 0
+          ? Math.min(100, Math.floor(((bytesDone + bytesInFile) / pending.totalBytes) * 100))
+          : 0,
+        phase: 'hashing',
+      };
+      this.emit('progress', progress);
+    };
+
+    sendProgress('', 0, true);
+
+    while (!this.paused && !this.stopped) {
+      const batch = this.database.getFilesPendingHash(this.config.batchSize);
+      if (batch.length === 0) break;
+
+      for (const file of batch) {
+        if (this.paused || this.stopped) break;
+
+        try {
+          const stats = await fs.stat(file.path);
+          const mtime = Math.floor(stats.mtime.getTime() / 1000);
+          if (stats.size !== file.size || mtime !== file.mtime) {
+            // Changed since the scan: hash it as it is now rather than waiting for a rescan
+            this.database.updatePendingHashStats(file.path, stats.size, mtime);
+          }
+
+          this.abortController = new AbortController();
+          const sha256 = await hashFileStream(file.path, {
+            signal: this.abortController.signal,
+            onProgress: (bytesRead) => sendProgress(file.path, bytesRead),
+          });
+
+          if (!sha256 || !this.database.setFileHash(file.path, sha256, mtime)) {
+            this.database.markHashFailed(file.path);
+            continue;
+          }
+
+          this.hashedThisRun++;
+          bytesDone += stats.size;
+          sendProgress(file.path, 0);
+        } catch (error) {
+          if (this.abortController?.signal.aborted) {
+            // Paused mid-file; it stays pending for the next run
+            break;
+          }
+          this.logger.warn('DeferredHashing', `Failed to hash ${file.path}`, { error: String(error) });
+          this.database.markHashFailed(file.path);
+        } finally {
+          this.abortController = null;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, this.config.idleDelayMs));
+      }
+    }
+
+    const interrupted = this.paused || this.stopped;
+    this.logger.info('DeferredHashing', interrupted ? 'Deferred hashing paused' : 'Deferred hashing complete', {
+      hashedFiles: this.hashedThisRun,
+    });
+
+    if (!interrupted) {
+      this.emit('progress', {
+        fileCount: this.hashedThisRun,
+        currentFile: '',
+        percent: 100,
+        phase: 'complete',
+      } as ProgressUpdate);
+      this.emit('hashing-complete', { hashedFiles: this.hashedThisRun });
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './logger';
+import type { DatabaseManager, FileRecord, SuggestionRecord } from './database';
+import type { SuggestionExecutionService } from './suggestion-execution-service';
+import { claimUniquePath, syncExecutedOperations } from './file-relocation';
+
+export type DuplicateMatchType = 'exact' | 'near';
+
+export type DuplicateResolutionAction = 'delete' | 'move';
+
+export interface DuplicateFile {
+  id: number;
+  path: string;
+  size: number;
+  mtime: number;
+  sha256?: string;
+}
+
+export interface DuplicateGroup {
+  id: string;                          // 'exact:<sha256>' or 'near:<stem>|<ext>|<size>|<mtime>'
+  matchType: DuplicateMatchType;
+  files: DuplicateFile[];
+  suggestedKeeperId: number;
+  reclaimableBytes: number;            // Size freed by keeping a single copy
+}
+
+export interface DuplicateScanResult {
+  groups: DuplicateGroup[];
+  exactGroups: number;
+  nearGroups: number;
+  reclaimableBytes: number;
+}
+
+export interface DuplicateResolutionRequest {
+  keeperId: number;
+  fileIds: number[];                   // Every member of the group, keeper included
+  action: DuplicateResolutionAction;
+  targetFolder?: string;               // Required for 'move'
+}
+
+export interface DuplicateResolutionResult {
+  success: boolean;
+  transactionId: string;
+  processedFiles: number;
+  errors: string[];
+}
+
+// Suffixes file managers append to copies: "name (1)", "name copy", "name - Copy (2)", "name_copy"
+const COPY_SUFFIX_PATTERN = /(?:[\s_-]+copy(?:[\s_-]*\(?\d+\)?)?|\s*\(\d+\))$/i;
+
+/**
+ * Strip copy suffixes from a file name stem, reporting whether any were present
+ */
+export function normalizeCopyStem(stem: string): { stem: string; hadCopySuffix: boolean } {
+  let current = stem;
+  let hadCopySuffix = false;
+
+  while (COPY_SUFFIX_PATTERN.test(current)) {
+    const stripped = current.replace(COPY_SUFFIX_PATTERN, '');
+    if (!stripped) break;
+    current = stripped;
+    hadCopySuffix = true;
+  }
+
+  return { stem: current.toLowerCase(), hadCopySuffix };
+}
+
+/**
+ * Finds exact duplicates (shared sha256) and near duplicates (copy-suffixed
+ * names with identical size and mtime), and resolves a group by deleting or
+ * moving everything except the chosen keeper.
+ *
+ * Resolution goes through SuggestionExecutionService.executeWithTransaction so
+ * the files are backed up, rolled back on failure and journaled for undo.
+ */
+export class DuplicateFinderService extends EventEmitter {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly executionService: SuggestionExecutionService;
+
+  constructor(database: DatabaseManager, logger: Logger, executionService: SuggestionExecutionService) {
+    super();
+    this.database = database;
+    this.logger = logger;
+    this.executionService = executionService;
+  }
+
+  /**
+   * Group the indexed files into exact and near-duplicate sets
+   */
+  public findDuplicates(): DuplicateScanResult {
+    const exactGroups = this.findExactGroups();
+
+    // Members hashed to different values are different files, and a near group
+    // whose members all share one hash is already reported as exact, so only
+    // groups with members still unhashed remain
+    const nearGroups = this.findNearGroups().filter(group => {
+      const hashes = new Set(group.files.filter(file => file.sha256).map(file => file.sha256));
+      return hashes.size <= 1 && group.files.some(file => !file.sha256);
+    });
+
+    const groups = [...exactGroups, ...nearGroups]
+      .sort((a, b) => b.reclaimableBytes - a.reclaimableBytes);
+
+    this.logger.info('DuplicateFinder', 'Duplicate search complete', {
+      exactGroups: exactGroups.length,
+      nearGroups: nearGroups.length,
+    });
+
+    return {
+      groups,
+      exactGroups: exactGroups.length,
+      nearGroups: nearGroups.length,
+      reclaimableBytes: groups.reduce((sum, group) => sum + group.reclaimableBytes, 0),
+    };
+  }
+
+  /**
+   * Delete or move every file in a group except the keeper
+   */
+  public async resolveGroup(request: DuplicateResolutionRequest): Promise<DuplicateResolutionResult> {
+    if (!request.fileIds.includes(request.keeperId)) {
+      throw new Error('Keeper must be a member of the duplicate group');
+    }
+    if (request.action === 'move' && !request.targetFolder) {
+      throw new Error('A target folder is required to move duplicates');
+    }
+
+    const files: FileRecord[] = [];
+    for (const fileId of request.fileIds) {
+      if (fileId === request.keeperId) continue;
+      const file = this.database.getFileById(fileId);
+      if (!file) {
+        throw new Error(`File not found: ${fileId}`);
+      }
+      files.push(file);
+    }
+
+    if (files.length === 0) {
+      return { success: true, transactionId: '', processedFiles: 0, errors: [] };
+    }
+
+    const targets = request.action === 'move'
+      ? await this.planMoveTargets(files, request.targetFolder!)
+      : new Map<string, string>();
+
+    const requestId = `duplicates_${Date.now()}`;
+    const suggestions: SuggestionRecord[] = files.map(file => ({
+      fileId: file.id!,
+      requestId,
+      analysisType: 'classification',
+      suggestedValue: targets.get(file.path) || '',
+      originalConfidence: 1,
+      adjustedConfidence: 1,
+      qualityScore: 1,
+      reasoning: `Duplicate of file ${request.keeperId}`,
+      modelUsed: 'duplicate-finder',
+      analysisDuration: 0,
+      rankPosition: 1,
+      isRecommended: true,
+    }));
+
+    this.logger.info('DuplicateFinder', `Resolving duplicate group (${request.action})`, {
+      keeperId: request.keeperId,
+      fileCount: files.length,
+      targetFolder: request.targetFolder,
+    });
+
+    const execution = await this.executionService.executeWithTransaction(suggestions, {
+      createBackups: true,
+      enableRollback: true,
+      operationJournaling: true,
+      operationType: request.action,
+      // Targets are already free; a file appearing there since gets a suffix too
+      conflictStrategy: 'auto-suffix',
+    });
+
+    if (execution.success) {
+      syncExecutedOperations(this.database, execution.executedOperations ?? []);
+    }
+
+    const result: DuplicateResolutionResult = {
+      success: execution.success,
+      transactionId: execution.transactionId,
+      processedFiles: execution.success ? files.length : 0,
+      errors: execution.errors,
+    };
+
+    this.emit('duplicates-resolved', { ...result, keeperId: request.keeperId, action: request.action });
+    return result;
+  }
+
+  private findExactGroups(): DuplicateGroup[] {
+    const byHash = new Map<string, FileRecord[]>();
+    for (const file of this.database.getFilesWithDuplicateHashes()) {
+      const members = byHash.get(file.sha256!) || [];
+      members.push(file);
+      byHash.set(file.sha256!, members);
+    }
+
+    return Array.from(byHash.entries())
+      .filter(([, members]) => members.length > 1)
+      .map(([sha256, members]) => this.createGroup(`exact:${sha256}`, 'exact', members));
+  }
+
+  private findNearGroups(): DuplicateGroup[] {
+    const byKey = new Map<string, { members: FileRecord[]; hasCopy: boolean }>();
+
+    for (const file of this.database.getFilesWithMatchingSizeAndMtime()) {
+      const extension = path.extname(file.path).toLowerCase();
+      const { stem, hadCopySuffix } = normalizeCopyStem(path.basename(file.path, path.extname(file.path)));
+      const key = `${stem}|${extension}|${file.size}|${file.mtime}`;
+
+      const entry = byKey.get(key) || { members: [], hasCopy: false };
+      entry.members.push(file);
+      entry.hasCopy = entry.hasCopy || hadCopySuffix;
+      byKey.set(key, entry);
+    }
+
+    return Array.from(byKey.entries())
+      .filter(([, entry]) => entry.members.length > 1 && entry.hasCopy)
+      .map(([key, entry]) => this.createGroup(`near:${key}`, 'near', entry.members));
+  }
+
+  private createGroup(id: string, matchType: DuplicateMatchType, members: FileRecord[]): DuplicateGroup {
+    const files: DuplicateFile[] = members.map(file => ({
+      id: file.id!,
+      path: file.path,
+      size: file.size,
+      mtime: file.mtime,
+      sha256: file.sha256 || undefined,
+    }));
+
+    return {
+      id,
+      matchType,
+      files,
+      suggestedKeeperId: this.pickKeeper(files).id,
+      reclaimableBytes: files.slice(1).reduce((sum, file) => sum + file.size, 0),
+    };
+  }
+
+  /**
+   * Prefer the original name, then the shallowest and shortest path
+   */
+  private pickKeeper(files: DuplicateFile[]): DuplicateFile {
+    const rank = (file: DuplicateFile) => {
+      const { hadCopySuffix } = normalizeCopyStem(path.basename(file.path, path.extname(file.path)));
+      return [hadCopySuffix ? 1 : 0, file.path.split(path.sep).length, file.path.length, file.id];
+    };
+
+    return [...files].sort((a, b) => {
+      const rankA = rank(a);
+      const rankB = rank(b);
+      for (let i = 0; i < rankA.length; i++) {
+        if (rankA[i] !== rankB[i]) return rankA[i] - rankB[i];
+      }
+      return 0;
+    })[0];
+  }
+
+  /**
+   * Pick collision-free names in the target folder, creating it if needed
+   */
+  private async planMoveTargets(files: FileRecord[], targetFolder: string): Promise<Map<string, string>> {
+    await fs.mkdir(targetFolder, { recursive: true });
+
+    const targets = new Map<string, string>();
+    const taken = new Set<string>();
+
+    for (const file of files) {
+      targets.set(file.path, await claimUniquePath(path.join(targetFolder, path.basename(file.path)), taken));
+    }
+
+    return targets;
+  }
+}
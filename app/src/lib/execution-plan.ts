@@ -0,0 +1,232 @@
+import * as path from 'path';
+import type { PlannedOperation } from './suggestion-execution-service';
+
+export const PLAN_MANIFEST_FORMAT = 'maxsort-plan';
+export const PLAN_MANIFEST_VERSION = 1;
+
+/**
+ * Execution plan as exported for review. Version 1 holds renames, moves,
+ * deletes and content writes with absolute paths, in execution order.
+ */
+export interface PlanManifest {
+  format: typeof PLAN_MANIFEST_FORMAT;
+  version: number;
+  id: string;
+  createdAt: string;     // ISO 8601
+  operations: PlannedOperation[];
+}
+
+const PLAN_OPERATION_TYPES: PlannedOperation['type'][] = ['rename', 'move', 'delete', 'write'];
+
+// The only metadata createExecutionPlan emits, with its types
+const PLAN_METADATA_TYPES: Record<string, 'number' | 'boolean'> = {
+  confidence: 'number',
+  force: 'boolean',
+  createBackup: 'boolean',
+  useTrash: 'boolean',
+};
+
+export function createPlanManifest(operations: PlannedOperation[], id = `plan-${Date.now()}`): PlanManifest {
+  return {
+    format: PLAN_MANIFEST_FORMAT,
+    version: PLAN_MANIFEST_VERSION,
+    id,
+    createdAt: new Date().toISOString(),
+    operations,
+  };
+}
+
+/**
+ * Parse and check a manifest before anything is replayed from it
+ */
+export function parsePlanManifest(text: string): PlanManifest {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid plan manifest: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!manifest || manifest.format !== PLAN_MANIFEST_FORMAT) {
+    throw new Error('Invalid plan manifest: not a MaxSort plan');
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error('Invalid plan manifest: missing version');
+  }
+  if (manifest.version > PLAN_MANIFEST_VERSION) {
+    throw new Error(`Plan manifest version ${manifest.version} is newer than the supported version ${PLAN_MANIFEST_VERSION}`);
+  }
+  if (typeof manifest.id !== 'string' || !Array.isArray(manifest.operations)) {
+    throw new Error('Invalid plan manifest: missing id or operations');
+  }
+
+  manifest.operations.forEach((operation: any, index: number) => {
+    const problem = describeInvalidOperation(operation);
+    if (problem) {
+      throw new Error(`Invalid plan manifest: operation ${index + 1} ${problem}`);
+    }
+  });
+
+  return manifest as PlanManifest;
+}
+
+function describeInvalidOperation(operation: any): string | null {
+  if (!operation || !PLAN_OPERATION_TYPES.includes(operation.type)) {
+    return `has unsupported type ${JSON.stringify(operation?.type)}`;
+  }
+  if (typeof operation.source !== 'string' || !path.isAbsolute(operation.source)) {
+    return 'needs an absolute source path';
+  }
+  if ((operation.type === 'rename' || operation.type === 'move') &&
+      (typeof operation.target !== 'string' || !path.isAbsolute(operation.target))) {
+    return 'needs an absolute target path';
+  }
+  if (operation.type === 'write' && typeof operation.content !== 'string') {
+    return 'needs content';
+  }
+  if (operation.metadata !== undefined) {
+    if (typeof operation.metadata !== 'object' || operation.metadata === null) {
+      return 'has invalid metadata';
+    }
+    // Unknown keys have no type to match
+    const unexpected = Object.entries(operation.metadata)
+      .find(([key, value]) => typeof value !== PLAN_METADATA_TYPES[key]);
+    if (unexpected) {
+      return `has unsupported metadata ${JSON.stringify(unexpected[0])}`;
+    }
+  }
+  if (operation.expected !== null &&
+      (typeof operation.expected?.size !== 'number' || typeof operation.expected?.mtime !== 'number')) {
+    return 'has invalid expected file state';
+  }
+  return null;
+}
+
+/**
+ * POSIX shell script performing a plan. Moves never replace an existing file,
+ * deleted files and replaced contents are kept in $STASH for the undo script,
+ * and the script stops at the first failing command or taken target.
+ */
+export function toShellScript(manifest: PlanManifest): string {
+  const lines = scriptHeader(manifest, `Runs MaxSort plan ${manifest.id}`);
+
+  manifest.operations.forEach((operation, index) => {
+    const stashed = stashPath(operation, index);
+    lines.push('', `# ${index + 1}. ${commentText(describeOperation(operation))}`);
+
+    switch (operation.type) {
+      case 'rename':
+      case 'move':
+        lines.push(
+          `mkdir -p -- ${shellQuote(path.dirname(operation.target!))}`,
+          ...moveLines(shellQuote(operation.source), shellQuote(operation.target!))
+        );
+        break;
+      case 'delete':
+        lines.push(...moveLines(shellQuote(operation.source), stashed));
+        break;
+      case 'write':
+        lines.push(
+          `cp -p -- ${shellQuote(operation.source)} ${stashed}`,
+          `printf '%s' ${shellQuote(operation.content!)} > ${shellQuote(operation.source)}`
+        );
+        break;
+      default:
+        throw new Error(`Cannot script ${operation.type} operations`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * POSIX shell script reversing toShellScript for the same manifest, in
+ * reverse order
+ */
+export function toUndoShellScript(manifest: PlanManifest): string {
+  const lines = scriptHeader(manifest, `Undoes MaxSort plan ${manifest.id}`);
+
+  for (let index = manifest.operations.length - 1; index >= 0; index--) {
+    const operation = manifest.operations[index];
+    const stashed = stashPath(operation, index);
+    lines.push('', `# ${index + 1}. Undo ${commentText(describeOperation(operation))}`);
+
+    switch (operation.type) {
+      case 'rename':
+      case 'move':
+        lines.push(
+          `mkdir -p -- ${shellQuote(path.dirname(operation.source))}`,
+          ...moveLines(shellQuote(operation.target!), shellQuote(operation.source))
+        );
+        break;
+      case 'delete':
+        lines.push(
+          `mkdir -p -- ${shellQuote(path.dirname(operation.source))}`,
+          ...moveLines(stashed, shellQuote(operation.source))
+        );
+        break;
+      case 'write':
+        lines.push(`cat -- ${stashed} > ${shellQuote(operation.source)}`);
+        break;
+      default:
+        throw new Error(`Cannot script ${operation.type} operations`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function scriptHeader(manifest: PlanManifest, title: string): string[] {
+  return [
+    '#!/bin/sh',
+    `# ${commentText(title)}, created ${manifest.createdAt}, ${manifest.operations.length} operation(s).`,
+    '# Deleted files and replaced contents are kept in $STASH, under $MAXSORT_STASH if set.',
+    'set -eu',
+    '',
+    `STASH="\${MAXSORT_STASH:-$HOME/.maxsort/stash}"/${shellQuote(manifest.id)}`,
+    'mkdir -p -- "$STASH"',
+  ];
+}
+
+/**
+ * Move between two shell words, stopping the script if the target is taken:
+ * mv -n skips the move in that case but still exits with success
+ */
+function moveLines(source: string, target: string): string[] {
+  return [
+    `if [ -e ${target} ] || [ -L ${target} ]; then`,
+    `  printf 'Stopping: %s already exists\\n' ${target} >&2`,
+    '  exit 1',
+    'fi',
+    `mv -n -- ${source} ${target}`,
+  ];
+}
+
+function stashPath(operation: PlannedOperation, index: number): string {
+  return `"$STASH"/${shellQuote(`${index + 1}-${path.basename(operation.source)}`)}`;
+}
+
+function describeOperation(operation: PlannedOperation): string {
+  switch (operation.type) {
+    case 'write':
+      return `Rewrite links in ${path.basename(operation.source)}`;
+    case 'delete':
+      return `Delete ${path.basename(operation.source)}`;
+    default:
+      return `${operation.type === 'rename' ? 'Rename' : 'Move'} ${path.basename(operation.source)} to ${operation.target}`;
+  }
+}
+
+/**
+ * Keep file names from ending a comment line early
+ */
+function commentText(value: string): string {
+  return value.replace(/[\r\n]/g, '?');
+}
+
+/**
+ * Single-quote a value for the shell; single quotes inside become '\''
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -2,9 +2,11 @@ import { EventEmitter } from 'events';
 import { AgentManager, getAgentManager } from '../agents/agent-manager';
 import { getAnalysisTaskGenerator, AnalysisTaskGenerator, GenerateTasksRequest, TaskGenerationResult } from './analysis-task-generator';
 import { PromptTemplateManager, FileContext, AnalysisType, PromptOptions } from '../agents/prompt-templates';
-import { getDatabase, DatabaseManager, FileRecord } from './database';
+import { getDatabase, DatabaseManager, FileRecord, AnalysisSessionRecord } from './database';
 import { TaskResult, TaskState } from '../agents/task-types';
 import { logger, AnalysisError, AnalysisErrorType } from './logger';
+import { getLLMProvider } from './llm-provider';
+import { AgentTaskStore } from './agent-task-store';
 
 /**
  * File analysis service configuration
@@ -52,6 +54,17 @@ export interface AnalysisProgress {
   estimatedTimeRemaining: number;         // Seconds
   phase: 'initializing' | 'analyzing' | 'completing' | 'complete' | 'error';
   errorRate: number;                      // Percentage of failed analyses
+  queueWait?: AnalysisQueueWait;          // Set while tasks of the session wait for a slot
+}
+
+/**
+ * Where a session's waiting tasks stand in the agent queue
+ */
+export interface AnalysisQueueWait {
+  queuedTasks: number;
+  longestWaitTime: number;                // Milliseconds
+  sessionsAhead: number;                  // Sessions whose tasks are dispatched first
+  availableSlots: number;
 }
 
 /**
@@ -87,6 +100,21 @@ export interface AnalysisSessionResult {
   errorSummary?: string[];
 }
 
+/**
+ * Analysis session interrupted by a quit or crash, with tasks left to run
+ */
+export interface ResumableAnalysisSession {
+  requestId: string;
+  sessionType: 'interactive' | 'batch';
+  rootPath?: string;
+  analysisTypes: AnalysisType[];
+  totalFiles: number;
+  processedFiles: number;
+  remainingTasks: number;
+  startedAt: number;
+  lastUpdatedAt?: number;                 // Seconds since epoch
+}
+
 /**
  * File Analysis Service - coordinates AI analysis tasks with proper error handling and monitoring
  */
@@ -95,6 +123,7 @@ export class FileAnalysisService extends EventEmitter {
   private agentManager: AgentManager;
   private taskGenerator: AnalysisTaskGenerator;
   private database: DatabaseManager;
+  private taskStore: AgentTaskStore;
   
   // Active analysis tracking
   private activeAnalyses: Map<string, AnalysisProgress> = new Map();
@@ -137,6 +166,7 @@ export class FileAnalysisService extends EventEmitter {
     this.agentManager = getAgentManager();
     this.taskGenerator = getAnalysisTaskGenerator();
     this.database = getDatabase();
+    this.taskStore = new AgentTaskStore(this.database, logger);
     
     this.setupEventListeners();
     this.loadModelPreferences();
@@ -156,6 +186,8 @@ export class FileAnalysisService extends EventEmitter {
         logger.info('FileAnalysisService', 'Starting Agent Manager...');
         await this.agentManager.start();
       }
+
+      await this.resolveAnalysisModels();
       
       logger.info('FileAnalysisService', 'File Analysis Service initialized successfully');
       this.emit('service-ready');
@@ -220,15 +252,30 @@ export class FileAnalysisService extends EventEmitter {
       this.activeAnalyses.set(request.requestId, progress);
       this.analysisResults.set(request.requestId, []);
       
+      // The session row lets the analysis be resumed if the app quits before it completes
+      this.persistSession(request.requestId, () => this.database.createAnalysisSession({
+        id: request.requestId,
+        sessionType: request.isInteractive ? 'interactive' : 'batch',
+        rootPath: request.rootPath,
+        analysisTypes: JSON.stringify(request.analysisTypes),
+        totalFiles: 0,
+        processedFiles: 0,
+        completedFiles: 0,
+        failedFiles: 0,
+        startedAt: Date.now(),
+        successRate: 0,
+        modelsUsed: JSON.stringify(request.analysisTypes.map(type => request.modelName || this.getModelForAnalysisType(type))),
+        status: 'running',
+      }));
+      
       this.emit('analysis-started', { requestId: request.requestId, progress });
       
-      // Process each analysis type
-      for (const analysisType of request.analysisTypes) {
-        await this.processAnalysisType(request, analysisType);
-      }
+      // Later analysis types of a file run once its earlier ones complete
+      await this.processAnalysisTypes(request);
       
       // Update progress phase
       progress.phase = 'analyzing';
+      this.saveProgress(progress);
       this.emit('progress-update', progress);
       
       logger.info('FileAnalysisService', `Analysis request ${request.requestId} started successfully`, {
@@ -243,6 +290,10 @@ export class FileAnalysisService extends EventEmitter {
       // Clean up on error
       this.activeAnalyses.delete(request.requestId);
       this.analysisResults.delete(request.requestId);
+      this.persistSession(request.requestId, () => this.database.updateAnalysisSession(request.requestId, {
+        status: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      }));
       
       const analysisError = error instanceof AnalysisError 
         ? error 
@@ -267,7 +318,13 @@ export class FileAnalysisService extends EventEmitter {
   public async cancelAnalysis(requestId: string, reason: string = 'User cancelled'): Promise<boolean> {
     const progress = this.activeAnalyses.get(requestId);
     if (!progress) {
-      return false;
+      // An interrupted session is discarded instead of resumed
+      const session = this.database.getAnalysisSession(requestId);
+      if (session?.status !== 'running') {
+        return false;
+      }
+      this.finishSession(requestId, { status: 'cancelled', errorMessage: reason });
+      return true;
     }
     
     console.log(`Cancelling analysis ${requestId}: ${reason}`);
@@ -277,13 +334,21 @@ export class FileAnalysisService extends EventEmitter {
       .filter(([_, reqId]) => reqId === requestId)
       .map(([taskId, _]) => taskId);
     
+    // Unmapped first, so the cancellations are not recorded as failed files
+    relatedTaskIds.forEach(taskId => this.taskToRequestMap.delete(taskId));
     for (const taskId of relatedTaskIds) {
       await this.agentManager.cancelTask(taskId, reason);
-      this.taskToRequestMap.delete(taskId);
     }
     
     // Update progress and clean up
     progress.phase = 'error';
+    this.finishSession(requestId, {
+      status: 'cancelled',
+      processedFiles: progress.processedFiles,
+      completedFiles: progress.completedFiles,
+      failedFiles: progress.failedFiles,
+      errorMessage: reason,
+    });
     this.emit('analysis-cancelled', { requestId, reason });
     
     this.activeAnalyses.delete(requestId);
@@ -306,6 +371,90 @@ export class FileAnalysisService extends EventEmitter {
     return this.analysisResults.get(requestId) || [];
   }
 
+  /**
+   * Sessions interrupted before they completed, most recent first
+   */
+  public getResumableSessions(): ResumableAnalysisSession[] {
+    return this.database.getAnalysisSessionsByStatus('running')
+      .filter(session => !this.activeAnalyses.has(session.id))
+      .map(session => ({
+        requestId: session.id,
+        sessionType: session.sessionType,
+        rootPath: session.rootPath ?? undefined,
+        analysisTypes: parseAnalysisTypes(session.analysisTypes),
+        totalFiles: session.totalFiles,
+        processedFiles: session.processedFiles,
+        remainingTasks: this.taskStore.countTasks({
+          sessionId: session.id,
+          states: [TaskState.QUEUED, TaskState.RUNNING],
+        }),
+        startedAt: session.startedAt,
+        lastUpdatedAt: session.updatedAt,
+      }));
+  }
+
+  /**
+   * Continue an interrupted session: progress and results are rebuilt from
+   * its finished tasks and the remaining tasks are queued again
+   */
+  public async resumeAnalysis(requestId: string): Promise<AnalysisProgress> {
+    if (this.activeAnalyses.has(requestId)) {
+      throw new Error(`Analysis with ID ${requestId} is already active`);
+    }
+    if (this.isEmergencyMode) {
+      throw new AnalysisError(
+        AnalysisErrorType.AI_MODEL_UNAVAILABLE,
+        'Analysis service is in emergency mode due to repeated failures',
+        { recoverable: false }
+      );
+    }
+
+    const session = this.database.getAnalysisSession(requestId);
+    if (!session || session.status !== 'running') {
+      throw new Error(`No interrupted analysis session ${requestId}`);
+    }
+
+    const results = this.taskStore.loadResults(requestId).map(result => this.parseTaskResult(result));
+    const remaining = this.taskStore.loadTasks({ states: [TaskState.QUEUED], sessionId: requestId });
+    const completedFiles = results.filter(result => result.success).length;
+
+    const progress: AnalysisProgress = {
+      requestId,
+      totalFiles: results.length + remaining.length,
+      processedFiles: results.length,
+      completedFiles,
+      failedFiles: results.length - completedFiles,
+      estimatedTimeRemaining: 0,
+      phase: 'analyzing',
+      errorRate: 0,
+    };
+    progress.errorRate = progress.failedFiles / Math.max(progress.processedFiles, 1);
+
+    this.activeAnalyses.set(requestId, progress);
+    this.analysisResults.set(requestId, results);
+    for (const task of remaining) {
+      this.taskToRequestMap.set(task.id, requestId);
+    }
+
+    logger.info('FileAnalysisService', `Resuming analysis ${requestId}`, {
+      requestId,
+      processedFiles: progress.processedFiles,
+      remainingTasks: remaining.length,
+    });
+
+    this.emit('analysis-started', { requestId, progress, resumed: true });
+    this.saveProgress(progress);
+
+    if (remaining.length === 0) {
+      this.completeAnalysis(requestId);
+    } else {
+      this.agentManager.restoreTasks(remaining);
+      this.emit('progress-update', { ...progress });
+    }
+
+    return { ...progress };
+  }
+
   /**
    * Get service performance metrics
    */
@@ -314,37 +463,52 @@ export class FileAnalysisService extends EventEmitter {
   }
 
   /**
-   * Process a specific analysis type for the request
+   * Generate the request's tasks: one per file and analysis type, each
+   * depending on the file's earlier analysis types
    */
-  private async processAnalysisType(request: AnalysisRequest, analysisType: AnalysisType): Promise<void> {
-    const timerId = logger.startPerformanceTimer('FileAnalysisService.processAnalysisType');
+  private async processAnalysisTypes(request: AnalysisRequest): Promise<void> {
+    const timerId = logger.startPerformanceTimer('FileAnalysisService.processAnalysisTypes');
+    const analysisTypes = request.analysisTypes;
     
     try {
-      const modelName = request.modelName || this.getModelForAnalysisType(analysisType);
+      const modelNames = Object.fromEntries(analysisTypes.map(type => [
+        type,
+        request.modelName || this.getModelForAnalysisType(type),
+      ]));
       
-      logger.info('FileAnalysisService', `Processing analysis type: ${analysisType}`, {
+      logger.info('FileAnalysisService', `Processing analysis types: ${analysisTypes.join(', ')}`, {
         requestId: request.requestId,
-        analysisType,
-        modelName,
+        analysisTypes,
+        modelNames,
         fileCount: request.fileIds?.length || 0
       });
       
+      // Loaded up front, so the first tasks do not each wait for a model load
+      await this.agentManager.preloadModels(Object.values(modelNames));
+      
       // Create task generation request
       const taskRequest: GenerateTasksRequest = {
         fileIds: request.fileIds,
         rootPath: request.rootPath,
-        analysisType: this.mapAnalysisTypeToTaskType(analysisType),
+        analysisType: analysisTypes[0],
+        analysisTypes,
         isInteractive: request.isInteractive,
-        modelName,
+        modelName: modelNames[analysisTypes[0]],
+        modelNames,
+        contentOptions: request.options && {
+          includeFileContent: request.options.includeFileContent,
+          contentPreviewLength: request.options.contentPreviewLength,
+        },
+        sessionId: request.requestId,
       };
       
       // Generate tasks through task generator
       const taskResult = await this.taskGenerator.generateTasks(taskRequest);
       
       if (taskResult.tasksCreated === 0) {
-        logger.warn('FileAnalysisService', `No tasks created for analysis type: ${analysisType}`, {
+        logger.warn('FileAnalysisService', `No tasks created for analysis types: ${analysisTypes.join(', ')}`, {
           requestId: request.requestId,
-          analysisType,
+          analysisTypes,
           fileIds: request.fileIds
         });
         return;
@@ -360,30 +524,32 @@ export class FileAnalysisService extends EventEmitter {
         );
       }
       
-      progress.totalFiles += taskResult.totalFiles;
+      // Progress counts tasks, as resumed sessions do
+      progress.totalFiles += taskResult.tasksCreated;
       progress.estimatedTimeRemaining = Math.max(progress.estimatedTimeRemaining, taskResult.estimatedDuration);
+      this.saveProgress(progress);
       
       // Track task IDs for this request
       for (const taskId of taskResult.taskIds) {
         this.taskToRequestMap.set(taskId, request.requestId);
       }
       
-      logger.info('FileAnalysisService', `Generated ${taskResult.tasksCreated} tasks for ${analysisType} analysis`, {
+      logger.info('FileAnalysisService', `Generated ${taskResult.tasksCreated} tasks for ${analysisTypes.join(', ')} analysis`, {
         requestId: request.requestId,
-        analysisType,
+        analysisTypes,
         tasksCreated: taskResult.tasksCreated,
         totalFiles: taskResult.totalFiles,
         estimatedDuration: taskResult.estimatedDuration
       });
       
-      this.emit('tasks-generated', { requestId: request.requestId, analysisType, taskResult });
+      this.emit('tasks-generated', { requestId: request.requestId, analysisTypes, taskResult });
       
     } catch (error) {
       const analysisError = error instanceof AnalysisError 
         ? error 
         : new AnalysisError(
             AnalysisErrorType.UNKNOWN_ERROR,
-            `Failed to process analysis type ${analysisType}: ${(error as Error).message}`,
+            `Failed to process analysis types ${analysisTypes.join(', ')}: ${(error as Error).message}`,
             {
               stage: 'task-generation',
               recoverable: true,
@@ -391,14 +557,14 @@ export class FileAnalysisService extends EventEmitter {
             }
           );
       
-      logger.error('FileAnalysisService', `Failed to process analysis type: ${analysisType}`, analysisError, {
+      logger.error('FileAnalysisService', `Failed to process analysis types: ${analysisTypes.join(', ')}`, analysisError, {
         requestId: request.requestId,
-        analysisType
+        analysisTypes
       });
       
       throw analysisError;
     } finally {
-      logger.endPerformanceTimer(timerId, 'FileAnalysisService', `processAnalysisType.${analysisType}`);
+      logger.endPerformanceTimer(timerId, 'FileAnalysisService', 'processAnalysisTypes');
     }
   }
 
@@ -638,10 +804,36 @@ export class FileAnalysisService extends EventEmitter {
     
     console.log(`Task ${taskId} cancelled: ${reason}`);
     this.taskToRequestMap.delete(taskId);
+
+    // A task cancelled because a prerequisite failed still counts towards the session
+    const progress = this.activeAnalyses.get(requestId);
+    const results = this.analysisResults.get(requestId);
+    if (!progress || !results) return;
+
+    results.push({
+      fileId: 0,
+      fileName: 'unknown',
+      filePath: 'unknown',
+      analysisType: 'rename-suggestions',
+      success: false,
+      error: reason,
+      executionTimeMs: 0,
+      modelUsed: 'unknown',
+      timestamp: Date.now(),
+    });
+    progress.failedFiles++;
+    progress.processedFiles = progress.completedFiles + progress.failedFiles;
+    progress.errorRate = progress.failedFiles / Math.max(progress.processedFiles, 1);
+
+    if (progress.processedFiles >= progress.totalFiles) {
+      this.completeAnalysis(requestId);
+    }
   }
 
   /**
-   * Parse task result into file analysis result
+   * Parse task result into file analysis result. JSON analyses arrive already
+   * validated against their result schema, with confidence and reasoning
+   * taken from the response.
    */
   private parseTaskResult(result: TaskResult): FileAnalysisResult {
     // Extract metadata from task result
@@ -651,11 +843,12 @@ export class FileAnalysisService extends EventEmitter {
       fileId: metadata.fileId || 0,
       fileName: metadata.fileName || 'unknown',
       filePath: metadata.filePath || 'unknown',
-      analysisType: metadata.analysisRequest || 'rename-suggestions',
+      analysisType: metadata.resultType || metadata.analysisRequest || 'rename-suggestions',
       success: result.success,
       result: metadata.analysis,
       confidence: metadata.confidence || 0,
       reasoning: metadata.reasoning,
+      error: result.error?.message,
       executionTimeMs: result.executionTimeMs,
       modelUsed: metadata.modelUsed || 'unknown',
       timestamp: Date.now(),
@@ -698,6 +891,18 @@ export class FileAnalysisService extends EventEmitter {
     
     console.log(`Analysis complete for ${requestId}: ${progress.completedFiles}/${progress.totalFiles} successful`);
     
+    this.finishSession(requestId, {
+      status: 'completed',
+      totalFiles: progress.totalFiles,
+      processedFiles: progress.processedFiles,
+      completedFiles: progress.completedFiles,
+      failedFiles: progress.failedFiles,
+      completedAt: sessionResult.completedAt,
+      totalDuration: sessionResult.totalExecutionTime,
+      averageFileDuration: Math.round(sessionResult.averageExecutionTime),
+      successRate: progress.completedFiles / Math.max(progress.totalFiles, 1),
+      errorSummary: sessionResult.errorSummary && JSON.stringify(sessionResult.errorSummary),
+    });
     this.emit('analysis-complete', sessionResult);
     
     // Clean up
@@ -709,6 +914,9 @@ export class FileAnalysisService extends EventEmitter {
    * Update progress for all active analyses
    */
   private updateAllProgress(): void {
+    if (this.activeAnalyses.size === 0) return;
+    const agentStatus = this.agentManager.getStatus();
+
     for (const [requestId, progress] of this.activeAnalyses) {
       if (progress.phase === 'analyzing') {
         // Update estimated time remaining
@@ -717,12 +925,54 @@ export class FileAnalysisService extends EventEmitter {
           const averageTimePerFile = this.performanceMetrics.averageExecutionTime / 1000; // Convert to seconds
           progress.estimatedTimeRemaining = Math.ceil(remainingFiles * averageTimePerFile / this.config.maxConcurrentAnalysis);
         }
+
+        const position = agentStatus.sessionQueues.findIndex(session => session.sessionId === requestId);
+        progress.queueWait = position < 0 ? undefined : {
+          queuedTasks: agentStatus.sessionQueues[position].queuedTasks,
+          longestWaitTime: agentStatus.sessionQueues[position].longestWaitTime,
+          sessionsAhead: position,
+          availableSlots: agentStatus.availableSlots,
+        };
         
+        this.saveProgress(progress);
         this.emit('progress-update', { ...progress });
       }
     }
   }
 
+  /**
+   * Record a session's counts so an interrupted session shows its progress
+   */
+  private saveProgress(progress: AnalysisProgress): void {
+    this.persistSession(progress.requestId, () => this.database.updateAnalysisSession(progress.requestId, {
+      totalFiles: progress.totalFiles,
+      processedFiles: progress.processedFiles,
+      completedFiles: progress.completedFiles,
+      failedFiles: progress.failedFiles,
+    }));
+  }
+
+  /**
+   * Close a session's record and drop its persisted tasks, which are only
+   * kept for resuming
+   */
+  private finishSession(requestId: string, updates: Partial<AnalysisSessionRecord>): void {
+    this.persistSession(requestId, () => {
+      this.database.updateAnalysisSession(requestId, updates);
+      this.taskStore.deleteSessionTasks(requestId);
+    });
+  }
+
+  private persistSession(requestId: string, write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      logger.warn('FileAnalysisService', `Failed to persist analysis session ${requestId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Handle analysis error and recovery
    */
@@ -820,21 +1070,34 @@ export class FileAnalysisService extends EventEmitter {
   }
 
   /**
-   * Map analysis type to task type
+   * Replace configured models the active provider does not serve with its
+   * first available model, so switching endpoints does not strand analysis
+   * on a model name only the previous provider knew
    */
-  private mapAnalysisTypeToTaskType(analysisType: AnalysisType): 'rename-suggestions' | 'classification' | 'content-summary' {
-    // Map to task generator analysis types
-    switch (analysisType) {
-      case 'rename-suggestions':
-        return 'rename-suggestions';
-      case 'classification':
-        return 'classification';
-      case 'content-summary':
-        return 'content-summary';
-      case 'metadata-extraction':
-        return 'content-summary'; // Map metadata extraction to content summary
-      default:
-        return 'rename-suggestions';
+  private async resolveAnalysisModels(): Promise<void> {
+    try {
+      const models = await getLLMProvider().getModels();
+      if (models.length === 0) return;
+
+      const available = new Set(models.map(model => model.name));
+      const isAvailable = (name: string) => available.has(name) || available.has(`${name}:latest`);
+      const resolved = { ...this.config.analysisModels };
+
+      for (const key of Object.keys(resolved) as Array<keyof typeof resolved>) {
+        if (!isAvailable(resolved[key])) {
+          logger.warn('FileAnalysisService', `Model ${resolved[key]} is not served by the active provider`, {
+            analysis: key,
+            fallback: models[0].name,
+          });
+          resolved[key] = models[0].name;
+        }
+      }
+
+      this.config.analysisModels = resolved;
+    } catch (error) {
+      logger.warn('FileAnalysisService', 'Could not verify analysis models with the model provider', {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -877,20 +1140,32 @@ export class FileAnalysisService extends EventEmitter {
   }
 
   /**
-   * Shutdown service gracefully
+   * Shutdown service gracefully. Active analyses are not cancelled; their
+   * sessions stay resumable after the next start.
    */
   public async shutdown(): Promise<void> {
     console.log('Shutting down File Analysis Service');
     
-    // Cancel all active analyses
-    for (const requestId of this.activeAnalyses.keys()) {
-      await this.cancelAnalysis(requestId, 'Service shutdown');
+    for (const progress of this.activeAnalyses.values()) {
+      this.saveProgress(progress);
     }
+    this.activeAnalyses.clear();
+    this.analysisResults.clear();
+    this.taskToRequestMap.clear();
     
     this.removeAllListeners();
   }
 }
 
+function parseAnalysisTypes(analysisTypes: string): AnalysisType[] {
+  try {
+    const parsed = JSON.parse(analysisTypes);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
 // Singleton instance
 let serviceInstance: FileAnalysisService | null = null;
 
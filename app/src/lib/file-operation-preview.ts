@@ -2,6 +2,7 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from './logger';
 import { DatabaseManager } from './database';
+import { ConflictStrategy, ConflictResolution, resolveDestinationConflicts } from './transactional-file-manager';
 
 export interface FileOperationPreviewData {
   operationId: string;
@@ -54,6 +55,7 @@ export interface ConflictInfo {
   severity: 'warning' | 'error' | 'critical';
   message: string;
   suggestedResolution: string;
+  resolution?: ConflictResolution;  // How the conflict strategy handles a taken target
 }
 
 export interface ValidationResult {
@@ -147,7 +149,8 @@ export class FileOperationPreviewService {
   }
 
   /**
-   * Generate batch preview for multiple operations
+   * Generate batch preview for multiple operations, showing how taken
+   * destinations would be handled by the conflict strategy
    */
   public async generateBatchPreview(
     batchId: string,
@@ -157,11 +160,13 @@ export class FileOperationPreviewService {
       fileId: number;
       targetPath: string;
       confidence: number;
-    }>
+    }>,
+    conflictStrategy: ConflictStrategy = 'ask'
   ): Promise<PreviewBatch> {
     this.logger.info('FileOperationPreview', 'Generating batch preview', {
       batchId,
       operationCount: operations.length,
+      conflictStrategy,
     });
 
     const previews = await Promise.all(
@@ -174,25 +179,41 @@ export class FileOperationPreviewService {
       ))
     );
 
-    // Detect cross-operation conflicts
-    const crossConflicts = this.detectCrossOperationConflicts(previews);
-    
-    // Add cross-conflicts to affected previews
-    crossConflicts.forEach(conflict => {
-      const affectedPreviews = previews.filter(p => 
-        conflict.affectedOperations.includes(p.operationId)
-      );
-      affectedPreviews.forEach(preview => {
-        preview.impactAnalysis.conflictingOperations.push({
+    // Detect conflicts with existing files and between operations
+    const { resolutions } = await resolveDestinationConflicts(
+      previews.map(preview => ({
+        id: preview.operationId,
+        type: preview.type,
+        sourcePath: preview.beforeState.path,
+        targetPath: preview.afterState.path,
+      })),
+      conflictStrategy
+    );
+
+    resolutions.forEach(resolution => {
+      const preview = previews.find(p => p.operationId === resolution.operationId)!;
+      preview.impactAnalysis.conflictingOperations.push(this.describeConflict(resolution));
+
+      if (resolution.action === 'rename') {
+        preview.afterState.path = resolution.targetPath;
+        preview.afterState.name = path.basename(resolution.targetPath);
+      }
+
+      // The operations it collides with are told as well, unless they have their own resolution
+      previews
+        .filter(p => resolution.conflictingOperationIds.includes(p.operationId) &&
+          !resolutions.some(other => other.operationId === p.operationId))
+        .forEach(p => p.impactAnalysis.conflictingOperations.push({
           type: 'name_collision',
-          severity: 'error',
-          message: conflict.description,
-          suggestedResolution: conflict.resolution,
-        });
-      });
+          severity: 'warning',
+          message: `Another operation also targets ${resolution.originalTargetPath}`,
+          suggestedResolution: 'Keeps its target; the other operation is resolved instead',
+        }));
     });
 
     const summary = this.generateBatchSummary(previews);
+    // Conflicts waiting for a decision block the batch like failed validations
+    summary.blockers += resolutions.filter(resolution => resolution.action === 'ask').length;
 
     return {
       batchId,
@@ -224,25 +245,7 @@ export class FileOperationPreviewService {
   }
 
   private async getFileState(fileId: number): Promise<FileState> {
-    // Get file record by searching through suggestions and joining with files
-    const suggestions = this.database.getSuggestionsByFileId(fileId);
-    if (suggestions.length === 0) {
-      throw new Error(`File not found with ID: ${fileId}`);
-    }
-    
-    // We can infer file path from suggestions, but we need a better approach
-    // For now, let's add a method to get file by path using the first suggestion
-    const firstSuggestion = suggestions[0];
-    
-    // This is not ideal - we need the actual file record
-    // Let's create a placeholder file record
-    const fileRecord = {
-      id: fileId,
-      path: `/placeholder/path/file_${fileId}.txt`, // This should come from actual database
-      size: 1024, // Placeholder
-      mtime: Date.now(),
-      lastScannedAt: Date.now(),
-    };
+    const fileRecord = this.database.getFileById(fileId) || this.getLegacyFileRecord(fileId);
 
     const filePath = fileRecord.path;
     const fileName = path.basename(filePath);
@@ -286,6 +289,24 @@ export class FileOperationPreviewService {
     };
   }
 
+  /**
+   * Fallback for files without an indexed record: infer existence from suggestions
+   */
+  private getLegacyFileRecord(fileId: number) {
+    const suggestions = this.database.getSuggestionsByFileId(fileId);
+    if (suggestions.length === 0) {
+      throw new Error(`File not found with ID: ${fileId}`);
+    }
+
+    return {
+      id: fileId,
+      path: `/placeholder/path/file_${fileId}.txt`,
+      size: 1024,
+      mtime: Date.now(),
+      lastScannedAt: Date.now(),
+    };
+  }
+
   private async generateAfterState(
     beforeState: FileState,
     operationType: 'rename' | 'move' | 'delete',
@@ -491,41 +512,27 @@ export class FileOperationPreviewService {
     };
   }
 
-  private detectCrossOperationConflicts(previews: FileOperationPreviewData[]): Array<{
-    type: string;
-    affectedOperations: string[];
-    description: string;
-    resolution: string;
-  }> {
-    const conflicts: Array<{
-      type: string;
-      affectedOperations: string[];
-      description: string;
-      resolution: string;
-    }> = [];
-
-    // Check for target path collisions
-    const targetPaths = new Map<string, string[]>();
-    previews.forEach(preview => {
-      const targetPath = preview.afterState.path.toLowerCase();
-      if (!targetPaths.has(targetPath)) {
-        targetPaths.set(targetPath, []);
-      }
-      targetPaths.get(targetPath)!.push(preview.operationId);
-    });
-
-    targetPaths.forEach((operationIds, targetPath) => {
-      if (operationIds.length > 1) {
-        conflicts.push({
-          type: 'target_collision',
-          affectedOperations: operationIds,
-          description: `Multiple operations target the same path: ${targetPath}`,
-          resolution: 'Rename one or more files with unique suffixes',
-        });
-      }
-    });
+  private describeConflict(resolution: ConflictResolution): ConflictInfo {
+    const target = resolution.originalTargetPath;
+    const message = resolution.conflict === 'duplicate_target'
+      ? `Multiple operations target the same path: ${target}`
+      : `Target already exists: ${target}`;
+
+    const outcomes: Record<ConflictResolution['action'], string> = {
+      ask: 'Choose whether to skip, rename, or overwrite',
+      skip: 'Operation will be skipped',
+      rename: `Will be saved as ${path.basename(resolution.targetPath)}`,
+      overwrite: 'Existing file will be backed up and replaced',
+      proceed: 'Takes the name; the other operation is skipped',
+    };
 
-    return conflicts;
+    return {
+      type: 'name_collision',
+      severity: resolution.action === 'ask' ? 'error' : 'warning',
+      message,
+      suggestedResolution: outcomes[resolution.action],
+      resolution,
+    };
   }
 
   private generateBatchSummary(previews: FileOperationPreviewData[]): {
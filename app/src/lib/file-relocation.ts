@@ -0,0 +1,73 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DatabaseManager, FileRecord } from './database';
+import type { ExecutedOperation } from './suggestion-execution-service';
+
+/**
+ * Return a path in the same folder that is neither claimed by the current
+ * batch nor present on disk, appending " (n)" before the extension as needed.
+ * The chosen path is added to `taken`.
+ */
+export async function claimUniquePath(candidate: string, taken: Set<string>): Promise<string> {
+  const directory = path.dirname(candidate);
+  const extension = path.extname(candidate);
+  const stem = path.basename(candidate, extension);
+
+  let claimed = candidate;
+  for (let n = 1; taken.has(claimed) || await pathExists(claimed); n++) {
+    claimed = path.join(directory, `${stem} (${n})${extension}`);
+  }
+
+  taken.add(claimed);
+  return claimed;
+}
+
+/**
+ * Build the files-table row for a file that now lives at targetPath,
+ * keeping relativePathFromRoot only while it stays inside its scan root
+ */
+export function relocatedFileRecord(file: FileRecord, targetPath: string): FileRecord {
+  const rootPath = file.relativePathFromRoot
+    ? file.path.slice(0, file.path.length - file.relativePathFromRoot.length)
+    : undefined;
+  const relative = rootPath ? path.relative(rootPath, targetPath) : undefined;
+
+  return {
+    ...file,
+    path: targetPath,
+    relativePathFromRoot: relative && !relative.startsWith('..') ? relative : undefined,
+    fileName: path.basename(targetPath),
+    fileExtension: path.extname(targetPath),
+    parentDirectory: path.dirname(targetPath),
+  };
+}
+
+/**
+ * Reflect the operations of a completed transaction in the files table.
+ * Deleted files go first, so a replaced file's row makes way for the file
+ * moved onto its path; renamed and moved files, sidecars included, then
+ * follow to where they actually went.
+ */
+export function syncExecutedOperations(database: DatabaseManager, operations: ExecutedOperation[]): void {
+  const deleted = operations.filter(operation => operation.type === 'delete').map(operation => operation.source);
+  if (deleted.length > 0) {
+    database.deleteFilesByPath(deleted);
+  }
+
+  for (const operation of operations) {
+    if ((operation.type !== 'rename' && operation.type !== 'move') || !operation.target) continue;
+    const file = database.getFileByPath(operation.source);
+    if (file) {
+      database.moveFileRecord(operation.source, relocatedFileRecord(file, operation.target));
+    }
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
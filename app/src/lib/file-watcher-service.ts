@@ -0,0 +1,461 @@
+import { EventEmitter } from 'events';
+import * as fsSync from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './logger';
+import { DatabaseManager, FileRecord } from './database';
+import type { AnalysisTaskGenerator, GenerateTasksRequest } from './analysis-task-generator';
+import { ScanFilter } from '../workers/scan-filter';
+import { hashFileStream } from '../workers/file-hasher';
+import { IncrementalScanState, type KnownFileState, type ScanDelta } from '../workers/incremental-scan';
+
+/**
+ * Automatic analysis of files that appear in watched roots
+ */
+export interface AutoAnalyzeConfig {
+  enabled: boolean;
+  analysisType: GenerateTasksRequest['analysisType'];
+  modelName?: string;                  // Falls back to the saved main model
+}
+
+export interface FileWatcherConfig {
+  debounceMs: number;                  // Quiet period before applying queued changes
+  usePolling: boolean;                 // Skip fs.watch and always poll
+  pollIntervalMs: number;              // Full reconciliation interval when polling
+  inlineHashMaxBytes: number;          // Larger files are left to deferred hashing
+  autoAnalyze: AutoAnalyzeConfig;
+}
+
+export interface WatchRootOptions {
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface WatchedRootStatus {
+  rootPath: string;
+  mode: 'native' | 'polling';
+  pendingChanges: number;
+  syncing: boolean;
+  lastSyncAt: number | null;
+}
+
+/**
+ * Progress of a watcher sync, shaped like the scanner's ProgressUpdate
+ */
+export interface WatchSyncProgress {
+  rootPath: string;
+  fileCount: number;
+  currentFile: string;
+  percent: number;
+  phase: 'scanning' | 'hashing' | 'complete';
+}
+
+interface WatchedRoot {
+  rootPath: string;
+  filter: ScanFilter;
+  mode: 'native' | 'polling';
+  watcher: fsSync.FSWatcher | null;
+  pollTimer: NodeJS.Timeout | null;
+  debounceTimer: NodeJS.Timeout | null;
+  pending: Set<string>;
+  syncing: Promise<void> | null;
+  lastSyncAt: number | null;
+}
+
+/**
+ * Keeps the files table in sync with scanned roots between manual scans.
+ *
+ * Uses recursive fs.watch where the platform supports it and falls back to
+ * periodic polling otherwise. Change notifications are debounced and applied
+ * through the same incremental delta logic as the scanner worker.
+ */
+export class FileWatcherService extends EventEmitter {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private config: FileWatcherConfig;
+  private roots: Map<string, WatchedRoot> = new Map();
+  private taskGenerator: Pick<AnalysisTaskGenerator, 'generateTasks'> | null = null;
+  private isRunning = false;
+
+  private static readonly DEFAULT_CONFIG: FileWatcherConfig = {
+    debounceMs: 1000,
+    usePolling: false,
+    pollIntervalMs: 60 * 1000,               // 1 minute
+    inlineHashMaxBytes: 10 * 1024 * 1024,    // 10MB, matches scanner inline limit
+    autoAnalyze: {
+      enabled: false,
+      analysisType: 'rename-suggestions',
+    },
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, config: Partial<FileWatcherConfig> = {}) {
+    super();
+    this.database = database;
+    this.logger = logger;
+    this.config = {
+      ...FileWatcherService.DEFAULT_CONFIG,
+      ...config,
+      autoAnalyze: { ...FileWatcherService.DEFAULT_CONFIG.autoAnalyze, ...config.autoAnalyze },
+    };
+  }
+
+  /**
+   * Set the generator used to enqueue analysis for new files
+   */
+  public setTaskGenerator(taskGenerator: Pick<AnalysisTaskGenerator, 'generateTasks'> | null): void {
+    this.taskGenerator = taskGenerator;
+  }
+
+  /**
+   * Start watching every root with a completed scan, filtered as it was scanned
+   */
+  public start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    const scannedRoots = this.database.getScannedRoots();
+    for (const { rootPath, include, exclude } of scannedRoots) {
+      this.watchRoot(rootPath, { include, exclude });
+    }
+
+    this.logger.info('FileWatcher', `Watching ${this.roots.size} scanned roots`, {
+      roots: Array.from(this.roots.keys()),
+    });
+  }
+
+  /**
+   * Stop all watchers and pending syncs
+   */
+  public stop(): void {
+    for (const rootPath of Array.from(this.roots.keys())) {
+      this.unwatchRoot(rootPath);
+    }
+    this.isRunning = false;
+  }
+
+  /**
+   * Start watching a root; changes made while it was unwatched are reconciled immediately
+   */
+  public watchRoot(rootPath: string, options: WatchRootOptions = {}): void {
+    if (this.roots.has(rootPath)) return;
+
+    if (!fsSync.existsSync(rootPath)) {
+      this.logger.warn('FileWatcher', `Skipping missing root: ${rootPath}`);
+      return;
+    }
+
+    const root: WatchedRoot = {
+      rootPath,
+      filter: new ScanFilter(rootPath, options.include, options.exclude),
+      mode: 'polling',
+      watcher: null,
+      pollTimer: null,
+      debounceTimer: null,
+      pending: new Set(),
+      syncing: null,
+      lastSyncAt: null,
+    };
+    this.roots.set(rootPath, root);
+
+    if (!this.config.usePolling) {
+      this.startNativeWatch(root);
+    }
+    if (root.mode === 'polling') {
+      this.startPolling(root);
+    }
+
+    this.queueChange(root, rootPath);
+  }
+
+  /**
+   * Stop watching a root
+   */
+  public unwatchRoot(rootPath: string): void {
+    const root = this.roots.get(rootPath);
+    if (!root) return;
+
+    root.watcher?.close();
+    if (root.pollTimer) clearInterval(root.pollTimer);
+    if (root.debounceTimer) clearTimeout(root.debounceTimer);
+    this.roots.delete(rootPath);
+  }
+
+  public getStatus(): WatchedRootStatus[] {
+    return Array.from(this.roots.values()).map(root => ({
+      rootPath: root.rootPath,
+      mode: root.mode,
+      pendingChanges: root.pending.size,
+      syncing: root.syncing !== null,
+      lastSyncAt: root.lastSyncAt,
+    }));
+  }
+
+  public getConfig(): FileWatcherConfig {
+    return { ...this.config, autoAnalyze: { ...this.config.autoAnalyze } };
+  }
+
+  public updateConfig(config: Partial<FileWatcherConfig>): void {
+    this.config = {
+      ...this.config,
+      ...config,
+      autoAnalyze: { ...this.config.autoAnalyze, ...config.autoAnalyze },
+    };
+  }
+
+  /**
+   * Wait for queued and running syncs to finish
+   */
+  public async flushAll(): Promise<void> {
+    for (const root of Array.from(this.roots.values())) {
+      if (root.debounceTimer) {
+        clearTimeout(root.debounceTimer);
+        root.debounceTimer = null;
+        this.flush(root);
+      }
+      while (root.syncing) {
+        await root.syncing;
+      }
+    }
+  }
+
+  /**
+   * Reconcile the given files or directories under a root with the files table
+   */
+  public async syncPaths(rootPath: string, changedPaths: string[]): Promise<ScanDelta> {
+    const filter = this.roots.get(rootPath)?.filter || new ScanFilter(rootPath);
+    const scopes = changedPaths.includes(rootPath)
+      ? [rootPath]
+      : Array.from(new Set(changedPaths)).filter(p => this.isWithinRoot(rootPath, p));
+
+    // Collect stored rows and on-disk files for every changed scope
+    const known = new Map<string, KnownFileState>();
+    const present = new Set<string>();
+    for (const scope of scopes) {
+      const row = this.database.getFileByPath(scope);
+      if (row) known.set(row.path, row);
+      for (const state of this.database.getFileStatesByRootPath(scope)) {
+        known.set(state.path, state);
+      }
+
+      for (const filePath of await this.collectFiles(scope, filter, scope === rootPath)) {
+        present.add(filePath);
+      }
+    }
+
+    const state = new IncrementalScanState(rootPath, Array.from(known.values()), Array.from(present));
+    const progress: WatchSyncProgress = { rootPath, fileCount: 0, currentFile: '', percent: 0, phase: 'hashing' };
+    let processed = 0;
+
+    for (const filePath of present) {
+      processed++;
+      try {
+        const stats = await fs.stat(filePath);
+        const mtime = Math.floor(stats.mtime.getTime() / 1000);
+        if (state.isUnchanged(filePath, stats.size, mtime)) continue;
+
+        const sha256 = state.requiresHash(filePath, stats.size) || stats.size < this.config.inlineHashMaxBytes
+          ? await this.hashFile(filePath)
+          : undefined;
+        const change = state.recordFile(filePath, sha256);
+
+        const record: FileRecord = {
+          path: filePath,
+          sha256,
+          size: stats.size,
+          mtime,
+          lastScannedAt: Math.floor(Date.now() / 1000),
+          relativePathFromRoot: path.relative(rootPath, filePath),
+          fileName: path.basename(filePath),
+          fileExtension: path.extname(filePath),
+          parentDirectory: path.dirname(filePath),
+        };
+
+        if (change.changeType === 'moved' && change.previousPath) {
+          this.database.moveFileRecord(change.previousPath, record);
+        } else {
+          this.database.upsertFile(record);
+        }
+
+        progress.fileCount++;
+        progress.currentFile = filePath;
+        progress.percent = Math.floor((processed / present.size) * 100);
+        if (progress.fileCount % 10 === 0) {
+          this.emit('sync-progress', { ...progress });
+        }
+      } catch (error) {
+        // File vanished between listing and stat; the next event reconciles it
+        this.logger.debug('FileWatcher', `Skipping unreadable file: ${filePath}`, { error: String(error) });
+      }
+    }
+
+    const delta = state.buildDelta();
+    this.database.deleteFilesByPath(delta.deleted);
+
+    this.emit('sync-progress', { ...progress, percent: 100, phase: 'complete' });
+
+    const changeCount = delta.added.length + delta.modified.length + delta.deleted.length + delta.moved.length;
+    if (changeCount > 0) {
+      this.logger.info('FileWatcher', `Synced ${changeCount} changes in ${rootPath}`, {
+        added: delta.added.length,
+        modified: delta.modified.length,
+        deleted: delta.deleted.length,
+        moved: delta.moved.length,
+      });
+      this.emit('sync-complete', delta);
+      await this.enqueueForAnalysis(delta);
+    }
+
+    return delta;
+  }
+
+  private startNativeWatch(root: WatchedRoot): void {
+    try {
+      root.watcher = fsSync.watch(root.rootPath, { recursive: true }, (_eventType, fileName) => {
+        // A missing file name means the platform could not tell what changed
+        const changedPath = fileName ? path.join(root.rootPath, fileName.toString()) : root.rootPath;
+        this.queueChange(root, changedPath);
+      });
+      root.watcher.on('error', (error) => {
+        this.logger.warn('FileWatcher', `Native watch failed for ${root.rootPath}, falling back to polling`, {
+          error: String(error),
+        });
+        root.watcher?.close();
+        root.watcher = null;
+        this.startPolling(root);
+      });
+      root.mode = 'native';
+    } catch (error) {
+      // Recursive fs.watch is unavailable on some platforms/filesystems
+      this.logger.info('FileWatcher', `Recursive watch unavailable for ${root.rootPath}, using polling`, {
+        error: String(error),
+      });
+      root.watcher = null;
+      root.mode = 'polling';
+    }
+  }
+
+  private startPolling(root: WatchedRoot): void {
+    root.mode = 'polling';
+    if (root.pollTimer) return;
+
+    root.pollTimer = setInterval(() => {
+      root.pending.add(root.rootPath);
+      this.flush(root);
+    }, this.config.pollIntervalMs);
+  }
+
+  private queueChange(root: WatchedRoot, changedPath: string): void {
+    root.pending.add(changedPath);
+
+    if (root.debounceTimer) clearTimeout(root.debounceTimer);
+    root.debounceTimer = setTimeout(() => {
+      root.debounceTimer = null;
+      this.flush(root);
+    }, this.config.debounceMs);
+  }
+
+  private flush(root: WatchedRoot): void {
+    // One sync per root at a time; later changes wait for the next flush
+    if (root.syncing || root.pending.size === 0) return;
+
+    const changedPaths = Array.from(root.pending);
+    root.pending.clear();
+
+    root.syncing = this.syncPaths(root.rootPath, changedPaths)
+      .then(() => {
+        root.lastSyncAt = Date.now();
+      })
+      .catch(error => {
+        this.logger.error('FileWatcher', `Failed to sync changes in ${root.rootPath}`, error as Error);
+        this.emit('watch-error', { rootPath: root.rootPath, error: String(error) });
+      })
+      .finally(() => {
+        root.syncing = null;
+        if (root.pending.size > 0 && this.roots.get(root.rootPath) === root) {
+          this.flush(root);
+        }
+      });
+  }
+
+  private async collectFiles(scope: string, filter: ScanFilter, isRoot: boolean): Promise<string[]> {
+    let stats: fsSync.Stats;
+    try {
+      stats = await fs.stat(scope);
+    } catch {
+      return [];
+    }
+
+    if (!isRoot && filter.shouldExclude(scope)) {
+      return [];
+    }
+    if (stats.isFile()) {
+      return [scope];
+    }
+    if (!stats.isDirectory()) {
+      return [];
+    }
+
+    const files: string[] = [];
+    try {
+      const entries = await fs.readdir(scope, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(scope, entry.name);
+        if (filter.shouldExclude(fullPath)) continue;
+
+        if (entry.isDirectory()) {
+          files.push(...await this.collectFiles(fullPath, filter, false));
+        } else if (entry.isFile()) {
+          files.push(fullPath);
+        }
+      }
+    } catch (error) {
+      this.logger.warn('FileWatcher', `Failed to read directory ${scope}`, { error: String(error) });
+    }
+    return files;
+  }
+
+  private async hashFile(filePath: string): Promise<string | undefined> {
+    try {
+      return await hashFileStream(filePath);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async enqueueForAnalysis(delta: ScanDelta): Promise<void> {
+    const { autoAnalyze } = this.config;
+    if (!autoAnalyze.enabled || !this.taskGenerator) return;
+
+    // Moves keep their content, so only new and changed files need analysis
+    const fileIds = [...delta.added, ...delta.modified]
+      .map(filePath => this.database.getFileByPath(filePath)?.id)
+      .filter((id): id is number => typeof id === 'number');
+    if (fileIds.length === 0) return;
+
+    const modelName = autoAnalyze.modelName || this.database.getModelPreferences().mainModel;
+    if (!modelName) {
+      this.logger.warn('FileWatcher', 'Auto-analysis skipped: no model configured', { rootPath: delta.rootPath });
+      return;
+    }
+
+    try {
+      const result = await this.taskGenerator.generateTasks({
+        fileIds,
+        analysisType: autoAnalyze.analysisType,
+        isInteractive: false,
+        modelName,
+      });
+      this.emit('analysis-queued', { rootPath: delta.rootPath, fileIds, taskIds: result.taskIds });
+    } catch (error) {
+      this.logger.error('FileWatcher', 'Failed to enqueue watched files for analysis', error as Error, {
+        rootPath: delta.rootPath,
+        fileCount: fileIds.length,
+      });
+    }
+  }
+
+  private isWithinRoot(rootPath: string, candidate: string): boolean {
+    const relative = path.relative(rootPath, candidate);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+  }
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import { OllamaClient, getOllamaClient, destroyOllamaClient } from './ollama-client';
+import { OpenAICompatibleClient } from './openai-compatible-client';
+
+export type LLMProviderType = 'ollama' | 'openai-compatible';
+
+/**
+ * A model as reported by a provider. Providers that do not report sizes
+ * leave size at 0 and estimate memory from the model's metadata instead.
+ */
+export interface LLMModel {
+  name: string;
+  size: number;
+  digest?: string;
+  modified_at?: string;
+  details?: {
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export interface LLMHealthStatus {
+  status: 'healthy' | 'unhealthy' | 'unknown';
+  message?: string;
+  models_available: boolean;
+  model_count: number;
+  provider?: LLMProviderType;
+}
+
+export interface LLMConnectionConfig {
+  endpoint?: string;
+  apiKey?: string;                     // Sent as a bearer token by providers that accept one
+  timeout?: number;
+  retryAttempts?: number;
+  retryDelay?: number;
+}
+
+export interface LLMProviderSettings extends LLMConnectionConfig {
+  type: LLMProviderType;
+}
+
+/**
+ * The subset of JSON Schema used to constrain structured responses. Ollama
+ * accepts it as the generate `format`; OpenAI-compatible servers as a
+ * json_schema response format.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+}
+
+export interface InferenceOptions {
+  format?: 'json' | 'text' | JsonSchema;
+  timeout?: number;
+  stream?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;                // Aborts the request and is not retried, e.g. when its task is cancelled
+  keepAlive?: string | number;         // How long the server keeps the model loaded afterwards, e.g. '10m'
+}
+
+export interface StreamingInferenceOptions {
+  timeout?: number;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;                // Aborts the request and stops reading the stream
+}
+
+/**
+ * Backend that serves local models. AgentManager, FileAnalysisService and the
+ * model selection IPC talk to whichever provider is active through this
+ * interface. Providers emit 'health-update', 'health-error',
+ * 'inference-completed' and 'inference-failed'.
+ */
+export interface LLMProvider extends EventEmitter {
+  readonly type: LLMProviderType;
+
+  testConnection(): Promise<boolean>;
+  getModels(): Promise<LLMModel[]>;
+  validateModel(modelName: string): Promise<boolean>;
+  estimateModelMemory(model: LLMModel): number;
+  getHealthStatus(): Promise<LLMHealthStatus>;
+  startHealthMonitoring(intervalMs?: number): void;
+  stopHealthMonitoring(): void;
+
+  executeInference(
+    modelName: string,
+    prompt: string,
+    options?: InferenceOptions
+  ): Promise<{ response: string; executionTimeMs: number }>;
+  executeStreamingInference(
+    modelName: string,
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    options?: StreamingInferenceOptions
+  ): Promise<{ fullResponse: string; executionTimeMs: number }>;
+  isModelReady(modelName: string): Promise<boolean>;
+  preloadModel(modelName: string, keepAlive?: string | number): Promise<boolean>;
+  unloadModel(modelName: string): Promise<boolean>;
+
+  getConfig(): LLMConnectionConfig;
+  updateConfig(config: Partial<LLMConnectionConfig>): void;
+  destroy(): void;
+}
+
+export const DEFAULT_PROVIDER_ENDPOINTS: Record<LLMProviderType, string> = {
+  'ollama': 'http://127.0.0.1:11434',
+  'openai-compatible': 'http://127.0.0.1:8080',
+};
+
+export const LLM_PROVIDER_TYPES = Object.keys(DEFAULT_PROVIDER_ENDPOINTS) as LLMProviderType[];
+
+/**
+ * Create a provider for the given settings
+ */
+export function createLLMProvider(settings: LLMProviderSettings): LLMProvider {
+  const { type, ...connection } = settings;
+  const config = { ...connection, endpoint: connection.endpoint || DEFAULT_PROVIDER_ENDPOINTS[type] };
+
+  switch (type) {
+    case 'ollama':
+      return new OllamaClient(config);
+    case 'openai-compatible':
+      return new OpenAICompatibleClient(config);
+    default:
+      throw new Error(`Unknown LLM provider type: ${type}`);
+  }
+}
+
+// Provider chosen in Settings; until one is configured the shared Ollama client serves
+let activeProvider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  return activeProvider || getOllamaClient();
+}
+
+/**
+ * Replace the active provider, destroying the previous one
+ */
+export function configureLLMProvider(settings: LLMProviderSettings): LLMProvider {
+  const previous = activeProvider;
+  activeProvider = createLLMProvider(settings);
+
+  // The previous provider may be the shared Ollama client; release both
+  previous?.destroy();
+  destroyOllamaClient();
+
+  return activeProvider;
+}
+
+export function destroyLLMProvider(): void {
+  if (activeProvider) {
+    activeProvider.destroy();
+    activeProvider = null;
+  }
+  destroyOllamaClient();
+}
@@ -290,6 +290,10 @@ export class AnalysisError extends Error {
   }
 
   public static detectErrorType(error: Error): AnalysisErrorType {
+    if (error instanceof AnalysisError) {
+      return error.type;
+    }
+
     const message = error.message.toLowerCase();
     
     if (message.includes('timeout')) {
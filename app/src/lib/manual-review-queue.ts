@@ -80,6 +80,26 @@ export interface ReviewOverride {
     overriddenAt: Date;
 }
 
+/**
+ * A reviewer's decision on a suggestion, kept after the entry leaves the
+ * queue so later suggestions can learn from it
+ */
+export interface ReviewFeedback {
+    originalPath: string;
+    operation: string;
+    suggestedValue: string;
+    decision: 'approve' | 'reject';
+    correctedValue?: string;         // What the reviewer chose instead, for overrides
+    confidence: number;
+    validationFlags: string[];
+    reason: string;
+    source: 'review' | 'override';
+    reviewedBy: string;
+    decidedAt: number;               // Milliseconds since epoch
+}
+
+export type ReviewFeedbackRecorder = (feedback: ReviewFeedback) => void | Promise<void>;
+
 /**
  * Manages manual review queue for confidence-filtered suggestions
  */
@@ -87,11 +107,19 @@ export class ManualReviewQueue {
     private queue: Map<string, ReviewQueueEntry> = new Map();
     private config: ManualReviewQueueConfig;
     private category: string = 'ManualReviewQueue';
+    private feedbackRecorder?: ReviewFeedbackRecorder;
 
     constructor(config: ManualReviewQueueConfig = ManualReviewQueue.getDefaultConfig()) {
         this.config = config;
     }
 
+    /**
+     * Persist every review decision and override as a feedback example
+     */
+    setFeedbackRecorder(recorder: ReviewFeedbackRecorder | undefined): void {
+        this.feedbackRecorder = recorder;
+    }
+
     static getDefaultConfig(): ManualReviewQueueConfig {
         return {
             maxQueueSize: 1000,
@@ -248,6 +276,7 @@ export class ManualReviewQueue {
             entry.notes = notes;
 
             logger.info(this.category, `Processed review decision for ${entryId}: ${decision.action}`);
+            await this.recordFeedback(entry, 'review');
         } catch (error) {
             logger.error(this.category, `Failed to process review decision for ${entryId}`, error instanceof Error ? error : undefined);
             throw error;
@@ -308,7 +337,8 @@ export class ManualReviewQueue {
         entryId: string,
         newDecision: 'approve' | 'reject',
         reason: string,
-        overriddenBy: string
+        overriddenBy: string,
+        correctedValue?: string
     ): Promise<void> {
         try {
             const entry = this.queue.get(entryId);
@@ -340,6 +370,7 @@ export class ManualReviewQueue {
             entry.reviewedBy = overriddenBy;
 
             logger.info(this.category, `Applied override to ${entryId}: ${originalDecision} -> ${newDecision}`);
+            await this.recordFeedback(entry, 'override', correctedValue);
         } catch (error) {
             logger.error(this.category, `Failed to apply override to ${entryId}`, error instanceof Error ? error : undefined);
             throw error;
@@ -485,6 +516,40 @@ export class ManualReviewQueue {
         }
     }
 
+    /**
+     * A feedback store that cannot be reached must not undo the decision, so
+     * recording failures are only logged
+     */
+    private async recordFeedback(
+        entry: ReviewQueueEntry,
+        source: ReviewFeedback['source'],
+        correctedValue?: string
+    ): Promise<void> {
+        if (!this.feedbackRecorder || !entry.decision) {
+            return;
+        }
+
+        try {
+            await this.feedbackRecorder({
+                originalPath: entry.suggestion.originalPath,
+                operation: entry.suggestion.operation,
+                suggestedValue: entry.suggestion.suggestion.value,
+                decision: entry.decision.action,
+                correctedValue: correctedValue?.trim() || undefined,
+                confidence: entry.suggestion.confidence,
+                validationFlags: entry.suggestion.suggestion.validationFlags || [],
+                reason: entry.decision.reason,
+                source,
+                reviewedBy: entry.reviewedBy || 'unknown',
+                decidedAt: (entry.reviewedAt ?? new Date()).getTime()
+            });
+        } catch (error) {
+            logger.warn(this.category, `Failed to record review feedback for ${entry.id}`, {
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
     private getOriginalDecision(entry: ReviewQueueEntry): 'auto-approve' | 'manual-review' | 'reject' {
         // Since this is in the manual review queue, it was categorized as manual-review
         return 'manual-review';
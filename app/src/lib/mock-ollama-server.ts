@@ -0,0 +1,502 @@
+// Local stand-in for the Ollama daemon, for offline end-to-end tests and development
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import { createHash } from 'crypto';
+import type { AddressInfo, Socket } from 'net';
+
+export interface MockModel {
+  name: string;                        // e.g. "llama3.2:3b"
+  size?: number;                       // Bytes; defaults to 2GB
+  family?: string;
+  parameterSize?: string;              // e.g. "3.2B"
+  quantization?: string;               // e.g. "Q4_K_M"
+}
+
+/**
+ * How a matched request should fail instead of answering
+ */
+export type MockFailure =
+  | { type: 'http'; status: number; message?: string }    // Error status with an Ollama-style { error } body
+  | { type: 'disconnect' }                                 // Destroy the socket without a response
+  | { type: 'malformed' }                                  // 200 with a body that is not JSON
+  | { type: 'hang' }                                       // Never respond; the client must time out
+  | { type: 'truncate-stream'; afterChunks?: number };     // Streams end without a done message
+
+export type PromptMatcher = string | RegExp | ((prompt: string, model: string) => boolean);
+
+export interface MockResponseRule {
+  match: PromptMatcher;                // Substring, pattern or predicate tested against the prompt
+  model?: string;                      // Only for this model
+  response?: string | ((prompt: string, model: string) => string);
+  chunks?: string[];                   // Streaming pieces; defaults to splitting the response by words
+  latencyMs?: number;                  // Added to the server-wide latency
+  failure?: MockFailure;
+  times?: number;                      // Stop matching after this many uses
+}
+
+export type MockRoute = 'version' | 'tags' | 'show' | 'generate' | 'ps';
+
+export interface MockOllamaServerOptions {
+  host?: string;
+  port?: number;                       // 0 picks a free port
+  models?: MockModel[];
+  defaultResponse?: string;            // Answer when no rule matches
+  latencyMs?: number;                  // Delay before every response
+  chunkDelayMs?: number;               // Delay between streamed chunks
+  version?: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  body: any;
+  receivedAt: number;
+}
+
+interface GenerateRequest {
+  model?: string;
+  prompt?: string;
+  stream?: boolean;
+  format?: string;
+  options?: Record<string, unknown>;
+  keep_alive?: string | number;
+}
+
+/**
+ * HTTP server implementing the parts of the Ollama API that OllamaClient uses:
+ * /api/version, /api/tags, /api/show, /api/generate (streaming and not) and
+ * /api/ps, including loading and unloading models via empty generate calls.
+ *
+ * Responses are scripted per prompt pattern with respondTo(); latency and
+ * failures can be injected per rule, per route or for the next N requests.
+ * Point OllamaClient at it through OllamaConnectionConfig.endpoint.
+ */
+export class MockOllamaServer extends EventEmitter {
+  private readonly options: Required<Omit<MockOllamaServerOptions, 'models'>>;
+  private readonly models: Map<string, MockModel> = new Map();
+  private readonly loadedModels: Map<string, number> = new Map();
+  private rules: Array<MockResponseRule & { uses: number }> = [];
+  private routeFailures: Map<MockRoute, { failure: MockFailure; remaining: number }> = new Map();
+  private server: http.Server | null = null;
+  private readonly sockets: Set<Socket> = new Set();
+  private readonly hangingResponses: Set<http.ServerResponse> = new Set();
+  private recorded: RecordedRequest[] = [];
+
+  private static readonly DEFAULT_OPTIONS: Required<Omit<MockOllamaServerOptions, 'models'>> = {
+    host: '127.0.0.1',
+    port: 0,
+    defaultResponse: 'OK',
+    latencyMs: 0,
+    chunkDelayMs: 0,
+    version: '0.0.0-mock',
+  };
+
+  private static readonly DEFAULT_MODELS: MockModel[] = [
+    { name: 'llama3.2:3b', size: 2019393189, family: 'llama', parameterSize: '3.2B', quantization: 'Q4_K_M' },
+  ];
+
+  constructor(options: MockOllamaServerOptions = {}) {
+    super();
+    const { models, ...rest } = options;
+    const overrides = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined));
+    this.options = { ...MockOllamaServer.DEFAULT_OPTIONS, ...overrides };
+
+    for (const model of models || MockOllamaServer.DEFAULT_MODELS) {
+      this.addModel(model);
+    }
+  }
+
+  /**
+   * Start listening; resolves with the endpoint to hand to OllamaClient
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.endpoint;
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.emit('request-error', error);
+        if (!res.headersSent) {
+          this.sendJson(res, 500, { error: String(error) });
+        }
+      });
+    });
+
+    server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    this.server = server;
+    return this.endpoint;
+  }
+
+  /**
+   * Stop listening, dropping open connections including hanging requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    for (const res of this.hangingResponses) {
+      res.destroy();
+    }
+    this.hangingResponses.clear();
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get endpoint(): string {
+    if (!this.server) {
+      throw new Error('Mock Ollama server is not running');
+    }
+    const address = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${address.port}`;
+  }
+
+  addModel(model: MockModel): this {
+    this.models.set(model.name, model);
+    return this;
+  }
+
+  removeModel(name: string): this {
+    this.models.delete(name);
+    this.loadedModels.delete(name);
+    return this;
+  }
+
+  /**
+   * Script the answer for prompts matching a pattern. Rules are checked in
+   * the order they were added.
+   */
+  respondTo(
+    match: PromptMatcher,
+    response: MockResponseRule['response'],
+    options: Omit<MockResponseRule, 'match' | 'response'> = {}
+  ): this {
+    this.rules.push({ match, response, ...options, uses: 0 });
+    return this;
+  }
+
+  /**
+   * Fail prompts matching a pattern
+   */
+  failWhen(match: PromptMatcher, failure: MockFailure, options: Omit<MockResponseRule, 'match' | 'failure'> = {}): this {
+    this.rules.push({ match, failure, ...options, uses: 0 });
+    return this;
+  }
+
+  /**
+   * Fail the next `count` requests to a route, whatever their content
+   */
+  failNext(route: MockRoute, failure: MockFailure, count: number = 1): this {
+    this.routeFailures.set(route, { failure, remaining: count });
+    return this;
+  }
+
+  setLatency(latencyMs: number): this {
+    this.options.latencyMs = latencyMs;
+    return this;
+  }
+
+  /**
+   * Clear rules, injected failures, loaded models and recorded requests
+   */
+  reset(): this {
+    this.rules = [];
+    this.routeFailures.clear();
+    this.loadedModels.clear();
+    this.recorded = [];
+    return this;
+  }
+
+  get requests(): RecordedRequest[] {
+    return [...this.recorded];
+  }
+
+  /**
+   * Requests for a route, e.g. every generate call the client made
+   */
+  requestsTo(route: MockRoute): RecordedRequest[] {
+    return this.recorded.filter(request => request.path === `/api/${route}`);
+  }
+
+  getLoadedModels(): string[] {
+    return Array.from(this.loadedModels.keys());
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const rawBody = await this.readBody(req);
+
+    let body: any = undefined;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        this.sendJson(res, 400, { error: 'invalid JSON body' });
+        return;
+      }
+    }
+
+    this.recorded.push({ method: req.method || 'GET', path: pathname, body, receivedAt: Date.now() });
+    this.emit('request', { method: req.method, path: pathname, body });
+
+    const route = this.routeFor(req.method || 'GET', pathname);
+    if (!route) {
+      this.sendJson(res, 404, { error: `no route for ${req.method} ${pathname}` });
+      return;
+    }
+
+    await this.delay(this.options.latencyMs);
+
+    const injected = this.takeRouteFailure(route);
+    if (injected && this.applyFailure(res, injected)) {
+      return;
+    }
+
+    switch (route) {
+      case 'version':
+        this.sendJson(res, 200, { version: this.options.version });
+        return;
+      case 'tags':
+        this.sendJson(res, 200, { models: Array.from(this.models.values()).map(model => this.describeModel(model)) });
+        return;
+      case 'ps':
+        this.sendJson(res, 200, { models: this.describeLoadedModels() });
+        return;
+      case 'show':
+        this.handleShow(res, body || {});
+        return;
+      case 'generate':
+        await this.handleGenerate(res, body || {}, injected);
+        return;
+    }
+  }
+
+  private routeFor(method: string, pathname: string): MockRoute | null {
+    const routes: Record<string, MockRoute> = {
+      'GET /api/version': 'version',
+      'GET /api/tags': 'tags',
+      'GET /api/ps': 'ps',
+      'POST /api/show': 'show',
+      'POST /api/generate': 'generate',
+    };
+    return routes[`${method} ${pathname}`] || null;
+  }
+
+  private handleShow(res: http.ServerResponse, body: { name?: string; model?: string }): void {
+    const name = body.model || body.name || '';
+    const model = this.findModel(name);
+    if (!model) {
+      this.sendJson(res, 404, { error: `model '${name}' not found` });
+      return;
+    }
+
+    this.sendJson(res, 200, {
+      modelfile: `FROM ${model.name}`,
+      parameters: 'stop "<|eot_id|>"',
+      template: '{{ .Prompt }}',
+      details: this.describeModel(model).details,
+      model_info: { 'general.architecture': model.family || 'llama' },
+    });
+  }
+
+  private async handleGenerate(res: http.ServerResponse, body: GenerateRequest, routeFailure?: MockFailure): Promise<void> {
+    const model = this.findModel(body.model || '');
+    if (!model) {
+      this.sendJson(res, 404, { error: `model '${body.model}' not found, try pulling it first` });
+      return;
+    }
+
+    // An empty prompt loads the model; keep_alive 0 unloads it
+    if (!body.prompt) {
+      const unload = body.keep_alive === 0 || body.keep_alive === '0';
+      if (unload) {
+        this.loadedModels.delete(model.name);
+      } else {
+        this.loadedModels.set(model.name, Date.now());
+      }
+      this.emit(unload ? 'model-unloaded' : 'model-loaded', model.name);
+      this.sendJson(res, 200, this.generateMessage(model.name, '', true, unload ? 'unload' : 'load'));
+      return;
+    }
+
+    const startedAt = Date.now();
+    const loadDuration = this.loadedModels.has(model.name) ? 0 : 1_000_000;
+    this.loadedModels.set(model.name, Date.now());
+
+    const rule = this.findRule(body.prompt, model.name);
+    if (rule) {
+      rule.uses++;
+      await this.delay(rule.latencyMs || 0);
+    }
+
+    const failure = routeFailure || rule?.failure;
+    if (failure && this.applyFailure(res, failure)) {
+      return;
+    }
+
+    const text = this.renderResponse(rule, body.prompt, model.name);
+    const finalStats = {
+      total_duration: (Date.now() - startedAt) * 1_000_000 + loadDuration + 1_000_000,
+      load_duration: loadDuration,
+      prompt_eval_count: body.prompt.split(/\s+/).length,
+      eval_count: text.split(/\s+/).filter(Boolean).length,
+      eval_duration: 1_000_000,
+    };
+
+    // Ollama streams unless told otherwise
+    if (body.stream === false) {
+      this.sendJson(res, 200, { ...this.generateMessage(model.name, text, true, 'stop'), ...finalStats });
+      return;
+    }
+
+    const chunks = rule?.chunks || text.split(/(?<=\s)/).filter(Boolean);
+    const truncateAfter = failure?.type === 'truncate-stream' ? (failure.afterChunks ?? 1) : undefined;
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    for (let i = 0; i < chunks.length; i++) {
+      if (truncateAfter !== undefined && i >= truncateAfter) {
+        res.end();
+        return;
+      }
+      res.write(JSON.stringify(this.generateMessage(model.name, chunks[i], false)) + '\n');
+      await this.delay(this.options.chunkDelayMs);
+    }
+
+    if (truncateAfter !== undefined) {
+      res.end();
+      return;
+    }
+    res.end(JSON.stringify({ ...this.generateMessage(model.name, '', true, 'stop'), ...finalStats }) + '\n');
+  }
+
+  /**
+   * Write the failure's response. Returns false for failures that only
+   * affect streaming, which the caller handles while streaming.
+   */
+  private applyFailure(res: http.ServerResponse, failure: MockFailure): boolean {
+    switch (failure.type) {
+      case 'http':
+        this.sendJson(res, failure.status, { error: failure.message || `mock failure (HTTP ${failure.status})` });
+        return true;
+      case 'disconnect':
+        res.socket?.destroy();
+        return true;
+      case 'malformed':
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{"response": "unterminated');
+        return true;
+      case 'hang':
+        this.hangingResponses.add(res);
+        res.on('close', () => this.hangingResponses.delete(res));
+        return true;
+      case 'truncate-stream':
+        return false;
+    }
+  }
+
+  private takeRouteFailure(route: MockRoute): MockFailure | undefined {
+    const entry = this.routeFailures.get(route);
+    if (!entry) return undefined;
+
+    entry.remaining--;
+    if (entry.remaining <= 0) {
+      this.routeFailures.delete(route);
+    }
+    return entry.failure;
+  }
+
+  private findRule(prompt: string, model: string): (MockResponseRule & { uses: number }) | undefined {
+    return this.rules.find(rule => {
+      if (rule.model && rule.model !== model) return false;
+      if (rule.times !== undefined && rule.uses >= rule.times) return false;
+
+      if (typeof rule.match === 'string') return prompt.includes(rule.match);
+      if (rule.match instanceof RegExp) return rule.match.test(prompt);
+      return rule.match(prompt, model);
+    });
+  }
+
+  private renderResponse(rule: MockResponseRule | undefined, prompt: string, model: string): string {
+    if (!rule || rule.response === undefined) {
+      return rule?.chunks ? rule.chunks.join('') : this.options.defaultResponse;
+    }
+    return typeof rule.response === 'function' ? rule.response(prompt, model) : rule.response;
+  }
+
+  /**
+   * Resolve a model name the way Ollama does, treating "name" as "name:latest"
+   */
+  private findModel(name: string): MockModel | undefined {
+    return this.models.get(name) || (name.includes(':') ? undefined : this.models.get(`${name}:latest`));
+  }
+
+  private describeModel(model: MockModel) {
+    return {
+      name: model.name,
+      model: model.name,
+      modified_at: '2024-01-01T00:00:00Z',
+      size: model.size ?? 2 * 1024 * 1024 * 1024,
+      digest: createHash('sha256').update(model.name).digest('hex'),
+      details: {
+        format: 'gguf',
+        family: model.family || 'llama',
+        families: [model.family || 'llama'],
+        parameter_size: model.parameterSize || '3B',
+        quantization_level: model.quantization || 'Q4_K_M',
+      },
+    };
+  }
+
+  private describeLoadedModels() {
+    return Array.from(this.loadedModels.entries())
+      .filter(([name]) => this.models.has(name))
+      .map(([name, loadedAt]) => {
+        const described = this.describeModel(this.models.get(name)!);
+        return {
+          ...described,
+          size_vram: described.size,
+          expires_at: new Date(loadedAt + 5 * 60 * 1000).toISOString(),
+        };
+      });
+  }
+
+  private generateMessage(model: string, response: string, done: boolean, doneReason?: string) {
+    return {
+      model,
+      created_at: new Date().toISOString(),
+      response,
+      done,
+      ...(doneReason ? { done_reason: doneReason } : {}),
+    };
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let data = '';
+      req.setEncoding('utf8');
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => resolve(data));
+      req.on('error', reject);
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
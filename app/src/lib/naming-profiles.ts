@@ -0,0 +1,202 @@
+import * as path from 'path';
+import { Logger } from './logger';
+import type { DatabaseManager } from './database';
+import type { NamingCaseStyle, NamingProfile } from './confidence-scorer';
+
+const NAMING_PROFILES_SETTING_KEY = 'naming_profiles';
+
+const CASE_STYLES: NamingCaseStyle[] = ['kebab', 'snake', 'camel', 'pascal', 'lower', 'upper', 'preserve'];
+const TOKEN_PATTERN = /\{([^}]*)\}/g;
+
+/**
+ * Profiles available before any are defined; saving a profile with the same
+ * id replaces the built-in one
+ */
+export const BUILT_IN_NAMING_PROFILES: NamingProfile[] = [
+  {
+    id: 'dated-client-project',
+    name: 'Date, client, project, version',
+    template: '{date}_{client}_{project}_v{version}',
+    dateFormat: 'YYYY-MM-DD',
+    caseStyle: 'kebab',
+    separator: '-',
+    maxLength: 100,
+    requiredTokens: ['date', 'client', 'project'],
+  },
+  {
+    id: 'kebab-case',
+    name: 'kebab-case',
+    template: '{title}',
+    dateFormat: 'YYYY-MM-DD',
+    caseStyle: 'kebab',
+    separator: '-',
+    maxLength: 80,
+    requiredTokens: [],
+  },
+  {
+    id: 'pascal-case',
+    name: 'PascalCase for code',
+    template: '{title}',
+    dateFormat: 'YYYYMMDD',
+    caseStyle: 'pascal',
+    separator: '',
+    maxLength: 60,
+    requiredTokens: [],
+  },
+];
+
+interface SavedNamingProfiles {
+  profiles: NamingProfile[];
+  rootProfiles: Record<string, string>;  // Scan root path -> profile id
+}
+
+/**
+ * Check a profile for unusable templates and settings. Returns human-readable
+ * problems; an empty list means the profile is valid.
+ */
+export function validateNamingProfile(profile: NamingProfile): string[] {
+  const problems: string[] = [];
+  const label = profile.name || profile.id;
+
+  if (!profile.id) problems.push('Naming profile is missing an id');
+  if (!profile.template || !profile.template.trim()) {
+    problems.push(`Naming profile "${label}" has no template`);
+  }
+
+  const templateTokens: string[] = [];
+  for (const match of (profile.template || '').matchAll(TOKEN_PATTERN)) {
+    if (!/^[a-z_]+$/.test(match[1])) {
+      problems.push(`Naming profile "${label}" has an invalid token {${match[1]}}; use lowercase letters and underscores`);
+    }
+    templateTokens.push(match[1]);
+  }
+  if (/[\/\\]/.test((profile.template || '').replace(TOKEN_PATTERN, ''))) {
+    problems.push(`Naming profile "${label}" template must not contain folders`);
+  }
+
+  for (const token of profile.requiredTokens || []) {
+    if (!templateTokens.includes(token)) {
+      problems.push(`Naming profile "${label}" requires {${token}}, which its template does not use`);
+    }
+  }
+
+  if (!CASE_STYLES.includes(profile.caseStyle)) {
+    problems.push(`Naming profile "${label}" has unknown case style "${profile.caseStyle}"`);
+  }
+  if (!profile.dateFormat || !/YY/.test(profile.dateFormat)) {
+    problems.push(`Naming profile "${label}" date format must contain a year (YYYY or YY)`);
+  }
+  if (/[\/\\<>:"|?*]/.test(profile.separator ?? '')) {
+    problems.push(`Naming profile "${label}" separator contains characters not allowed in file names`);
+  }
+  if (!Number.isInteger(profile.maxLength) || profile.maxLength < 8 || profile.maxLength > 255) {
+    problems.push(`Naming profile "${label}" maximum length must be between 8 and 255`);
+  }
+
+  return problems;
+}
+
+/**
+ * User-defined naming profiles and the scan roots they apply to.
+ *
+ * A file follows the profile assigned to the deepest root containing it. The
+ * profile is described in its rename prompt and enforced on the suggestions
+ * by ConfidenceScorer.
+ */
+export class NamingProfileService {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+
+  constructor(database: DatabaseManager, logger: Logger) {
+    this.database = database;
+    this.logger = logger;
+  }
+
+  /**
+   * Built-in profiles followed by user-defined ones
+   */
+  public getProfiles(): NamingProfile[] {
+    const saved = this.load().profiles;
+    const savedIds = new Set(saved.map(profile => profile.id));
+    return [...BUILT_IN_NAMING_PROFILES.filter(profile => !savedIds.has(profile.id)), ...saved];
+  }
+
+  /**
+   * Replace the user-defined profiles. Roots assigned to a profile that no
+   * longer exists fall back to no profile.
+   */
+  public saveProfiles(profiles: NamingProfile[]): NamingProfile[] {
+    const problems = profiles.flatMap(profile => validateNamingProfile(profile));
+    const ids = profiles.map(profile => profile.id);
+    if (new Set(ids).size !== ids.length) {
+      problems.push('Naming profile ids must be unique');
+    }
+    if (problems.length > 0) {
+      throw new Error(`Invalid naming profiles: ${problems.join('; ')}`);
+    }
+
+    const saved = this.load();
+    const available = new Set([...BUILT_IN_NAMING_PROFILES.map(profile => profile.id), ...ids]);
+    const rootProfiles = Object.fromEntries(
+      Object.entries(saved.rootProfiles).filter(([, profileId]) => available.has(profileId))
+    );
+
+    this.store({ profiles, rootProfiles });
+    return this.getProfiles();
+  }
+
+  public getRootProfiles(): Record<string, string> {
+    return { ...this.load().rootProfiles };
+  }
+
+  /**
+   * Select the profile for a scan root, or clear it with null
+   */
+  public assignProfileToRoot(rootPath: string, profileId: string | null): Record<string, string> {
+    const saved = this.load();
+    const root = path.resolve(rootPath);
+
+    if (profileId === null) {
+      delete saved.rootProfiles[root];
+    } else if (!this.getProfiles().some(profile => profile.id === profileId)) {
+      throw new Error(`Unknown naming profile: ${profileId}`);
+    } else {
+      saved.rootProfiles[root] = profileId;
+    }
+
+    this.store(saved);
+    this.logger.info('NamingProfiles', 'Assigned naming profile to root', { rootPath: root, profileId });
+    return { ...saved.rootProfiles };
+  }
+
+  /**
+   * The profile a file's new name must follow, if any
+   */
+  public getProfileForPath(filePath: string): NamingProfile | undefined {
+    const resolved = path.resolve(filePath);
+    const { rootProfiles } = this.load();
+
+    const root = Object.keys(rootProfiles)
+      .filter(candidate => resolved === candidate || resolved.startsWith(candidate + path.sep))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return root ? this.getProfiles().find(profile => profile.id === rootProfiles[root]) : undefined;
+  }
+
+  private load(): SavedNamingProfiles {
+    const saved = this.database.getSetting(NAMING_PROFILES_SETTING_KEY);
+    if (!saved) return { profiles: [], rootProfiles: {} };
+
+    try {
+      const parsed = JSON.parse(saved);
+      return { profiles: parsed.profiles || [], rootProfiles: parsed.rootProfiles || {} };
+    } catch (error) {
+      this.logger.warn('NamingProfiles', 'Ignoring unreadable naming profiles', { error: String(error) });
+      return { profiles: [], rootProfiles: {} };
+    }
+  }
+
+  private store(saved: SavedNamingProfiles): void {
+    this.database.setSetting(NAMING_PROFILES_SETTING_KEY, JSON.stringify(saved));
+  }
+}
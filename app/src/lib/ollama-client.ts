@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import type { LLMProvider, LLMModel, JsonSchema } from './llm-provider';
 
 /**
  * Ollama API Types
@@ -35,6 +36,7 @@ export interface OllamaHealthStatus {
   message?: string;
   models_available: boolean;
   model_count: number;
+  provider?: 'ollama';
 }
 
 export interface OllamaConnectionConfig {
@@ -48,7 +50,9 @@ export interface OllamaConnectionConfig {
  * Client for communicating with local Ollama daemon
  * Handles connection detection, model discovery, and health monitoring
  */
-export class OllamaClient extends EventEmitter {
+export class OllamaClient extends EventEmitter implements LLMProvider {
+  public readonly type = 'ollama' as const;
+
   private endpoint: string;
   private timeout: number;
   private retryAttempts: number;
@@ -171,7 +175,7 @@ export class OllamaClient extends EventEmitter {
    * Estimate memory usage for a model based on its size
    * Includes safety factor for Agent Manager integration
    */
-  estimateModelMemory(model: OllamaModel): number {
+  estimateModelMemory(model: LLMModel): number {
     // Base calculation: model size + overhead
     const baseMemory = model.size;
     const overhead = Math.max(baseMemory * 0.2, 512 * 1024 * 1024); // At least 512MB overhead
@@ -195,6 +199,7 @@ export class OllamaClient extends EventEmitter {
           message: 'Unable to connect to Ollama daemon',
           models_available: false,
           model_count: 0,
+          provider: this.type,
         };
       }
 
@@ -205,6 +210,7 @@ export class OllamaClient extends EventEmitter {
         message: 'Ollama daemon is running and responsive',
         models_available: models.length > 0,
         model_count: models.length,
+        provider: this.type,
       };
     } catch (error) {
       return {
@@ -212,6 +218,7 @@ export class OllamaClient extends EventEmitter {
         message: error instanceof Error ? error.message : 'Unknown error',
         models_available: false,
         model_count: 0,
+        provider: this.type,
       };
     }
   }
@@ -258,9 +265,34 @@ export class OllamaClient extends EventEmitter {
   }
 
   /**
-   * Generic retry wrapper for API calls
+   * Abort controller for one request, aborted by the timeout or by the
+   * caller's signal. release() clears both once the request has finished.
+   */
+  private createRequestController(timeout: number, signal?: AbortSignal): { controller: AbortController; release: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort(signal?.reason);
+
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    return {
+      controller,
+      release: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abort);
+      },
+    };
+  }
+
+  /**
+   * Generic retry wrapper for API calls. Requests aborted through the
+   * caller's signal are not retried.
    */
-  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  private async withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
     let lastError: Error;
     
     for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
@@ -269,7 +301,7 @@ export class OllamaClient extends EventEmitter {
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
         
-        if (attempt === this.retryAttempts) {
+        if (attempt === this.retryAttempts || signal?.aborted) {
           break;
         }
 
@@ -317,19 +349,20 @@ export class OllamaClient extends EventEmitter {
     modelName: string, 
     prompt: string, 
     options: {
-      format?: 'json' | 'text';
+      format?: 'json' | 'text' | JsonSchema;  // A schema constrains the response to that shape
       timeout?: number;
       stream?: boolean;
       temperature?: number;
       maxTokens?: number;
+      signal?: AbortSignal;                   // Aborts the request, e.g. when its task is cancelled
+      keepAlive?: string | number;            // How long Ollama keeps the model loaded afterwards
     } = {}
   ): Promise<{ response: string; executionTimeMs: number }> {
     const startTime = Date.now();
     const timeout = options.timeout || this.timeout;
     
     return this.withRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const { controller, release } = this.createRequestController(timeout, options.signal);
 
       try {
         const requestBody: any = {
@@ -342,6 +375,10 @@ export class OllamaClient extends EventEmitter {
           requestBody.format = options.format;
         }
 
+        if (options.keepAlive !== undefined) {
+          requestBody.keep_alive = options.keepAlive;
+        }
+
         if (options.temperature !== undefined) {
           requestBody.options = { 
             ...requestBody.options,
@@ -365,8 +402,6 @@ export class OllamaClient extends EventEmitter {
           body: JSON.stringify(requestBody),
         });
 
-        clearTimeout(timeoutId);
-
         if (!response || !response.ok) {
           throw new Error(`Ollama inference failed: HTTP ${response?.status || 'unknown'} - ${response?.statusText || 'unknown error'}`);
         }
@@ -388,18 +423,19 @@ export class OllamaClient extends EventEmitter {
         };
 
       } catch (error) {
-        clearTimeout(timeoutId);
-        
         // Emit inference failure for monitoring
         this.emit('inference-failed', {
           modelName,
           error: error instanceof Error ? error.message : String(error),
           executionTimeMs: Date.now() - startTime,
+          cancelled: options.signal?.aborted === true,
         });
         
         throw error;
+      } finally {
+        release();
       }
-    });
+    }, options.signal);
   }
 
   /**
@@ -413,14 +449,14 @@ export class OllamaClient extends EventEmitter {
       timeout?: number;
       temperature?: number;
       maxTokens?: number;
+      signal?: AbortSignal;                   // Aborts the request and stops reading the stream
     } = {}
   ): Promise<{ fullResponse: string; executionTimeMs: number }> {
     const startTime = Date.now();
     const timeout = options.timeout || this.timeout * 2; // Longer timeout for streaming
     
     return this.withRetry(async () => {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const { controller, release } = this.createRequestController(timeout, options.signal);
 
       try {
         const requestBody: any = {
@@ -452,8 +488,6 @@ export class OllamaClient extends EventEmitter {
           body: JSON.stringify(requestBody),
         });
 
-        clearTimeout(timeoutId);
-
         if (!response || !response.ok) {
           throw new Error(`Ollama streaming inference failed: HTTP ${response?.status || 'unknown'}`);
         }
@@ -466,9 +500,14 @@ export class OllamaClient extends EventEmitter {
         let fullResponse = '';
         const decoder = new TextDecoder();
 
+        // A pending read ends as soon as the request is aborted
+        const cancelRead = () => { reader.cancel().catch(() => {}); };
+        controller.signal.addEventListener('abort', cancelRead, { once: true });
+
         try {
           while (true) {
             const { done, value } = await reader.read();
+            throwIfAborted(controller.signal);
             if (done) break;
 
             const chunk = decoder.decode(value);
@@ -501,23 +540,25 @@ export class OllamaClient extends EventEmitter {
             }
           }
         } finally {
+          controller.signal.removeEventListener('abort', cancelRead);
           reader.releaseLock();
         }
 
         throw new Error('Streaming response ended unexpectedly');
 
       } catch (error) {
-        clearTimeout(timeoutId);
-        
         this.emit('streaming-inference-failed', {
           modelName,
           error: error instanceof Error ? error.message : String(error),
           executionTimeMs: Date.now() - startTime,
+          cancelled: options.signal?.aborted === true,
         });
         
         throw error;
+      } finally {
+        release();
       }
-    });
+    }, options.signal);
   }
 
   /**
@@ -541,14 +582,16 @@ export class OllamaClient extends EventEmitter {
   }
 
   /**
-   * Preload model into memory for faster inference
+   * Preload model into memory for faster inference, kept loaded for
+   * keepAlive when given instead of Ollama's default
    */
-  async preloadModel(modelName: string): Promise<boolean> {
+  async preloadModel(modelName: string, keepAlive?: string | number): Promise<boolean> {
     try {
       // Send empty prompt to load model
       await this.executeInference(modelName, '', { 
         timeout: 30000, // 30 second timeout for model loading
-        maxTokens: 1
+        maxTokens: 1,
+        keepAlive,
       });
       
       console.log(`Model ${modelName} preloaded successfully`);
@@ -559,6 +602,31 @@ export class OllamaClient extends EventEmitter {
     }
   }
 
+  /**
+   * Unload model from memory; a request with keep_alive 0 unloads it at once
+   */
+  async unloadModel(modelName: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.endpoint}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: modelName, keep_alive: 0 }),
+      });
+
+      if (!response || !response.ok) {
+        throw new Error(`HTTP ${response?.status || 'unknown'}`);
+      }
+
+      console.log(`Model ${modelName} unloaded`);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to unload model ${modelName}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Get model performance metrics for optimization
    */
@@ -587,6 +655,12 @@ export class OllamaClient extends EventEmitter {
   }
 }
 
+function throwIfAborted(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw signal.reason instanceof Error ? signal.reason : new Error('Inference request was aborted');
+  }
+}
+
 // Singleton instance for main process
 let ollamaClientInstance: OllamaClient | null = null;
 
@@ -0,0 +1,552 @@
+import { EventEmitter } from 'events';
+import type {
+  LLMProvider,
+  LLMModel,
+  LLMHealthStatus,
+  LLMConnectionConfig,
+  InferenceOptions,
+  StreamingInferenceOptions,
+} from './llm-provider';
+
+/**
+ * OpenAI-compatible API Types
+ */
+interface OpenAIModelEntry {
+  id: string;
+  object?: string;
+  created?: number;
+  owned_by?: string;
+  meta?: {                             // llama.cpp server extension
+    n_params?: number;
+    size?: number;
+  };
+}
+
+interface OpenAIModelsResponse {
+  data: OpenAIModelEntry[];
+}
+
+interface OpenAIChatCompletionResponse {
+  choices: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+interface OpenAIChatCompletionChunk {
+  choices: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+}
+
+// Approximate bits per weight for common GGUF quantizations
+const QUANTIZATION_BITS: Array<[RegExp, number]> = [
+  [/\bq2_k\b|\biq2/i, 2.6],
+  [/\bq3_k/i, 3.5],
+  [/\bq4_0\b|\bq4_1\b|\bq4_k|\biq4/i, 4.5],
+  [/\bq5_/i, 5.5],
+  [/\bq6_k\b/i, 6.6],
+  [/\bq8_0\b/i, 8.5],
+  [/\bf16\b|\bfp16\b|\bbf16\b/i, 16],
+  [/\bf32\b|\bfp32\b/i, 32],
+];
+
+const DEFAULT_BITS_PER_WEIGHT = 4.5;
+const UNKNOWN_MODEL_BYTES = 4 * 1024 * 1024 * 1024;
+
+/**
+ * Parse a parameter count such as "7B", "3.8b" or "135M" from a model name
+ */
+export function parseParameterCount(name: string): number | null {
+  const match = name.match(/(?:^|[^a-z0-9.])(\d+(?:\.\d+)?)\s*([bm])(?![a-z])/i);
+  if (!match) return null;
+
+  const scale = match[2].toLowerCase() === 'b' ? 1e9 : 1e6;
+  return parseFloat(match[1]) * scale;
+}
+
+/**
+ * Client for llama.cpp server, LM Studio and other servers speaking the
+ * OpenAI-compatible /v1/models and /v1/chat/completions APIs
+ */
+export class OpenAICompatibleClient extends EventEmitter implements LLMProvider {
+  public readonly type = 'openai-compatible' as const;
+
+  private endpoint: string;
+  private apiKey: string | undefined;
+  private timeout: number;
+  private retryAttempts: number;
+  private retryDelay: number;
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+  private isHealthCheckRunning: boolean = false;
+
+  constructor(config: LLMConnectionConfig = {}) {
+    super();
+
+    this.endpoint = (config.endpoint || 'http://127.0.0.1:8080').replace(/\/+$/, '');
+    this.apiKey = config.apiKey || undefined;
+    this.timeout = config.timeout || 10000; // 10 seconds
+    this.retryAttempts = config.retryAttempts || 3;
+    this.retryDelay = config.retryDelay || 1000; // 1 second
+  }
+
+  /**
+   * Test connection by listing models, which every compatible server supports
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.request('/v1/models', { method: 'GET' }, this.timeout);
+      if (!response || !response.ok) {
+        throw new Error(`HTTP ${response?.status || 'unknown'}: ${response?.statusText || 'unknown error'}`);
+      }
+      return true;
+    } catch (error) {
+      console.error('OpenAI-compatible connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get list of models served by the endpoint
+   */
+  async getModels(): Promise<LLMModel[]> {
+    return this.withRetry(async () => {
+      const response = await this.request('/v1/models', { method: 'GET' }, this.timeout);
+
+      if (!response || !response.ok) {
+        throw new Error(`Failed to fetch models: HTTP ${response?.status || 'unknown'} - ${response?.statusText || 'unknown error'}`);
+      }
+
+      const data = await response.json() as OpenAIModelsResponse;
+      return (data.data || []).map(entry => this.toModel(entry));
+    });
+  }
+
+  /**
+   * A model is valid when the endpoint lists it
+   */
+  async validateModel(modelName: string): Promise<boolean> {
+    try {
+      const models = await this.getModels();
+      return models.some(model => model.name === modelName);
+    } catch (error) {
+      console.error(`Model validation failed for ${modelName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Estimate memory from the reported size, else from the parameter count
+   * and quantization in the model's name. Uses the same overhead and safety
+   * factor as the Ollama client so slot calculations stay comparable.
+   */
+  estimateModelMemory(model: LLMModel): number {
+    let baseMemory = model.size;
+
+    if (!baseMemory) {
+      const parameters = parseParameterCount(model.details?.parameter_size || model.name);
+      const quantization = `${model.details?.quantization_level || ''} ${model.name}`;
+      const bits = QUANTIZATION_BITS.find(([pattern]) => pattern.test(quantization))?.[1] ?? DEFAULT_BITS_PER_WEIGHT;
+      baseMemory = parameters ? (parameters * bits) / 8 : UNKNOWN_MODEL_BYTES;
+    }
+
+    const overhead = Math.max(baseMemory * 0.2, 512 * 1024 * 1024); // At least 512MB overhead
+    const safetyFactor = 1.5;
+
+    return Math.ceil((baseMemory + overhead) * safetyFactor);
+  }
+
+  /**
+   * Get comprehensive health status of the endpoint
+   */
+  async getHealthStatus(): Promise<LLMHealthStatus> {
+    try {
+      const isConnected = await this.testConnection();
+
+      if (!isConnected) {
+        return {
+          status: 'unhealthy',
+          message: `Unable to connect to OpenAI-compatible server at ${this.endpoint}`,
+          models_available: false,
+          model_count: 0,
+          provider: this.type,
+        };
+      }
+
+      const models = await this.getModels();
+
+      return {
+        status: 'healthy',
+        message: 'OpenAI-compatible server is running and responsive',
+        models_available: models.length > 0,
+        model_count: models.length,
+        provider: this.type,
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        models_available: false,
+        model_count: 0,
+        provider: this.type,
+      };
+    }
+  }
+
+  /**
+   * Start periodic health monitoring
+   */
+  startHealthMonitoring(intervalMs: number = 30000): void {
+    if (this.healthCheckInterval) {
+      this.stopHealthMonitoring();
+    }
+
+    this.healthCheckInterval = setInterval(async () => {
+      if (this.isHealthCheckRunning) return;
+
+      this.isHealthCheckRunning = true;
+      try {
+        const health = await this.getHealthStatus();
+        this.emit('health-update', health);
+      } catch (error) {
+        this.emit('health-error', error);
+      } finally {
+        this.isHealthCheckRunning = false;
+      }
+    }, intervalMs);
+
+    this.getHealthStatus().then(health => {
+      this.emit('health-update', health);
+    }).catch(error => {
+      this.emit('health-error', error);
+    });
+  }
+
+  /**
+   * Stop health monitoring
+   */
+  stopHealthMonitoring(): void {
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+    this.isHealthCheckRunning = false;
+  }
+
+  /**
+   * Execute a single-turn chat completion
+   */
+  async executeInference(
+    modelName: string,
+    prompt: string,
+    options: InferenceOptions = {}
+  ): Promise<{ response: string; executionTimeMs: number }> {
+    const startTime = Date.now();
+    const timeout = options.timeout || this.timeout;
+
+    return this.withRetry(async () => {
+      try {
+        const response = await this.request('/v1/chat/completions', {
+          method: 'POST',
+          body: JSON.stringify(this.buildChatRequest(modelName, prompt, options, false)),
+        }, timeout, options.signal);
+
+        if (!response || !response.ok) {
+          throw new Error(`OpenAI-compatible inference failed: HTTP ${response?.status || 'unknown'} - ${response?.statusText || 'unknown error'}`);
+        }
+
+        const result = await response.json() as OpenAIChatCompletionResponse;
+        const text = result.choices?.[0]?.message?.content || '';
+        const executionTimeMs = Date.now() - startTime;
+
+        this.emit('inference-completed', {
+          modelName,
+          executionTimeMs,
+          promptLength: prompt.length,
+          responseLength: text.length,
+        });
+
+        return { response: text, executionTimeMs };
+
+      } catch (error) {
+        this.emit('inference-failed', {
+          modelName,
+          error: error instanceof Error ? error.message : String(error),
+          executionTimeMs: Date.now() - startTime,
+          cancelled: options.signal?.aborted === true,
+        });
+
+        throw error;
+      }
+    }, options.signal);
+  }
+
+  /**
+   * Execute a streamed chat completion, reading server-sent events
+   */
+  async executeStreamingInference(
+    modelName: string,
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    options: StreamingInferenceOptions = {}
+  ): Promise<{ fullResponse: string; executionTimeMs: number }> {
+    const startTime = Date.now();
+    const timeout = options.timeout || this.timeout * 2; // Longer timeout for streaming
+
+    return this.withRetry(async () => {
+      try {
+        const response = await this.request('/v1/chat/completions', {
+          method: 'POST',
+          body: JSON.stringify(this.buildChatRequest(modelName, prompt, options, true)),
+        }, timeout, options.signal);
+
+        if (!response || !response.ok) {
+          throw new Error(`OpenAI-compatible streaming inference failed: HTTP ${response?.status || 'unknown'}`);
+        }
+
+        const reader = response.body?.getReader();
+        if (!reader) {
+          throw new Error('Failed to get response reader');
+        }
+
+        let fullResponse = '';
+        let buffered = '';
+        const decoder = new TextDecoder();
+
+        const finish = () => {
+          const executionTimeMs = Date.now() - startTime;
+          this.emit('streaming-inference-completed', {
+            modelName,
+            executionTimeMs,
+            promptLength: prompt.length,
+            responseLength: fullResponse.length,
+          });
+          return { fullResponse, executionTimeMs };
+        };
+
+        // A pending read ends as soon as the caller aborts
+        const cancelRead = () => { reader.cancel().catch(() => {}); };
+        options.signal?.addEventListener('abort', cancelRead, { once: true });
+
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (options.signal?.aborted) {
+              throw new Error('Inference request was aborted');
+            }
+            if (done) break;
+
+            buffered += decoder.decode(value, { stream: true });
+            const lines = buffered.split('\n');
+            buffered = lines.pop() || '';
+
+            for (const line of lines) {
+              const trimmed = line.trim();
+              if (!trimmed.startsWith('data:')) continue;
+
+              const payload = trimmed.slice('data:'.length).trim();
+              if (payload === '[DONE]') {
+                return finish();
+              }
+
+              try {
+                const data = JSON.parse(payload) as OpenAIChatCompletionChunk;
+                const content = data.choices?.[0]?.delta?.content;
+                if (content) {
+                  fullResponse += content;
+                  onChunk(content);
+                }
+              } catch (parseError) {
+                console.warn('Failed to parse streaming response event:', parseError);
+              }
+            }
+          }
+        } finally {
+          options.signal?.removeEventListener('abort', cancelRead);
+          reader.releaseLock();
+        }
+
+        // Some servers close the stream without a [DONE] sentinel
+        if (fullResponse) {
+          return finish();
+        }
+        throw new Error('Streaming response ended unexpectedly');
+
+      } catch (error) {
+        this.emit('streaming-inference-failed', {
+          modelName,
+          error: error instanceof Error ? error.message : String(error),
+          executionTimeMs: Date.now() - startTime,
+          cancelled: options.signal?.aborted === true,
+        });
+
+        throw error;
+      }
+    }, options.signal);
+  }
+
+  /**
+   * Servers load listed models on demand, so a listed model is ready
+   */
+  async isModelReady(modelName: string): Promise<boolean> {
+    return this.validateModel(modelName);
+  }
+
+  /**
+   * Warm up a model with a one-token completion. The server decides how
+   * long it stays loaded, so keepAlive is ignored.
+   */
+  async preloadModel(modelName: string, _keepAlive?: string | number): Promise<boolean> {
+    try {
+      await this.executeInference(modelName, 'ping', {
+        timeout: 30000, // 30 second timeout for model loading
+        maxTokens: 1,
+      });
+
+      console.log(`Model ${modelName} preloaded successfully`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to preload model ${modelName}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * The API has no way to unload a model; the server manages residency
+   */
+  async unloadModel(_modelName: string): Promise<boolean> {
+    return false;
+  }
+
+  /**
+   * Get current configuration
+   */
+  getConfig(): LLMConnectionConfig {
+    return {
+      endpoint: this.endpoint,
+      apiKey: this.apiKey,
+      timeout: this.timeout,
+      retryAttempts: this.retryAttempts,
+      retryDelay: this.retryDelay,
+    };
+  }
+
+  /**
+   * Update configuration
+   */
+  updateConfig(config: Partial<LLMConnectionConfig>): void {
+    if (config.endpoint) this.endpoint = config.endpoint.replace(/\/+$/, '');
+    if (config.apiKey !== undefined) this.apiKey = config.apiKey || undefined;
+    if (config.timeout) this.timeout = config.timeout;
+    if (config.retryAttempts) this.retryAttempts = config.retryAttempts;
+    if (config.retryDelay) this.retryDelay = config.retryDelay;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.stopHealthMonitoring();
+    this.removeAllListeners();
+  }
+
+  private buildChatRequest(
+    modelName: string,
+    prompt: string,
+    options: InferenceOptions,
+    stream: boolean
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: modelName,
+      messages: [{ role: 'user', content: prompt }],
+      stream,
+    };
+
+    if (options.format === 'json') {
+      body.response_format = { type: 'json_object' };
+    } else if (typeof options.format === 'object') {
+      body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: options.format } };
+    }
+    if (options.temperature !== undefined) {
+      body.temperature = options.temperature;
+    }
+    if (options.maxTokens !== undefined) {
+      body.max_tokens = options.maxTokens;
+    }
+
+    return body;
+  }
+
+  private toModel(entry: OpenAIModelEntry): LLMModel {
+    const parameters = entry.meta?.n_params;
+
+    return {
+      name: entry.id,
+      size: entry.meta?.size || 0,
+      modified_at: entry.created ? new Date(entry.created * 1000).toISOString() : undefined,
+      details: parameters
+        ? { parameter_size: `${(parameters / 1e9).toFixed(1)}B` }
+        : undefined,
+    };
+  }
+
+  /**
+   * Issue a request with the configured headers and a timeout, aborted early
+   * when the caller's signal aborts
+   */
+  private async request(pathname: string, init: RequestInit, timeout: number, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    try {
+      return await fetch(`${this.endpoint}${pathname}`, { ...init, headers, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Generic retry wrapper for API calls. Requests aborted through the
+   * caller's signal are not retried.
+   */
+  private async withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    let lastError: Error;
+
+    for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (attempt === this.retryAttempts || signal?.aborted) {
+          break;
+        }
+
+        // Don't retry on client errors or aborts
+        if (lastError.name === 'AbortError' ||
+            lastError.message.includes('AbortError') ||
+            /HTTP 4\d\d/.test(lastError.message)) {
+          break;
+        }
+
+        console.warn(`OpenAI-compatible API attempt ${attempt} failed, retrying in ${this.retryDelay}ms:`, lastError.message);
+        await new Promise(resolve => setTimeout(resolve, this.retryDelay));
+      }
+    }
+
+    throw lastError!;
+  }
+}
@@ -1,11 +1,14 @@
+import * as path from 'path';
 import { Logger } from './logger';
-import { DatabaseManager } from './database';
+import type { DatabaseManager, FileRecord, JournalOperationRecord, JournalQueryFilters } from './database';
+import { moveEntry, type BackupStorage, type TrashStorage } from './transactional-file-manager';
+import { syncExecutedOperations } from './file-relocation';
 
 export interface OperationJournalEntry {
   id: string;
   transactionId: string;
   operationId: string;
-  type: 'rename' | 'move' | 'delete' | 'copy';
+  type: 'rename' | 'move' | 'delete' | 'copy' | 'write';
   sourceId: number;
   sourcePath: string;
   targetPath?: string;
@@ -23,7 +26,7 @@ export interface OperationJournalEntry {
 
 export interface UndoData {
   reverseOperation: {
-    type: 'rename' | 'move' | 'delete' | 'restore';
+    type: 'rename' | 'move' | 'delete' | 'restore' | 'restore-content';
     sourcePath: string;
     targetPath?: string;
     restoreFromBackup?: string;
@@ -62,15 +65,27 @@ export interface BatchUndoResult {
   partialFailures: number;
 }
 
+/**
+ * Backup store that can also tell whether a backup is still restorable
+ */
+export interface JournalBackupStorage extends BackupStorage {
+  hasBackup(reference: string): Promise<boolean>;
+}
+
 export class OperationJournal {
   private readonly logger: Logger;
   private readonly database: DatabaseManager;
   private readonly maxJournalEntries = 10000;
   private readonly maxUndoHistoryDays = 30;
+  private readonly cleanupProbability = 0.01; // Share of recordOperation calls that also prune
+  private readonly backupStorage?: JournalBackupStorage;
+  private readonly trash?: TrashStorage;
 
-  constructor(database: DatabaseManager, logger: Logger) {
+  constructor(database: DatabaseManager, logger: Logger, backupStorage?: JournalBackupStorage, trash?: TrashStorage) {
     this.database = database;
     this.logger = logger;
+    this.backupStorage = backupStorage;
+    this.trash = trash;
   }
 
   /**
@@ -79,7 +94,7 @@ export class OperationJournal {
   public async recordOperation(
     transactionId: string,
     operationId: string,
-    type: 'rename' | 'move' | 'delete' | 'copy',
+    type: 'rename' | 'move' | 'delete' | 'copy' | 'write',
     sourceId: number,
     sourcePath: string,
     targetPath: string | undefined,
@@ -113,7 +128,7 @@ export class OperationJournal {
     });
 
     // Clean up old entries periodically
-    if (Math.random() < 0.01) { // 1% chance to trigger cleanup
+    if (Math.random() < this.cleanupProbability) {
       this.cleanupOldEntries().catch(error => {
         this.logger.warn('OperationJournal', 'Cleanup failed', { error });
       });
@@ -152,9 +167,10 @@ export class OperationJournal {
 
       // Execute the reverse operation
       await this.executeReverseOperation(entry);
+      await this.syncFileRecords(entry);
 
       // Mark operation as rolled back
-      await this.markAsRolledBack(entry.id);
+      await this.markAsRolledBack(entry);
 
       const duration = Date.now() - startTime;
 
@@ -368,6 +384,9 @@ export class OperationJournal {
       case 'restore':
         await this.executeRestore(reverseOp, entry);
         break;
+      case 'restore-content':
+        await this.executeRestoreContent(reverseOp, entry);
+        break;
       default:
         throw new Error(`Unsupported reverse operation: ${reverseOp.type}`);
     }
@@ -383,7 +402,8 @@ export class OperationJournal {
       throw new Error('Target path required for reverse rename');
     }
 
-    await fs.rename(reverseOp.sourcePath, reverseOp.targetPath);
+    await fs.mkdir(path.dirname(reverseOp.targetPath), { recursive: true });
+    await moveEntry(reverseOp.sourcePath, reverseOp.targetPath, this.logger);
     
     this.logger.debug('OperationJournal', 'Reverse rename executed', {
       from: reverseOp.sourcePath,
@@ -401,7 +421,9 @@ export class OperationJournal {
       throw new Error('Target path required for reverse move');
     }
 
-    await fs.rename(reverseOp.sourcePath, reverseOp.targetPath);
+    // The original folder may have been removed since the move
+    await fs.mkdir(path.dirname(reverseOp.targetPath), { recursive: true });
+    await moveEntry(reverseOp.sourcePath, reverseOp.targetPath, this.logger);
     
     this.logger.debug('OperationJournal', 'Reverse move executed', {
       from: reverseOp.sourcePath,
@@ -419,7 +441,14 @@ export class OperationJournal {
       throw new Error('Backup path required for restore operation');
     }
 
-    await fs.copyFile(reverseOp.restoreFromBackup, reverseOp.sourcePath);
+    await fs.mkdir(path.dirname(reverseOp.sourcePath), { recursive: true });
+    if (this.trash?.isTrashedPath(reverseOp.restoreFromBackup)) {
+      await this.trash.restoreFromTrash(reverseOp.restoreFromBackup, reverseOp.sourcePath);
+    } else if (this.backupStorage?.isBackupReference(reverseOp.restoreFromBackup)) {
+      await this.backupStorage.restoreBackup(reverseOp.restoreFromBackup, reverseOp.sourcePath);
+    } else {
+      await fs.copyFile(reverseOp.restoreFromBackup, reverseOp.sourcePath);
+    }
     
     this.logger.debug('OperationJournal', 'File restored from backup', {
       backup: reverseOp.restoreFromBackup,
@@ -427,10 +456,45 @@ export class OperationJournal {
     });
   }
 
+  /**
+   * Put back the content a write replaced, through a temporary file beside it
+   */
+  private async executeRestoreContent(
+    reverseOp: UndoData['reverseOperation'],
+    entry: OperationJournalEntry
+  ): Promise<void> {
+    const fs = await import('fs/promises');
+
+    if (!reverseOp.restoreFromBackup) {
+      throw new Error('Backup path required for restore-content operation');
+    }
+
+    const temporaryPath = path.join(path.dirname(reverseOp.sourcePath), `.${path.basename(reverseOp.sourcePath)}.maxsort-partial`);
+    try {
+      if (this.backupStorage?.isBackupReference(reverseOp.restoreFromBackup)) {
+        await this.backupStorage.restoreBackup(reverseOp.restoreFromBackup, temporaryPath);
+      } else {
+        await fs.copyFile(reverseOp.restoreFromBackup, temporaryPath);
+      }
+      await fs.rename(temporaryPath, reverseOp.sourcePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+
+    this.logger.debug('OperationJournal', 'File content restored from backup', {
+      backup: reverseOp.restoreFromBackup,
+      restored: reverseOp.sourcePath,
+    });
+  }
+
   private async checkUndoDependencies(entry: OperationJournalEntry): Promise<string[]> {
     // Check if other operations depend on this one
     // For example, if we renamed A to B, and then renamed B to C,
     // we can't undo A->B without first undoing B->C
+    if (!entry.targetPath) {
+      return []; // Deletes leave nothing behind for later operations to use
+    }
     
     const dependentEntries = await this.queryJournalEntries({
       sourcePath: entry.targetPath, // Operations that use this operation's target as their source
@@ -438,7 +502,7 @@ export class OperationJournal {
     });
 
     return dependentEntries
-      .filter(e => e.status === 'committed')
+      .filter(e => e.status === 'committed' && e.operationId !== entry.operationId)
       .map(e => e.operationId);
   }
 
@@ -446,6 +510,29 @@ export class OperationJournal {
     const fs = await import('fs/promises');
     const reverseOp = entry.undoData.reverseOperation;
 
+    if (reverseOp.type === 'restore' || reverseOp.type === 'restore-content') {
+      // Restoring needs the backup, and a free original path unless only the
+      // content goes back
+      const backupPath = reverseOp.restoreFromBackup || '';
+      if (this.backupStorage?.isBackupReference(backupPath)) {
+        if (!(await this.backupStorage.hasBackup(backupPath))) {
+          return false;
+        }
+      } else {
+        try {
+          await fs.access(backupPath, fs.constants.F_OK);
+        } catch {
+          return false;
+        }
+      }
+      try {
+        await fs.access(reverseOp.sourcePath, fs.constants.F_OK);
+        return reverseOp.type === 'restore-content';
+      } catch {
+        return reverseOp.type === 'restore';
+      }
+    }
+
     try {
       // Check if source file for reverse operation exists
       await fs.access(reverseOp.sourcePath, fs.constants.F_OK);
@@ -467,56 +554,170 @@ export class OperationJournal {
   }
 
   private async storeJournalEntry(entry: OperationJournalEntry): Promise<void> {
-    // This would store the entry in the operations table with JSON serialization
-    // For now, it's a placeholder since we need to extend the database schema
-    this.logger.debug('OperationJournal', 'Storing journal entry', {
+    this.database.insertJournalOperation({
       journalId: entry.id,
       operationId: entry.operationId,
+      transactionId: entry.transactionId,
+      operationType: entry.type,
+      fileId: entry.sourceId || null,
+      sourcePath: entry.sourcePath,
+      targetPath: entry.targetPath || null,
+      undoData: JSON.stringify(entry.undoData),
+      backupPath: entry.metadata.backupPath || null,
+      fileSize: entry.metadata.fileSize,
+      fileHash: entry.metadata.fileHash || null,
+      originalMtime: entry.metadata.originalMtime,
+      userId: entry.userId || null,
+      journaledAt: entry.timestamp,
     });
   }
 
   private async getJournalEntry(operationId: string): Promise<OperationJournalEntry | null> {
-    // Query the operations table for the journal entry
-    // For now, return null as placeholder
-    return null;
+    const [record] = this.database.getJournalOperations({ operationId }, 0, 1);
+    return record ? this.toJournalEntry(record) : null;
   }
 
   private async getTransactionEntries(transactionId: string): Promise<OperationJournalEntry[]> {
-    // Query all journal entries for a transaction
-    // For now, return empty array as placeholder
-    return [];
+    // Oldest first so callers can reverse into LIFO order
+    return this.database.getJournalOperations({ transactionId })
+      .reverse()
+      .map(record => this.toJournalEntry(record));
   }
 
   private async queryJournalEntries(
-    filters: any,
+    filters: JournalQueryFilters,
     offset?: number,
     limit?: number
   ): Promise<OperationJournalEntry[]> {
-    // Query journal entries with filters
-    // For now, return empty array as placeholder
-    return [];
+    return this.database.getJournalOperations(filters, offset ?? 0, limit ?? -1)
+      .map(record => this.toJournalEntry(record));
   }
 
-  private async countJournalEntries(filters: any): Promise<number> {
-    // Count journal entries matching filters
-    // For now, return 0 as placeholder
-    return 0;
+  private async countJournalEntries(filters: JournalQueryFilters): Promise<number> {
+    return this.database.countJournalOperations(filters);
   }
 
-  private async markAsRolledBack(journalId: string): Promise<void> {
-    // Update the journal entry status to 'rolled_back'
-    this.logger.debug('OperationJournal', 'Marking as rolled back', { journalId });
+  /**
+   * Reflect an undone operation in the files table, as execution did for the
+   * operation itself: moved files follow back, restored files are indexed
+   * again and restored content waits for deferred hashing
+   */
+  private async syncFileRecords(entry: OperationJournalEntry): Promise<void> {
+    const fs = await import('fs/promises');
+    const reverseOp = entry.undoData.reverseOperation;
+
+    try {
+      if (reverseOp.type === 'rename' || reverseOp.type === 'move') {
+        syncExecutedOperations(this.database, [
+          { type: reverseOp.type, source: reverseOp.sourcePath, target: reverseOp.targetPath },
+        ]);
+        return;
+      }
+
+      const stats = await fs.stat(reverseOp.sourcePath);
+      const mtime = Math.floor(stats.mtime.getTime() / 1000);
+      if (reverseOp.type === 'restore') {
+        this.database.upsertFile(this.restoredFileRecord(reverseOp.sourcePath, entry, stats.size, mtime));
+      } else if (reverseOp.type === 'restore-content') {
+        this.database.updatePendingHashStats(reverseOp.sourcePath, stats.size, mtime);
+      }
+    } catch (error) {
+      // The files are already back; a stale row is corrected by the next scan
+      this.logger.warn('OperationJournal', 'Failed to update file records after undo', {
+        operationId: entry.operationId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
-  private async cleanupOldEntries(): Promise<void> {
+  /**
+   * Build the files-table row for a deleted file put back in place, relative
+   * to the innermost scanned root that contains it
+   */
+  private restoredFileRecord(filePath: string, entry: OperationJournalEntry, size: number, mtime: number): FileRecord {
+    const relativePaths = this.database.getScannedRoots()
+      .map(root => path.relative(root.rootPath, filePath))
+      .filter(relative => relative && !relative.startsWith('..') && !path.isAbsolute(relative))
+      .sort((a, b) => a.length - b.length);
+
+    return {
+      path: filePath,
+      // The restored bytes are the ones that were hashed before the delete
+      sha256: entry.metadata.fileHash || undefined,
+      size,
+      mtime,
+      lastScannedAt: Math.floor(Date.now() / 1000),
+      relativePathFromRoot: relativePaths[0],
+      fileName: path.basename(filePath),
+      fileExtension: path.extname(filePath),
+      parentDirectory: path.dirname(filePath),
+    };
+  }
+
+  private async markAsRolledBack(entry: OperationJournalEntry): Promise<void> {
+    this.database.updateOperationStatus(entry.operationId, 'rolled_back');
+    this.logger.debug('OperationJournal', 'Marking as rolled back', { journalId: entry.id });
+  }
+
+  /**
+   * Drop entries past the undo window (and beyond the entry cap) along with their backups
+   */
+  public async cleanupOldEntries(): Promise<number> {
     const cutoffDate = Date.now() - (this.maxUndoHistoryDays * 24 * 60 * 60 * 1000);
     
     this.logger.info('OperationJournal', 'Cleaning up old journal entries', {
       cutoffDate: new Date(cutoffDate).toISOString(),
     });
 
-    // Delete entries older than cutoff date
-    // Implementation would depend on database schema
+    const expired = [
+      ...this.database.getJournalOperations({ endDate: cutoffDate }),
+      ...this.database.getJournalOperations({ startDate: cutoffDate }, this.maxJournalEntries),
+    ];
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    const fs = await import('fs/promises');
+    for (const record of expired) {
+      // Trashed files stay in the trash for the user to empty
+      if (record.backupPath && !this.trash?.isTrashedPath(record.backupPath)) {
+        const removal = this.backupStorage?.isBackupReference(record.backupPath)
+          ? this.backupStorage.deleteBackup(record.backupPath)
+          : fs.rm(record.backupPath, { force: true });
+        await removal.catch(error => {
+          this.logger.warn('OperationJournal', 'Failed to remove expired backup', {
+            backupPath: record.backupPath,
+            error: String(error),
+          });
+        });
+      }
+    }
+
+    const removed = this.database.deleteJournalOperations(expired.map(record => record.journalId));
+    this.logger.info('OperationJournal', `Removed ${removed} expired journal entries`);
+    return removed;
+  }
+
+  private toJournalEntry(record: JournalOperationRecord): OperationJournalEntry {
+    return {
+      id: record.journalId,
+      transactionId: record.transactionId,
+      operationId: record.operationId,
+      type: record.operationType,
+      sourceId: record.fileId ?? 0,
+      sourcePath: record.sourcePath,
+      targetPath: record.targetPath ?? undefined,
+      status: record.status === 'rolled_back' ? 'rolled_back' : 'committed',
+      timestamp: record.journaledAt,
+      userId: record.userId ?? undefined,
+      undoData: JSON.parse(record.undoData) as UndoData,
+      metadata: {
+        fileSize: record.fileSize,
+        fileHash: record.fileHash ?? '',
+        originalMtime: record.originalMtime ?? 0,
+        backupPath: record.backupPath ?? undefined,
+      },
+    };
   }
 
   private generateJournalId(): string {
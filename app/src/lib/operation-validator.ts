@@ -26,10 +26,37 @@ export interface ValidationWarning {
 
 export interface FileOperation {
   id: string;
-  type: 'rename' | 'move' | 'delete';
+  type: 'rename' | 'move' | 'delete' | 'write';
   sourcePath: string;
-  targetPath: string;
+  targetPath: string;                   // The source itself for deletes and in-place writes
   fileId: number;
+  adjustments?: FileNameAdjustment[];   // Applied by sanitizeTargetPath to reach targetPath
+}
+
+/**
+ * Naming rules of the filesystem a file is renamed on. 'native' follows the
+ * platform's own rules; 'portable' keeps names valid on Windows, macOS and
+ * Linux alike.
+ */
+export interface FileNameRules {
+  mode: 'native' | 'portable';
+  platform: NodeJS.Platform;
+  normalization: 'NFC' | 'NFD' | 'none';
+  maxComponentBytes: number;           // UTF-8 bytes per path component
+}
+
+export interface FileNameAdjustment {
+  code:
+    | 'UNICODE_NORMALIZED'
+    | 'INVALID_CHARACTERS_REPLACED'
+    | 'TRAILING_DOTS_SPACES_TRIMMED'
+    | 'RESERVED_NAME_SUFFIXED'
+    | 'COMPONENT_TRUNCATED'
+    | 'PATH_SHORTENED'
+    | 'CASE_ONLY_RENAME';
+  message: string;
+  before: string;
+  after: string;
 }
 
 export interface ValidationOptions {
@@ -41,6 +68,9 @@ export interface ValidationOptions {
   maxDepth?: number;
 }
 
+const MAX_PATH_LENGTHS: Partial<Record<NodeJS.Platform, number>> = { win32: 260, darwin: 1024 };
+const DEFAULT_MAX_PATH_LENGTH = 4096;
+
 export class OperationValidator {
   private logger: Logger;
   private database: DatabaseManager;
@@ -84,11 +114,96 @@ export class OperationValidator {
     'LPT1', 'LPT2', 'LPT3', 'LPT4', 'LPT5', 'LPT6', 'LPT7', 'LPT8', 'LPT9'
   ];
 
+  static readonly DEFAULT_FILE_NAME_RULES: FileNameRules = {
+    mode: 'native',
+    platform: process.platform,
+    normalization: 'NFC',
+    maxComponentBytes: 255,
+  };
+
   constructor(database: DatabaseManager, logger: Logger) {
     this.database = database;
     this.logger = logger;
   }
 
+  /**
+   * Make a rename or move target valid under the given naming rules. Only
+   * components the operation introduces are changed, never the directories
+   * the source already lives in. Every change is listed so it can be reported.
+   */
+  sanitizeTargetPath(
+    sourcePath: string,
+    targetPath: string,
+    rules: Partial<FileNameRules> = {}
+  ): { targetPath: string; adjustments: FileNameAdjustment[] } {
+    const effective = { ...OperationValidator.DEFAULT_FILE_NAME_RULES, ...rules };
+    const windowsRules = effective.mode === 'portable' || effective.platform === 'win32';
+    const adjustments: FileNameAdjustment[] = [];
+    const adjust = (code: FileNameAdjustment['code'], message: string, before: string, after: string) => {
+      if (before !== after) adjustments.push({ code, message, before, after });
+      return after;
+    };
+
+    const sourceDirectory = path.dirname(sourcePath).split(path.sep);
+    const components = targetPath.split(path.sep);
+    const differing = components.findIndex((component, index) => component !== sourceDirectory[index]);
+    const firstNew = differing === -1 ? components.length : Math.max(differing, 1);
+
+    for (let index = firstNew; index < components.length; index++) {
+      let name = components[index];
+      if (!name) continue;
+
+      if (effective.normalization !== 'none') {
+        name = adjust('UNICODE_NORMALIZED', `Normalized to Unicode ${effective.normalization}`,
+          name, name.normalize(effective.normalization));
+      }
+
+      const invalid = windowsRules ? /[<>:"\\|?*\x00-\x1f]/g : effective.platform === 'darwin' ? /[:\x00]/g : /\x00/g;
+      name = adjust('INVALID_CHARACTERS_REPLACED', 'Replaced characters the filesystem does not allow',
+        name, name.replace(invalid, '_'));
+
+      if (windowsRules) {
+        name = adjust('TRAILING_DOTS_SPACES_TRIMMED', 'Removed trailing dots and spaces',
+          name, name.replace(/[. ]+$/, '') || '_');
+
+        const stem = name.split('.')[0];
+        if (this.RESERVED_NAMES.includes(stem.toUpperCase())) {
+          name = adjust('RESERVED_NAME_SUFFIXED', `"${stem}" is a reserved device name on Windows`,
+            name, `${stem}_${name.slice(stem.length)}`);
+        }
+      }
+
+      name = adjust('COMPONENT_TRUNCATED', `Shortened to ${effective.maxComponentBytes} bytes`,
+        name, truncateName(name, effective.maxComponentBytes));
+      components[index] = name;
+    }
+
+    // Shorten the file name itself when the whole path is still too long
+    const maxPathLength = windowsRules ? MAX_PATH_LENGTHS.win32! : MAX_PATH_LENGTHS[effective.platform] ?? DEFAULT_MAX_PATH_LENGTH;
+    const excess = components.join(path.sep).length - maxPathLength;
+    const fileName = components[components.length - 1];
+    if (excess > 0 && components.length - 1 >= firstNew) {
+      const extension = path.extname(fileName);
+      const stemLength = fileName.length - extension.length - excess;
+      if (stemLength > 0) {
+        components[components.length - 1] = adjust('PATH_SHORTENED', `Shortened to fit the ${maxPathLength} character path limit`,
+          fileName, Array.from(fileName.slice(0, fileName.length - extension.length)).slice(0, stemLength).join('') + extension);
+      }
+    }
+
+    const sanitized = components.join(path.sep);
+    if (sanitized !== sourcePath && sanitized.toLowerCase() === sourcePath.toLowerCase()) {
+      adjustments.push({
+        code: 'CASE_ONLY_RENAME',
+        message: 'Only the case of the name changes, which case-insensitive volumes treat as the same name',
+        before: path.basename(sourcePath),
+        after: path.basename(sanitized),
+      });
+    }
+
+    return { targetPath: sanitized, adjustments };
+  }
+
   /**
    * Validate a single file operation
    */
@@ -127,6 +242,9 @@ export class OperationValidator {
       // Path length validation
       this.validatePathLengths(operation, errors, warnings);
 
+      // Changes made to the requested name
+      this.validateAdjustments(operation, warnings);
+
     } catch (error) {
       errors.push({
         code: 'VALIDATION_ERROR',
@@ -220,6 +338,11 @@ export class OperationValidator {
       });
     }
 
+    // Deletes and in-place writes have no destination to check
+    if (operation.type === 'delete' || operation.type === 'write') {
+      return;
+    }
+
     // Check if target path is valid
     const targetDir = path.dirname(operation.targetPath);
     try {
@@ -472,6 +595,25 @@ export class OperationValidator {
     }
   }
 
+  /**
+   * Report each change sanitizeTargetPath made to the requested target
+   */
+  private validateAdjustments(
+    operation: FileOperation,
+    warnings: ValidationWarning[]
+  ): void {
+    for (const adjustment of operation.adjustments || []) {
+      warnings.push({
+        code: adjustment.code,
+        message: `${adjustment.message}: "${adjustment.before}" → "${adjustment.after}"`,
+        affectedPaths: [operation.targetPath],
+        recommendation: adjustment.code === 'CASE_ONLY_RENAME'
+          ? 'No action needed'
+          : 'Review the adjusted name before executing'
+      });
+    }
+  }
+
   /**
    * Check for conflicts between operations in a batch
    */
@@ -485,6 +627,9 @@ export class OperationValidator {
 
     // Group operations by target path
     for (const operation of operations) {
+      if (operation.type === 'delete' || operation.type === 'write') {
+        continue;
+      }
       const normalizedTarget = path.resolve(operation.targetPath);
       if (!targetPaths.has(normalizedTarget)) {
         targetPaths.set(normalizedTarget, []);
@@ -539,10 +684,15 @@ export class OperationValidator {
       if (!dependencies.has(operation.id)) {
         dependencies.set(operation.id, new Set());
       }
+
+      // Deletes and in-place writes create nothing, so they neither depend on nor block other operations
+      if (operation.type === 'delete' || operation.type === 'write') {
+        continue;
+      }
       
       // If target directory is a subdirectory of source, it depends on the source operation
       for (const otherOp of operations) {
-        if (otherOp.id !== operation.id) {
+        if (otherOp.id !== operation.id && otherOp.type !== 'delete' && otherOp.type !== 'write') {
           const otherTargetDir = path.dirname(otherOp.targetPath);
           if (sourceDir.startsWith(otherTargetDir)) {
             dependencies.get(operation.id)!.add(otherOp.id);
@@ -743,3 +893,22 @@ export class OperationValidator {
     return lines.join('\n');
   }
 }
+
+/**
+ * Cut a name to a number of UTF-8 bytes on a character boundary, keeping its
+ * extension
+ */
+function truncateName(name: string, maxBytes: number): string {
+  if (Buffer.byteLength(name) <= maxBytes) {
+    return name;
+  }
+
+  const extension = path.extname(name);
+  const budget = maxBytes - Buffer.byteLength(extension);
+  let stem = '';
+  for (const character of name.slice(0, name.length - extension.length)) {
+    if (Buffer.byteLength(stem + character) > budget) break;
+    stem += character;
+  }
+  return stem + extension;
+}
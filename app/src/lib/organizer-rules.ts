@@ -0,0 +1,175 @@
+import * as path from 'path';
+
+/**
+ * Conditions a file must meet for a rule to apply. Every condition that is
+ * set must match; list conditions match when any entry matches.
+ */
+export interface RuleConditions {
+  extensions?: string[];               // With or without the leading dot
+  categories?: string[];               // Classification results, case-insensitive
+  keywords?: string[];                 // Searched in the content summary
+  minSize?: number;                    // Bytes, inclusive
+  maxSize?: number;                    // Bytes, inclusive
+  modifiedAfter?: number;              // Milliseconds since epoch, inclusive
+  modifiedBefore?: number;             // Milliseconds since epoch, exclusive
+  pathPattern?: string;                // Regular expression tested against the full path
+}
+
+export interface OrganizerRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleConditions;
+  destination: string;                 // Folder template, e.g. "Finance/{year}/{month}"
+  fileName?: string;                   // File name template, defaults to "{original_name}"
+}
+
+/**
+ * Everything known about a file when rules are evaluated
+ */
+export interface RuleSubject {
+  path: string;
+  size: number;
+  mtime: number;                       // Seconds since epoch, as stored in the files table
+  category?: string;
+  summary?: string;
+  suggestedName?: string;
+}
+
+export const TEMPLATE_TOKENS = [
+  'category',
+  'year',
+  'month',
+  'day',
+  'extension',
+  'original_name',
+  'original_stem',
+  'suggested_name',
+  'parent_folder',
+] as const;
+
+export type TemplateToken = typeof TEMPLATE_TOKENS[number];
+
+const TOKEN_PATTERN = /\{([a-z_]+)\}/g;
+const UNSAFE_SEGMENT_CHARS = /[\/\\<>:"|?*\x00-\x1F]/g;
+
+export const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Check a rule for unknown tokens, invalid patterns and unusable templates.
+ * Returns human-readable problems; an empty list means the rule is valid.
+ */
+export function validateRule(rule: OrganizerRule): string[] {
+  const problems: string[] = [];
+
+  if (!rule.id) problems.push('Rule is missing an id');
+  if (!rule.destination || !rule.destination.trim()) {
+    problems.push(`Rule "${rule.name}" has no destination`);
+  }
+
+  for (const template of [rule.destination, rule.fileName].filter(Boolean) as string[]) {
+    for (const match of template.matchAll(TOKEN_PATTERN)) {
+      if (!(TEMPLATE_TOKENS as readonly string[]).includes(match[1])) {
+        problems.push(`Rule "${rule.name}" uses unknown token {${match[1]}}`);
+      }
+    }
+  }
+
+  if (rule.fileName && /[\/\\]/.test(rule.fileName.replace(TOKEN_PATTERN, ''))) {
+    problems.push(`Rule "${rule.name}" file name template must not contain folders`);
+  }
+
+  if (rule.conditions.pathPattern) {
+    try {
+      new RegExp(rule.conditions.pathPattern);
+    } catch (error) {
+      problems.push(`Rule "${rule.name}" has an invalid path pattern: ${(error as Error).message}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Test a file against a rule's conditions
+ */
+export function ruleMatches(rule: OrganizerRule, subject: RuleSubject): boolean {
+  const { conditions } = rule;
+
+  if (conditions.extensions?.length) {
+    const extension = path.extname(subject.path).replace(/^\./, '').toLowerCase();
+    const wanted = conditions.extensions.map(ext => ext.replace(/^\./, '').toLowerCase());
+    if (!wanted.includes(extension)) return false;
+  }
+
+  if (conditions.categories?.length) {
+    const category = (subject.category || '').toLowerCase();
+    if (!conditions.categories.some(c => c.toLowerCase() === category)) return false;
+  }
+
+  if (conditions.keywords?.length) {
+    const summary = (subject.summary || '').toLowerCase();
+    if (!conditions.keywords.some(keyword => summary.includes(keyword.toLowerCase()))) return false;
+  }
+
+  if (conditions.minSize !== undefined && subject.size < conditions.minSize) return false;
+  if (conditions.maxSize !== undefined && subject.size > conditions.maxSize) return false;
+
+  const modifiedMs = subject.mtime * 1000;
+  if (conditions.modifiedAfter !== undefined && modifiedMs < conditions.modifiedAfter) return false;
+  if (conditions.modifiedBefore !== undefined && modifiedMs >= conditions.modifiedBefore) return false;
+
+  if (conditions.pathPattern && !new RegExp(conditions.pathPattern).test(subject.path)) return false;
+
+  return true;
+}
+
+/**
+ * Resolve a rule's templates to a target path. Relative destinations are
+ * placed under baseDirectory; token values never introduce extra folders.
+ */
+export function renderDestination(rule: OrganizerRule, subject: RuleSubject, baseDirectory: string): string {
+  const values = tokenValues(subject);
+  const render = (template: string) =>
+    template.replace(TOKEN_PATTERN, (whole, token: string) =>
+      token in values ? values[token as TemplateToken] : whole
+    );
+
+  const folder = render(rule.destination)
+    .split(/[\/\\]/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..');
+
+  const fileName = render(rule.fileName || '{original_name}').trim() || values.original_name;
+  const root = path.isAbsolute(rule.destination) ? path.parse(rule.destination).root : baseDirectory;
+
+  return path.join(root, ...folder, fileName);
+}
+
+function tokenValues(subject: RuleSubject): Record<TemplateToken, string> {
+  const modified = new Date(subject.mtime * 1000);
+  const extension = path.extname(subject.path);
+  const originalName = path.basename(subject.path);
+
+  let suggestedName = originalName;
+  if (subject.suggestedName && subject.suggestedName.trim()) {
+    const suggested = sanitizeSegment(subject.suggestedName.trim());
+    suggestedName = path.extname(suggested) ? suggested : `${suggested}${extension}`;
+  }
+
+  return {
+    category: sanitizeSegment(subject.category || UNCATEGORIZED),
+    year: String(modified.getFullYear()),
+    month: String(modified.getMonth() + 1).padStart(2, '0'),
+    day: String(modified.getDate()).padStart(2, '0'),
+    extension: extension.replace(/^\./, '').toLowerCase(),
+    original_name: originalName,
+    original_stem: path.basename(subject.path, extension),
+    suggested_name: suggestedName,
+    parent_folder: path.basename(path.dirname(subject.path)),
+  };
+}
+
+function sanitizeSegment(value: string): string {
+  return value.replace(UNSAFE_SEGMENT_CHARS, '-').trim();
+}
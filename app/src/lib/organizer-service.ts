@@ -0,0 +1,278 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './logger';
+import type { DatabaseManager, FileRecord, SuggestionRecord } from './database';
+import type { FileOperationPreviewService, PreviewBatch } from './file-operation-preview';
+import type { SuggestionExecutionService } from './suggestion-execution-service';
+import { claimUniquePath, syncExecutedOperations } from './file-relocation';
+import { ruleMatches, renderDestination, validateRule, type OrganizerRule, type RuleSubject } from './organizer-rules';
+
+export interface OrganizeRequest {
+  rootPath?: string;                   // Organize every indexed file under this root
+  fileIds?: number[];                  // Or only these files
+  baseDirectory?: string;              // Where relative destinations are placed; defaults to the scan root
+}
+
+export interface OrganizerOperation {
+  operationId: string;
+  fileId: number;
+  sourcePath: string;
+  targetPath: string;
+  ruleId: string;
+  ruleName: string;
+}
+
+export interface OrganizerPlan {
+  planId: string;
+  operations: OrganizerOperation[];
+  unmatchedFiles: number;
+  alreadyOrganized: number;
+  createdAt: number;
+}
+
+export interface OrganizeResult {
+  success: boolean;
+  transactionId: string;
+  movedFiles: number;
+  errors: string[];
+}
+
+const RULES_SETTING_KEY = 'organizer_rules';
+
+/**
+ * Moves files into folders described by ordered, user-defined rules.
+ *
+ * Planning evaluates each file against the enabled rules in order and renders
+ * the first match's destination template. Plans are previewed through
+ * FileOperationPreviewService and executed as 'move' operations through
+ * SuggestionExecutionService, so they are validated, journaled and undoable.
+ */
+export class OrganizerService extends EventEmitter {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly previewService: FileOperationPreviewService;
+  private readonly executionService: SuggestionExecutionService;
+  private readonly plans: Map<string, OrganizerPlan> = new Map();
+  private readonly maxRetainedPlans = 10;
+
+  constructor(
+    database: DatabaseManager,
+    logger: Logger,
+    previewService: FileOperationPreviewService,
+    executionService: SuggestionExecutionService
+  ) {
+    super();
+    this.database = database;
+    this.logger = logger;
+    this.previewService = previewService;
+    this.executionService = executionService;
+  }
+
+  public getRules(): OrganizerRule[] {
+    const saved = this.database.getSetting(RULES_SETTING_KEY);
+    if (!saved) return [];
+
+    try {
+      return JSON.parse(saved) as OrganizerRule[];
+    } catch (error) {
+      this.logger.warn('Organizer', 'Ignoring unreadable organizer rules', { error: String(error) });
+      return [];
+    }
+  }
+
+  /**
+   * Replace the rule list; order is evaluation order
+   */
+  public saveRules(rules: OrganizerRule[]): OrganizerRule[] {
+    const problems = rules.flatMap(rule => validateRule(rule));
+    const ids = rules.map(rule => rule.id);
+    if (new Set(ids).size !== ids.length) {
+      problems.push('Rule ids must be unique');
+    }
+    if (problems.length > 0) {
+      throw new Error(`Invalid organizer rules: ${problems.join('; ')}`);
+    }
+
+    this.database.setSetting(RULES_SETTING_KEY, JSON.stringify(rules));
+    this.emit('rules-updated', rules);
+    return rules;
+  }
+
+  /**
+   * Work out where each file should go without touching the file system
+   */
+  public async planOrganization(request: OrganizeRequest): Promise<OrganizerPlan> {
+    const rules = this.getRules().filter(rule => rule.enabled);
+    const files = this.selectFiles(request);
+    const planId = `organize_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+    const fileIds = files.map(file => file.id!);
+    const categories = this.database.getBestSuggestionValues(fileIds, 'classification');
+    const summaries = this.database.getBestSuggestionValues(fileIds, 'content-summary');
+    const suggestedNames = this.database.getBestSuggestionValues(fileIds, 'rename-suggestions');
+
+    const operations: OrganizerOperation[] = [];
+    const taken = new Set<string>();
+    let unmatchedFiles = 0;
+    let alreadyOrganized = 0;
+
+    for (const file of files) {
+      const subject: RuleSubject = {
+        path: file.path,
+        size: file.size,
+        mtime: file.mtime,
+        category: categories.get(file.id!),
+        summary: summaries.get(file.id!),
+        suggestedName: suggestedNames.get(file.id!),
+      };
+
+      const rule = rules.find(candidate => ruleMatches(candidate, subject));
+      if (!rule) {
+        unmatchedFiles++;
+        continue;
+      }
+
+      const baseDirectory = request.baseDirectory || request.rootPath || this.scanRootOf(file);
+      const target = renderDestination(rule, subject, baseDirectory);
+      if (target === file.path) {
+        alreadyOrganized++;
+        continue;
+      }
+
+      operations.push({
+        operationId: `${planId}_${operations.length}`,
+        fileId: file.id!,
+        sourcePath: file.path,
+        targetPath: await claimUniquePath(target, taken),
+        ruleId: rule.id,
+        ruleName: rule.name,
+      });
+    }
+
+    const plan: OrganizerPlan = { planId, operations, unmatchedFiles, alreadyOrganized, createdAt: Date.now() };
+    this.retainPlan(plan);
+
+    this.logger.info('Organizer', `Planned ${operations.length} moves`, {
+      planId,
+      unmatchedFiles,
+      alreadyOrganized,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Preview a plan's moves with the standard operation preview
+   */
+  public async previewPlan(planId: string): Promise<PreviewBatch> {
+    const plan = this.getPlan(planId);
+
+    return this.previewService.generateBatchPreview(planId, plan.operations.map(operation => ({
+      operationId: operation.operationId,
+      type: 'move' as const,
+      fileId: operation.fileId,
+      targetPath: operation.targetPath,
+      confidence: 1,
+    })));
+  }
+
+  /**
+   * Execute a plan, optionally restricted to some of its operations
+   */
+  public async executePlan(planId: string, operationIds?: string[]): Promise<OrganizeResult> {
+    const plan = this.getPlan(planId);
+    const selected = operationIds
+      ? plan.operations.filter(operation => operationIds.includes(operation.operationId))
+      : plan.operations;
+
+    if (selected.length === 0) {
+      return { success: true, transactionId: '', movedFiles: 0, errors: [] };
+    }
+
+    // The transactional move requires existing destination folders
+    for (const directory of new Set(selected.map(operation => path.dirname(operation.targetPath)))) {
+      await fs.mkdir(directory, { recursive: true });
+    }
+
+    const suggestions: SuggestionRecord[] = selected.map(operation => ({
+      fileId: operation.fileId,
+      requestId: planId,
+      analysisType: 'classification',
+      suggestedValue: operation.targetPath,
+      originalConfidence: 1,
+      adjustedConfidence: 1,
+      qualityScore: 1,
+      reasoning: `Organizer rule "${operation.ruleName}"`,
+      modelUsed: 'organizer',
+      analysisDuration: 0,
+      rankPosition: 1,
+      isRecommended: true,
+    }));
+
+    const execution = await this.executionService.executeWithTransaction(suggestions, {
+      createBackups: true,
+      enableRollback: true,
+      operationJournaling: true,
+      operationType: 'move',
+      // Planned targets were free; files that took one since are not overwritten
+      conflictStrategy: 'auto-suffix',
+    });
+
+    if (execution.success) {
+      syncExecutedOperations(this.database, execution.executedOperations ?? []);
+      this.plans.delete(planId);
+    }
+
+    const result: OrganizeResult = {
+      success: execution.success,
+      transactionId: execution.transactionId,
+      movedFiles: execution.success ? selected.length : 0,
+      errors: execution.errors,
+    };
+
+    this.logger.info('Organizer', execution.success ? 'Plan executed' : 'Plan execution failed', {
+      planId,
+      movedFiles: result.movedFiles,
+      errors: result.errors.length,
+    });
+
+    this.emit('organize-complete', { planId, ...result });
+    return result;
+  }
+
+  private selectFiles(request: OrganizeRequest): FileRecord[] {
+    if (request.fileIds) {
+      return request.fileIds
+        .map(fileId => this.database.getFileById(fileId))
+        .filter((file): file is FileRecord => !!file);
+    }
+    if (request.rootPath) {
+      return this.database.getFilesByRootPath(request.rootPath);
+    }
+    throw new Error('Either rootPath or fileIds is required');
+  }
+
+  private scanRootOf(file: FileRecord): string {
+    if (file.relativePathFromRoot) {
+      return file.path.slice(0, file.path.length - file.relativePathFromRoot.length);
+    }
+    return path.dirname(file.path);
+  }
+
+  private getPlan(planId: string): OrganizerPlan {
+    const plan = this.plans.get(planId);
+    if (!plan) {
+      throw new Error(`Organizer plan not found: ${planId}`);
+    }
+    return plan;
+  }
+
+  private retainPlan(plan: OrganizerPlan): void {
+    this.plans.set(plan.planId, plan);
+    while (this.plans.size > this.maxRetainedPlans) {
+      const oldest = this.plans.keys().next().value as string;
+      this.plans.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from './logger';
+import { DatabaseManager } from './database';
+import type { FileRecord } from './database';
+import type { ReferenceEdit, ReferenceRewriting } from './suggestion-execution-service';
+
+export interface ReferenceRewriterConfig {
+  markdownExtensions: string[];        // Lowercase, with the dot
+  htmlExtensions: string[];
+  maxFileSize: number;                 // Larger documents are left alone
+}
+
+const MARKDOWN_INLINE_LINK = /(!?\[[^\]]*\]\()(<[^>\n]*>|[^)\s]+)/g;
+const MARKDOWN_REFERENCE_DEFINITION = /^(\s{0,3}\[[^\]]+\]:\s*)(<[^>\n]*>|\S+)/;
+const HTML_LINK_ATTRIBUTE = /(\b(?:href|src)\s*=\s*)(["'])([^"'\n]*)\2/gi;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Keeps relative links in Markdown and HTML documents pointing at files that
+ * are renamed or moved.
+ *
+ * Documents are found through the files table, within the scan roots of the
+ * moved files. Links are resolved against each document's current folder and
+ * written relative to where the document ends up, so documents moving in the
+ * same batch keep their links to files that stay. Absolute paths, URLs with a
+ * scheme, fragments and links inside fenced code blocks are not touched.
+ */
+export class ReferenceRewriter implements ReferenceRewriting {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly config: ReferenceRewriterConfig;
+
+  private static readonly DEFAULT_CONFIG: ReferenceRewriterConfig = {
+    markdownExtensions: ['.md', '.markdown', '.mdx'],
+    htmlExtensions: ['.html', '.htm'],
+    maxFileSize: 2 * 1024 * 1024,
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, config: Partial<ReferenceRewriterConfig> = {}) {
+    this.database = database;
+    this.logger = logger;
+    this.config = { ...ReferenceRewriter.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Plan the new content of every document whose links the moves would break
+   */
+  public async planRewrites(moves: Array<{ source: string; target: string }>): Promise<ReferenceEdit[]> {
+    const movedTo = new Map(moves.map(move => [path.resolve(move.source), path.resolve(move.target)]));
+    const { documents, knownPaths } = this.findDocuments(moves);
+    const edits: ReferenceEdit[] = [];
+
+    for (const document of documents) {
+      let content: string;
+      try {
+        content = await fs.readFile(document.path, 'utf8');
+      } catch (error) {
+        this.logger.warn('ReferenceRewriter', 'Skipping unreadable document', {
+          path: document.path,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+      if (content.includes('\0')) continue;
+
+      const edit = this.rewriteDocument(document.path, content, movedTo, knownPaths);
+      if (edit) edits.push(edit);
+    }
+
+    this.logger.info('ReferenceRewriter', 'Planned reference rewrites', {
+      moves: moves.length,
+      documentsScanned: documents.length,
+      documentsEdited: edits.length,
+      linksRewritten: edits.reduce((sum, edit) => sum + edit.changes.length, 0),
+    });
+
+    return edits;
+  }
+
+  /**
+   * Markdown and HTML documents in the scan roots of the moved files, plus
+   * every indexed path there so links from moving documents can be checked
+   */
+  private findDocuments(moves: Array<{ source: string }>): { documents: FileRecord[]; knownPaths: Set<string> } {
+    const roots = new Set<string>();
+    for (const move of moves) {
+      // Moved directories have no row of their own; any file inside tells the root
+      const file = this.database.getFileByPath(move.source) ?? this.database.getFilesByRootPath(move.source)[0];
+      if (file?.relativePathFromRoot) {
+        roots.add(path.resolve(file.path.slice(0, file.path.length - file.relativePathFromRoot.length)));
+      }
+    }
+
+    const documents = new Map<string, FileRecord>();
+    const knownPaths = new Set<string>();
+    const extensions = [...this.config.markdownExtensions, ...this.config.htmlExtensions];
+
+    for (const root of roots) {
+      for (const file of this.database.getFilesByRootPath(root)) {
+        const filePath = path.resolve(file.path);
+        if (!filePath.startsWith(root + path.sep)) continue;
+
+        knownPaths.add(filePath);
+        if (extensions.includes(path.extname(filePath).toLowerCase()) && file.size <= this.config.maxFileSize) {
+          documents.set(filePath, { ...file, path: filePath });
+        }
+      }
+    }
+
+    return { documents: Array.from(documents.values()), knownPaths };
+  }
+
+  private rewriteDocument(
+    documentPath: string,
+    content: string,
+    movedTo: Map<string, string>,
+    knownPaths: Set<string>
+  ): ReferenceEdit | null {
+    const isMarkdown = this.config.markdownExtensions.includes(path.extname(documentPath).toLowerCase());
+    const oldDirectory = path.dirname(documentPath);
+    const newDirectory = path.dirname(this.mapPath(documentPath, movedTo));
+    const rewrite = (link: string) => this.rewriteLink(link, oldDirectory, newDirectory, movedTo, knownPaths);
+
+    const changes: ReferenceEdit['changes'] = [];
+    let inCodeFence = false;
+
+    const lines = content.split('\n').map((line, index) => {
+      if (isMarkdown && CODE_FENCE.test(line)) {
+        inCodeFence = !inCodeFence;
+        return line;
+      }
+      if (inCodeFence) return line;
+
+      let rewritten = line.replace(HTML_LINK_ATTRIBUTE, (match, prefix: string, quote: string, link: string) => {
+        const updated = rewrite(link);
+        return updated === null ? match : `${prefix}${quote}${updated}${quote}`;
+      });
+
+      if (isMarkdown) {
+        rewritten = rewritten
+          .replace(MARKDOWN_INLINE_LINK, (match, prefix: string, link: string) => {
+            const updated = this.rewriteMarkdownDestination(link, rewrite);
+            return updated === null ? match : prefix + updated;
+          })
+          .replace(MARKDOWN_REFERENCE_DEFINITION, (match, prefix: string, link: string) => {
+            const updated = this.rewriteMarkdownDestination(link, rewrite);
+            return updated === null ? match : prefix + updated;
+          });
+      }
+
+      if (rewritten !== line) {
+        changes.push({ line: index + 1, before: line, after: rewritten });
+      }
+      return rewritten;
+    });
+
+    return changes.length > 0 ? { path: documentPath, content: lines.join('\n'), changes } : null;
+  }
+
+  /**
+   * Markdown destinations may be wrapped in angle brackets, which allows spaces
+   */
+  private rewriteMarkdownDestination(destination: string, rewrite: (link: string) => string | null): string | null {
+    if (destination.startsWith('<') && destination.endsWith('>')) {
+      const updated = rewrite(destination.slice(1, -1));
+      return updated === null ? null : `<${decodeLink(updated)}>`;
+    }
+    return rewrite(destination);
+  }
+
+  /**
+   * The link to write in place of a relative link, or null to keep it. Query
+   * strings, fragments, a leading ./ and percent-encoding are preserved.
+   */
+  private rewriteLink(
+    link: string,
+    oldDirectory: string,
+    newDirectory: string,
+    movedTo: Map<string, string>,
+    knownPaths: Set<string>
+  ): string | null {
+    if (!link || /^[a-z][a-z0-9+.-]*:/i.test(link) || link.startsWith('/') || link.startsWith('#')) {
+      return null;
+    }
+
+    const suffixStart = link.search(/[?#]/);
+    const linkPath = suffixStart === -1 ? link : link.slice(0, suffixStart);
+    const suffix = suffixStart === -1 ? '' : link.slice(suffixStart);
+    if (!linkPath) return null;
+
+    const decodedPath = decodeLink(linkPath);
+    const resolved = path.resolve(oldDirectory, decodedPath);
+    const mapped = this.mapPath(resolved, movedTo);
+
+    // Links to files that stay only change when the document moves, and only
+    // when they pointed at something in the first place
+    if (mapped === resolved && (newDirectory === oldDirectory || !knownPaths.has(resolved))) {
+      return null;
+    }
+
+    let relative = path.relative(newDirectory, mapped).split(path.sep).join('/');
+    if (decodedPath.endsWith('/')) relative += '/';
+    if (linkPath.startsWith('./') && !relative.startsWith('../')) relative = `./${relative}`;
+
+    const encoded = decodedPath !== linkPath || /[\s()<>]/.test(relative)
+      ? relative.split('/').map(encodeURIComponent).join('/')
+      : relative;
+
+    return encoded === linkPath ? null : encoded + suffix;
+  }
+
+  /**
+   * Where a path ends up after the moves, following moved parent directories
+   */
+  private mapPath(filePath: string, movedTo: Map<string, string>): string {
+    const direct = movedTo.get(filePath);
+    if (direct) return direct;
+
+    for (let directory = path.dirname(filePath); directory !== path.dirname(directory); directory = path.dirname(directory)) {
+      const movedDirectory = movedTo.get(directory);
+      if (movedDirectory) {
+        return path.join(movedDirectory, path.relative(directory, filePath));
+      }
+    }
+    return filePath;
+  }
+}
+
+function decodeLink(link: string): string {
+  try {
+    return decodeURIComponent(link);
+  } catch {
+    return link;
+  }
+}
@@ -0,0 +1,281 @@
+import * as path from 'path';
+import { Logger } from './logger';
+import { PromptTemplateManager, type FewShotExample, type FileTypeCategory } from '../agents/prompt-templates';
+import type { DatabaseManager, ReviewFeedbackFilters, ReviewFeedbackRecord } from './database';
+import type { ReviewFeedback } from './manual-review-queue';
+import type { ConfidenceWeights, FeedbackPrior } from './confidence-scorer';
+
+export interface ReviewFeedbackConfig {
+  maxStoredExamples: number;        // Oldest examples beyond this are dropped
+  examplesPerPrompt: number;
+  candidateExamples: number;        // Recent examples considered when picking few-shot examples
+  minSamplesForPrior: number;       // Fewer decisions leave a category's scoring unchanged
+  priorWindow: number;              // Most recent decisions per category a prior is based on
+  minConfidenceMultiplier: number;
+  maxConfidenceMultiplier: number;
+  recentWindow: number;             // Decisions counted in the recent approval rate
+}
+
+/**
+ * Decision counts for one file category. recentApprovalRate covers the last
+ * recentWindow decisions, so it rises above approvalRate as suggestions get
+ * closer to what reviewers accept.
+ */
+export interface FeedbackSummary {
+  category: string;
+  total: number;
+  approved: number;                 // Accepted as suggested
+  corrected: number;                // Overridden with the reviewer's own value
+  rejected: number;
+  approvalRate: number;
+  recentApprovalRate: number;
+}
+
+const FILE_CATEGORIES: FileTypeCategory[] = ['document', 'image', 'media', 'code', 'data', 'archive', 'generic'];
+
+// Review operations whose decisions teach each analysis type
+const FEEDBACK_OPERATIONS: Record<string, string[]> = {
+  'rename-suggestions': ['rename'],
+  'classification': ['classify', 'move'],
+};
+
+// Validation flags ConfidenceScorer raises for problems in each weighted dimension
+const WEIGHT_ISSUE_FLAGS: Record<keyof ConfidenceWeights, (flag: string) => boolean> = {
+  structuralPatternWeight: flag => flag.startsWith('bad-pattern-') ||
+    ['no-good-pattern', 'too-short', 'too-long', 'too-many-dots'].includes(flag),
+  metadataAlignmentWeight: flag => flag === 'missing-extension',
+  aiConsistencyWeight: flag => flag === 'reasoning-mismatch',
+  conventionComplianceWeight: flag => flag.startsWith('missing-required-token:') ||
+    ['mixed-separators', 'inconsistent-case', 'naming-profile-mismatch'].includes(flag),
+};
+
+/**
+ * Review decisions kept as learning examples.
+ *
+ * Examples for files like the one being analyzed are shown in its prompt, and
+ * each file category gets a FeedbackPrior for ConfidenceScorer: confidence is
+ * scaled by how often reviewers accepted suggestions as they were, and the
+ * scoring weight of problems that separate rejected from accepted suggestions
+ * is raised.
+ */
+export class ReviewFeedbackService {
+  private readonly database: DatabaseManager;
+  private readonly logger: Logger;
+  private readonly config: ReviewFeedbackConfig;
+
+  static readonly DEFAULT_CONFIG: ReviewFeedbackConfig = {
+    maxStoredExamples: 5000,
+    examplesPerPrompt: 4,
+    candidateExamples: 50,
+    minSamplesForPrior: 5,
+    priorWindow: 200,
+    minConfidenceMultiplier: 0.6,
+    maxConfidenceMultiplier: 1.2,
+    recentWindow: 20,
+  };
+
+  constructor(database: DatabaseManager, logger: Logger, config: Partial<ReviewFeedbackConfig> = {}) {
+    this.database = database;
+    this.logger = logger;
+    this.config = { ...ReviewFeedbackService.DEFAULT_CONFIG, ...config };
+  }
+
+  public recordFeedback(feedback: ReviewFeedback): ReviewFeedbackRecord {
+    if (!feedback || typeof feedback.originalPath !== 'string' || typeof feedback.suggestedValue !== 'string') {
+      throw new Error('Review feedback needs the original path and the suggested value');
+    }
+    if (feedback.decision !== 'approve' && feedback.decision !== 'reject') {
+      throw new Error(`Invalid review decision: ${feedback.decision}`);
+    }
+
+    const fileExtension = path.extname(feedback.originalPath).toLowerCase();
+    const record: ReviewFeedbackRecord = {
+      filePath: feedback.originalPath,
+      fileExtension,
+      fileCategory: PromptTemplateManager.categorizeFile({ fileExtension }),
+      operation: feedback.operation,
+      suggestedValue: feedback.suggestedValue,
+      decision: feedback.decision,
+      correctedValue: feedback.correctedValue || null,
+      confidence: Number(feedback.confidence) || 0,
+      validationFlags: Array.isArray(feedback.validationFlags) ? feedback.validationFlags : [],
+      reason: feedback.reason || '',
+      source: feedback.source === 'override' ? 'override' : 'review',
+      reviewedBy: feedback.reviewedBy || 'unknown',
+      decidedAt: feedback.decidedAt || Date.now(),
+    };
+    record.id = this.database.insertReviewFeedback(record);
+
+    this.dropExcessExamples();
+    this.logger.info('ReviewFeedback', 'Recorded review decision', {
+      fileCategory: record.fileCategory,
+      operation: record.operation,
+      decision: record.decision,
+      corrected: record.correctedValue !== null,
+    });
+    return record;
+  }
+
+  /**
+   * Recent decisions on files like this one for a prompt: files with the same
+   * extension first, then the same category. At most half are rejections.
+   */
+  public getFewShotExamples(filePath: string, analysisType: string, limit = this.config.examplesPerPrompt): FewShotExample[] {
+    const operations = FEEDBACK_OPERATIONS[analysisType];
+    if (!operations || limit <= 0) {
+      return [];
+    }
+
+    const fileExtension = path.extname(filePath).toLowerCase();
+    const fileCategory = PromptTemplateManager.categorizeFile({ fileExtension });
+    const candidates = [
+      ...(fileExtension ? this.database.getReviewFeedback({ fileExtension }, 0, this.config.candidateExamples) : []),
+      ...this.database.getReviewFeedback({ fileCategory }, 0, this.config.candidateExamples),
+    ];
+
+    const examples: FewShotExample[] = [];
+    const seen = new Set<number>();
+    let rejections = 0;
+    for (const record of candidates) {
+      if (examples.length >= limit) break;
+      if (seen.has(record.id!) || !operations.includes(record.operation) || record.filePath === filePath) continue;
+      seen.add(record.id!);
+
+      const rejection = record.decision === 'reject' && !record.correctedValue;
+      if (rejection && rejections >= Math.floor(limit / 2)) continue;
+      if (rejection) rejections++;
+
+      examples.push({
+        fileName: path.basename(record.filePath),
+        suggestedValue: record.suggestedValue,
+        decision: record.decision,
+        ...(record.correctedValue ? { correctedValue: record.correctedValue } : {}),
+      });
+    }
+
+    return examples;
+  }
+
+  /**
+   * Scoring prior for a category. Categories with fewer than
+   * minSamplesForPrior decisions keep the base weights and a multiplier of 1.
+   */
+  public getPrior(category: string, baseWeights: ConfidenceWeights): FeedbackPrior {
+    const records = this.database.getReviewFeedback({ fileCategory: category }, 0, this.config.priorWindow);
+    const weights = pickWeights(baseWeights);
+
+    if (records.length < this.config.minSamplesForPrior) {
+      return { category, samples: records.length, approvalRate: 0.5, confidenceMultiplier: 1, weights };
+    }
+
+    const accepted = records.filter(isAccepted);
+    const rejected = records.filter(record => !isAccepted(record));
+    // Laplace smoothing keeps a few unanimous decisions from reaching 0 or 1
+    const approvalRate = (accepted.length + 1) / (records.length + 2);
+    const confidenceMultiplier = Math.min(
+      this.config.maxConfidenceMultiplier,
+      Math.max(this.config.minConfidenceMultiplier, 0.5 + approvalRate)
+    );
+
+    // A dimension whose problems show up more often in rejected suggestions
+    // than in accepted ones predicts rejections, so it counts for more
+    const learned = { ...weights };
+    for (const key of Object.keys(WEIGHT_ISSUE_FLAGS) as Array<keyof ConfidenceWeights>) {
+      const lift = issueShare(rejected, WEIGHT_ISSUE_FLAGS[key]) - issueShare(accepted, WEIGHT_ISSUE_FLAGS[key]);
+      learned[key] = weights[key] * (1 + lift);
+    }
+    const baseTotal = sumWeights(weights);
+    const learnedTotal = sumWeights(learned) || 1;
+    for (const key of Object.keys(learned) as Array<keyof ConfidenceWeights>) {
+      learned[key] = Math.round((learned[key] / learnedTotal) * baseTotal * 1000) / 1000;
+    }
+
+    return {
+      category,
+      samples: records.length,
+      approvalRate: Math.round(approvalRate * 1000) / 1000,
+      confidenceMultiplier: Math.round(confidenceMultiplier * 1000) / 1000,
+      weights: learned,
+    };
+  }
+
+  public getPriorForPath(filePath: string, baseWeights: ConfidenceWeights): FeedbackPrior {
+    const fileExtension = path.extname(filePath).toLowerCase();
+    return this.getPrior(PromptTemplateManager.categorizeFile({ fileExtension }), baseWeights);
+  }
+
+  /**
+   * Decision counts for every category with at least one example
+   */
+  public getSummary(): FeedbackSummary[] {
+    return FILE_CATEGORIES.flatMap(category => {
+      const total = this.database.countReviewFeedback({ fileCategory: category });
+      if (total === 0) return [];
+
+      const records = this.database.getReviewFeedback({ fileCategory: category });
+      const approved = records.filter(isAccepted).length;
+      const corrected = records.filter(record => record.correctedValue !== null).length;
+      const recent = records.slice(0, this.config.recentWindow);
+
+      return [{
+        category,
+        total,
+        approved,
+        corrected,
+        rejected: total - approved - corrected,
+        approvalRate: approved / total,
+        recentApprovalRate: recent.filter(isAccepted).length / recent.length,
+      }];
+    });
+  }
+
+  public listFeedback(filters: ReviewFeedbackFilters = {}, offset = 0, limit = 100): { examples: ReviewFeedbackRecord[]; total: number } {
+    return {
+      examples: this.database.getReviewFeedback(filters, offset, limit),
+      total: this.database.countReviewFeedback(filters),
+    };
+  }
+
+  /**
+   * Forget examples by id, or all examples matching the filters, e.g. those
+   * decided before a date
+   */
+  public pruneFeedback(criteria: { ids: number[] } | ReviewFeedbackFilters): number {
+    const removed = this.database.deleteReviewFeedback(criteria);
+    this.logger.info('ReviewFeedback', `Pruned ${removed} feedback examples`, { criteria });
+    return removed;
+  }
+
+  private dropExcessExamples(): void {
+    const [oldestKept] = this.database.getReviewFeedback({}, this.config.maxStoredExamples - 1, 1);
+    if (!oldestKept) return;
+
+    const removed = this.database.deleteReviewFeedback({ before: oldestKept.decidedAt });
+    if (removed > 0) {
+      this.logger.info('ReviewFeedback', `Dropped ${removed} oldest feedback examples`);
+    }
+  }
+}
+
+function isAccepted(record: ReviewFeedbackRecord): boolean {
+  return record.decision === 'approve' && record.correctedValue === null;
+}
+
+function issueShare(records: ReviewFeedbackRecord[], isIssue: (flag: string) => boolean): number {
+  if (records.length === 0) return 0;
+  return records.filter(record => record.validationFlags.some(isIssue)).length / records.length;
+}
+
+function pickWeights(config: ConfidenceWeights): ConfidenceWeights {
+  return {
+    aiConsistencyWeight: config.aiConsistencyWeight,
+    metadataAlignmentWeight: config.metadataAlignmentWeight,
+    structuralPatternWeight: config.structuralPatternWeight,
+    conventionComplianceWeight: config.conventionComplianceWeight,
+  };
+}
+
+function sumWeights(weights: ConfidenceWeights): number {
+  return weights.aiConsistencyWeight + weights.metadataAlignmentWeight +
+    weights.structuralPatternWeight + weights.conventionComplianceWeight;
+}
@@ -6,14 +6,116 @@
  */
 
 import { EventEmitter } from 'events';
-import type { SuggestionRecord } from './database';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SuggestionRecord, FileRecord } from './database';
 import type { BatchOperation } from './batch-operation-manager';
 import { DatabaseManager, getDatabase } from './database';
 import { BatchOperationManager } from './batch-operation-manager';
-import { TransactionalFileManager, FileOperation as TransactionalFileOperation } from './transactional-file-manager';
-import { OperationValidator, ValidationOptions, ValidationResult, FileOperation as ValidatorFileOperation } from './operation-validator';
+import {
+  TransactionalFileManager,
+  FileOperation as TransactionalFileOperation,
+  ConflictStrategy,
+  ConflictResolution,
+  ExecutionResult,
+  resolveDestinationConflicts,
+} from './transactional-file-manager';
+import {
+  OperationValidator,
+  ValidationOptions,
+  ValidationResult,
+  FileOperation as ValidatorFileOperation,
+  FileNameRules,
+  FileNameAdjustment,
+} from './operation-validator';
 import { Logger } from './logger';
 
+export type TransactionalOperationType = 'rename' | 'move' | 'delete';
+
+/**
+ * Receives completed transactional operations so they can be undone later.
+ * Implemented by OperationJournal; declared structurally to keep the journal
+ * out of this module's import graph.
+ */
+export interface TransactionJournal {
+  recordOperation(
+    transactionId: string,
+    operationId: string,
+    type: TransactionalFileOperation['type'],
+    sourceId: number,
+    sourcePath: string,
+    targetPath: string | undefined,
+    undoData: {
+      reverseOperation: {
+        type: 'rename' | 'move' | 'restore' | 'restore-content';
+        sourcePath: string;
+        targetPath?: string;
+        restoreFromBackup?: string;
+      };
+      originalMetadata: { path: string; size: number; mtime: number; permissions: string };
+      dependencies: string[];
+    },
+    metadata: { fileSize: number; fileHash: string; originalMtime: number; backupPath?: string }
+  ): Promise<string>;
+}
+
+/**
+ * A document whose relative links to moved files are rewritten. The path is
+ * the document's location before the transaction; changes lists the edited
+ * lines for review.
+ */
+export interface ReferenceEdit {
+  path: string;
+  content: string;
+  changes: Array<{ line: number; before: string; after: string }>;
+}
+
+/**
+ * Finds documents linking to files about to move and plans their rewritten
+ * content. Implemented by ReferenceRewriter, which stays in the main process.
+ */
+export interface ReferenceRewriting {
+  planRewrites(moves: Array<{ source: string; target: string }>): Promise<ReferenceEdit[]>;
+}
+
+/**
+ * One step of an execution plan, as exported for review and replayed on
+ * import. expected records the source as planned, so a plan is refused once
+ * its files have changed.
+ */
+export interface PlannedOperation {
+  type: TransactionalFileOperation['type'];
+  source: string;
+  target?: string;
+  content?: string;
+  metadata?: TransactionalFileOperation['metadata'];
+  expected: { size: number; mtime: number } | null;
+}
+
+/**
+ * A file operation as a transaction ran it, with its name made valid and its
+ * destination conflict resolved. Sidecars and replaced files have their own.
+ */
+export interface ExecutedOperation {
+  type: TransactionalFileOperation['type'];
+  source: string;
+  target?: string;
+}
+
+/**
+ * Companion files that travel with a file: a file whose extension is one of
+ * primaryExtensions takes along files in its directory with the same stem and
+ * one of companionExtensions (IMG_1234.xmp, or IMG_1234.CR2.xmp as darktable
+ * names them). Extensions are lowercase without the dot.
+ */
+export interface SidecarRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  primaryExtensions: string[];
+  companionExtensions: string[];
+}
+
 export interface SuggestionExecutionOptions {
   /** Filter suggestions by confidence threshold */
   minConfidence?: number;
@@ -29,6 +131,8 @@ export interface SuggestionExecutionOptions {
   selectedSuggestionIds?: number[];
   /** Exclude specific suggestion IDs */
   excludeSuggestionIds?: number[];
+  /** Rewrite relative links to moved files in Markdown and HTML documents */
+  rewriteReferences?: boolean;
 }
 
 export interface SelectiveExecutionRequest {
@@ -63,6 +167,7 @@ export interface ExecutionBatch {
   groupCriteria: string;
   estimatedDuration: number;
   riskLevel: 'low' | 'medium' | 'high';
+  referenceEdits?: ReferenceEdit[];
 }
 
 export interface ExecutionSummary {
@@ -80,14 +185,42 @@ export interface ExecutionSummary {
   };
 }
 
+const SIDECAR_RULES_SETTING_KEY = 'sidecar_rules';
+
 export class SuggestionExecutionService extends EventEmitter {
   private database: DatabaseManager;
   private batchManager: BatchOperationManager;
   private transactionManager: TransactionalFileManager;
   private validator: OperationValidator;
   private logger: Logger;
+  private operationJournal: TransactionJournal | null = null;
+  private referenceRewriter: ReferenceRewriting | null = null;
   private activeBatches: Map<string, ExecutionBatch> = new Map();
 
+  static readonly DEFAULT_SIDECAR_RULES: SidecarRule[] = [
+    {
+      id: 'raw-photos',
+      name: 'RAW photos',
+      enabled: true,
+      primaryExtensions: ['cr2', 'cr3', 'nef', 'arw', 'dng', 'raf', 'orf', 'rw2'],
+      companionExtensions: ['xmp', 'jpg', 'jpeg', 'heic', 'pp3', 'dop'],
+    },
+    {
+      id: 'photos',
+      name: 'Photos',
+      enabled: true,
+      primaryExtensions: ['jpg', 'jpeg', 'heic', 'png', 'tif', 'tiff'],
+      companionExtensions: ['xmp', 'aae'],
+    },
+    {
+      id: 'videos',
+      name: 'Videos',
+      enabled: true,
+      primaryExtensions: ['mp4', 'mkv', 'mov', 'avi', 'm4v', 'webm'],
+      companionExtensions: ['srt', 'vtt', 'ass', 'ssa', 'sub', 'idx', 'nfo', 'xmp', 'thm'],
+    },
+  ];
+
   constructor(
     database: DatabaseManager, 
     batchManager: BatchOperationManager,
@@ -127,6 +260,91 @@ export class SuggestionExecutionService extends EventEmitter {
     this.logger.info('SuggestionExecutionService', 'Initialized with transactional support');
   }
 
+  /**
+   * Sidecar rules from settings, or the defaults if none were saved
+   */
+  getSidecarRules(): SidecarRule[] {
+    const saved = this.database.getSetting(SIDECAR_RULES_SETTING_KEY);
+    if (!saved) {
+      return SuggestionExecutionService.DEFAULT_SIDECAR_RULES;
+    }
+
+    try {
+      return JSON.parse(saved) as SidecarRule[];
+    } catch (error) {
+      this.logger.warn('SuggestionExecutionService', 'Ignoring unreadable sidecar rules', { error: String(error) });
+      return SuggestionExecutionService.DEFAULT_SIDECAR_RULES;
+    }
+  }
+
+  /**
+   * Replace the sidecar rules; extensions are stored lowercase without dots
+   */
+  saveSidecarRules(rules: SidecarRule[]): SidecarRule[] {
+    const normalize = (extensions: string[]) =>
+      Array.from(new Set(extensions.map(extension => extension.trim().replace(/^\./, '').toLowerCase()).filter(Boolean)));
+
+    const problems: string[] = [];
+    const normalized = rules.map(rule => {
+      if (!rule.id || !rule.name) {
+        problems.push('Every rule needs an id and a name');
+      }
+      const primaryExtensions = normalize(rule.primaryExtensions || []);
+      const companionExtensions = normalize(rule.companionExtensions || []);
+      if (primaryExtensions.length === 0 || companionExtensions.length === 0) {
+        problems.push(`Rule "${rule.name}" needs primary and companion extensions`);
+      }
+      return { ...rule, enabled: rule.enabled !== false, primaryExtensions, companionExtensions };
+    });
+    if (new Set(rules.map(rule => rule.id)).size !== rules.length) {
+      problems.push('Rule ids must be unique');
+    }
+    if (problems.length > 0) {
+      throw new Error(`Invalid sidecar rules: ${problems.join('; ')}`);
+    }
+
+    this.database.setSetting(SIDECAR_RULES_SETTING_KEY, JSON.stringify(normalized));
+    this.emit('sidecar-rules-updated', normalized);
+    return normalized;
+  }
+
+  /**
+   * Known files that are companions of a file under the enabled sidecar rules
+   */
+  findSidecars(fileRecord: FileRecord): FileRecord[] {
+    const name = path.basename(fileRecord.path);
+    const extension = path.extname(name).slice(1).toLowerCase();
+    const companionExtensions = new Set(this.getSidecarRules()
+      .filter(rule => rule.enabled && rule.primaryExtensions.includes(extension))
+      .flatMap(rule => rule.companionExtensions));
+    if (!extension || companionExtensions.size === 0) {
+      return [];
+    }
+
+    const stem = name.slice(0, -(extension.length + 1));
+    return this.database.getFilesWithStem(path.dirname(fileRecord.path), stem).filter(candidate => {
+      if (candidate.path === fileRecord.path) return false;
+
+      const parts = path.basename(candidate.path).slice(stem.length + 1).toLowerCase().split('.');
+      return (parts.length === 1 && companionExtensions.has(parts[0])) ||
+        (parts.length === 2 && parts[0] === extension && companionExtensions.has(parts[1]));
+    });
+  }
+
+  /**
+   * Journal transactional operations so they can be undone individually
+   */
+  setOperationJournal(operationJournal: TransactionJournal): void {
+    this.operationJournal = operationJournal;
+  }
+
+  /**
+   * Rewrite links to moved files when executions ask for it
+   */
+  setReferenceRewriter(referenceRewriter: ReferenceRewriting): void {
+    this.referenceRewriter = referenceRewriter;
+  }
+
   /**
    * Get approved suggestions filtered by options
    */
@@ -354,13 +572,15 @@ export class SuggestionExecutionService extends EventEmitter {
    * Convert SuggestionRecord to BatchOperation format
    */
   private convertSuggestionToBatchOperation(suggestion: SuggestionRecord): Omit<BatchOperation, 'id' | 'status' | 'createdAt'> {
+    const fileRecord = this.database.getFileById(suggestion.fileId);
     return {
       type: 'rename', // SuggestionRecord doesn't have a type field, defaulting to rename
       fileId: suggestion.fileId,
       originalPath: '', // Would need to get this from the file record
       targetPath: suggestion.suggestedValue,
       confidence: suggestion.adjustedConfidence,
-      priority: this.calculatePriority(suggestion.adjustedConfidence)
+      priority: this.calculatePriority(suggestion.adjustedConfidence),
+      companionPaths: fileRecord ? this.findSidecars(fileRecord).map(companion => companion.path) : []
     };
   }
 
@@ -411,6 +631,12 @@ export class SuggestionExecutionService extends EventEmitter {
         }
       }
 
+      if (options.rewriteReferences && this.referenceRewriter) {
+        for (const batch of batches) {
+          batch.referenceEdits = await this.planReferenceEdits(batch.suggestions);
+        }
+      }
+
       this.logger.info('SuggestionExecutionService', 'Created execution batches', {
         batchCount: batches.length,
         totalSuggestions: suggestions.length,
@@ -426,6 +652,25 @@ export class SuggestionExecutionService extends EventEmitter {
     }
   }
 
+  /**
+   * Preview the link rewrites executing these suggestions as renames would make
+   */
+  private async planReferenceEdits(suggestions: SuggestionRecord[]): Promise<ReferenceEdit[]> {
+    const moves: Array<{ source: string; target: string }> = [];
+    for (const suggestion of suggestions) {
+      const fileRecord = this.database.getFileById(suggestion.fileId);
+      const target = fileRecord && this.getTransactionTarget(fileRecord.path, suggestion.suggestedValue, 'rename');
+      if (!fileRecord || !target) continue;
+
+      moves.push({ source: fileRecord.path, target });
+      for (const companion of this.findSidecars(fileRecord)) {
+        moves.push({ source: companion.path, target: this.getCompanionTarget(fileRecord.path, target, companion.path) });
+      }
+    }
+
+    return moves.length > 0 ? this.referenceRewriter!.planRewrites(moves) : [];
+  }
+
   /**
    * Create a single execution batch
    */
@@ -632,7 +877,9 @@ export class SuggestionExecutionService extends EventEmitter {
    */
   async validateSuggestions(
     suggestions: SuggestionRecord[],
-    options: ValidationOptions = {}
+    options: ValidationOptions = {},
+    operationType: TransactionalOperationType = 'rename',
+    fileNameAdjustments: Map<number, FileNameAdjustment[]> = new Map()
   ): Promise<{
     success: boolean;
     validationResult: ValidationResult;
@@ -662,10 +909,13 @@ export class SuggestionExecutionService extends EventEmitter {
           // Create operation based on suggestion type
           const operation: ValidatorFileOperation = {
             id: `suggestion_${suggestion.id}`,
-            type: 'rename', // Most common operation
+            type: operationType,
             sourcePath: fileRecord.path,
-            targetPath: this.generateTargetPath(fileRecord.path, suggestion.suggestedValue),
-            fileId: suggestion.fileId
+            targetPath: operationType === 'delete' ? fileRecord.path
+              : operationType === 'move' ? suggestion.suggestedValue
+              : this.generateTargetPath(fileRecord.path, suggestion.suggestedValue),
+            fileId: suggestion.fileId,
+            adjustments: fileNameAdjustments.get(suggestion.fileId)
           };
 
           operations.push(operation);
@@ -859,37 +1109,98 @@ export class SuggestionExecutionService extends EventEmitter {
 
   /**
    * Execute suggestions using TransactionalFileManager with atomic operations
-   * This provides rollback capabilities and integrates with OperationHistory
+   * This provides rollback capabilities and integrates with OperationHistory.
+   * For 'move' the suggested value is the full target path; 'delete' ignores it
+   * and moves files to the trash unless useTrash is false.
+   * Taken destinations are handled with conflictStrategy, or per suggestion id
+   * with conflictDecisions; with 'ask' nothing runs until every conflict has a
+   * decision, and the conflicts are returned instead.
+   * Renames and moves take each file's sidecars along in the same transaction
+   * unless includeSidecars is false. With rewriteReferences, relative links to
+   * moved files in Markdown and HTML documents are updated in the same
+   * transaction.
+   * Suggested names are first made valid for the target filesystem under
+   * fileNameRules, and each change is reported as a validation warning.
+   * On success executedOperations lists what ran, for callers that keep
+   * records of the files.
    */
   async executeWithTransaction(suggestions: SuggestionRecord[], options: {
     createBackups?: boolean;
     enableRollback?: boolean;
     operationJournaling?: boolean;
+    operationType?: TransactionalOperationType;
+    useTrash?: boolean;
+    conflictStrategy?: ConflictStrategy;
+    conflictDecisions?: Record<number, ConflictStrategy>;
+    includeSidecars?: boolean;
+    rewriteReferences?: boolean;
+    fileNameRules?: Partial<FileNameRules>;
   } = {}): Promise<{
     success: boolean;
     transactionId: string;
     completedOperations: number;
     errors: string[];
     rollbackAvailable: boolean;
+    conflicts?: ConflictResolution[];
+    executedOperations?: ExecutedOperation[];
   }> {
-    const { createBackups = true, enableRollback = true, operationJournaling = true } = options;
+    const {
+      createBackups = true,
+      enableRollback = true,
+      operationJournaling = true,
+      operationType = 'rename',
+      useTrash = true,
+      conflictStrategy = 'ask',
+      conflictDecisions = {},
+      includeSidecars = true,
+      rewriteReferences = false,
+      fileNameRules = {},
+    } = options;
 
     this.logger.info('SuggestionExecutionService', 'Starting transactional execution', {
       suggestionCount: suggestions.length,
+      operationType,
       createBackups,
       enableRollback,
       operationJournaling
     });
 
+    // Settle names and taken destinations first so validation sees the targets that will be used
+    const { sanitized, adjustments } = this.sanitizeSuggestions(suggestions, operationType, fileNameRules);
+    const { resolved, overwrites, conflicts } = await this.resolveSuggestionConflicts(
+      sanitized, operationType, conflictStrategy, conflictDecisions
+    );
+    const pending = conflicts.filter(conflict => conflict.action === 'ask');
+    if (pending.length > 0) {
+      this.logger.info('SuggestionExecutionService', 'Destination conflicts need a decision', {
+        conflictCount: pending.length
+      });
+      return {
+        success: false,
+        transactionId: '',
+        completedOperations: 0,
+        errors: [`${pending.length} destination conflict(s) need a decision`],
+        rollbackAvailable: false,
+        conflicts
+      };
+    }
+    if (resolved.length === 0 && conflicts.length > 0) {
+      // Every suggestion was skipped
+      return {
+        success: true, transactionId: '', completedOperations: 0, errors: [], rollbackAvailable: false, conflicts,
+        executedOperations: []
+      };
+    }
+
     // TASK 5: Pre-execution validation for safety
     this.logger.info('SuggestionExecutionService', 'Performing pre-execution validation');
-    const validationResult = await this.validateSuggestions(suggestions, {
+    const validationResult = await this.validateSuggestions(resolved, {
       allowSystemFiles: false, // Never allow system files
       allowHiddenFiles: false, // Avoid hidden files by default
       checkDiskSpace: true,     // Ensure sufficient space
       validatePermissions: true, // Check permissions
       checkConflicts: true      // Prevent conflicts
-    });
+    }, operationType, adjustments);
 
     if (!validationResult.success || !validationResult.canProceed) {
       const errorMessage = `Pre-execution validation failed: ${validationResult.recommendedActions.join(', ')}`;
@@ -904,7 +1215,8 @@ export class SuggestionExecutionService extends EventEmitter {
         transactionId: '',
         completedOperations: 0,
         errors: [errorMessage, ...(validationResult.errors || [])],
-        rollbackAvailable: false
+        rollbackAvailable: false,
+        conflicts
       };
     }
 
@@ -918,49 +1230,12 @@ export class SuggestionExecutionService extends EventEmitter {
 
     // Create a new transaction
     const transaction = this.transactionManager.createTransaction();
-    
-    try {
-      // Convert suggestions to file operations
-      for (const suggestion of suggestions) {
-        // We need to get the file path from the database since SuggestionRecord doesn't include it
-        const fileRecord = await this.database.getFileById(suggestion.fileId);
-        if (!fileRecord) {
-          throw new Error(`File not found for suggestion ${suggestion.id}`);
-        }
-
-        const fileOperation: TransactionalFileOperation = {
-          type: 'rename', // Default to rename for AI suggestions
-          source: fileRecord.path,
-          target: suggestion.suggestedValue.includes('/') ? 
-            suggestion.suggestedValue : 
-            `${fileRecord.path.substring(0, fileRecord.path.lastIndexOf('/'))}/${suggestion.suggestedValue}`,
-          metadata: {
-            confidence: suggestion.adjustedConfidence,
-            force: false,
-            createBackup: createBackups
-          }
-        };
-
-        // Add operation to transaction
-        const addResult = this.transactionManager.addOperation(transaction.id, fileOperation);
-        if (!addResult.success) {
-          throw new Error(addResult.error || 'Failed to add operation to transaction');
-        }
-
-        // Record operation in database for history tracking if journaling enabled
-        if (operationJournaling) {
-          // For now, we'll skip the database operation recording since the method doesn't exist
-          // This would be implemented when the OperationHistory database schema is enhanced
-          this.logger.debug('SuggestionExecutionService', 'Would record operation for history tracking', {
-            suggestionId: suggestion.id,
-            transactionId: transaction.id,
-            operation: fileOperation
-          });
-        }
-      }
 
-      // Execute the transaction
-      const result = await this.transactionManager.executeTransaction(transaction.id);
+    try {
+      const planned = await this.planOperations(resolved, overwrites, {
+        operationType, createBackups, useTrash, includeSidecars, rewriteReferences
+      });
+      const result = await this.runTransaction(transaction.id, planned, operationJournaling);
 
       if (result.success) {
         this.logger.info('SuggestionExecutionService', 'Transactional execution completed successfully', {
@@ -990,7 +1265,13 @@ export class SuggestionExecutionService extends EventEmitter {
           transactionId: transaction.id,
           completedOperations: result.completedOperations,
           errors: [],
-          rollbackAvailable: enableRollback
+          rollbackAvailable: enableRollback,
+          conflicts,
+          executedOperations: planned.map(({ operation }) => ({
+            type: operation.type,
+            source: operation.source,
+            target: operation.target
+          }))
         };
 
       } else {
@@ -1029,6 +1310,526 @@ export class SuggestionExecutionService extends EventEmitter {
     }
   }
 
+  /**
+   * The operations executeWithTransaction would run for these suggestions,
+   * without running them. Conflicts still waiting for a decision leave the
+   * plan empty, as execution would.
+   */
+  async createExecutionPlan(suggestions: SuggestionRecord[], options: {
+    createBackups?: boolean;
+    operationType?: TransactionalOperationType;
+    useTrash?: boolean;
+    conflictStrategy?: ConflictStrategy;
+    conflictDecisions?: Record<number, ConflictStrategy>;
+    includeSidecars?: boolean;
+    rewriteReferences?: boolean;
+    fileNameRules?: Partial<FileNameRules>;
+  } = {}): Promise<{ operations: PlannedOperation[]; conflicts: ConflictResolution[]; errors: string[] }> {
+    const {
+      createBackups = true,
+      operationType = 'rename',
+      useTrash = true,
+      conflictStrategy = 'ask',
+      conflictDecisions = {},
+      includeSidecars = true,
+      rewriteReferences = false,
+      fileNameRules = {},
+    } = options;
+
+    const { sanitized } = this.sanitizeSuggestions(suggestions, operationType, fileNameRules);
+    const { resolved, overwrites, conflicts } = await this.resolveSuggestionConflicts(
+      sanitized, operationType, conflictStrategy, conflictDecisions
+    );
+    const pending = conflicts.filter(conflict => conflict.action === 'ask');
+    if (pending.length > 0) {
+      return { operations: [], conflicts, errors: [`${pending.length} destination conflict(s) need a decision`] };
+    }
+
+    const planned = await this.planOperations(resolved, overwrites, {
+      operationType, createBackups, useTrash, includeSidecars, rewriteReferences
+    });
+
+    const operations: PlannedOperation[] = [];
+    for (const { operation } of planned) {
+      const stats = await fs.stat(operation.source).catch(() => null);
+      operations.push({
+        type: operation.type,
+        source: operation.source,
+        target: operation.target,
+        content: operation.content,
+        metadata: operation.metadata,
+        expected: stats?.isFile() ? { size: stats.size, mtime: Math.floor(stats.mtimeMs) } : null,
+      });
+    }
+
+    this.logger.info('SuggestionExecutionService', 'Created execution plan', {
+      suggestionCount: suggestions.length,
+      operationCount: operations.length
+    });
+
+    return { operations, conflicts, errors: [] };
+  }
+
+  /**
+   * Replay a plan from createExecutionPlan as one journaled transaction,
+   * refusing it if any source file changed since it was planned or any
+   * operation fails the checks executeWithTransaction runs
+   */
+  async executePlan(operations: PlannedOperation[], options: {
+    operationJournaling?: boolean;
+  } = {}): Promise<{
+    success: boolean;
+    transactionId: string;
+    completedOperations: number;
+    errors: string[];
+    rollbackAvailable: boolean;
+  }> {
+    const { operationJournaling = true } = options;
+
+    const errors: string[] = [];
+    for (const operation of operations) {
+      if (!operation.expected) continue;
+      const stats = await fs.stat(operation.source).catch(() => null);
+      if (!stats) {
+        errors.push(`Planned file no longer exists: ${operation.source}`);
+      } else if (stats.size !== operation.expected.size || Math.floor(stats.mtimeMs) !== operation.expected.mtime) {
+        errors.push(`File changed since the plan was created: ${operation.source}`);
+      }
+    }
+    errors.push(...await this.validatePlan(operations));
+    if (errors.length > 0) {
+      return { success: false, transactionId: '', completedOperations: 0, errors, rollbackAvailable: false };
+    }
+
+    const transaction = this.transactionManager.createTransaction();
+    try {
+      const planned = operations.map(({ type, source, target, content, metadata }) => ({
+        operation: { type, source, target, content, metadata },
+        fileRecord: this.database.getFileByPath(source) ?? { path: source, size: 0, mtime: 0, lastScannedAt: 0 }
+      }));
+      const result = await this.runTransaction(transaction.id, planned, operationJournaling);
+
+      this.logger.info('SuggestionExecutionService', 'Executed imported plan', {
+        transactionId: transaction.id,
+        success: result.success,
+        completedOperations: result.completedOperations
+      });
+
+      return {
+        success: result.success,
+        transactionId: transaction.id,
+        completedOperations: result.completedOperations,
+        errors: result.errors,
+        rollbackAvailable: result.success
+      };
+    } catch (error) {
+      this.logger.error('SuggestionExecutionService', 'Plan execution setup failed', error as Error, {
+        transactionId: transaction.id
+      });
+      return {
+        success: false,
+        transactionId: transaction.id,
+        completedOperations: 0,
+        errors: [(error as Error).message],
+        rollbackAvailable: false
+      };
+    }
+  }
+
+  /**
+   * Problems that keep an imported plan from running. A manifest can be
+   * edited outside the app, so on top of the validation suggestions get,
+   * hidden paths are refused, writes must go to indexed files and an
+   * overwrite needs the backed-up delete createExecutionPlan puts before it.
+   */
+  private async validatePlan(operations: PlannedOperation[]): Promise<string[]> {
+    const errors: string[] = [];
+    const backedUpDeletes = new Set<string>();
+
+    operations.forEach((operation, index) => {
+      if (operation.type === 'delete' && operation.metadata?.createBackup) {
+        backedUpDeletes.add(path.resolve(operation.source));
+      }
+      if (operation.metadata?.force && !(operation.target && backedUpDeletes.has(path.resolve(operation.target)))) {
+        errors.push(`Operation ${index + 1} overwrites ${operation.target} without backing it up first`);
+      }
+      if (operation.type === 'write' && !this.database.getFileByPath(operation.source)) {
+        errors.push(`Operation ${index + 1} writes to a file outside the index: ${operation.source}`);
+      }
+    });
+
+    const validationResult = await this.validator.validateBatch(operations.map((operation, index) => ({
+      id: `plan_${index + 1}`,
+      // Copies create their target as moves do
+      type: operation.type === 'copy' ? 'move' : operation.type,
+      sourcePath: operation.source,
+      targetPath: operation.target ?? operation.source,
+      fileId: this.database.getFileByPath(operation.source)?.id ?? 0
+    })), {
+      allowSystemFiles: false,
+      allowHiddenFiles: false,
+      checkDiskSpace: true,
+      validatePermissions: true,
+      checkConflicts: true
+    });
+
+    for (const error of validationResult.errors) {
+      if (error.severity === 'critical' || error.severity === 'error') {
+        errors.push(`${error.message}: ${error.affectedPaths.join(', ')}`);
+      }
+    }
+    for (const warning of validationResult.warnings) {
+      if (warning.code === 'HIDDEN_FILE_SOURCE' || warning.code === 'HIDDEN_FILE_TARGET') {
+        errors.push(`Plan touches a hidden file: ${warning.affectedPaths.join(', ')}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * The file operations executing suggestions would run, in order: link
+   * rewrites first, then for each suggestion the backed-up removal of a file
+   * it overwrites, the operation itself and its sidecars
+   */
+  private async planOperations(
+    resolved: SuggestionRecord[],
+    overwrites: Set<SuggestionRecord>,
+    options: {
+      operationType: TransactionalOperationType;
+      createBackups: boolean;
+      useTrash: boolean;
+      includeSidecars: boolean;
+      rewriteReferences: boolean;
+    }
+  ): Promise<Array<{ operation: TransactionalFileOperation; fileRecord: FileRecord }>> {
+    const { operationType, createBackups, useTrash, includeSidecars, rewriteReferences } = options;
+
+    // Sidecars that have a suggestion of their own follow it rather than their primary file
+    const movedPaths = new Set(resolved.map(suggestion => this.database.getFileById(suggestion.fileId)?.path));
+    const planned: Array<{ operation: TransactionalFileOperation; fileRecord: FileRecord }> = [];
+
+    // Convert suggestions to file operations
+    for (const suggestion of resolved) {
+      // We need to get the file path from the database since SuggestionRecord doesn't include it
+      const fileRecord = await this.database.getFileById(suggestion.fileId);
+      if (!fileRecord) {
+        throw new Error(`File not found for suggestion ${suggestion.id}`);
+      }
+
+      const target = this.getTransactionTarget(fileRecord.path, suggestion.suggestedValue, operationType);
+      const overwrite = overwrites.has(suggestion);
+      if (overwrite && target) {
+        // Replaced files are always backed up, never trashed, so rollback and undo can bring them back
+        planned.push({
+          operation: { type: 'delete', source: target, metadata: { createBackup: true, useTrash: false } },
+          fileRecord: this.database.getFileByPath(target) ?? { path: target, size: 0, mtime: 0, lastScannedAt: 0 }
+        });
+      }
+
+      planned.push({
+        operation: {
+          type: operationType,
+          source: fileRecord.path,
+          target,
+          metadata: {
+            confidence: suggestion.adjustedConfidence,
+            force: overwrite,
+            createBackup: createBackups,
+            useTrash: operationType === 'delete' && useTrash
+          }
+        },
+        fileRecord
+      });
+
+      if (!includeSidecars || !target) continue;
+
+      for (const companion of this.findSidecars(fileRecord)) {
+        if (movedPaths.has(companion.path)) continue;
+        movedPaths.add(companion.path);
+
+        planned.push({
+          operation: {
+            type: operationType,
+            source: companion.path,
+            target: this.getCompanionTarget(fileRecord.path, target, companion.path),
+            metadata: {
+              confidence: suggestion.adjustedConfidence,
+              force: false,
+              createBackup: createBackups
+            }
+          },
+          fileRecord: companion
+        });
+      }
+    }
+
+    // Documents linking to moved files are rewritten first: the transaction
+    // validates every operation up front, when documents are still at their
+    // original paths
+    if (rewriteReferences && this.referenceRewriter) {
+      const edits = await this.referenceRewriter.planRewrites(planned
+        .filter(({ operation }) => operation.type !== 'delete' && operation.target)
+        .map(({ operation }) => ({ source: operation.source, target: operation.target! })));
+
+      planned.unshift(...edits.map(edit => ({
+        operation: { type: 'write' as const, source: edit.path, content: edit.content },
+        fileRecord: this.database.getFileByPath(edit.path) ?? { path: edit.path, size: 0, mtime: 0, lastScannedAt: 0 }
+      })));
+    }
+
+    return planned;
+  }
+
+  /**
+   * Run planned operations as one transaction and journal them once it succeeds
+   */
+  private async runTransaction(
+    transactionId: string,
+    planned: Array<{ operation: TransactionalFileOperation; fileRecord: FileRecord }>,
+    operationJournaling: boolean
+  ): Promise<ExecutionResult> {
+    const journalSources: Array<{ fileRecord: FileRecord; permissions: string }> = [];
+
+    for (const { operation, fileRecord } of planned) {
+      const addResult = this.transactionManager.addOperation(transactionId, operation);
+      if (!addResult.success) {
+        throw new Error(addResult.error || 'Failed to add operation to transaction');
+      }
+
+      // Capture pre-execution state so the journal can reverse the operation later
+      if (operationJournaling && this.operationJournal) {
+        journalSources.push({ fileRecord, permissions: await this.readPermissions(operation.source) });
+      }
+    }
+
+    // Execute the transaction
+    const result = await this.transactionManager.executeTransaction(transactionId);
+
+    if (result.success && journalSources.length > 0) {
+      await this.journalTransaction(transactionId, journalSources);
+    }
+
+    return result;
+  }
+
+  /**
+   * Suggestions with their targets made valid under the file name rules, and
+   * the changes made for each file id
+   */
+  private sanitizeSuggestions(
+    suggestions: SuggestionRecord[],
+    operationType: TransactionalOperationType,
+    rules: Partial<FileNameRules>
+  ): { sanitized: SuggestionRecord[]; adjustments: Map<number, FileNameAdjustment[]> } {
+    const adjustments = new Map<number, FileNameAdjustment[]>();
+    if (operationType === 'delete') {
+      return { sanitized: suggestions, adjustments };
+    }
+
+    const sanitized = suggestions.map(suggestion => {
+      let fileRecord: FileRecord | undefined;
+      try {
+        fileRecord = this.database.getFileById(suggestion.fileId);
+      } catch {
+        fileRecord = undefined;
+      }
+      if (!fileRecord) return suggestion;
+
+      const target = this.getTransactionTarget(fileRecord.path, suggestion.suggestedValue, operationType)!;
+      const result = this.validator.sanitizeTargetPath(fileRecord.path, target, rules);
+      if (result.adjustments.length > 0) {
+        adjustments.set(suggestion.fileId, result.adjustments);
+      }
+      if (result.targetPath === target) return suggestion;
+
+      return {
+        ...suggestion,
+        suggestedValue: suggestion.suggestedValue.includes('/') ? result.targetPath : path.basename(result.targetPath)
+      };
+    });
+
+    if (adjustments.size > 0) {
+      this.logger.info('SuggestionExecutionService', 'Adjusted suggested names for the target filesystem', {
+        adjustedCount: adjustments.size,
+        mode: rules.mode ?? OperationValidator.DEFAULT_FILE_NAME_RULES.mode
+      });
+    }
+
+    return { sanitized, adjustments };
+  }
+
+  /**
+   * Target of a transactional operation: suggested values containing a path
+   * separator are used as is, bare names stay in the file's directory
+   */
+  private getTransactionTarget(
+    sourcePath: string,
+    suggestedValue: string,
+    operationType: TransactionalOperationType
+  ): string | undefined {
+    if (operationType === 'delete') {
+      return undefined;
+    }
+    return suggestedValue.includes('/')
+      ? suggestedValue
+      : `${sourcePath.substring(0, sourcePath.lastIndexOf('/'))}/${suggestedValue}`;
+  }
+
+  /**
+   * Where a sidecar goes when its primary file moves from source to target:
+   * next to the target, with the target's stem (or full name, for sidecars
+   * named like IMG_1234.CR2.xmp)
+   */
+  private getCompanionTarget(source: string, target: string, companionPath: string): string {
+    const sourceName = path.basename(source);
+    const targetName = path.basename(target);
+    const companionName = path.basename(companionPath);
+
+    const renamed = companionName.toLowerCase().startsWith(`${sourceName.toLowerCase()}.`)
+      ? targetName + companionName.slice(sourceName.length)
+      : path.basename(targetName, path.extname(targetName)) +
+        companionName.slice(sourceName.length - path.extname(sourceName).length);
+
+    return path.join(path.dirname(target), renamed);
+  }
+
+  /**
+   * Apply a conflict strategy to suggestions whose targets are taken. Returns
+   * the suggestions to run, with suggested values rewritten for auto-suffixed
+   * targets, and the ones that replace an existing file. Suggestions whose file
+   * cannot be looked up pass through for validation to report.
+   */
+  private async resolveSuggestionConflicts(
+    suggestions: SuggestionRecord[],
+    operationType: TransactionalOperationType,
+    strategy: ConflictStrategy,
+    decisions: Record<number, ConflictStrategy>
+  ): Promise<{ resolved: SuggestionRecord[]; overwrites: Set<SuggestionRecord>; conflicts: ConflictResolution[] }> {
+    if (operationType === 'delete') {
+      return { resolved: suggestions, overwrites: new Set(), conflicts: [] };
+    }
+
+    const operations: Array<ValidatorFileOperation & { suggestion: SuggestionRecord }> = [];
+    const operationDecisions: Record<string, ConflictStrategy> = {};
+    for (const [index, suggestion] of suggestions.entries()) {
+      let fileRecord: FileRecord | undefined;
+      try {
+        fileRecord = this.database.getFileById(suggestion.fileId);
+      } catch {
+        fileRecord = undefined;
+      }
+      if (!fileRecord) continue;
+
+      const id = `suggestion_${suggestion.id ?? index}`;
+      if (suggestion.id !== undefined && decisions[suggestion.id]) {
+        operationDecisions[id] = decisions[suggestion.id];
+      }
+      operations.push({
+        id,
+        type: operationType,
+        sourcePath: fileRecord.path,
+        targetPath: this.getTransactionTarget(fileRecord.path, suggestion.suggestedValue, operationType)!,
+        fileId: suggestion.fileId,
+        suggestion,
+      });
+    }
+
+    const result = await resolveDestinationConflicts(operations, strategy, operationDecisions);
+    const runnable = new Set(result.operations.map(operation => operation.suggestion));
+    const resolutions = new Map(result.resolutions.map(resolution => [resolution.operationId, resolution]));
+    const overwrites = new Set<SuggestionRecord>();
+
+    const resolved = suggestions.flatMap(suggestion => {
+      const operation = operations.find(candidate => candidate.suggestion === suggestion);
+      if (!operation) return [suggestion];
+      if (!runnable.has(suggestion)) return [];
+
+      const resolution = resolutions.get(operation.id);
+      if (resolution?.action === 'rename') {
+        return [{
+          ...suggestion,
+          suggestedValue: suggestion.suggestedValue.includes('/')
+            ? resolution.targetPath
+            : path.basename(resolution.targetPath)
+        }];
+      }
+      if (resolution?.action === 'overwrite') {
+        overwrites.add(suggestion);
+      }
+      return [suggestion];
+    });
+
+    return { resolved, overwrites, conflicts: result.resolutions };
+  }
+
+  /**
+   * Record each completed operation of a transaction with the data needed to reverse it
+   */
+  private async journalTransaction(
+    transactionId: string,
+    sources: Array<{ fileRecord: FileRecord; permissions: string }>
+  ): Promise<void> {
+    const transaction = this.transactionManager.getTransactionStatus(transactionId);
+    if (!transaction || !this.operationJournal) {
+      return;
+    }
+
+    for (const [index, operation] of transaction.operations.entries()) {
+      const source = sources[index];
+      if (!source) continue;
+
+      const reverseOperation = operation.type === 'delete'
+        ? { type: 'restore' as const, sourcePath: operation.source, restoreFromBackup: operation.backupPath }
+        : operation.type === 'write'
+          ? { type: 'restore-content' as const, sourcePath: operation.source, restoreFromBackup: operation.backupPath }
+          : { type: operation.type === 'rename' ? 'rename' as const : 'move' as const, sourcePath: operation.target!, targetPath: operation.source };
+
+      try {
+        await this.operationJournal.recordOperation(
+          transactionId,
+          operation.id,
+          operation.type,
+          source.fileRecord.id ?? 0,
+          operation.source,
+          operation.target,
+          {
+            reverseOperation,
+            originalMetadata: {
+              path: operation.source,
+              size: source.fileRecord.size,
+              mtime: source.fileRecord.mtime,
+              permissions: source.permissions,
+            },
+            dependencies: [],
+          },
+          {
+            fileSize: source.fileRecord.size,
+            fileHash: source.fileRecord.sha256 || '',
+            originalMtime: source.fileRecord.mtime,
+            backupPath: operation.backupPath,
+          }
+        );
+      } catch (error) {
+        // The files already moved; a journal failure only costs the undo entry
+        this.logger.warn('SuggestionExecutionService', 'Failed to journal operation', {
+          transactionId,
+          operationId: operation.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  private async readPermissions(filePath: string): Promise<string> {
+    try {
+      const stats = await fs.stat(filePath);
+      return (stats.mode & 0o777).toString(8);
+    } catch {
+      return '';
+    }
+  }
+
   /**
    * Prepare undo operation for a given transaction
    * Integrates with existing OperationHistory component
@@ -22,6 +22,19 @@ export interface SystemCPUInfo {
   cpuUsage: number;           // Current CPU usage percentage (0-100)
 }
 
+/**
+ * A model the agent manager keeps loaded in the model server
+ */
+export interface ModelResidency {
+  modelName: string;
+  memoryMB: number;           // Estimated memory of one loaded instance
+  activeSlots: number;        // Tasks running on the model
+  slotLimit: number;          // Size of the model's slot pool
+  queuedTasks: number;        // Queued tasks waiting for the model
+  loadedAt: number;
+  lastUsedAt: number;         // When its last task finished, or when it was loaded
+}
+
 /**
  * Complete system health snapshot
  */
@@ -30,6 +43,7 @@ export interface SystemHealth {
   memory: SystemMemoryInfo;
   cpu: SystemCPUInfo;
   isUnderStress: boolean;     // High memory pressure or CPU load
+  models?: ModelResidency[];  // Loaded models, added by the agent manager
 }
 
 /**
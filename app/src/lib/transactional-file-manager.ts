@@ -2,16 +2,45 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { Logger } from './logger';
 import { DatabaseManager } from './database';
+import { hashFileStream } from '../workers/file-hasher';
 
+/**
+ * A file operation. Sources may be directories, which are handled as a single
+ * unit; moves onto another filesystem are copied, checksum-verified and only
+ * then removed from the source. Writes replace a file's content in place.
+ */
 export interface FileOperation {
-  type: 'rename' | 'move' | 'delete' | 'copy';
+  type: 'rename' | 'move' | 'delete' | 'copy' | 'write';
   source: string;
   target?: string;
+  content?: string;   // New content for writes
   metadata?: {
     confidence?: number;
     force?: boolean;
     createBackup?: boolean;
+    useTrash?: boolean;       // Deletes move to the trash when one is available
   };
+  backupPath?: string; // Set once a delete or write has preserved the file's content, or trashed it
+}
+
+/**
+ * Where backups go when not copied into the backup directory. Backup paths it
+ * returns are references only it can resolve.
+ */
+export interface BackupStorage {
+  createBackup(sourcePath: string, owner: { operationId: string; transactionId?: string }): Promise<string>;
+  restoreBackup(reference: string, targetPath: string): Promise<void>;
+  deleteBackup(reference: string): Promise<void>;
+  isBackupReference(value: string): boolean;
+}
+
+/**
+ * System trash that deletes can be moved to instead of being unlinked
+ */
+export interface TrashStorage {
+  moveToTrash(filePath: string): Promise<string>;
+  restoreFromTrash(trashedPath: string, targetPath?: string): Promise<void>;
+  isTrashedPath(value: string): boolean;
 }
 
 export interface TransactionContext {
@@ -30,18 +59,274 @@ export interface ExecutionResult {
   error?: string;
 }
 
+/**
+ * How to handle a rename or move whose destination is taken, by an existing
+ * file or by another operation in the same batch
+ */
+export type ConflictStrategy =
+  | 'skip'                   // Leave the file where it is
+  | 'auto-suffix'            // Use the first free "name (2).ext"
+  | 'overwrite-with-backup'  // Replace the existing file, backing it up first
+  | 'keep-newer'             // Overwrite only if the incoming file is newer, else skip
+  | 'keep-larger'            // Overwrite only if the incoming file is larger, else skip
+  | 'ask';                   // Hold the operation until the user decides
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = [
+  'skip', 'auto-suffix', 'overwrite-with-backup', 'keep-newer', 'keep-larger', 'ask',
+];
+
+export interface ConflictResolution {
+  operationId: string;
+  conflict: 'target_exists' | 'duplicate_target';
+  strategy: ConflictStrategy;
+  // 'overwrite' replaces a file on disk; 'proceed' takes a name another
+  // operation in the batch gave up
+  action: 'skip' | 'rename' | 'overwrite' | 'proceed' | 'ask';
+  originalTargetPath: string;
+  targetPath: string;
+  conflictingOperationIds: string[];
+}
+
+/**
+ * The parts of a planned operation that conflict detection looks at; the
+ * validator's and the batch manager's operation types both fit
+ */
+export interface DestinationOperation {
+  id: string;
+  type: string;
+  sourcePath: string;
+  targetPath: string;
+}
+
+export interface ConflictResolutionResult<T extends DestinationOperation> {
+  operations: T[];         // Operations that can run, with resolved targets
+  resolutions: ConflictResolution[];   // One per operation involved in a conflict
+}
+
+/**
+ * Detect destination conflicts in a batch and resolve them with a strategy,
+ * overridden per operation by decisions. Operations are considered in order,
+ * so the first operation targeting a free path keeps it. A file the batch
+ * moves away still takes its name: operations are validated before any of
+ * them runs, and swaps would need a temporary name. Such a file is never
+ * overwritten either, since it is itself on its way elsewhere.
+ */
+export async function resolveDestinationConflicts<T extends DestinationOperation>(
+  operations: T[],
+  strategy: ConflictStrategy,
+  decisions: Record<string, ConflictStrategy> = {}
+): Promise<ConflictResolutionResult<T>> {
+  // Case-insensitive so case-only differences collide as they do on macOS
+  const key = (filePath: string) => path.resolve(filePath).toLowerCase();
+  const moving = new Set(operations
+    .filter(operation => operation.type !== 'delete')
+    .map(operation => key(operation.sourcePath)));
+  const resolved = operations.map(operation => ({ ...operation }));
+  const claims = new Map<string, T>();
+  const resolutions = new Map<string, ConflictResolution>();
+  const excluded = new Set<string>();
+
+  const isTaken = async (candidate: string) =>
+    claims.has(key(candidate)) || (await statOrNull(candidate)) !== null;
+
+  for (const operation of resolved) {
+    if (operation.type === 'delete' || key(operation.sourcePath) === key(operation.targetPath)) {
+      continue;
+    }
+
+    const targetKey = key(operation.targetPath);
+    const claimant = claims.get(targetKey);
+    const existing = claimant ? null : await statOrNull(operation.targetPath);
+    if (!claimant && !existing) {
+      claims.set(targetKey, operation);
+      continue;
+    }
+
+    const chosen = decisions[operation.id] ?? strategy;
+    const resolution: ConflictResolution = {
+      operationId: operation.id,
+      conflict: claimant ? 'duplicate_target' : 'target_exists',
+      strategy: chosen,
+      action: 'ask',
+      originalTargetPath: operation.targetPath,
+      targetPath: operation.targetPath,
+      conflictingOperationIds: claimant ? [claimant.id] : [],
+    };
+    resolutions.set(operation.id, resolution);
+
+    if (chosen === 'skip') {
+      resolution.action = 'skip';
+    } else if (chosen === 'auto-suffix') {
+      resolution.action = 'rename';
+      resolution.targetPath = await findFreeName(operation.targetPath, isTaken);
+      operation.targetPath = resolution.targetPath;
+      claims.set(key(operation.targetPath), operation);
+    } else if (chosen !== 'ask') {
+      const incoming = await statOrNull(operation.sourcePath);
+      const current = claimant ? await statOrNull(claimant.sourcePath) : existing;
+      const wins = chosen === 'overwrite-with-backup' || (incoming !== null && current !== null && (
+        chosen === 'keep-newer' ? incoming.mtimeMs > current.mtimeMs : incoming.size > current.size
+      ));
+
+      if (!wins || (!claimant && moving.has(targetKey))) {
+        resolution.action = 'skip';
+      } else if (claimant) {
+        // Two files for one name: the earlier operation gives it up
+        const claimantResolution = resolutions.get(claimant.id);
+        resolution.action = claimantResolution?.action === 'overwrite' ? 'overwrite' : 'proceed';
+        resolutions.set(claimant.id, {
+          operationId: claimant.id,
+          conflict: 'duplicate_target',
+          strategy: decisions[claimant.id] ?? strategy,
+          action: 'skip',
+          originalTargetPath: claimantResolution?.originalTargetPath ?? claimant.targetPath,
+          targetPath: claimant.targetPath,
+          conflictingOperationIds: [operation.id],
+        });
+        excluded.add(claimant.id);
+        claims.set(targetKey, operation);
+      } else {
+        resolution.action = 'overwrite';
+        claims.set(targetKey, operation);
+      }
+    }
+
+    if (resolution.action === 'skip' || resolution.action === 'ask') {
+      excluded.add(operation.id);
+    }
+  }
+
+  return {
+    operations: resolved.filter(operation => !excluded.has(operation.id)),
+    resolutions: Array.from(resolutions.values()),
+  };
+}
+
+/**
+ * First "name (n).ext" that is not taken, continuing from an existing counter
+ */
+async function findFreeName(targetPath: string, isTaken: (candidate: string) => Promise<boolean>): Promise<string> {
+  const extension = path.extname(targetPath);
+  const stem = path.basename(targetPath, extension);
+  const counted = stem.match(/^(.*) \((\d+)\)$/);
+  const base = counted ? counted[1] : stem;
+
+  for (let counter = counted ? Number(counted[2]) + 1 : 2; ; counter++) {
+    const candidate = path.join(path.dirname(targetPath), `${base} (${counter})${extension}`);
+    if (!(await isTaken(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+async function statOrNull(filePath: string): Promise<{ mtimeMs: number; size: number } | null> {
+  try {
+    return (await fs.stat(filePath)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rename a file or directory, falling back to copy-verify-delete when the
+ * target is on another filesystem
+ */
+export async function moveEntry(source: string, target: string, logger: Logger): Promise<void> {
+  try {
+    await fs.rename(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await moveAcrossDevices(source, target, logger);
+  }
+}
+
+/**
+ * Copy into a staging path next to the target, verify every file's sha256,
+ * then rename into place so the target never holds a partial tree. The
+ * source is only removed once the target is complete.
+ */
+async function moveAcrossDevices(source: string, target: string, logger: Logger): Promise<void> {
+  const stagingPath = path.join(path.dirname(target), `.${path.basename(target)}.maxsort-partial`);
+
+  logger.info('TransactionalFileManager', 'Moving across filesystems', { source, target });
+
+  await fs.rm(stagingPath, { recursive: true, force: true });
+  try {
+    await copyTree(source, stagingPath, true);
+    await fs.rename(stagingPath, target);
+  } catch (error) {
+    await fs.rm(stagingPath, { recursive: true, force: true }).catch(() => undefined);
+    throw error;
+  }
+
+  try {
+    await fs.rm(source, { recursive: true, force: true });
+  } catch (error) {
+    // The verified copy is in place; leftovers at the source are not worth undoing the move for
+    logger.warn('TransactionalFileManager', 'Moved across filesystems but could not remove source', {
+      source,
+      target,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Recursively copy a file, directory or symlink, preserving permissions and
+ * access/modification times, optionally verifying file contents by sha256
+ */
+async function copyTree(source: string, target: string, verify: boolean): Promise<void> {
+  const stats = await fs.lstat(source);
+
+  if (stats.isSymbolicLink()) {
+    await fs.symlink(await fs.readlink(source), target);
+    return;
+  }
+
+  if (stats.isDirectory()) {
+    await fs.mkdir(target);
+    for (const entry of await fs.readdir(source)) {
+      await copyTree(path.join(source, entry), path.join(target, entry), verify);
+    }
+  } else {
+    await fs.copyFile(source, target, fs.constants.COPYFILE_EXCL);
+    if (verify) {
+      const [sourceHash, targetHash] = await Promise.all([hashFileStream(source), hashFileStream(target)]);
+      if (sourceHash !== targetHash) {
+        throw new Error(`Checksum mismatch after copying ${source} to ${target}`);
+      }
+    }
+  }
+
+  // Directories get their times last, after their contents stop changing them
+  await fs.chmod(target, stats.mode & 0o7777);
+  await fs.utimes(target, stats.atime, stats.mtime);
+}
+
 export class TransactionalFileManager {
   private readonly logger: Logger;
   private readonly database: DatabaseManager;
   private readonly transactions: Map<string, TransactionContext> = new Map();
   private readonly backupDirectory: string;
   private readonly backupPaths: Map<string, string[]> = new Map();
+  private readonly backupStorage?: BackupStorage;
+  private trash?: TrashStorage;
   private currentRollbackTransactionId?: string;
 
-  constructor(database: DatabaseManager, logger: Logger, backupDir?: string) {
+  constructor(database: DatabaseManager, logger: Logger, backupDir?: string, backupStorage?: BackupStorage) {
     this.database = database;
     this.logger = logger;
     this.backupDirectory = backupDir || path.join(process.cwd(), '.maxsort-backups');
+    this.backupStorage = backupStorage;
+  }
+
+  /**
+   * Let deletes that ask for it go to the trash
+   */
+  public setTrash(trash: TrashStorage): void {
+    this.trash = trash;
   }
 
   /**
@@ -121,10 +406,12 @@ export class TransactionalFileManager {
     transaction.status = 'executing';
 
     // Create backup directory if it doesn't exist
-    try {
-      await fs.mkdir(this.backupDirectory, { recursive: true });
-    } catch (error) {
-      this.logger.warn('TransactionalFileManager', 'Failed to create backup directory', { error });
+    if (!this.backupStorage) {
+      try {
+        await fs.mkdir(this.backupDirectory, { recursive: true });
+      } catch (error) {
+        this.logger.warn('TransactionalFileManager', 'Failed to create backup directory', { error });
+      }
     }
 
     try {
@@ -252,13 +539,21 @@ export class TransactionalFileManager {
     }
 
     if (operation.type !== 'delete' && operation.target) {
+      if (this.isWithin(operation.target, operation.source)) {
+        return `Cannot ${operation.type} a directory into itself: ${operation.source}`;
+      }
+
       // Check target doesn't already exist (unless force is specified)
       if (!operation.metadata?.force) {
+        let targetExists = true;
         try {
           await fs.access(operation.target, fs.constants.F_OK);
-          return `Target file already exists: ${operation.target}`;
         } catch {
           // Target doesn't exist, which is good for non-force operations
+          targetExists = false;
+        }
+        if (targetExists && !(await this.isCaseOnlyRename(operation.source, operation.target))) {
+          return `Target file already exists: ${operation.target}`;
         }
       }
 
@@ -284,11 +579,26 @@ export class TransactionalFileManager {
     return null;
   }
 
+  /**
+   * Whether target names the source itself with different case, as found on
+   * a case-insensitive volume
+   */
+  private async isCaseOnlyRename(source: string, target: string): Promise<boolean> {
+    if (source === target || source.toLowerCase() !== target.toLowerCase()) {
+      return false;
+    }
+    try {
+      const [sourceStats, targetStats] = await Promise.all([fs.stat(source), fs.stat(target)]);
+      return sourceStats.dev === targetStats.dev && sourceStats.ino === targetStats.ino;
+    } catch {
+      return false;
+    }
+  }
+
   private async executeOperation(operation: FileOperation & { id: string }, transactionId: string): Promise<void> {
-    // Create backup if requested
-    if (operation.metadata?.createBackup && operation.type !== 'copy') {
-      const backupPath = path.join(this.backupDirectory, `${path.basename(operation.source)}.backup.${operation.id}.${Date.now()}`);
-      await fs.copyFile(operation.source, backupPath);
+    // Create backup if requested; deletes and writes are backed up below either way
+    if (operation.metadata?.createBackup && !['copy', 'delete', 'write'].includes(operation.type)) {
+      const backupPath = await this.createBackupCopy(operation, 'backup', transactionId);
       
       // Store backup path for cleanup
       if (!this.backupPaths.has(transactionId)) {
@@ -307,30 +617,44 @@ export class TransactionalFileManager {
         if (!operation.target) {
           throw new Error('Target path required for rename operation');
         }
-        await fs.rename(operation.source, operation.target);
+        await moveEntry(operation.source, operation.target, this.logger);
         break;
 
       case 'move':
         if (!operation.target) {
           throw new Error('Target path required for move operation');
         }
-        await fs.rename(operation.source, operation.target);
+        await moveEntry(operation.source, operation.target, this.logger);
         break;
 
       case 'delete':
+        // The trash keeps the content itself, so no backup is needed
+        if (operation.metadata?.useTrash && this.trash) {
+          operation.backupPath = await this.trash.moveToTrash(operation.source);
+          break;
+        }
+
         // Create backup before delete
         if (operation.metadata?.createBackup !== false) {
-          const backupPath = path.join(this.backupDirectory, `${path.basename(operation.source)}.deleted.${operation.id}.${Date.now()}`);
-          await fs.copyFile(operation.source, backupPath);
+          operation.backupPath = await this.createBackupCopy(operation, 'deleted', transactionId);
         }
-        await fs.unlink(operation.source);
+        await this.removeEntry(operation.source);
         break;
 
       case 'copy':
         if (!operation.target) {
           throw new Error('Target path required for copy operation');
         }
-        await fs.copyFile(operation.source, operation.target);
+        await this.copyEntry(operation.source, operation.target);
+        break;
+
+      case 'write':
+        if (operation.content === undefined) {
+          throw new Error('Content required for write operation');
+        }
+        // The original content is always kept, since nothing else can bring it back
+        operation.backupPath = await this.createBackupCopy(operation, 'backup', transactionId);
+        await this.replaceContent(operation.source, operation.content);
         break;
 
       default:
@@ -381,29 +705,39 @@ export class TransactionalFileManager {
         case 'move':
           // Undo the rename/move by moving the file back
           if (operation.target) {
-            await fs.rename(operation.target, operation.source);
+            await moveEntry(operation.target, operation.source, this.logger);
           }
           break;
 
         case 'copy':
           // Undo copy by deleting the copied file
           if (operation.target) {
-            await fs.unlink(operation.target);
+            await this.removeEntry(operation.target);
           }
           break;
 
         case 'delete':
           // Try to restore from backup if it exists
-          if (this.currentRollbackTransactionId) {
+          if (operation.backupPath && this.trash?.isTrashedPath(operation.backupPath)) {
+            await this.trash.restoreFromTrash(operation.backupPath, operation.source);
+          } else if (operation.backupPath) {
+            await this.restoreBackupCopy(operation.backupPath, operation.source);
+          } else if (this.currentRollbackTransactionId) {
             const backupPaths = this.backupPaths.get(this.currentRollbackTransactionId);
             if (backupPaths) {
               const matchingBackup = backupPaths.find(path => path.includes(operation.id));
               if (matchingBackup) {
-                await fs.copyFile(matchingBackup, operation.source);
+                await this.restoreBackupCopy(matchingBackup, operation.source);
               }
             }
           }
           break;
+
+        case 'write':
+          if (operation.backupPath) {
+            await this.restoreContent(operation.backupPath, operation.source);
+          }
+          break;
       }
     } catch (error) {
       this.logger.error('TransactionalFileManager', 'Single operation rollback failed', error as Error, {
@@ -414,13 +748,106 @@ export class TransactionalFileManager {
     }
   }
 
+  /**
+   * Back up an operation's source to the backup store, or as a plain copy in
+   * the backup directory when there is none
+   */
+  private async createBackupCopy(
+    operation: FileOperation & { id: string },
+    label: 'backup' | 'deleted',
+    transactionId: string
+  ): Promise<string> {
+    if (this.backupStorage) {
+      return this.backupStorage.createBackup(operation.source, { operationId: operation.id, transactionId });
+    }
+
+    const backupPath = path.join(this.backupDirectory, `${path.basename(operation.source)}.${label}.${operation.id}.${Date.now()}`);
+    await this.copyEntry(operation.source, backupPath);
+    return backupPath;
+  }
+
+  private async restoreBackupCopy(backupPath: string, target: string): Promise<void> {
+    if (this.backupStorage?.isBackupReference(backupPath)) {
+      await this.backupStorage.restoreBackup(backupPath, target);
+    } else {
+      await this.copyEntry(backupPath, target);
+    }
+  }
+
+  /**
+   * Write a file's new content beside it and rename it into place, so readers
+   * never see it half-written
+   */
+  private async replaceContent(filePath: string, content: string): Promise<void> {
+    const temporaryPath = this.getTemporaryPath(filePath);
+    const { mode } = await fs.stat(filePath);
+    try {
+      await fs.writeFile(temporaryPath, content, { mode });
+      await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a file's backed-up content back over its current content
+   */
+  private async restoreContent(backupPath: string, filePath: string): Promise<void> {
+    const temporaryPath = this.getTemporaryPath(filePath);
+    try {
+      await this.restoreBackupCopy(backupPath, temporaryPath);
+      await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  private getTemporaryPath(filePath: string): string {
+    return path.join(path.dirname(filePath), `.${path.basename(filePath)}.maxsort-partial`);
+  }
+
+  private async copyEntry(source: string, target: string): Promise<void> {
+    if (await this.isDirectory(source)) {
+      await copyTree(source, target, false);
+    } else {
+      await fs.copyFile(source, target);
+    }
+  }
+
+  private async removeEntry(target: string): Promise<void> {
+    if (await this.isDirectory(target)) {
+      await fs.rm(target, { recursive: true });
+    } else {
+      await fs.unlink(target);
+    }
+  }
+
+  private async isDirectory(target: string): Promise<boolean> {
+    try {
+      return (await fs.lstat(target)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private isWithin(candidate: string, directory: string): boolean {
+    const relative = path.relative(path.resolve(directory), path.resolve(candidate));
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
   private async cleanupTemporaryResources(transactionId: string): Promise<void> {
     try {
       // Clean up tracked backup files for this transaction
       const backupPaths = this.backupPaths.get(transactionId);
       if (backupPaths) {
         for (const backupPath of backupPaths) {
-          await fs.rm(backupPath);
+          if (this.backupStorage?.isBackupReference(backupPath)) {
+            await this.backupStorage.deleteBackup(backupPath);
+          } else {
+            await fs.rm(backupPath, { recursive: true, force: true });
+          }
           
           this.logger.debug('TransactionalFileManager', 'Cleaned up backup file', {
             backupPath,
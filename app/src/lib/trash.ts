@@ -0,0 +1,232 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from './logger';
+import type { TrashStorage } from './transactional-file-manager';
+
+export interface TrashInfo {
+  originalPath: string;
+  deletedAt: Date;
+}
+
+/**
+ * Trash following the freedesktop.org Trash specification, shared with file
+ * managers on Linux desktops.
+ *
+ * Files go to the home trash ($XDG_DATA_HOME/Trash) when it is on the same
+ * filesystem, otherwise to the trash at the top of their own mount
+ * ($topdir/.Trash/$uid or $topdir/.Trash-$uid), so trashing is always a
+ * rename. Each trashed entry has a matching .trashinfo file recording where
+ * it came from and when.
+ */
+export class FreedesktopTrash implements TrashStorage {
+  private readonly logger: Logger;
+  private readonly homeTrashDirectory: string;
+  private readonly uid: number;
+
+  constructor(logger: Logger, options: { homeTrashDirectory?: string; uid?: number } = {}) {
+    this.logger = logger;
+    this.homeTrashDirectory = options.homeTrashDirectory || path.join(
+      process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share'),
+      'Trash'
+    );
+    this.uid = options.uid ?? process.getuid?.() ?? 0;
+  }
+
+  /**
+   * Whether the platform uses the freedesktop.org trash; macOS and Windows
+   * have their own
+   */
+  public static isSupported(platform: NodeJS.Platform = process.platform): boolean {
+    return platform !== 'darwin' && platform !== 'win32';
+  }
+
+  /**
+   * Move a file or directory to the trash, returning its path inside the trash
+   */
+  public async moveToTrash(filePath: string): Promise<string> {
+    const absolutePath = path.resolve(filePath);
+    const { trashDirectory, topDirectory } = await this.getTrashDirectory(absolutePath);
+
+    // Home trash entries record absolute paths; mount trashes record paths
+    // relative to the mount so they survive it being mounted elsewhere
+    const recordedPath = topDirectory ? path.relative(topDirectory, absolutePath) : absolutePath;
+    const { trashedPath, infoPath } = await this.reserveEntry(trashDirectory, path.basename(absolutePath), recordedPath);
+
+    try {
+      await fs.rename(absolutePath, trashedPath);
+    } catch (error) {
+      await fs.rm(infoPath, { force: true });
+      throw error;
+    }
+
+    this.logger.debug('Trash', 'Moved to trash', { filePath: absolutePath, trashedPath });
+    return trashedPath;
+  }
+
+  /**
+   * Move a trashed entry back, to its recorded original path unless a target
+   * is given, and drop its .trashinfo
+   */
+  public async restoreFromTrash(trashedPath: string, targetPath?: string): Promise<void> {
+    const infoPath = this.getInfoPath(trashedPath);
+    const target = targetPath || (await this.readTrashInfo(trashedPath)).originalPath;
+
+    if (await this.exists(target)) {
+      throw new Error(`Cannot restore from trash: ${target} already exists`);
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(trashedPath, target);
+    await fs.rm(infoPath, { force: true });
+
+    this.logger.debug('Trash', 'Restored from trash', { trashedPath, restoredPath: target });
+  }
+
+  public async readTrashInfo(trashedPath: string): Promise<TrashInfo> {
+    const content = await fs.readFile(this.getInfoPath(trashedPath), 'utf8');
+    const recordedPath = content.match(/^Path=(.*)$/m)?.[1];
+    const deletionDate = content.match(/^DeletionDate=(.*)$/m)?.[1];
+    if (!recordedPath || !deletionDate) {
+      throw new Error(`Invalid trash info for ${trashedPath}`);
+    }
+
+    const decodedPath = decodeURIComponent(recordedPath);
+    const trashDirectory = path.dirname(path.dirname(trashedPath));
+    const topDirectory = trashDirectory === this.homeTrashDirectory
+      ? undefined
+      : path.basename(path.dirname(trashDirectory)) === '.Trash'
+        ? path.dirname(path.dirname(trashDirectory))
+        : path.dirname(trashDirectory);
+
+    return {
+      originalPath: path.isAbsolute(decodedPath) || !topDirectory ? decodedPath : path.join(topDirectory, decodedPath),
+      deletedAt: new Date(deletionDate),
+    };
+  }
+
+  /**
+   * Whether a path is an entry in one of the trashes this class writes to
+   */
+  public isTrashedPath(value: string): boolean {
+    const filesDirectory = path.dirname(value);
+    if (path.basename(filesDirectory) !== 'files') {
+      return false;
+    }
+
+    const trashDirectory = path.dirname(filesDirectory);
+    return trashDirectory === this.homeTrashDirectory ||
+      path.basename(trashDirectory) === `.Trash-${this.uid}` ||
+      (path.basename(trashDirectory) === String(this.uid) && path.basename(path.dirname(trashDirectory)) === '.Trash');
+  }
+
+  /**
+   * The trash on the same filesystem as a path, created if needed
+   */
+  private async getTrashDirectory(absolutePath: string): Promise<{ trashDirectory: string; topDirectory?: string }> {
+    const { dev } = await fs.lstat(absolutePath);
+
+    await fs.mkdir(this.homeTrashDirectory, { recursive: true, mode: 0o700 });
+    if ((await fs.stat(this.homeTrashDirectory)).dev === dev) {
+      return { trashDirectory: this.homeTrashDirectory };
+    }
+
+    const topDirectory = await this.findMountPoint(absolutePath, dev);
+
+    // An administrator-created $topdir/.Trash must be a sticky, real directory
+    const sharedTrash = path.join(topDirectory, '.Trash');
+    const shared = await fs.lstat(sharedTrash).catch(() => null);
+    if (shared && shared.isDirectory() && (shared.mode & 0o1000) !== 0) {
+      const trashDirectory = path.join(sharedTrash, String(this.uid));
+      try {
+        await fs.mkdir(trashDirectory, { recursive: true, mode: 0o700 });
+        return { trashDirectory, topDirectory };
+      } catch (error) {
+        this.logger.debug('Trash', 'Shared trash unusable, using per-user trash', { sharedTrash, error: String(error) });
+      }
+    }
+
+    const trashDirectory = path.join(topDirectory, `.Trash-${this.uid}`);
+    await fs.mkdir(trashDirectory, { recursive: true, mode: 0o700 });
+    return { trashDirectory, topDirectory };
+  }
+
+  private async findMountPoint(absolutePath: string, dev: number): Promise<string> {
+    let directory = path.dirname(absolutePath);
+    for (;;) {
+      const parent = path.dirname(directory);
+      if (parent === directory || (await fs.stat(parent)).dev !== dev) {
+        return directory;
+      }
+      directory = parent;
+    }
+  }
+
+  /**
+   * Claim a free name in the trash by creating its .trashinfo exclusively,
+   * adding a counter to the name while it is taken
+   */
+  private async reserveEntry(
+    trashDirectory: string,
+    name: string,
+    recordedPath: string
+  ): Promise<{ trashedPath: string; infoPath: string }> {
+    const filesDirectory = path.join(trashDirectory, 'files');
+    const infoDirectory = path.join(trashDirectory, 'info');
+    await fs.mkdir(filesDirectory, { recursive: true, mode: 0o700 });
+    await fs.mkdir(infoDirectory, { recursive: true, mode: 0o700 });
+
+    const extension = path.extname(name);
+    const stem = extension ? name.slice(0, -extension.length) : name;
+    const info = [
+      '[Trash Info]',
+      `Path=${recordedPath.split(path.sep).map(encodeURIComponent).join('/')}`,
+      `DeletionDate=${this.formatDeletionDate(new Date())}`,
+      '',
+    ].join('\n');
+
+    for (let counter = 1; ; counter++) {
+      const candidate = counter === 1 ? name : `${stem}.${counter}${extension}`;
+      const infoPath = path.join(infoDirectory, `${candidate}.trashinfo`);
+
+      try {
+        await fs.writeFile(infoPath, info, { flag: 'wx', mode: 0o600 });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') continue;
+        throw error;
+      }
+
+      const trashedPath = path.join(filesDirectory, candidate);
+      if (await this.exists(trashedPath)) {
+        // Entry without info, e.g. left by another tool; keep both
+        await fs.rm(infoPath, { force: true });
+        continue;
+      }
+
+      return { trashedPath, infoPath };
+    }
+  }
+
+  private getInfoPath(trashedPath: string): string {
+    const trashDirectory = path.dirname(path.dirname(trashedPath));
+    return path.join(trashDirectory, 'info', `${path.basename(trashedPath)}.trashinfo`);
+  }
+
+  /**
+   * Local time without a timezone, as the specification requires
+   */
+  private formatDeletionDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.lstat(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
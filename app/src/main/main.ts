@@ -1,19 +1,46 @@
 import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { createScannerWorker, type ScanOptions, type WorkerMessage, type FileMetadata } from '../workers/file-scanner';
+import { createScannerWorker, type ScanOptions, type WorkerMessage, type FileMetadata, type ScanDelta } from '../workers/file-scanner';
 import { getDatabase, type FileRecord } from '../lib/database';
-import { getOllamaClient, type OllamaModel, type OllamaHealthStatus } from '../lib/ollama-client';
+import {
+  getLLMProvider,
+  createLLMProvider,
+  configureLLMProvider,
+  LLM_PROVIDER_TYPES,
+  type LLMProvider,
+  type LLMModel,
+  type LLMHealthStatus,
+  type LLMProviderSettings,
+} from '../lib/llm-provider';
 import { getAgentManager, type AgentManagerStatus } from '../agents/agent-manager';
+import { getContentExtractionService } from '../lib/content-extractor';
 import { TaskPriority, type CreateTaskParams, type FileAnalysisTask, type BatchProcessingTask, type HealthCheckTask } from '../agents/task-types';
 import { Worker } from 'worker_threads';
 import { logger } from '../lib/logger';
 import { BatchOperationManager } from '../lib/batch-operation-manager';
 import { FileOperationPreviewService } from '../lib/file-operation-preview';
-import { TransactionalFileManager } from '../lib/transactional-file-manager';
+import { TransactionalFileManager, ConflictStrategy } from '../lib/transactional-file-manager';
 import { OperationJournal } from '../lib/operation-journal';
-import { SuggestionExecutionService } from '../lib/suggestion-execution-service';
+import { BackupStore, type BackupRetentionPolicy } from '../lib/backup-store';
+import { FreedesktopTrash } from '../lib/trash';
+import { SuggestionExecutionService, SidecarRule } from '../lib/suggestion-execution-service';
+import { ReferenceRewriter } from '../lib/reference-rewriter';
+import { createPlanManifest, parsePlanManifest, toShellScript, toUndoShellScript } from '../lib/execution-plan';
 import { initializeAllIPCHandlers } from './ipc-handlers';
+import { eventStreamer } from './event-streamer';
+import { FileWatcherService, type FileWatcherConfig } from '../lib/file-watcher-service';
+import { getAnalysisTaskGenerator } from '../lib/analysis-task-generator';
+import { DeferredHashingService } from '../lib/deferred-hashing-service';
+import { DuplicateFinderService, type DuplicateResolutionRequest } from '../lib/duplicate-finder-service';
+import { OrganizerService, type OrganizeRequest } from '../lib/organizer-service';
+import type { OrganizerRule } from '../lib/organizer-rules';
+import { NamingProfileService } from '../lib/naming-profiles';
+import { getConfidenceScorer, type NamingProfile } from '../lib/confidence-scorer';
+import { ReviewFeedbackService } from '../lib/review-feedback';
+import { AgentTaskStore } from '../lib/agent-task-store';
+import type { ReviewFeedback } from '../lib/manual-review-queue';
+import type { ReviewFeedbackFilters } from '../lib/database';
 
 let mainWindow: BrowserWindow | null = null;
 let currentScanWorker: Worker | null = null;
@@ -22,7 +49,14 @@ let batchOperationManager: BatchOperationManager | null = null;
 let fileOperationPreview: FileOperationPreviewService | null = null;
 let transactionalFileManager: TransactionalFileManager | null = null;
 let operationJournal: OperationJournal | null = null;
+let backupStore: BackupStore | null = null;
 let suggestionExecutionService: SuggestionExecutionService | null = null;
+let fileWatcherService: FileWatcherService | null = null;
+let deferredHashingService: DeferredHashingService | null = null;
+let duplicateFinderService: DuplicateFinderService | null = null;
+let organizerService: OrganizerService | null = null;
+let namingProfileService: NamingProfileService | null = null;
+let reviewFeedbackService: ReviewFeedbackService | null = null;
 
 const createWindow = (): void => {
   // Create the browser window
@@ -89,6 +123,18 @@ app.on('window-all-closed', async () => {
     currentScanWorker = null;
   }
   
+  // Stop watching scanned roots
+  if (fileWatcherService) {
+    fileWatcherService.stop();
+    fileWatcherService = null;
+  }
+  
+  // Stop deferred hashing; unhashed files resume on next launch
+  if (deferredHashingService) {
+    await deferredHashingService.stop();
+    deferredHashingService = null;
+  }
+  
   // Cleanup Agent Manager
   if (agentManager) {
     logger.info('MainProcess', 'Shutting down Agent Manager...');
@@ -162,7 +208,7 @@ ipcMain.handle('directory:select', async () => {
 });
 
 // Directory scanning with progress reporting
-ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; include?: string[]; exclude?: string[] }) => {
+ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; include?: string[]; exclude?: string[]; incremental?: boolean }) => {
   if (!mainWindow) {
     throw new Error('Main window not available');
   }
@@ -194,6 +240,9 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
 
   console.log('Starting directory scan:', options);
   
+  // Let the scan have the disk; deferred hashing resumes when it finishes
+  deferredHashingService?.pause();
+  
   const db = getDatabase();
   let jobId: number | null = null;
 
@@ -203,6 +252,8 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
       rootPath: options.rootPath,
       status: 'scanning',
       fileCount: 0,
+      include: options.include,
+      exclude: options.exclude,
       createdAt: Math.floor(Date.now() / 1000),
       updatedAt: Math.floor(Date.now() / 1000)
     });
@@ -214,6 +265,12 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
       exclude: options.exclude
     };
 
+    // Incremental mode compares against the stored rows instead of rewriting them all
+    if (options.incremental) {
+      scanOptions.incremental = true;
+      scanOptions.knownFiles = db.getFileStatesByRootPath(options.rootPath);
+    }
+
     currentScanWorker = createScannerWorker(scanOptions);
     let fileCount = 0;
     const processedFiles: string[] = [];
@@ -243,9 +300,15 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
               parentDirectory: fileData.parentDirectory
             };
             
-            db.upsertFile(fileRecord);
+            if (fileData.changeType === 'moved' && fileData.previousPath) {
+              db.moveFileRecord(fileData.previousPath, fileRecord);
+            } else {
+              db.upsertFile(fileRecord);
+            }
             fileCount++;
-            processedFiles.push(fileData.path);
+            if (!scanOptions.incremental) {
+              processedFiles.push(fileData.path);
+            }
             
             // Update job file count periodically
             if (fileCount % 50 === 0 && jobId) {
@@ -253,12 +316,37 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
             }
             break;
 
+          case 'delta':
+            const delta = message.data as ScanDelta;
+            // Only changed files were sent; the job still records every file under the root
+            fileCount += delta.unchangedCount;
+            const deletedCount = db.deleteFilesByPath(delta.deleted);
+            db.markRootScanned(options.rootPath, Math.floor(Date.now() / 1000));
+            console.log(`Incremental scan removed ${deletedCount} deleted files`);
+
+            // Forward delta so only changed files are queued for analysis
+            if (mainWindow && !mainWindow.isDestroyed()) {
+              mainWindow.webContents.send('scan:delta', delta);
+            }
+            break;
+
           case 'complete':
             console.log(`Scan completed: ${fileCount} files processed`);
             
-            // Clean up files that no longer exist
-            const cleanedUp = db.cleanupMissingFiles(options.rootPath, processedFiles);
-            console.log(`Cleaned up ${cleanedUp} missing files`);
+            // Clean up files that no longer exist (incremental scans reconcile via the delta)
+            if (!scanOptions.incremental) {
+              const cleanedUp = db.cleanupMissingFiles(options.rootPath, processedFiles);
+              console.log(`Cleaned up ${cleanedUp} missing files`);
+            }
+            
+            // Hash the large files the scan skipped in the background
+            deferredHashingService?.resume();
+            
+            // Keep the freshly scanned root in sync from now on
+            fileWatcherService?.watchRoot(options.rootPath, {
+              include: options.include,
+              exclude: options.exclude
+            });
             
             // Update job status
             if (jobId) {
@@ -291,6 +379,8 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
               mainWindow.webContents.send('scan:error', error.message);
             }
             
+            deferredHashingService?.resume();
+            
             // Cleanup worker
             currentScanWorker = null;
             break;
@@ -311,6 +401,7 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
         });
       }
       currentScanWorker = null;
+      deferredHashingService?.resume();
     });
 
     currentScanWorker.on('exit', (code) => {
@@ -320,6 +411,7 @@ ipcMain.handle('directory:scan', async (_event, options: { rootPath: string; inc
 
   } catch (error) {
     console.error('Failed to start scan:', error);
+    deferredHashingService?.resume();
     if (jobId) {
       db.updateJob(jobId, {
         status: 'error',
@@ -355,6 +447,25 @@ ipcMain.handle('directory:getScanResults', async (_event, rootPath?: string) =>
   }
 });
 
+// File watcher status and configuration
+ipcMain.handle('watcher:getStatus', async () => {
+  if (!fileWatcherService) {
+    return { running: false, roots: [], config: null };
+  }
+  return { running: true, roots: fileWatcherService.getStatus(), config: fileWatcherService.getConfig() };
+});
+
+ipcMain.handle('watcher:configure', async (_event, config: Partial<FileWatcherConfig>) => {
+  if (!fileWatcherService) {
+    throw new Error('File watcher not initialized');
+  }
+
+  fileWatcherService.updateConfig(config);
+  const { autoAnalyze, debounceMs, usePolling, pollIntervalMs } = fileWatcherService.getConfig();
+  getDatabase().setSetting('watcher_config', JSON.stringify({ autoAnalyze, debounceMs, usePolling, pollIntervalMs }));
+  return fileWatcherService.getConfig();
+});
+
 // Get scan jobs (for showing scan history)
 ipcMain.handle('directory:getScanJobs', async () => {
   try {
@@ -366,27 +477,27 @@ ipcMain.handle('directory:getScanJobs', async () => {
   }
 });
 
-// Ollama IPC handlers
+// Model provider IPC handlers (channel names predate non-Ollama providers)
 ipcMain.handle('ollama:getHealth', async () => {
   try {
-    const ollamaClient = getOllamaClient();
-    const health = await ollamaClient.getHealthStatus();
+    const provider = getLLMProvider();
+    const health = await provider.getHealthStatus();
     return health;
   } catch (error) {
-    console.error('Failed to get Ollama health:', error);
+    console.error('Failed to get model provider health:', error);
     return {
       status: 'unhealthy',
       message: error instanceof Error ? error.message : String(error),
       models_available: false,
       model_count: 0
-    } as OllamaHealthStatus;
+    } as LLMHealthStatus;
   }
 });
 
 ipcMain.handle('ollama:getModels', async () => {
   try {
-    const ollamaClient = getOllamaClient();
-    const models = await ollamaClient.getModels();
+    const provider = getLLMProvider();
+    const models = await provider.getModels();
     
     // Store memory estimates in database
     const db = getDatabase();
@@ -395,7 +506,7 @@ ipcMain.handle('ollama:getModels', async () => {
     
     for (const model of models) {
       if (!estimates[model.name]) {
-        newEstimates[model.name] = ollamaClient.estimateModelMemory(model);
+        newEstimates[model.name] = provider.estimateModelMemory(model);
       }
     }
     
@@ -405,25 +516,23 @@ ipcMain.handle('ollama:getModels', async () => {
     
     return models;
   } catch (error) {
-    console.error('Failed to get Ollama models:', error);
+    console.error('Failed to get models:', error);
     throw error;
   }
 });
 
 ipcMain.handle('ollama:validateModel', async (_event, modelName: string) => {
   try {
-    const ollamaClient = getOllamaClient();
-    return await ollamaClient.validateModel(modelName);
+    return await getLLMProvider().validateModel(modelName);
   } catch (error) {
     console.error(`Failed to validate model ${modelName}:`, error);
     return false;
   }
 });
 
-ipcMain.handle('ollama:getMemoryEstimate', async (_event, model: OllamaModel) => {
+ipcMain.handle('ollama:getMemoryEstimate', async (_event, model: LLMModel) => {
   try {
-    const ollamaClient = getOllamaClient();
-    const estimatedMemory = ollamaClient.estimateModelMemory(model);
+    const estimatedMemory = getLLMProvider().estimateModelMemory(model);
     
     return {
       modelName: model.name,
@@ -441,6 +550,71 @@ ipcMain.handle('ollama:getMemoryEstimate', async (_event, model: OllamaModel) =>
   }
 });
 
+/**
+ * Get the configured model provider and the provider types available
+ */
+ipcMain.handle('llm:getProvider', async () => {
+  try {
+    const provider = getLLMProvider();
+    const { endpoint, apiKey } = provider.getConfig();
+
+    return {
+      success: true,
+      settings: { type: provider.type, endpoint, apiKey },
+      providerTypes: LLM_PROVIDER_TYPES,
+    };
+  } catch (error) {
+    console.error('Failed to get model provider:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Switch the model provider for an endpoint. The endpoint is health checked
+ * first; an unreachable endpoint is not saved.
+ */
+ipcMain.handle('llm:setProvider', async (_event, settings: LLMProviderSettings) => {
+  try {
+    if (!settings || !LLM_PROVIDER_TYPES.includes(settings.type)) {
+      return { success: false, error: `Provider type must be one of: ${LLM_PROVIDER_TYPES.join(', ')}` };
+    }
+    if (settings.endpoint && !/^https?:\/\//.test(settings.endpoint)) {
+      return { success: false, error: 'Endpoint must be an http(s) URL' };
+    }
+
+    const normalized: LLMProviderSettings = {
+      type: settings.type,
+      endpoint: settings.endpoint || undefined,
+      apiKey: settings.apiKey || undefined,
+    };
+
+    const candidate = createLLMProvider(normalized);
+    const health = await candidate.getHealthStatus();
+    candidate.destroy();
+
+    if (health.status !== 'healthy') {
+      return { success: false, health, error: health.message || 'Model provider is not reachable' };
+    }
+
+    const provider = configureLLMProvider(normalized);
+    monitorProvider(provider);
+    getDatabase().setSetting('llm_provider', JSON.stringify(normalized));
+    await agentManager?.setLLMProvider(provider);
+
+    return { success: true, health };
+
+  } catch (error) {
+    console.error('Failed to set model provider:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
 ipcMain.handle('ollama:savePreferences', async (_event, preferences: { mainModel: string | null; subModel: string | null }) => {
   try {
     const db = getDatabase();
@@ -462,23 +636,43 @@ ipcMain.handle('ollama:getPreferences', async () => {
   }
 });
 
-// Initialize Ollama health monitoring and Agent Manager
-app.whenReady().then(async () => {
-  const ollamaClient = getOllamaClient();
-  
-  // Start health monitoring
-  ollamaClient.startHealthMonitoring(30000); // Check every 30 seconds
-  
-  // Forward health updates to renderer
-  ollamaClient.on('health-update', (health: OllamaHealthStatus) => {
+/**
+ * Read the provider chosen in Settings; null until one has been saved
+ */
+function loadProviderSettings(): LLMProviderSettings | null {
+  const saved = getDatabase().getSetting('llm_provider');
+  if (!saved) return null;
+
+  try {
+    return JSON.parse(saved) as LLMProviderSettings;
+  } catch (error) {
+    console.warn('Ignoring unreadable model provider settings:', error);
+    return null;
+  }
+}
+
+/**
+ * Monitor a provider's health and forward updates to the renderer
+ */
+function monitorProvider(provider: LLMProvider): void {
+  provider.startHealthMonitoring(30000); // Check every 30 seconds
+
+  provider.on('health-update', (health: LLMHealthStatus) => {
     if (mainWindow && !mainWindow.isDestroyed()) {
       mainWindow.webContents.send('ollama:healthUpdate', health);
     }
   });
-  
-  ollamaClient.on('health-error', (error: Error) => {
-    console.error('Ollama health monitoring error:', error);
+
+  provider.on('health-error', (error: Error) => {
+    console.error('Model provider health monitoring error:', error);
   });
+}
+
+// Initialize model provider health monitoring and Agent Manager
+app.whenReady().then(async () => {
+  const providerSettings = loadProviderSettings();
+  const provider = providerSettings ? configureLLMProvider(providerSettings) : getLLMProvider();
+  monitorProvider(provider);
 
   // Initialize Agent Manager
   try {
@@ -489,20 +683,80 @@ app.whenReady().then(async () => {
       taskTimeoutMs: 5 * 60 * 1000, // 5 minutes
     });
 
+    // Persist tasks so work queued before a quit or crash is picked up again
+    const agentTaskStore = new AgentTaskStore(getDatabase(), logger);
+    agentManager.setTaskStore(agentTaskStore);
+
     // Start Agent Manager
     await agentManager.start();
+    agentManager.recoverTasks();
+    agentTaskStore.cleanupFinishedTasks();
     
     // Initialize Batch Operation Services
     const database = getDatabase();
+    getContentExtractionService().setDatabase(database);
+    const expiredContent = database.cleanupContentCache();
+    if (expiredContent > 0) {
+      logger.info('ContentExtractor', `Removed ${expiredContent} unused content cache entries`);
+    }
     batchOperationManager = new BatchOperationManager(database, logger);
     fileOperationPreview = new FileOperationPreviewService(database, logger);
-    transactionalFileManager = new TransactionalFileManager(database, logger);
-    operationJournal = new OperationJournal(database, logger);
+    backupStore = new BackupStore(database, logger, path.join(app.getPath('userData'), 'backups'));
+    transactionalFileManager = new TransactionalFileManager(database, logger, undefined, backupStore);
+    const trash = FreedesktopTrash.isSupported() ? new FreedesktopTrash(logger) : undefined;
+    if (trash) {
+      transactionalFileManager.setTrash(trash);
+    }
+    operationJournal = new OperationJournal(database, logger, backupStore, trash);
+    operationJournal.cleanupOldEntries()
+      .then(() => backupStore?.collectGarbage())
+      .catch(error => {
+        logger.warn('OperationJournal', 'Startup cleanup failed', { error: String(error) });
+      });
     suggestionExecutionService = new SuggestionExecutionService(
       database,
       batchOperationManager,
       transactionalFileManager
     );
+    suggestionExecutionService.setOperationJournal(operationJournal);
+    suggestionExecutionService.setReferenceRewriter(new ReferenceRewriter(database, logger));
+    duplicateFinderService = new DuplicateFinderService(database, logger, suggestionExecutionService);
+    organizerService = new OrganizerService(database, logger, fileOperationPreview, suggestionExecutionService);
+    namingProfileService = new NamingProfileService(database, logger);
+    getAnalysisTaskGenerator().setNamingProfileResolver(filePath => namingProfileService?.getProfileForPath(filePath));
+    reviewFeedbackService = new ReviewFeedbackService(database, logger);
+    getAnalysisTaskGenerator().setFeedbackExampleResolver((filePath, analysisType) =>
+      reviewFeedbackService?.getFewShotExamples(filePath, analysisType) ?? []
+    );
+    
+    // Deferred hashing reports through the scan progress channel's 'hashing' phase
+    deferredHashingService = new DeferredHashingService(database, logger);
+    deferredHashingService.on('progress', (progress) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('scan:progress', progress);
+      }
+    });
+    deferredHashingService.start();
+    
+    // Watch scanned roots and stream sync events like scan progress
+    const savedWatcherConfig = database.getSetting('watcher_config');
+    fileWatcherService = new FileWatcherService(
+      database,
+      logger,
+      savedWatcherConfig ? JSON.parse(savedWatcherConfig) as Partial<FileWatcherConfig> : {}
+    );
+    fileWatcherService.setTaskGenerator(getAnalysisTaskGenerator());
+    fileWatcherService.on('sync-progress', (progress) => {
+      eventStreamer.broadcast('watch:progress', progress, 'file-watcher');
+    });
+    fileWatcherService.on('sync-complete', (delta) => {
+      eventStreamer.broadcast('watch:delta', delta, 'file-watcher');
+      deferredHashingService?.schedule();
+    });
+    fileWatcherService.on('analysis-queued', (data) => {
+      eventStreamer.broadcast('watch:analysisQueued', data, 'file-watcher');
+    });
+    fileWatcherService.start();
     
     // Forward batch operation events to renderer
     batchOperationManager.on('batch-started', (data) => {
@@ -734,15 +988,17 @@ ipcMain.handle('agent:emergencyStop', async (_event, reason?: string): Promise<v
     throw new Error('Agent Manager not initialized');
   }
   
-  // Get all running tasks and cancel them
-  const status = agentManager.getStatus();
   console.log(`Emergency stop requested: ${reason || 'User initiated'}`);
   
-  // This would trigger internal emergency stop procedures
+  // No new dispatches until processing is resumed
   agentManager.updateConfig({ maxConcurrentSlots: 0 });
   
   // Force recompute with minimal capacity
   await agentManager.recomputeSlotCapacity();
+  
+  // Abort in-flight inference so slots are freed now rather than when it finishes
+  const cancelled = await agentManager.cancelRunningTasks(`Emergency stop: ${reason || 'User initiated'}`);
+  console.log(`Emergency stop cancelled ${cancelled} running tasks`);
 });
 
 ipcMain.handle('agent:getPerformanceMetrics', async () => {
@@ -865,6 +1121,48 @@ ipcMain.handle('analysis:getResults', async (_event, requestId: string) => {
   }
 });
 
+/**
+ * List analysis sessions interrupted by a quit or crash
+ */
+ipcMain.handle('analysis:getResumableSessions', async () => {
+  try {
+    const { getFileAnalysisService } = await import('../lib/file-analysis-service');
+    const analysisService = getFileAnalysisService();
+    
+    return { success: true, sessions: analysisService.getResumableSessions() };
+    
+  } catch (error) {
+    console.error('Failed to get resumable analysis sessions:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    };
+  }
+});
+
+/**
+ * Resume an interrupted analysis session
+ */
+ipcMain.handle('analysis:resume', async (_event, requestId: string) => {
+  try {
+    const { getFileAnalysisService } = await import('../lib/file-analysis-service');
+    const analysisService = getFileAnalysisService();
+    
+    await analysisService.initialize();
+    const progress = await analysisService.resumeAnalysis(requestId);
+    
+    console.log(`Analysis resumed: ${requestId}`);
+    return { success: true, requestId, progress };
+    
+  } catch (error) {
+    console.error('Failed to resume analysis:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : String(error) 
+    };
+  }
+});
+
 /**
  * Get suggestions from database for specific files
  */
@@ -1109,6 +1407,10 @@ ipcMain.handle('suggestions:execute', async (_event, options: {
     continueOnError?: boolean;
     createBackups?: boolean;
     validateBefore?: boolean;
+    conflictStrategy?: ConflictStrategy;
+    conflictDecisions?: Record<number, ConflictStrategy>;
+    rewriteReferences?: boolean;
+    fileNameMode?: 'native' | 'portable';
   };
 }) => {
   try {
@@ -1164,7 +1466,11 @@ ipcMain.handle('suggestions:execute', async (_event, options: {
       {
         createBackups: executionOptions.createBackups !== false,
         enableRollback: true,
-        operationJournaling: true
+        operationJournaling: true,
+        conflictStrategy: executionOptions.conflictStrategy,
+        conflictDecisions: executionOptions.conflictDecisions,
+        rewriteReferences: executionOptions.rewriteReferences,
+        fileNameRules: executionOptions.fileNameMode ? { mode: executionOptions.fileNameMode } : undefined
       }
     );
     
@@ -1174,6 +1480,7 @@ ipcMain.handle('suggestions:execute', async (_event, options: {
       completedOperations: executionResult.completedOperations,
       errors: executionResult.errors,
       rollbackAvailable: executionResult.rollbackAvailable,
+      conflicts: executionResult.conflicts,
       message: 'Suggestion execution completed'
     };
 
@@ -1262,6 +1569,113 @@ ipcMain.handle('suggestions:cancelExecution', async (_event, batchId: string, re
   }
 });
 
+/**
+ * Export the operations executing suggestions would run, as a JSON manifest
+ * or as a shell script with its undo script, for review outside the app.
+ * With an output path the files are written there as well.
+ */
+ipcMain.handle('suggestions:exportPlan', async (_event, options: {
+  suggestionIds?: number[];
+  format: 'json' | 'shell';
+  outputPath?: string;
+  executionOptions?: {
+    createBackups?: boolean;
+    conflictStrategy?: ConflictStrategy;
+    conflictDecisions?: Record<number, ConflictStrategy>;
+    includeSidecars?: boolean;
+    rewriteReferences?: boolean;
+    fileNameMode?: 'native' | 'portable';
+  };
+}) => {
+  try {
+    if (!suggestionExecutionService) {
+      throw new Error('Suggestion Execution Service not initialized');
+    }
+
+    const suggestions = await suggestionExecutionService.getApprovedSuggestions({
+      selectedSuggestionIds: options.suggestionIds,
+      status: ['approved'] as any
+    });
+    if (suggestions.length === 0) {
+      return { success: false, error: 'No approved suggestions found to export' };
+    }
+
+    const { fileNameMode, ...executionOptions } = options.executionOptions || {};
+    const plan = await suggestionExecutionService.createExecutionPlan(suggestions, {
+      ...executionOptions,
+      fileNameRules: fileNameMode ? { mode: fileNameMode } : undefined
+    });
+    if (plan.errors.length > 0) {
+      return { success: false, errors: plan.errors, conflicts: plan.conflicts };
+    }
+
+    const manifest = createPlanManifest(plan.operations);
+    const content = options.format === 'shell' ? toShellScript(manifest) : JSON.stringify(manifest, null, 2) + '\n';
+    const undoContent = options.format === 'shell' ? toUndoShellScript(manifest) : undefined;
+
+    const writtenPaths: string[] = [];
+    if (options.outputPath) {
+      const mode = options.format === 'shell' ? 0o755 : 0o644;
+      await fs.writeFile(options.outputPath, content, { mode });
+      writtenPaths.push(options.outputPath);
+
+      if (undoContent) {
+        const extension = path.extname(options.outputPath);
+        const undoPath = `${options.outputPath.slice(0, options.outputPath.length - extension.length)}-undo${extension}`;
+        await fs.writeFile(undoPath, undoContent, { mode });
+        writtenPaths.push(undoPath);
+      }
+    }
+
+    return {
+      success: true,
+      planId: manifest.id,
+      operationCount: manifest.operations.length,
+      content,
+      undoContent,
+      writtenPaths,
+      conflicts: plan.conflicts
+    };
+
+  } catch (error) {
+    console.error('Failed to export execution plan:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Replay an exported JSON manifest through the transactional executor
+ */
+ipcMain.handle('suggestions:importPlan', async (_event, manifestPath: string) => {
+  try {
+    if (!suggestionExecutionService) {
+      throw new Error('Suggestion Execution Service not initialized');
+    }
+
+    const manifest = parsePlanManifest(await fs.readFile(manifestPath, 'utf8'));
+    const result = await suggestionExecutionService.executePlan(manifest.operations);
+
+    return {
+      success: result.success,
+      planId: manifest.id,
+      transactionId: result.transactionId,
+      completedOperations: result.completedOperations,
+      errors: result.errors,
+      rollbackAvailable: result.rollbackAvailable
+    };
+
+  } catch (error) {
+    console.error('Failed to import execution plan:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
 /**
  * Undo transactional operation
  */
@@ -1313,6 +1727,433 @@ ipcMain.handle('operation:undo', async (_event, operationId: string) => {
   }
 });
 
+/**
+ * Find exact and near-duplicate file groups
+ */
+ipcMain.handle('duplicates:find', async () => {
+  try {
+    if (!duplicateFinderService) {
+      throw new Error('Duplicate Finder not initialized');
+    }
+
+    return { success: true, ...duplicateFinderService.findDuplicates() };
+
+  } catch (error) {
+    console.error('Failed to find duplicates:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Delete or move every file in a duplicate group except the keeper
+ */
+ipcMain.handle('duplicates:resolve', async (_event, request: DuplicateResolutionRequest) => {
+  try {
+    if (!duplicateFinderService) {
+      throw new Error('Duplicate Finder not initialized');
+    }
+
+    if (!request || typeof request.keeperId !== 'number' || !Array.isArray(request.fileIds)) {
+      return { success: false, error: 'Keeper and group file IDs are required' };
+    }
+
+    return await duplicateFinderService.resolveGroup(request);
+
+  } catch (error) {
+    console.error('Failed to resolve duplicates:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Undo a duplicate resolution through the operation journal
+ */
+ipcMain.handle('duplicates:undo', async (_event, transactionId: string) => {
+  try {
+    if (!operationJournal) {
+      throw new Error('Operation Journal not initialized');
+    }
+
+    if (!transactionId) {
+      return { success: false, error: 'Transaction ID is required' };
+    }
+
+    const result = await operationJournal.undoTransaction(transactionId);
+    return { success: result.success, filesRestored: result.filesRestored, partialFailures: result.partialFailures };
+
+  } catch (error) {
+    console.error('Failed to undo duplicate resolution:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Get the ordered organizer rules
+ */
+ipcMain.handle('organizer:getRules', async () => {
+  try {
+    if (!organizerService) {
+      throw new Error('Organizer not initialized');
+    }
+
+    return { success: true, rules: organizerService.getRules() };
+
+  } catch (error) {
+    console.error('Failed to get organizer rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Disk usage of the backup store with its retention policy
+ */
+ipcMain.handle('backups:getUsage', async () => {
+  try {
+    if (!backupStore) {
+      throw new Error('Backup store not initialized');
+    }
+
+    return { success: true, usage: backupStore.getUsage(), retention: backupStore.getRetentionPolicy() };
+
+  } catch (error) {
+    console.error('Failed to get backup usage:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+ipcMain.handle('backups:saveRetention', async (_event, retention: Partial<BackupRetentionPolicy>) => {
+  try {
+    if (!backupStore) {
+      throw new Error('Backup store not initialized');
+    }
+
+    return { success: true, retention: backupStore.setRetentionPolicy(retention) };
+
+  } catch (error) {
+    console.error('Failed to save backup retention:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Apply the retention policy now and report what was freed
+ */
+ipcMain.handle('backups:collectGarbage', async () => {
+  try {
+    if (!backupStore) {
+      throw new Error('Backup store not initialized');
+    }
+
+    const result = await backupStore.collectGarbage();
+    return { success: true, result, usage: backupStore.getUsage() };
+
+  } catch (error) {
+    console.error('Failed to clean up backups:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Sidecar rules deciding which companion files move with renamed and moved files
+ */
+ipcMain.handle('sidecars:getRules', async () => {
+  try {
+    if (!suggestionExecutionService) {
+      throw new Error('Suggestion Execution Service not initialized');
+    }
+
+    return { success: true, rules: suggestionExecutionService.getSidecarRules() };
+
+  } catch (error) {
+    console.error('Failed to get sidecar rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+ipcMain.handle('sidecars:saveRules', async (_event, rules: SidecarRule[]) => {
+  try {
+    if (!suggestionExecutionService) {
+      throw new Error('Suggestion Execution Service not initialized');
+    }
+
+    if (!Array.isArray(rules)) {
+      return { success: false, error: 'Rules must be an array' };
+    }
+
+    return { success: true, rules: suggestionExecutionService.saveSidecarRules(rules) };
+
+  } catch (error) {
+    console.error('Failed to save sidecar rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Naming profiles with the scan roots they are selected for
+ */
+ipcMain.handle('naming:getProfiles', async () => {
+  try {
+    if (!namingProfileService) {
+      throw new Error('Naming profiles not initialized');
+    }
+
+    return {
+      success: true,
+      profiles: namingProfileService.getProfiles(),
+      rootProfiles: namingProfileService.getRootProfiles()
+    };
+
+  } catch (error) {
+    console.error('Failed to get naming profiles:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+ipcMain.handle('naming:saveProfiles', async (_event, profiles: NamingProfile[]) => {
+  try {
+    if (!namingProfileService) {
+      throw new Error('Naming profiles not initialized');
+    }
+
+    if (!Array.isArray(profiles)) {
+      return { success: false, error: 'Profiles must be an array' };
+    }
+
+    return { success: true, profiles: namingProfileService.saveProfiles(profiles) };
+
+  } catch (error) {
+    console.error('Failed to save naming profiles:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Select the naming profile for a scan root, or clear it with null
+ */
+ipcMain.handle('naming:assignRoot', async (_event, rootPath: string, profileId: string | null) => {
+  try {
+    if (!namingProfileService) {
+      throw new Error('Naming profiles not initialized');
+    }
+
+    return { success: true, rootProfiles: namingProfileService.assignProfileToRoot(rootPath, profileId) };
+
+  } catch (error) {
+    console.error('Failed to assign naming profile:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Keep a review decision as a feedback example
+ */
+ipcMain.handle('feedback:record', async (_event, feedback: ReviewFeedback) => {
+  try {
+    if (!reviewFeedbackService) {
+      throw new Error('Review feedback not initialized');
+    }
+
+    return { success: true, example: reviewFeedbackService.recordFeedback(feedback) };
+
+  } catch (error) {
+    console.error('Failed to record review feedback:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Learned examples, newest first, with per-category decision counts and the
+ * confidence priors derived from them
+ */
+ipcMain.handle('feedback:list', async (_event, filters: ReviewFeedbackFilters = {}, offset = 0, limit = 100) => {
+  try {
+    if (!reviewFeedbackService) {
+      throw new Error('Review feedback not initialized');
+    }
+
+    const { examples, total } = reviewFeedbackService.listFeedback(filters, offset, limit);
+    const summary = reviewFeedbackService.getSummary();
+    const baseWeights = getConfidenceScorer().getConfig();
+
+    return {
+      success: true,
+      examples,
+      total,
+      summary,
+      priors: summary.map(category => reviewFeedbackService!.getPrior(category.category, baseWeights))
+    };
+
+  } catch (error) {
+    console.error('Failed to list review feedback:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Forget learned examples by id, or all examples matching the filters
+ */
+ipcMain.handle('feedback:prune', async (_event, criteria: { ids: number[] } | ReviewFeedbackFilters) => {
+  try {
+    if (!reviewFeedbackService) {
+      throw new Error('Review feedback not initialized');
+    }
+
+    if (!criteria || typeof criteria !== 'object') {
+      return { success: false, error: 'Prune criteria are required' };
+    }
+
+    return { success: true, removed: reviewFeedbackService.pruneFeedback(criteria) };
+
+  } catch (error) {
+    console.error('Failed to prune review feedback:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Replace the organizer rules after validating their conditions and templates
+ */
+ipcMain.handle('organizer:saveRules', async (_event, rules: OrganizerRule[]) => {
+  try {
+    if (!organizerService) {
+      throw new Error('Organizer not initialized');
+    }
+
+    if (!Array.isArray(rules)) {
+      return { success: false, error: 'Rules must be an array' };
+    }
+
+    return { success: true, rules: organizerService.saveRules(rules) };
+
+  } catch (error) {
+    console.error('Failed to save organizer rules:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Plan the moves the organizer rules produce and preview them
+ */
+ipcMain.handle('organizer:preview', async (_event, request: OrganizeRequest) => {
+  try {
+    if (!organizerService) {
+      throw new Error('Organizer not initialized');
+    }
+
+    if (!request || (!request.rootPath && !Array.isArray(request.fileIds))) {
+      return { success: false, error: 'A root path or file IDs are required' };
+    }
+
+    const plan = await organizerService.planOrganization(request);
+    const preview = await organizerService.previewPlan(plan.planId);
+    return { success: true, plan, preview };
+
+  } catch (error) {
+    console.error('Failed to preview organization:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Execute a previewed organizer plan as an undoable transaction
+ */
+ipcMain.handle('organizer:execute', async (_event, planId: string, operationIds?: string[]) => {
+  try {
+    if (!organizerService) {
+      throw new Error('Organizer not initialized');
+    }
+
+    if (!planId) {
+      return { success: false, error: 'Plan ID is required' };
+    }
+
+    return await organizerService.executePlan(planId, operationIds);
+
+  } catch (error) {
+    console.error('Failed to execute organizer plan:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
+/**
+ * Undo an executed organizer plan through the operation journal
+ */
+ipcMain.handle('organizer:undo', async (_event, transactionId: string) => {
+  try {
+    if (!operationJournal) {
+      throw new Error('Operation Journal not initialized');
+    }
+
+    if (!transactionId) {
+      return { success: false, error: 'Transaction ID is required' };
+    }
+
+    const result = await operationJournal.undoTransaction(transactionId);
+    return { success: result.success, filesRestored: result.filesRestored, partialFailures: result.partialFailures };
+
+  } catch (error) {
+    console.error('Failed to undo organizer plan:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+});
+
 /**
  * Get operation history from journal
  */
@@ -17,7 +17,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Directory operations with security validation
   selectDirectory: () => ipcRenderer.invoke('directory:select'),
-  scanDirectory: (options: { rootPath: string; include?: string[]; exclude?: string[] }) => {
+  scanDirectory: (options: { rootPath: string; include?: string[]; exclude?: string[]; incremental?: boolean }) => {
     // Basic path validation on renderer side
     if (!options.rootPath || typeof options.rootPath !== 'string') {
       throw new Error('Invalid directory path provided');
@@ -36,12 +36,97 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.removeAllListeners('scan:progress');
   },
 
+  // Incremental scan delta (added/modified/deleted/moved files)
+  onScanDelta: (callback: (delta: any) => void) => {
+    const wrappedCallback = (_event: any, delta: any) => callback(delta);
+    ipcRenderer.on('scan:delta', wrappedCallback);
+    return () => ipcRenderer.removeListener('scan:delta', wrappedCallback);
+  },
+
   // Get scan results
   getScanResults: (rootPath?: string) => ipcRenderer.invoke('directory:getScanResults', rootPath),
   
   // Get scan job history
   getScanJobs: () => ipcRenderer.invoke('directory:getScanJobs'),
 
+  // Live watch of scanned roots
+  getWatcherStatus: () => ipcRenderer.invoke('watcher:getStatus'),
+  configureWatcher: (config: any) => ipcRenderer.invoke('watcher:configure', config),
+
+  // Duplicate detection and resolution
+  findDuplicates: () => ipcRenderer.invoke('duplicates:find'),
+  resolveDuplicates: (request: { keeperId: number; fileIds: number[]; action: 'delete' | 'move'; targetFolder?: string }) => {
+    if (typeof request?.keeperId !== 'number' || !Array.isArray(request.fileIds)) {
+      throw new Error('Invalid duplicate resolution request');
+    }
+    return ipcRenderer.invoke('duplicates:resolve', request);
+  },
+  undoDuplicateResolution: (transactionId: string) => ipcRenderer.invoke('duplicates:undo', transactionId),
+
+  // Rule-based organizer
+  getOrganizerRules: () => ipcRenderer.invoke('organizer:getRules'),
+  saveOrganizerRules: (rules: any[]) => {
+    if (!Array.isArray(rules)) {
+      throw new Error('Organizer rules must be an array');
+    }
+    return ipcRenderer.invoke('organizer:saveRules', rules);
+  },
+  previewOrganization: (request: { rootPath?: string; fileIds?: number[]; baseDirectory?: string }) =>
+    ipcRenderer.invoke('organizer:preview', request),
+  executeOrganization: (planId: string, operationIds?: string[]) =>
+    ipcRenderer.invoke('organizer:execute', planId, operationIds),
+  undoOrganization: (transactionId: string) => ipcRenderer.invoke('organizer:undo', transactionId),
+
+  // Naming profiles
+  getNamingProfiles: () => ipcRenderer.invoke('naming:getProfiles'),
+  saveNamingProfiles: (profiles: any[]) => {
+    if (!Array.isArray(profiles)) {
+      throw new Error('Naming profiles must be an array');
+    }
+    return ipcRenderer.invoke('naming:saveProfiles', profiles);
+  },
+  assignNamingProfile: (rootPath: string, profileId: string | null) => {
+    if (typeof rootPath !== 'string' || (profileId !== null && typeof profileId !== 'string')) {
+      throw new Error('Invalid naming profile assignment');
+    }
+    return ipcRenderer.invoke('naming:assignRoot', rootPath, profileId);
+  },
+
+  // Learned review feedback
+  recordReviewFeedback: (feedback: any) => {
+    if (!feedback || typeof feedback !== 'object' || typeof feedback.originalPath !== 'string') {
+      throw new Error('Invalid review feedback');
+    }
+    return ipcRenderer.invoke('feedback:record', feedback);
+  },
+  getReviewFeedback: (filters?: any, offset?: number, limit?: number) =>
+    ipcRenderer.invoke('feedback:list', filters, offset, limit),
+  pruneReviewFeedback: (criteria: { ids?: number[]; fileCategory?: string; fileExtension?: string; operation?: string; decision?: string; before?: number }) => {
+    if (!criteria || typeof criteria !== 'object') {
+      throw new Error('Invalid prune criteria');
+    }
+    return ipcRenderer.invoke('feedback:prune', criteria);
+  },
+
+  // Backup store
+  getBackupUsage: () => ipcRenderer.invoke('backups:getUsage'),
+  saveBackupRetention: (retention: { maxAgeDays?: number; maxTotalBytes?: number; keepLastPerFile?: number }) => {
+    if (!retention || typeof retention !== 'object') {
+      throw new Error('Invalid backup retention policy');
+    }
+    return ipcRenderer.invoke('backups:saveRetention', retention);
+  },
+  collectBackupGarbage: () => ipcRenderer.invoke('backups:collectGarbage'),
+
+  // Sidecar grouping
+  getSidecarRules: () => ipcRenderer.invoke('sidecars:getRules'),
+  saveSidecarRules: (rules: any[]) => {
+    if (!Array.isArray(rules)) {
+      throw new Error('Sidecar rules must be an array');
+    }
+    return ipcRenderer.invoke('sidecars:saveRules', rules);
+  },
+
   // Ollama model management
   getOllamaHealth: () => ipcRenderer.invoke('ollama:getHealth'),
   getAvailableModels: () => ipcRenderer.invoke('ollama:getModels'),
@@ -57,6 +142,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
   getModelPreferences: () => ipcRenderer.invoke('ollama:getPreferences'),
 
+  // Model provider selection
+  getLLMProvider: () => ipcRenderer.invoke('llm:getProvider'),
+  setLLMProvider: (settings: { type: string; endpoint?: string; apiKey?: string }) => {
+    if (!settings || typeof settings.type !== 'string') {
+      throw new Error('Invalid model provider settings');
+    }
+    return ipcRenderer.invoke('llm:setProvider', settings);
+  },
+
   // Ollama health monitoring
   onOllamaHealthUpdate: (callback: (health: any) => void) => {
     const wrappedCallback = (_event: any, health: any) => callback(health);
@@ -100,6 +194,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return ipcRenderer.invoke('analysis:getProgress', requestId);
   },
 
+  getResumableAnalysisSessions: () => ipcRenderer.invoke('analysis:getResumableSessions'),
+
+  resumeFileAnalysis: (requestId: string) => {
+    if (typeof requestId !== 'string') {
+      throw new Error('Invalid request ID');
+    }
+    return ipcRenderer.invoke('analysis:resume', requestId);
+  },
+
   // Analysis progress monitoring
   onAnalysisProgressUpdate: (callback: (progress: any) => void) => {
     const wrappedCallback = (_event: any, progress: any) => callback(progress);
@@ -207,6 +310,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
       continueOnError?: boolean;
       createBackups?: boolean;
       validateBefore?: boolean;
+      conflictStrategy?: 'skip' | 'auto-suffix' | 'overwrite-with-backup' | 'keep-newer' | 'keep-larger' | 'ask';
+      conflictDecisions?: Record<number, 'skip' | 'auto-suffix' | 'overwrite-with-backup' | 'keep-newer' | 'keep-larger' | 'ask'>;
+      rewriteReferences?: boolean;
+      fileNameMode?: 'native' | 'portable';
     };
   }) => {
     return ipcRenderer.invoke('suggestions:execute', options);
@@ -230,6 +337,32 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return ipcRenderer.invoke('suggestions:undoTransaction', transactionId, reason);
   },
 
+  exportExecutionPlan: (options: {
+    suggestionIds?: number[];
+    format: 'json' | 'shell';
+    outputPath?: string;
+    executionOptions?: {
+      createBackups?: boolean;
+      conflictStrategy?: 'skip' | 'auto-suffix' | 'overwrite-with-backup' | 'keep-newer' | 'keep-larger' | 'ask';
+      conflictDecisions?: Record<number, 'skip' | 'auto-suffix' | 'overwrite-with-backup' | 'keep-newer' | 'keep-larger' | 'ask'>;
+      includeSidecars?: boolean;
+      rewriteReferences?: boolean;
+      fileNameMode?: 'native' | 'portable';
+    };
+  }) => {
+    if (options.format !== 'json' && options.format !== 'shell') {
+      throw new Error('Invalid plan format');
+    }
+    return ipcRenderer.invoke('suggestions:exportPlan', options);
+  },
+
+  importExecutionPlan: (manifestPath: string) => {
+    if (typeof manifestPath !== 'string') {
+      throw new Error('Invalid manifest path');
+    }
+    return ipcRenderer.invoke('suggestions:importPlan', manifestPath);
+  },
+
   // Settings and user preferences management
   settings: {
     getUserProfile: () => ipcRenderer.invoke('settings:getUserProfile'),
@@ -260,6 +393,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       'analysis:getProgress',
       'analysis:getResults',
       'analysis:getSessionHistory',
+      'analysis:getResumableSessions',
+      'analysis:resume',
       'analysis:getModelMetrics',
       // Enhanced UI state synchronization channels
       'ui:getAppState',
@@ -289,6 +424,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       'suggestions:getExecutionStatus',
       'suggestions:cancelExecution',
       'suggestions:undoTransaction',
+      'suggestions:exportPlan',
+      'suggestions:importPlan',
       // History operation channels
       'history:getOperations',
       'history:prepareUndo',
@@ -376,6 +513,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       'suggestion:executionProgress',
       'suggestion:executionCompleted',
       'suggestion:executionFailed',
+      // Agent manager event channels
+      'agent:systemHealth',
       // System monitoring event channels
       'system:health-update',
       'system:error',
@@ -5,6 +5,8 @@ import AppLayout, { NavigationItem } from './components/AppLayout';
 import Dashboard from './components/Dashboard';
 import BatchOperationManager from './components/BatchOperationManager';
 import OperationHistory from './components/OperationHistory';
+import DuplicatesView from './components/DuplicatesView';
+import OrganizerView from './components/OrganizerView';
 import SystemHealth from './components/SystemHealth';
 import Settings from './components/Settings';
 import TroubleshootingInterface from './components/TroubleshootingInterface';
@@ -70,6 +72,18 @@ const AppContent: React.FC = () => {
       />,
       badge: state.systemStatus.operations.active > 0 ? state.systemStatus.operations.active : undefined
     },
+    {
+      id: 'duplicates',
+      label: 'Duplicates',
+      icon: '🗂️',
+      component: <DuplicatesView />
+    },
+    {
+      id: 'organizer',
+      label: 'Organizer',
+      icon: '🧭',
+      component: <OrganizerView />
+    },
     {
       id: 'history',
       label: 'History',
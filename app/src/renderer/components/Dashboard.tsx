@@ -3,7 +3,7 @@ import './Dashboard.css';
 import DirectoryPicker from './DirectoryPicker';
 import ModelSelector from './ModelSelector';
 import FileAnalysisResults from './FileAnalysisResults';
-import { ElectronAPI } from '../../types/electron';
+import { ElectronAPI, ResumableAnalysisSessionInfo } from '../../types/electron';
 
 interface WorkflowStep {
   id: string;
@@ -25,6 +25,12 @@ interface AnalysisProgress {
   estimatedTimeRemaining: number;
   phase: 'initializing' | 'analyzing' | 'completing' | 'complete' | 'error';
   errorRate: number;
+  queueWait?: {
+    queuedTasks: number;
+    longestWaitTime: number;
+    sessionsAhead: number;
+    availableSlots: number;
+  };
 }
 
 interface AnalysisSessionResult {
@@ -82,6 +88,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [currentRequestId, setCurrentRequestId] = useState<string | null>(null);
   const [scannedFileIds, setScannedFileIds] = useState<number[]>([]);
+  // Set by an incremental rescan: the new and changed files, which are all that need analysis
+  const [changedFileIds, setChangedFileIds] = useState<number[] | null>(null);
+  const analysisFileIds = changedFileIds ?? scannedFileIds;
+  const [resumableSessions, setResumableSessions] = useState<ResumableAnalysisSessionInfo[]>([]);
 
   // Suggestion execution state
   const [isExecutingSuggestions, setIsExecutingSuggestions] = useState(false);
@@ -254,9 +264,26 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
     };
   }, [currentStep]);
 
+  // Offer to resume analyses interrupted by a quit or crash
+  useEffect(() => {
+    const loadResumableSessions = async () => {
+      try {
+        const result = await window.electronAPI?.getResumableAnalysisSessions?.();
+        if (result?.success && result.sessions) {
+          setResumableSessions(result.sessions);
+        }
+      } catch (error) {
+        console.error('Failed to load interrupted analysis sessions:', error);
+      }
+    };
+
+    loadResumableSessions();
+  }, []);
+
   // Load scanned files when directory changes
   useEffect(() => {
     const loadScanResults = async () => {
+      setChangedFileIds(null);
       if (!selectedDirectory) {
         setScannedFileIds([]);
         return;
@@ -278,6 +305,28 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
     loadScanResults();
   }, [selectedDirectory]);
 
+  // Narrow analysis to what an incremental rescan of the directory found new or changed
+  useEffect(() => {
+    const electronAPI = window.electronAPI;
+    if (!selectedDirectory || !electronAPI?.onScanDelta) return;
+
+    return electronAPI.onScanDelta(async (delta) => {
+      if (delta.rootPath !== selectedDirectory) return;
+
+      try {
+        const scanResults = await electronAPI.getScanResults?.(selectedDirectory) || [];
+        // Moved files keep their content and with it their analysis
+        const changedPaths = new Set([...delta.added, ...delta.modified]);
+        setScannedFileIds(scanResults.map((file: any) => file.id).filter(Boolean));
+        setChangedFileIds(scanResults
+          .filter((file: any) => file.id && changedPaths.has(file.path))
+          .map((file: any) => file.id));
+      } catch (error) {
+        console.error('Failed to load scan results:', error);
+      }
+    });
+  }, [selectedDirectory]);
+
   const handleDirectorySelected = (path: string) => {
     setSelectedDirectory(path);
     if (path && selectedModels.mainModel) {
@@ -298,6 +347,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
       setAnalysisError('Missing requirements for analysis: directory, model, or scanned files');
       return;
     }
+    if (analysisFileIds.length === 0) {
+      setAnalysisError('No new or changed files to analyze since the last scan');
+      return;
+    }
 
     try {
       setIsAnalyzing(true);
@@ -314,12 +367,12 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
 
       console.log('Starting analysis with:', {
         requestId,
-        fileIds: scannedFileIds,
+        fileIds: analysisFileIds,
         directory: selectedDirectory,
         model: selectedModels.mainModel
       });
 
-      await electronAPI.startFileAnalysis(scannedFileIds, 'rename-suggestions', {
+      await electronAPI.startFileAnalysis(analysisFileIds, 'rename-suggestions', {
         requestId,
         isInteractive: true,
         priority: 'high',
@@ -340,7 +393,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
         index === 2 ? { ...step, status: 'error' } : step
       ));
     }
-  }, [selectedDirectory, selectedModels.mainModel, scannedFileIds]);
+  }, [selectedDirectory, selectedModels.mainModel, scannedFileIds, analysisFileIds]);
 
   const handleCancelAnalysis = useCallback(async () => {
     if (!currentRequestId) return;
@@ -360,6 +413,41 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
     }
   }, [currentRequestId]);
 
+  const handleResumeAnalysis = useCallback(async (requestId: string) => {
+    try {
+      const electronAPI = window.electronAPI;
+      if (!electronAPI.resumeFileAnalysis) {
+        throw new Error('Resuming analysis is not available');
+      }
+
+      const result = await electronAPI.resumeFileAnalysis(requestId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to resume analysis');
+      }
+
+      setResumableSessions(prev => prev.filter(session => session.requestId !== requestId));
+      setAnalysisError(null);
+      setAnalysisResults(null);
+      setCurrentRequestId(requestId);
+      setAnalysisProgress(result.progress || null);
+      setIsAnalyzing(true);
+      setCurrentStep(2);
+
+    } catch (error) {
+      console.error('Failed to resume analysis:', error);
+      setAnalysisError(error instanceof Error ? error.message : 'Failed to resume analysis');
+    }
+  }, []);
+
+  const handleDiscardInterruptedAnalysis = useCallback(async (requestId: string) => {
+    try {
+      await window.electronAPI.cancelFileAnalysis?.(requestId);
+      setResumableSessions(prev => prev.filter(session => session.requestId !== requestId));
+    } catch (error) {
+      console.error('Failed to discard interrupted analysis:', error);
+    }
+  }, []);
+
   const handleRetryAnalysis = useCallback(() => {
     setAnalysisError(null);
     handleStartAnalysis();
@@ -510,7 +598,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
                 {selectedModels.subModel && (
                   <p><strong>Sub Model:</strong> {selectedModels.subModel}</p>
                 )}
-                <p><strong>Files to analyze:</strong> {scannedFileIds.length}</p>
+                <p>
+                  <strong>Files to analyze:</strong> {analysisFileIds.length}
+                  {changedFileIds && ` (new or changed since the last scan, of ${scannedFileIds.length})`}
+                </p>
               </div>
 
               {/* Analysis Progress */}
@@ -527,6 +618,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
                     {analysisProgress.estimatedTimeRemaining > 0 && (
                       <p><strong>Estimated time remaining:</strong> {Math.round(analysisProgress.estimatedTimeRemaining)}s</p>
                     )}
+                    {analysisProgress.queueWait && (
+                      <p className="queue-wait">
+                        <strong>Waiting:</strong> {analysisProgress.queueWait.queuedTasks} tasks queued for up to{' '}
+                        {Math.round(analysisProgress.queueWait.longestWaitTime / 1000)}s
+                        {analysisProgress.queueWait.availableSlots === 0 && ', all agent slots are busy'}
+                        {analysisProgress.queueWait.sessionsAhead > 0 &&
+                          ` (${analysisProgress.queueWait.sessionsAhead} other ${analysisProgress.queueWait.sessionsAhead === 1 ? 'analysis goes' : 'analyses go'} first)`}
+                      </p>
+                    )}
                   </div>
                   <div className="progress-bar">
                     <div 
@@ -597,7 +697,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
                 <button 
                   className="action-button primary"
                   onClick={handleStartAnalysis}
-                  disabled={scannedFileIds.length === 0}
+                  disabled={analysisFileIds.length === 0}
                 >
                   🔍 Start AI Analysis
                 </button>
@@ -775,6 +875,35 @@ const Dashboard: React.FC<DashboardProps> = ({ onWorkflowComplete }) => {
         <p>Follow the steps below to organize your files with AI assistance</p>
       </div>
 
+      {/* Interrupted Analyses */}
+      {!isAnalyzing && resumableSessions.length > 0 && (
+        <div className="interrupted-analyses">
+          <h4>Interrupted Analysis</h4>
+          {resumableSessions.map(session => (
+            <div key={session.requestId} className="interrupted-analysis">
+              <p>
+                {session.rootPath || 'Selected files'}: {session.processedFiles} of {session.totalFiles} files analyzed,
+                {' '}{session.remainingTasks} remaining (started {new Date(session.startedAt).toLocaleString()})
+              </p>
+              <div className="error-actions">
+                <button
+                  className="action-button primary"
+                  onClick={() => handleResumeAnalysis(session.requestId)}
+                >
+                  ▶ Resume
+                </button>
+                <button
+                  className="action-button secondary"
+                  onClick={() => handleDiscardInterruptedAnalysis(session.requestId)}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Workflow Progress */}
       <div className="workflow-progress">
         <div className="progress-steps">
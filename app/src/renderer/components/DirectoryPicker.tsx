@@ -96,8 +96,8 @@ const DirectoryPicker: React.FC<DirectoryPickerProps> = ({ onDirectorySelected,
         removeProgressListener = electronAPI.onScanProgress(handleScanProgressUpdate);
       }
 
-      // Start scanning
-      await electronAPI.scanDirectory?.({ rootPath: selectedPath });
+      // Start scanning - incremental so rescans only touch changed files
+      await electronAPI.scanDirectory?.({ rootPath: selectedPath, incremental: true });
       
       // Fetch scan results after completion
       const results = await electronAPI.getScanResults?.(selectedPath);
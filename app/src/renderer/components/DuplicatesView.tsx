@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import './DuplicatesView.css';
+
+// Utility function to format file sizes
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+interface DuplicateFile {
+  id: number;
+  path: string;
+  size: number;
+  mtime: number;
+  sha256?: string;
+}
+
+interface DuplicateGroup {
+  id: string;
+  matchType: 'exact' | 'near';
+  files: DuplicateFile[];
+  suggestedKeeperId: number;
+  reclaimableBytes: number;
+}
+
+interface LastResolution {
+  transactionId: string;
+  processedFiles: number;
+  action: 'delete' | 'move';
+}
+
+const DuplicatesView: React.FC = () => {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [keepers, setKeepers] = useState<Record<string, number>>({});
+  const [moveFolder, setMoveFolder] = useState<string>('');
+  const [loading, setLoading] = useState(true);
+  const [resolvingGroup, setResolvingGroup] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+  const [lastResolution, setLastResolution] = useState<LastResolution | null>(null);
+
+  const loadDuplicates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await window.electronAPI.findDuplicates?.();
+
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to find duplicates');
+      }
+
+      const found = response.groups || [];
+      setGroups(found);
+      setKeepers(Object.fromEntries(found.map(group => [group.id, group.suggestedKeeperId])));
+    } catch (err) {
+      console.error('Failed to load duplicates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load duplicates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const handleSelectMoveFolder = async () => {
+    const folder = await window.electronAPI.selectDirectory?.();
+    if (folder && folder.trim()) {
+      setMoveFolder(folder);
+    }
+  };
+
+  const handleResolve = async (group: DuplicateGroup, action: 'delete' | 'move') => {
+    if (action === 'move' && !moveFolder) {
+      setError('Choose a folder to move duplicates into first');
+      return;
+    }
+
+    const keeperId = keepers[group.id] ?? group.suggestedKeeperId;
+    const others = group.files.length - 1;
+    const verb = action === 'delete' ? 'Delete' : `Move to ${moveFolder}`;
+    if (!window.confirm(`${verb}: ${others} file${others === 1 ? '' : 's'}? The kept copy stays in place.`)) {
+      return;
+    }
+
+    try {
+      setResolvingGroup(group.id);
+      setError('');
+      const result = await window.electronAPI.resolveDuplicates?.({
+        keeperId,
+        fileIds: group.files.map(file => file.id),
+        action,
+        targetFolder: action === 'move' ? moveFolder : undefined,
+      });
+
+      if (!result?.success) {
+        throw new Error(result?.error || result?.errors?.join('; ') || 'Failed to resolve duplicates');
+      }
+
+      setLastResolution({
+        transactionId: result.transactionId || '',
+        processedFiles: result.processedFiles || 0,
+        action,
+      });
+      setGroups(current => current.filter(g => g.id !== group.id));
+    } catch (err) {
+      console.error('Failed to resolve duplicates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resolve duplicates');
+    } finally {
+      setResolvingGroup(null);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastResolution) return;
+
+    try {
+      setError('');
+      const result = await window.electronAPI.undoDuplicateResolution?.(lastResolution.transactionId);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Undo failed');
+      }
+      setLastResolution(null);
+      await loadDuplicates();
+    } catch (err) {
+      console.error('Failed to undo duplicate resolution:', err);
+      setError(err instanceof Error ? err.message : 'Undo failed');
+    }
+  };
+
+  const totalReclaimable = groups.reduce((sum, group) => sum + group.reclaimableBytes, 0);
+
+  if (loading) {
+    return (
+      <div className="duplicates-view loading">
+        <p>Searching for duplicate files...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="duplicates-view">
+      <div className="duplicates-header">
+        <div>
+          <h2>Duplicates</h2>
+          <p className="duplicates-summary">
+            {groups.length} group{groups.length === 1 ? '' : 's'} · {formatFileSize(totalReclaimable)} reclaimable
+          </p>
+        </div>
+        <div className="duplicates-actions">
+          <button className="secondary-button" onClick={handleSelectMoveFolder}>
+            {moveFolder ? `Move to: ${moveFolder}` : 'Choose move folder'}
+          </button>
+          <button className="secondary-button" onClick={loadDuplicates}>
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="duplicates-error">{error}</div>}
+
+      {lastResolution && (
+        <div className="duplicates-undo-banner">
+          <span>
+            {lastResolution.action === 'delete' ? 'Deleted' : 'Moved'} {lastResolution.processedFiles} file{lastResolution.processedFiles === 1 ? '' : 's'}.
+          </span>
+          <button className="secondary-button" onClick={handleUndo}>Undo</button>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="duplicates-empty">
+          <p>No duplicate files found in scanned directories.</p>
+        </div>
+      ) : (
+        <div className="duplicate-groups">
+          {groups.map(group => (
+            <div key={group.id} className="duplicate-group">
+              <div className="duplicate-group-header">
+                <span className={`match-badge ${group.matchType}`}>
+                  {group.matchType === 'exact' ? 'Identical content' : 'Likely copies'}
+                </span>
+                <span className="duplicate-group-size">
+                  {group.files.length} files · {formatFileSize(group.files[0].size)} each
+                </span>
+              </div>
+
+              <ul className="duplicate-files">
+                {group.files.map(file => (
+                  <li key={file.id} className={keepers[group.id] === file.id ? 'keeper' : ''}>
+                    <label>
+                      <input
+                        type="radio"
+                        name={`keeper-${group.id}`}
+                        checked={keepers[group.id] === file.id}
+                        onChange={() => setKeepers(current => ({ ...current, [group.id]: file.id }))}
+                      />
+                      <span className="duplicate-file-path" title={file.path}>{file.path}</span>
+                    </label>
+                    <span className="duplicate-file-date">
+                      {new Date(file.mtime * 1000).toLocaleDateString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="duplicate-group-actions">
+                <button
+                  className="danger-button"
+                  disabled={resolvingGroup !== null}
+                  onClick={() => handleResolve(group, 'delete')}
+                >
+                  Delete others
+                </button>
+                <button
+                  className="secondary-button"
+                  disabled={resolvingGroup !== null || !moveFolder}
+                  onClick={() => handleResolve(group, 'move')}
+                >
+                  Move others
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesView;
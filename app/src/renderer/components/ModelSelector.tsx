@@ -2,28 +2,32 @@ import React, { useState, useEffect } from 'react';
 import './ModelSelector.css';
 import { ElectronAPI } from '../../types/electron';
 
-// Ollama model types (matching the backend types)
-interface OllamaModel {
+// Model provider types (matching LLMModel and LLMHealthStatus in the backend)
+interface ProviderModel {
   name: string;
-  digest: string;
-  size: number;
-  modified_at: string;
+  size: number;                        // 0 when the provider does not report sizes
+  digest?: string;
+  modified_at?: string;
   details?: {
-    format: string;
-    family: string;
-    families: string[] | null;
-    parameter_size: string;
-    quantization_level: string;
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
   };
 }
 
-interface OllamaHealth {
+interface ProviderHealth {
   status: 'healthy' | 'unhealthy' | 'unknown';
   message?: string;
   models_available: boolean;
   model_count: number;
+  provider?: 'ollama' | 'openai-compatible';
 }
 
+const getProviderLabel = (health: ProviderHealth): string =>
+  health.provider === 'openai-compatible' ? 'OpenAI-compatible server' : 'Ollama';
+
 interface ModelMemoryEstimate {
   modelName: string;
   estimatedMemory: number;
@@ -45,7 +49,7 @@ const formatMemorySize = (bytes: number): string => {
 };
 
 // Utility function to get model family icon
-const getModelFamilyIcon = (model: OllamaModel): string => {
+const getModelFamilyIcon = (model: ProviderModel): string => {
   const family = model.details?.family?.toLowerCase() || model.name.toLowerCase();
   
   if (family.includes('llama')) return '🦙';
@@ -59,8 +63,8 @@ const getModelFamilyIcon = (model: OllamaModel): string => {
 };
 
 const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled = false }) => {
-  const [health, setHealth] = useState<OllamaHealth>({ status: 'unknown', models_available: false, model_count: 0 });
-  const [models, setModels] = useState<OllamaModel[]>([]);
+  const [health, setHealth] = useState<ProviderHealth>({ status: 'unknown', models_available: false, model_count: 0 });
+  const [models, setModels] = useState<ProviderModel[]>([]);
   const [memoryEstimates, setMemoryEstimates] = useState<Record<string, number>>({});
   const [selectedMainModel, setSelectedMainModel] = useState<string | null>(null);
   const [selectedSubModel, setSelectedSubModel] = useState<string | null>(null);
@@ -86,7 +90,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
       setHealth(healthStatus);
       
       if (healthStatus.status !== 'healthy') {
-        setError(healthStatus.message || 'Ollama is not available');
+        setError(healthStatus.message || `${getProviderLabel(healthStatus)} is not available`);
         setIsLoading(false);
         return;
       }
@@ -116,7 +120,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
       setIsLoading(false);
     } catch (err) {
       console.error('Failed to load model data:', err);
-      setError('Failed to connect to Ollama. Please ensure Ollama is running.');
+      setError('Failed to connect to the model provider. Please ensure it is running.');
       setIsLoading(false);
     }
   };
@@ -130,7 +134,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
         setHealth(healthUpdate);
         
         if (healthUpdate.status === 'unhealthy') {
-          setError(healthUpdate.message || 'Ollama connection lost');
+          setError(healthUpdate.message || 'Model provider connection lost');
         } else if (healthUpdate.status === 'healthy' && error) {
           // Clear error if we're healthy again
           setError('');
@@ -183,7 +187,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
     return (
       <div className="model-selector loading">
         <div className="loading-spinner">⟳</div>
-        <p>Loading Ollama models...</p>
+        <p>Loading models...</p>
       </div>
     );
   }
@@ -193,17 +197,26 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
       <div className="model-selector error-state">
         <div className="error-content">
           <div className="error-icon">🚫</div>
-          <h3>Ollama Not Available</h3>
-          <p>{error || 'Unable to connect to Ollama daemon'}</p>
+          <h3>{getProviderLabel(health)} Not Available</h3>
+          <p>{error || `Unable to connect to ${getProviderLabel(health)}`}</p>
           
           <div className="troubleshooting">
             <h4>Troubleshooting:</h4>
-            <ul>
-              <li>Make sure Ollama is installed and running</li>
-              <li>Check that Ollama is listening on <code>localhost:11434</code></li>
-              <li>Try running <code>ollama serve</code> in your terminal</li>
-              <li>Ensure no firewall is blocking the connection</li>
-            </ul>
+            {health.provider === 'openai-compatible' ? (
+              <ul>
+                <li>Make sure llama.cpp server or LM Studio's local server is running</li>
+                <li>Check the endpoint under Settings → Model Provider</li>
+                <li>Confirm <code>/v1/models</code> responds at that endpoint</li>
+                <li>Ensure no firewall is blocking the connection</li>
+              </ul>
+            ) : (
+              <ul>
+                <li>Make sure Ollama is installed and running</li>
+                <li>Check that Ollama is listening on <code>localhost:11434</code></li>
+                <li>Try running <code>ollama serve</code> in your terminal</li>
+                <li>Ensure no firewall is blocking the connection</li>
+              </ul>
+            )}
           </div>
           
           <button className="retry-button" onClick={handleRefresh}>
@@ -220,16 +233,23 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
         <div className="no-models-content">
           <div className="status-icon">📦</div>
           <h3>No Models Available</h3>
-          <p>Ollama is running, but no models are installed.</p>
+          <p>{getProviderLabel(health)} is running, but no models are available.</p>
           
           <div className="getting-started">
             <h4>Get Started:</h4>
-            <ol>
-              <li>Open your terminal</li>
-              <li>Run <code>ollama pull llama2</code> to download a model</li>
-              <li>Or try <code>ollama pull codellama</code> for code tasks</li>
-              <li>Click "Refresh" once download is complete</li>
-            </ol>
+            {health.provider === 'openai-compatible' ? (
+              <ol>
+                <li>Load a model in LM Studio, or start llama.cpp server with <code>-m model.gguf</code></li>
+                <li>Click "Refresh" once the model is loaded</li>
+              </ol>
+            ) : (
+              <ol>
+                <li>Open your terminal</li>
+                <li>Run <code>ollama pull llama2</code> to download a model</li>
+                <li>Or try <code>ollama pull codellama</code> for code tasks</li>
+                <li>Click "Refresh" once download is complete</li>
+              </ol>
+            )}
           </div>
           
           <button className="refresh-button" onClick={handleRefresh}>
@@ -248,7 +268,7 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelSelected, disabled
           <span className={`health-indicator ${health.status}`}>
             {health.status === 'healthy' ? '🟢' : '🟡'}
           </span>
-          <span>Ollama: {health.status}</span>
+          <span>{getProviderLabel(health)}: {health.status}</span>
           <span className="model-count">({health.model_count} models)</span>
           <button className="refresh-button" onClick={handleRefresh} disabled={disabled}>
             🔄
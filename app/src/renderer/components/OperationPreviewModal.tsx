@@ -415,28 +415,63 @@ const OperationPreviewModal: React.FC<OperationPreviewModalProps> = ({
 
                 {expandedBatches.has(batch.id) && (
                   <div className="batch-operations">
-                    {batch.suggestions.map((suggestion, index) => (
-                      <div key={suggestion.id || index} className="operation-item">
-                        <div className="operation-info">
-                          <div className="operation-path">
-                            <span className="operation-type">{batch.operations[index]?.type || 'rename'}</span>
-                            <span className="original-path">File {suggestion.fileId}</span>
-                            <span className="arrow">→</span>
-                            <span className="target-path">{suggestion.suggestedValue}</span>
-                          </div>
-                          {showAdvancedDetails && (
-                            <div className="operation-details">
-                              <span className="confidence">
-                                {Math.round(suggestion.adjustedConfidence * 100)}% confidence
-                              </span>
-                              {suggestion.reasoning && (
-                                <span className="reasoning">{suggestion.reasoning}</span>
-                              )}
+                    {batch.suggestions.map((suggestion, index) => {
+                      const companionPaths = batch.operations[index]?.companionPaths || [];
+                      return (
+                        <div key={suggestion.id || index} className="operation-item">
+                          <div className="operation-info">
+                            <div className="operation-path">
+                              <span className="operation-type">{batch.operations[index]?.type || 'rename'}</span>
+                              <span className="original-path">File {suggestion.fileId}</span>
+                              <span className="arrow">→</span>
+                              <span className="target-path">{suggestion.suggestedValue}</span>
                             </div>
-                          )}
+                            {companionPaths.length > 0 && (
+                              <div className="operation-companions">
+                                <span className="companions-label">
+                                  With {companionPaths.length} sidecar file{companionPaths.length !== 1 ? 's' : ''}:
+                                </span>
+                                {companionPaths.map(companionPath => (
+                                  <span key={companionPath} className="companion-path">
+                                    {companionPath.substring(companionPath.lastIndexOf('/') + 1)}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {showAdvancedDetails && (
+                              <div className="operation-details">
+                                <span className="confidence">
+                                  {Math.round(suggestion.adjustedConfidence * 100)}% confidence
+                                </span>
+                                {suggestion.reasoning && (
+                                  <span className="reasoning">{suggestion.reasoning}</span>
+                                )}
+                              </div>
+                            )}
+                          </div>
                         </div>
+                      );
+                    })}
+                    {batch.referenceEdits && batch.referenceEdits.length > 0 && (
+                      <div className="reference-edits">
+                        <h5>Updated links in {batch.referenceEdits.length} document{batch.referenceEdits.length !== 1 ? 's' : ''}</h5>
+                        {batch.referenceEdits.map(edit => (
+                          <div key={edit.path} className="reference-edit">
+                            <div className="reference-edit-path">{edit.path}</div>
+                            {edit.changes.map(change => (
+                              <div key={change.line} className="reference-diff">
+                                <div className="diff-line diff-removed">
+                                  <span className="diff-line-number">{change.line}</span>- {change.before}
+                                </div>
+                                <div className="diff-line diff-added">
+                                  <span className="diff-line-number">{change.line}</span>+ {change.after}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    )}
                   </div>
                 )}
               </div>
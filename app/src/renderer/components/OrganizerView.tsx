@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { OrganizerRuleConfig } from '../../types/electron';
+import './OrganizerView.css';
+
+interface PlannedMove {
+  operationId: string;
+  fileId: number;
+  sourcePath: string;
+  targetPath: string;
+  ruleId: string;
+  ruleName: string;
+}
+
+interface OrganizerPlan {
+  planId: string;
+  operations: PlannedMove[];
+  unmatchedFiles: number;
+  alreadyOrganized: number;
+}
+
+interface LastExecution {
+  transactionId: string;
+  movedFiles: number;
+}
+
+const TOKEN_HINT = '{category} {year} {month} {day} {extension} {original_name} {original_stem} {suggested_name} {parent_folder}';
+
+const newRule = (): OrganizerRuleConfig => ({
+  id: `rule_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+  name: 'New rule',
+  enabled: true,
+  conditions: {},
+  destination: '{category}/{year}',
+});
+
+// Comma-separated text fields map to string list conditions
+const toList = (value: string): string[] | undefined => {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const OrganizerView: React.FC = () => {
+  const [rules, setRules] = useState<OrganizerRuleConfig[]>([]);
+  const [rootPath, setRootPath] = useState<string>('');
+  const [plan, setPlan] = useState<OrganizerPlan | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [lastExecution, setLastExecution] = useState<LastExecution | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setError('');
+      const response = await window.electronAPI.getOrganizerRules?.();
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to load organizer rules');
+      }
+      setRules(response.rules || []);
+      setDirty(false);
+    } catch (err) {
+      console.error('Failed to load organizer rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load organizer rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateRule = (index: number, changes: Partial<OrganizerRuleConfig>) => {
+    setRules(current => current.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+    setDirty(true);
+  };
+
+  const updateConditions = (index: number, changes: Partial<OrganizerRuleConfig['conditions']>) => {
+    setRules(current => current.map((rule, i) =>
+      i === index ? { ...rule, conditions: { ...rule.conditions, ...changes } } : rule
+    ));
+    setDirty(true);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rules.length) return;
+    setRules(current => {
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const removeRule = (index: number) => {
+    setRules(current => current.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      setError('');
+      const response = await window.electronAPI.saveOrganizerRules?.(rules);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Failed to save organizer rules');
+      }
+      setDirty(false);
+    } catch (err) {
+      console.error('Failed to save organizer rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save organizer rules');
+    }
+  };
+
+  const handleSelectRoot = async () => {
+    const folder = await window.electronAPI.selectDirectory?.();
+    if (folder && folder.trim()) {
+      setRootPath(folder);
+      setPlan(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!rootPath) return;
+
+    try {
+      setBusy(true);
+      setError('');
+      const response = await window.electronAPI.previewOrganization?.({ rootPath });
+      if (!response?.success || !response.plan) {
+        throw new Error(response?.error || 'Failed to preview organization');
+      }
+      setPlan(response.plan);
+      setSelected(new Set(response.plan.operations.map(operation => operation.operationId)));
+    } catch (err) {
+      console.error('Failed to preview organization:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview organization');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExecute = async () => {
+    if (!plan || selected.size === 0) return;
+    if (!window.confirm(`Move ${selected.size} file${selected.size === 1 ? '' : 's'}?`)) {
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setError('');
+      const result = await window.electronAPI.executeOrganization?.(plan.planId, Array.from(selected));
+      if (!result?.success) {
+        throw new Error(result?.error || result?.errors?.join('; ') || 'Failed to organize files');
+      }
+      setLastExecution({ transactionId: result.transactionId || '', movedFiles: result.movedFiles || 0 });
+      setPlan(null);
+    } catch (err) {
+      console.error('Failed to organize files:', err);
+      setError(err instanceof Error ? err.message : 'Failed to organize files');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastExecution) return;
+
+    try {
+      setError('');
+      const result = await window.electronAPI.undoOrganization?.(lastExecution.transactionId);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Undo failed');
+      }
+      setLastExecution(null);
+    } catch (err) {
+      console.error('Failed to undo organization:', err);
+      setError(err instanceof Error ? err.message : 'Undo failed');
+    }
+  };
+
+  const toggleOperation = (operationId: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(operationId)) {
+        next.delete(operationId);
+      } else {
+        next.add(operationId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="organizer-view">
+      <div className="organizer-header">
+        <div>
+          <h2>Organizer</h2>
+          <p className="organizer-summary">Rules are applied top to bottom; the first match decides where a file goes.</p>
+        </div>
+        <div className="organizer-actions">
+          <button className="secondary-button" onClick={() => { setRules(current => [...current, newRule()]); setDirty(true); }}>
+            Add rule
+          </button>
+          <button className="secondary-button" disabled={!dirty} onClick={handleSave}>
+            Save rules
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="organizer-error">{error}</div>}
+
+      {lastExecution && (
+        <div className="organizer-undo-banner">
+          <span>Moved {lastExecution.movedFiles} file{lastExecution.movedFiles === 1 ? '' : 's'}.</span>
+          <button className="secondary-button" onClick={handleUndo}>Undo</button>
+        </div>
+      )}
+
+      <div className="organizer-rules">
+        {rules.length === 0 && <p className="organizer-empty">No rules yet.</p>}
+        {rules.map((rule, index) => (
+          <div key={rule.id} className={`organizer-rule ${rule.enabled ? '' : 'disabled'}`}>
+            <div className="organizer-rule-header">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                title="Enabled"
+                onChange={e => updateRule(index, { enabled: e.target.checked })}
+              />
+              <input
+                className="organizer-rule-name"
+                value={rule.name}
+                onChange={e => updateRule(index, { name: e.target.value })}
+              />
+              <button className="secondary-button" disabled={index === 0} onClick={() => moveRule(index, -1)}>↑</button>
+              <button className="secondary-button" disabled={index === rules.length - 1} onClick={() => moveRule(index, 1)}>↓</button>
+              <button className="danger-button" onClick={() => removeRule(index)}>Remove</button>
+            </div>
+
+            <div className="organizer-rule-fields">
+              <label>
+                Extensions
+                <input
+                  placeholder="pdf, docx"
+                  defaultValue={rule.conditions.extensions?.join(', ') || ''}
+                  onBlur={e => updateConditions(index, { extensions: toList(e.target.value) })}
+                />
+              </label>
+              <label>
+                Categories
+                <input
+                  placeholder="Finance"
+                  defaultValue={rule.conditions.categories?.join(', ') || ''}
+                  onBlur={e => updateConditions(index, { categories: toList(e.target.value) })}
+                />
+              </label>
+              <label>
+                Summary keywords
+                <input
+                  placeholder="invoice, receipt"
+                  defaultValue={rule.conditions.keywords?.join(', ') || ''}
+                  onBlur={e => updateConditions(index, { keywords: toList(e.target.value) })}
+                />
+              </label>
+              <label>
+                Path pattern
+                <input
+                  placeholder="Downloads/"
+                  value={rule.conditions.pathPattern || ''}
+                  onChange={e => updateConditions(index, { pathPattern: e.target.value || undefined })}
+                />
+              </label>
+              <label>
+                Destination folder
+                <input
+                  value={rule.destination}
+                  title={TOKEN_HINT}
+                  onChange={e => updateRule(index, { destination: e.target.value })}
+                />
+              </label>
+              <label>
+                File name
+                <input
+                  placeholder="{original_name}"
+                  value={rule.fileName || ''}
+                  title={TOKEN_HINT}
+                  onChange={e => updateRule(index, { fileName: e.target.value || undefined })}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="organizer-plan-controls">
+        <button className="secondary-button" onClick={handleSelectRoot}>
+          {rootPath ? `Folder: ${rootPath}` : 'Choose folder to organize'}
+        </button>
+        <button className="secondary-button" disabled={!rootPath || busy || dirty} onClick={handlePreview}>
+          Preview
+        </button>
+      </div>
+
+      {plan && (
+        <div className="organizer-plan">
+          <p className="organizer-summary">
+            {plan.operations.length} move{plan.operations.length === 1 ? '' : 's'} · {plan.unmatchedFiles} unmatched · {plan.alreadyOrganized} already in place
+          </p>
+          <ul className="organizer-moves">
+            {plan.operations.map(operation => (
+              <li key={operation.operationId}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={selected.has(operation.operationId)}
+                    onChange={() => toggleOperation(operation.operationId)}
+                  />
+                  <span className="organizer-move-path" title={operation.sourcePath}>{operation.sourcePath}</span>
+                  <span className="organizer-move-arrow">→</span>
+                  <span className="organizer-move-path" title={operation.targetPath}>{operation.targetPath}</span>
+                </label>
+                <span className="organizer-move-rule">{operation.ruleName}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="organizer-actions">
+            <button className="secondary-button" disabled={busy || selected.size === 0} onClick={handleExecute}>
+              Move selected
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrganizerView;
@@ -12,6 +12,7 @@ import {
   generateSampleFilteringPreview,
   SuggestionCategory
 } from '../../lib/confidence-threshold-config';
+import type { LLMProviderConfig, BackupRetentionConfig, BackupUsageInfo, SidecarRuleConfig } from '../../types/electron';
 import './Settings.css';
 
 interface UserProfile {
@@ -101,6 +102,14 @@ interface SettingsExportData {
   };
 }
 
+const GB = 1024 * 1024 * 1024;
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
+
 export const Settings: React.FC = () => {
   const { state } = useAppState();
   const [activeTab, setActiveTab] = useState<string>('model');
@@ -118,6 +127,16 @@ export const Settings: React.FC = () => {
     size: string;
     performance: 'low' | 'medium' | 'high';
   }>>([]);
+  const [providerSettings, setProviderSettings] = useState<LLMProviderConfig>({ type: 'ollama' });
+  const [providerTypes, setProviderTypes] = useState<LLMProviderConfig['type'][]>(['ollama', 'openai-compatible']);
+  const [providerStatus, setProviderStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [savingProvider, setSavingProvider] = useState(false);
+  const [backupUsage, setBackupUsage] = useState<BackupUsageInfo | null>(null);
+  const [backupRetention, setBackupRetention] = useState<BackupRetentionConfig | null>(null);
+  const [backupStatus, setBackupStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [cleaningBackups, setCleaningBackups] = useState(false);
+  const [sidecarRules, setSidecarRules] = useState<SidecarRuleConfig[] | null>(null);
+  const [sidecarStatus, setSidecarStatus] = useState<{ ok: boolean; message: string } | null>(null);
   const [unsavedChanges, setUnsavedChanges] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   
@@ -141,11 +160,20 @@ export const Settings: React.FC = () => {
   useEffect(() => {
     loadUserSettings();
     loadAvailableModels();
+    loadProviderSettings();
+    loadBackupUsage();
+    loadSidecarRules();
   }, []);
 
   // Initialize manual review queue
   useEffect(() => {
     const queue = new ManualReviewQueue(reviewQueueConfig);
+    queue.setFeedbackRecorder(async feedback => {
+      const result = await window.electronAPI.recordReviewFeedback?.(feedback);
+      if (result && !result.success) {
+        throw new Error(result.error || 'Failed to record review feedback');
+      }
+    });
     setManualReviewQueue(queue);
   }, [reviewQueueConfig]);
 
@@ -173,6 +201,114 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const loadProviderSettings = async () => {
+    try {
+      const response = await window.electronAPI.getLLMProvider?.();
+      if (response?.success && response.settings) {
+        setProviderSettings(response.settings);
+        setProviderTypes(response.providerTypes || providerTypes);
+      }
+    } catch (error) {
+      console.error('Failed to load model provider:', error);
+    }
+  };
+
+  const handleSaveProvider = async () => {
+    try {
+      setSavingProvider(true);
+      setProviderStatus(null);
+      const result = await window.electronAPI.setLLMProvider?.(providerSettings);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to switch model provider');
+      }
+      setProviderStatus({ ok: true, message: result.health?.message || 'Connected' });
+      loadAvailableModels();
+    } catch (error) {
+      setProviderStatus({ ok: false, message: error instanceof Error ? error.message : 'Failed to switch model provider' });
+    } finally {
+      setSavingProvider(false);
+    }
+  };
+
+  const loadBackupUsage = async () => {
+    try {
+      const response = await window.electronAPI.getBackupUsage?.();
+      if (response?.success) {
+        setBackupUsage(response.usage || null);
+        setBackupRetention(response.retention || null);
+      }
+    } catch (error) {
+      console.error('Failed to load backup usage:', error);
+    }
+  };
+
+  const handleSaveBackupRetention = async () => {
+    if (!backupRetention) return;
+
+    try {
+      setBackupStatus(null);
+      const result = await window.electronAPI.saveBackupRetention?.(backupRetention);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to save backup retention');
+      }
+      setBackupRetention(result.retention || backupRetention);
+      setBackupStatus({ ok: true, message: 'Retention saved' });
+    } catch (error) {
+      setBackupStatus({ ok: false, message: error instanceof Error ? error.message : 'Failed to save backup retention' });
+    }
+  };
+
+  const handleCleanUpBackups = async () => {
+    try {
+      setCleaningBackups(true);
+      setBackupStatus(null);
+      const result = await window.electronAPI.collectBackupGarbage?.();
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to clean up backups');
+      }
+      setBackupUsage(result.usage || backupUsage);
+      setBackupStatus({
+        ok: true,
+        message: `Removed ${result.result?.backupsRemoved || 0} backups, freed ${formatSize(result.result?.bytesFreed || 0)}`,
+      });
+    } catch (error) {
+      setBackupStatus({ ok: false, message: error instanceof Error ? error.message : 'Failed to clean up backups' });
+    } finally {
+      setCleaningBackups(false);
+    }
+  };
+
+  const loadSidecarRules = async () => {
+    try {
+      const response = await window.electronAPI.getSidecarRules?.();
+      if (response?.success) {
+        setSidecarRules(response.rules || null);
+      }
+    } catch (error) {
+      console.error('Failed to load sidecar rules:', error);
+    }
+  };
+
+  const updateSidecarRule = (index: number, changes: Partial<SidecarRuleConfig>) => {
+    setSidecarRules(rules => rules && rules.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const handleSaveSidecarRules = async () => {
+    if (!sidecarRules) return;
+
+    try {
+      setSidecarStatus(null);
+      const result = await window.electronAPI.saveSidecarRules?.(sidecarRules);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to save sidecar rules');
+      }
+      setSidecarRules(result.rules || sidecarRules);
+      setSidecarStatus({ ok: true, message: 'Sidecar rules saved' });
+    } catch (error) {
+      setSidecarStatus({ ok: false, message: error instanceof Error ? error.message : 'Failed to save sidecar rules' });
+    }
+  };
+
   const handlePreferenceChange = useCallback((
     section: keyof UserPreferences,
     key: string,
@@ -377,6 +513,59 @@ export const Settings: React.FC = () => {
 
   const renderModelConfigTab = () => (
     <div className="settings-tab-content">
+      <div className="settings-section">
+        <h3>Model Provider</h3>
+        <div className="form-group">
+          <label>Provider</label>
+          {providerTypes.map(type => (
+            <label key={type} className="checkbox-label">
+              <input
+                type="radio"
+                name="providerType"
+                value={type}
+                checked={providerSettings.type === type}
+                onChange={() => setProviderSettings({ ...providerSettings, type })}
+              />
+              {type === 'ollama' ? 'Ollama' : 'OpenAI-compatible (llama.cpp, LM Studio)'}
+            </label>
+          ))}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="providerEndpoint">Endpoint</label>
+          <input
+            type="text"
+            id="providerEndpoint"
+            value={providerSettings.endpoint || ''}
+            placeholder={providerSettings.type === 'ollama' ? 'http://127.0.0.1:11434' : 'http://127.0.0.1:8080'}
+            onChange={(e) => setProviderSettings({ ...providerSettings, endpoint: e.target.value })}
+            className="form-control"
+          />
+          <small className="form-help">Base URL of the server; leave empty for the provider's default</small>
+        </div>
+
+        {providerSettings.type === 'openai-compatible' && (
+          <div className="form-group">
+            <label htmlFor="providerApiKey">API Key</label>
+            <input
+              type="password"
+              id="providerApiKey"
+              value={providerSettings.apiKey || ''}
+              onChange={(e) => setProviderSettings({ ...providerSettings, apiKey: e.target.value })}
+              className="form-control"
+            />
+            <small className="form-help">Only needed when the server was started with an API key</small>
+          </div>
+        )}
+
+        <button className="btn btn-secondary" onClick={handleSaveProvider} disabled={savingProvider}>
+          {savingProvider ? 'Connecting...' : 'Test & Use Endpoint'}
+        </button>
+        {providerStatus && (
+          <div className={providerStatus.ok ? 'form-help' : 'error-message'}>{providerStatus.message}</div>
+        )}
+      </div>
+
       <div className="settings-section">
         <h3>Model Selection</h3>
         <div className="form-group">
@@ -1170,6 +1359,117 @@ export const Settings: React.FC = () => {
           </label>
         </div>
       </div>
+
+      {backupUsage && backupRetention && (
+        <div className="settings-section">
+          <h3>File Backups</h3>
+          <div className="form-group">
+            <small className="form-help">
+              {backupUsage.backupCount} backups using {formatSize(backupUsage.storedBytes)} on disk
+              ({formatSize(backupUsage.logicalBytes)} before deduplication)
+              {backupUsage.oldestBackupAt && `, oldest from ${new Date(backupUsage.oldestBackupAt).toLocaleDateString()}`}
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="backupMaxAgeDays">Keep Backups For (days)</label>
+            <input
+              type="number"
+              id="backupMaxAgeDays"
+              value={backupRetention.maxAgeDays}
+              onChange={(e) => setBackupRetention({ ...backupRetention, maxAgeDays: parseInt(e.target.value) || 0 })}
+              className="form-control"
+              min="0"
+            />
+            <small className="form-help">0 keeps backups until the size limit is reached</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="backupMaxTotalSize">Maximum Backup Size (GB)</label>
+            <input
+              type="number"
+              id="backupMaxTotalSize"
+              value={backupRetention.maxTotalBytes / GB}
+              onChange={(e) => setBackupRetention({
+                ...backupRetention,
+                maxTotalBytes: Math.round((parseFloat(e.target.value) || 0) * GB),
+              })}
+              className="form-control"
+              min="0"
+              step="0.5"
+            />
+            <small className="form-help">Oldest backups are removed first; 0 means no limit</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="backupKeepLastPerFile">Backups Kept Per File</label>
+            <input
+              type="number"
+              id="backupKeepLastPerFile"
+              value={backupRetention.keepLastPerFile}
+              onChange={(e) => setBackupRetention({ ...backupRetention, keepLastPerFile: parseInt(e.target.value) || 0 })}
+              className="form-control"
+              min="0"
+            />
+          </div>
+
+          <button className="btn btn-secondary" onClick={handleSaveBackupRetention}>
+            Save Retention
+          </button>
+          <button className="btn btn-secondary" onClick={handleCleanUpBackups} disabled={cleaningBackups}>
+            {cleaningBackups ? 'Cleaning Up...' : 'Clean Up Now'}
+          </button>
+          {backupStatus && (
+            <div className={backupStatus.ok ? 'form-help' : 'error-message'}>{backupStatus.message}</div>
+          )}
+        </div>
+      )}
+
+      {sidecarRules && (
+        <div className="settings-section">
+          <h3>Sidecar Files</h3>
+          <div className="form-group">
+            <small className="form-help">
+              Files with the same name and a companion extension are renamed and moved together
+              with their primary file, e.g. IMG_1234.xmp with IMG_1234.CR2
+            </small>
+          </div>
+
+          {sidecarRules.map((rule, index) => (
+            <div className="form-group" key={rule.id}>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateSidecarRule(index, { enabled: e.target.checked })}
+                />
+                {rule.name}
+              </label>
+              <input
+                type="text"
+                aria-label={`${rule.name} primary extensions`}
+                value={rule.primaryExtensions.join(', ')}
+                onChange={(e) => updateSidecarRule(index, { primaryExtensions: e.target.value.split(',').map(extension => extension.trim()) })}
+                className="form-control"
+              />
+              <input
+                type="text"
+                aria-label={`${rule.name} companion extensions`}
+                value={rule.companionExtensions.join(', ')}
+                onChange={(e) => updateSidecarRule(index, { companionExtensions: e.target.value.split(',').map(extension => extension.trim()) })}
+                className="form-control"
+              />
+            </div>
+          ))}
+
+          <button className="btn btn-secondary" onClick={handleSaveSidecarRules}>
+            Save Sidecar Rules
+          </button>
+          {sidecarStatus && (
+            <div className={sidecarStatus.ok ? 'form-help' : 'error-message'}>{sidecarStatus.message}</div>
+          )}
+        </div>
+      )}
     </div>
   );
 
@@ -51,6 +51,17 @@ interface SystemHealthData {
   recommendations: SystemRecommendation[];
 }
 
+// Mirrors ModelResidency in the main process
+interface ModelResidency {
+  modelName: string;
+  memoryMB: number;
+  activeSlots: number;
+  slotLimit: number;
+  queuedTasks: number;
+  loadedAt: number;
+  lastUsedAt: number;
+}
+
 interface SystemAlert {
   id: string;
   level: 'info' | 'warning' | 'error' | 'critical';
@@ -82,6 +93,7 @@ interface AgentControlAction {
 
 const SystemHealth: React.FC = () => {
   const [healthData, setHealthData] = useState<SystemHealthData | null>(null);
+  const [models, setModels] = useState<ModelResidency[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshInterval, setRefreshInterval] = useState(5000); // 5 seconds default
@@ -191,6 +203,7 @@ const SystemHealth: React.FC = () => {
     let unsubscribeHealthUpdate: (() => void) | undefined;
     let unsubscribeAgentStatusChange: (() => void) | undefined;
     let unsubscribeSystemAlert: (() => void) | undefined;
+    let unsubscribeModelResidency: (() => void) | undefined;
 
     if (window.electronAPI.on) {
       unsubscribeHealthUpdate = window.electronAPI.on('health-update', (data: Partial<SystemHealthData>) => {
@@ -213,6 +226,11 @@ const SystemHealth: React.FC = () => {
           return { ...prev, alerts: [alert, ...prev.alerts] };
         });
       });
+
+      // Loaded models arrive with the agent manager's health updates
+      unsubscribeModelResidency = window.electronAPI.on('agent:systemHealth', (health: { models?: ModelResidency[] }) => {
+        setModels(health.models || []);
+      });
     }
 
     // Initial load
@@ -222,6 +240,7 @@ const SystemHealth: React.FC = () => {
       unsubscribeHealthUpdate?.();
       unsubscribeAgentStatusChange?.();
       unsubscribeSystemAlert?.();
+      unsubscribeModelResidency?.();
     };
   }, []);
 
@@ -517,6 +536,27 @@ const SystemHealth: React.FC = () => {
               </div>
             </div>
 
+            <div className="metric-card">
+              <div className="metric-header">
+                <h3>Loaded Models</h3>
+                <span className="metric-icon">🧠</span>
+              </div>
+              <div className="metric-details">
+                {models.length === 0 ? (
+                  <div className="detail-item">
+                    <span>No models loaded</span>
+                  </div>
+                ) : models.map(model => (
+                  <div key={model.modelName} className="detail-item">
+                    <span>{model.modelName}</span>
+                    <span>
+                      {model.activeSlots}/{model.slotLimit} slots · {model.queuedTasks} queued · {formatMemory(model.memoryMB)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <div className="metric-card">
               <div className="metric-header">
                 <h3>Alert Summary</h3>
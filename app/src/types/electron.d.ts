@@ -1,4 +1,115 @@
 // Shared types for Electron API
+export interface LLMProviderConfig {
+  type: 'ollama' | 'openai-compatible';
+  endpoint?: string;
+  apiKey?: string;
+}
+
+export interface OrganizerRuleConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: {
+    extensions?: string[];
+    categories?: string[];
+    keywords?: string[];
+    minSize?: number;
+    maxSize?: number;
+    modifiedAfter?: number;
+    modifiedBefore?: number;
+    pathPattern?: string;
+  };
+  destination: string;
+  fileName?: string;
+}
+
+export interface NamingProfileConfig {
+  id: string;
+  name: string;
+  template: string;                    // e.g. "{date}_{client}_{project}_v{version}"
+  dateFormat: string;                  // YYYY, YY, MM and DD
+  caseStyle: 'kebab' | 'snake' | 'camel' | 'pascal' | 'lower' | 'upper' | 'preserve';
+  separator: string;
+  maxLength: number;
+  requiredTokens: string[];
+}
+
+export interface ReviewFeedbackInfo {
+  originalPath: string;
+  operation: string;
+  suggestedValue: string;
+  decision: 'approve' | 'reject';
+  correctedValue?: string;
+  confidence: number;
+  validationFlags: string[];
+  reason: string;
+  source: 'review' | 'override';
+  reviewedBy: string;
+  decidedAt: number;                   // Milliseconds since epoch
+}
+
+export interface ReviewFeedbackExampleInfo extends Omit<ReviewFeedbackInfo, 'originalPath' | 'correctedValue'> {
+  id: number;
+  filePath: string;
+  fileExtension: string;
+  fileCategory: string;
+  correctedValue: string | null;
+}
+
+export interface ReviewFeedbackFilterConfig {
+  fileCategory?: string;
+  fileExtension?: string;
+  operation?: string;
+  decision?: 'approve' | 'reject';
+  before?: number;                     // Milliseconds since epoch, exclusive
+}
+
+export interface ResumableAnalysisSessionInfo {
+  requestId: string;
+  sessionType: 'interactive' | 'batch';
+  rootPath?: string;
+  analysisTypes: string[];
+  totalFiles: number;
+  processedFiles: number;
+  remainingTasks: number;
+  startedAt: number;
+  lastUpdatedAt?: number;              // Seconds since epoch
+}
+
+export interface BackupRetentionConfig {
+  maxAgeDays: number;
+  maxTotalBytes: number;
+  keepLastPerFile: number;
+}
+
+export interface BackupUsageInfo {
+  backupCount: number;
+  blobCount: number;
+  storedBytes: number;
+  logicalBytes: number;
+  oldestBackupAt: number | null;
+}
+
+export interface SidecarRuleConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  primaryExtensions: string[];
+  companionExtensions: string[];
+}
+
+export type ConflictStrategy = 'skip' | 'auto-suffix' | 'overwrite-with-backup' | 'keep-newer' | 'keep-larger' | 'ask';
+
+export interface DestinationConflict {
+  operationId: string;
+  conflict: 'target_exists' | 'duplicate_target';
+  strategy: ConflictStrategy;
+  action: 'skip' | 'rename' | 'overwrite' | 'proceed' | 'ask';
+  originalTargetPath: string;
+  targetPath: string;
+  conflictingOperationIds: string[];
+}
+
 export interface ElectronAPI {
   // App information
   getVersion: () => Promise<string>;
@@ -12,11 +123,116 @@ export interface ElectronAPI {
 
   // Directory operations
   selectDirectory?: () => Promise<string>;
-  scanDirectory?: (options: { rootPath: string; include?: string[]; exclude?: string[] }) => Promise<void>;
+  scanDirectory?: (options: { rootPath: string; include?: string[]; exclude?: string[]; incremental?: boolean }) => Promise<void>;
   onScanProgress?: (callback: (progress: { fileCount: number; currentFile: string; percent: number }) => void) => () => void;
   removeScanProgressListener?: () => void;
+  onScanDelta?: (callback: (delta: {
+    rootPath: string;
+    added: string[];
+    modified: string[];
+    deleted: string[];
+    moved: Array<{ from: string; to: string }>;
+    unchangedCount: number;
+  }) => void) => () => void;
   getScanResults?: (rootPath?: string) => Promise<any[]>;
   getScanJobs?: () => Promise<any[]>;
+  getWatcherStatus?: () => Promise<{ running: boolean; roots: any[]; config: any }>;
+  configureWatcher?: (config: {
+    autoAnalyze?: { enabled?: boolean; analysisType?: 'rename-suggestions' | 'classification' | 'content-summary'; modelName?: string };
+    debounceMs?: number;
+    usePolling?: boolean;
+    pollIntervalMs?: number;
+  }) => Promise<any>;
+
+  // Duplicate detection and resolution
+  findDuplicates?: () => Promise<{
+    success: boolean;
+    groups?: Array<{
+      id: string;
+      matchType: 'exact' | 'near';
+      files: Array<{ id: number; path: string; size: number; mtime: number; sha256?: string }>;
+      suggestedKeeperId: number;
+      reclaimableBytes: number;
+    }>;
+    exactGroups?: number;
+    nearGroups?: number;
+    reclaimableBytes?: number;
+    error?: string;
+  }>;
+  resolveDuplicates?: (request: {
+    keeperId: number;
+    fileIds: number[];
+    action: 'delete' | 'move';
+    targetFolder?: string;
+  }) => Promise<{ success: boolean; transactionId?: string; processedFiles?: number; errors?: string[]; error?: string }>;
+  undoDuplicateResolution?: (transactionId: string) => Promise<{ success: boolean; filesRestored?: number; partialFailures?: number; error?: string }>;
+
+  // Rule-based organizer
+  getOrganizerRules?: () => Promise<{ success: boolean; rules?: OrganizerRuleConfig[]; error?: string }>;
+  saveOrganizerRules?: (rules: OrganizerRuleConfig[]) => Promise<{ success: boolean; rules?: OrganizerRuleConfig[]; error?: string }>;
+  previewOrganization?: (request: { rootPath?: string; fileIds?: number[]; baseDirectory?: string }) => Promise<{
+    success: boolean;
+    plan?: {
+      planId: string;
+      operations: Array<{ operationId: string; fileId: number; sourcePath: string; targetPath: string; ruleId: string; ruleName: string }>;
+      unmatchedFiles: number;
+      alreadyOrganized: number;
+    };
+    preview?: any;
+    error?: string;
+  }>;
+  executeOrganization?: (planId: string, operationIds?: string[]) => Promise<{ success: boolean; transactionId?: string; movedFiles?: number; errors?: string[]; error?: string }>;
+  undoOrganization?: (transactionId: string) => Promise<{ success: boolean; filesRestored?: number; partialFailures?: number; error?: string }>;
+
+  // Naming profiles
+  getNamingProfiles?: () => Promise<{ success: boolean; profiles?: NamingProfileConfig[]; rootProfiles?: Record<string, string>; error?: string }>;
+  saveNamingProfiles?: (profiles: NamingProfileConfig[]) => Promise<{ success: boolean; profiles?: NamingProfileConfig[]; error?: string }>;
+  assignNamingProfile?: (rootPath: string, profileId: string | null) => Promise<{ success: boolean; rootProfiles?: Record<string, string>; error?: string }>;
+
+  // Learned review feedback
+  recordReviewFeedback?: (feedback: ReviewFeedbackInfo) => Promise<{ success: boolean; example?: ReviewFeedbackExampleInfo; error?: string }>;
+  getReviewFeedback?: (filters?: ReviewFeedbackFilterConfig, offset?: number, limit?: number) => Promise<{
+    success: boolean;
+    examples?: ReviewFeedbackExampleInfo[];
+    total?: number;
+    summary?: Array<{
+      category: string;
+      total: number;
+      approved: number;
+      corrected: number;
+      rejected: number;
+      approvalRate: number;
+      recentApprovalRate: number;
+    }>;
+    priors?: Array<{
+      category: string;
+      samples: number;
+      approvalRate: number;
+      confidenceMultiplier: number;
+      weights: {
+        aiConsistencyWeight: number;
+        metadataAlignmentWeight: number;
+        structuralPatternWeight: number;
+        conventionComplianceWeight: number;
+      };
+    }>;
+    error?: string;
+  }>;
+  pruneReviewFeedback?: (criteria: { ids: number[] } | ReviewFeedbackFilterConfig) => Promise<{ success: boolean; removed?: number; error?: string }>;
+
+  // Backup store
+  getBackupUsage?: () => Promise<{ success: boolean; usage?: BackupUsageInfo; retention?: BackupRetentionConfig; error?: string }>;
+  saveBackupRetention?: (retention: Partial<BackupRetentionConfig>) => Promise<{ success: boolean; retention?: BackupRetentionConfig; error?: string }>;
+  collectBackupGarbage?: () => Promise<{
+    success: boolean;
+    result?: { backupsRemoved: number; blobsRemoved: number; bytesFreed: number };
+    usage?: BackupUsageInfo;
+    error?: string;
+  }>;
+
+  // Sidecar grouping
+  getSidecarRules?: () => Promise<{ success: boolean; rules?: SidecarRuleConfig[]; error?: string }>;
+  saveSidecarRules?: (rules: SidecarRuleConfig[]) => Promise<{ success: boolean; rules?: SidecarRuleConfig[]; error?: string }>;
 
   // Ollama model management
   getOllamaHealth: () => Promise<any>;
@@ -27,12 +243,23 @@ export interface ElectronAPI {
   getModelPreferences: () => Promise<{ mainModel: string | null; subModel: string | null }>;
   onOllamaHealthUpdate: (callback: (health: any) => void) => () => void;
 
+  // Model provider selection
+  getLLMProvider?: () => Promise<{
+    success: boolean;
+    settings?: LLMProviderConfig;
+    providerTypes?: LLMProviderConfig['type'][];
+    error?: string;
+  }>;
+  setLLMProvider?: (settings: LLMProviderConfig) => Promise<{ success: boolean; health?: any; error?: string }>;
+
   // Analysis and suggestion management
   getSuggestionsByFileIds?: (fileIds: number[], analysisType?: string) => Promise<{ success: boolean; suggestions?: any[]; error?: string }>;
   updateSuggestionRecommendation?: (suggestionId: number, isRecommended: boolean) => Promise<{ success: boolean; error?: string }>;
   startFileAnalysis?: (fileIds: number[], analysisType: string, options?: any) => Promise<{ success: boolean; requestId?: string; error?: string }>;
   cancelFileAnalysis?: (requestId: string) => Promise<{ success: boolean; error?: string }>;
   getAnalysisProgress?: (requestId: string) => Promise<{ success: boolean; progress?: any; error?: string }>;
+  getResumableAnalysisSessions?: () => Promise<{ success: boolean; sessions?: ResumableAnalysisSessionInfo[]; error?: string }>;
+  resumeFileAnalysis?: (requestId: string) => Promise<{ success: boolean; requestId?: string; progress?: any; error?: string }>;
 
   // Analysis event listeners
   onAnalysisProgressUpdate?: (callback: (progress: any) => void) => () => void;
@@ -88,12 +315,47 @@ export interface ElectronAPI {
       continueOnError?: boolean;
       createBackups?: boolean;
       validateBefore?: boolean;
+      conflictStrategy?: ConflictStrategy;
+      conflictDecisions?: Record<number, ConflictStrategy>;
+      rewriteReferences?: boolean;
+      fileNameMode?: 'native' | 'portable';
     };
-  }) => Promise<{ success: boolean; transactionId?: string; completedOperations?: number; errors?: string[]; error?: string }>;
+  }) => Promise<{ success: boolean; transactionId?: string; completedOperations?: number; errors?: string[]; conflicts?: DestinationConflict[]; error?: string }>;
 
   getSuggestionExecutionStatus?: (batchId?: string) => Promise<{ success: boolean; batch?: any; activeBatches?: any[]; error?: string }>;
   cancelSuggestionExecution?: (batchId: string, reason?: string) => Promise<{ success: boolean; error?: string }>;
   undoTransaction?: (transactionId: string, reason?: string) => Promise<{ success: boolean; completedOperations?: number; errors?: string[]; error?: string }>;
+  exportExecutionPlan?: (options: {
+    suggestionIds?: number[];
+    format: 'json' | 'shell';
+    outputPath?: string;
+    executionOptions?: {
+      createBackups?: boolean;
+      conflictStrategy?: ConflictStrategy;
+      conflictDecisions?: Record<number, ConflictStrategy>;
+      includeSidecars?: boolean;
+      rewriteReferences?: boolean;
+      fileNameMode?: 'native' | 'portable';
+    };
+  }) => Promise<{
+    success: boolean;
+    planId?: string;
+    operationCount?: number;
+    content?: string;
+    undoContent?: string;
+    writtenPaths?: string[];
+    conflicts?: DestinationConflict[];
+    errors?: string[];
+    error?: string;
+  }>;
+  importExecutionPlan?: (manifestPath: string) => Promise<{
+    success: boolean;
+    planId?: string;
+    transactionId?: string;
+    completedOperations?: number;
+    errors?: string[];
+    error?: string;
+  }>;
 
   // Suggestion execution event listeners
   onSuggestionExecutionStarted?: (callback: (data: { batchId: string; operations: any[] }) => void) => () => void;
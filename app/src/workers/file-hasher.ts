@@ -0,0 +1,51 @@
+import * as fsSync from 'fs';
+import * as crypto from 'crypto';
+
+export interface HashOptions {
+  signal?: AbortSignal;
+  chunkSizeBytes?: number;
+  onProgress?: (bytesRead: number) => void;
+}
+
+// 1MB reads keep memory flat while avoiding per-chunk overhead on large media
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Stream a file through SHA-256 without buffering it in memory.
+ * Empty files resolve to undefined since their hash carries no identity.
+ */
+export function hashFileStream(filePath: string, options: HashOptions = {}): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new Error('Hashing aborted'));
+      return;
+    }
+
+    const hash = crypto.createHash('sha256');
+    const stream = fsSync.createReadStream(filePath, {
+      highWaterMark: options.chunkSizeBytes || DEFAULT_CHUNK_SIZE,
+    });
+    let bytesRead = 0;
+
+    const onAbort = () => {
+      stream.destroy(new Error('Hashing aborted'));
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    stream.on('data', (chunk: Buffer | string) => {
+      hash.update(chunk);
+      bytesRead += chunk.length;
+      options.onProgress?.(bytesRead);
+    });
+
+    stream.on('error', (error) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+
+    stream.on('end', () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(bytesRead === 0 ? undefined : hash.digest('hex'));
+    });
+  });
+}
@@ -1,13 +1,17 @@
 import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as crypto from 'crypto';
+import { ScanFilter } from './scan-filter';
+import { hashFileStream } from './file-hasher';
+import { IncrementalScanState, type KnownFileState, type FileChangeType, type ScanDelta } from './incremental-scan';
 
 // Types for worker communication
 interface ScanOptions {
   rootPath: string;
   include?: string[];
   exclude?: string[];
+  incremental?: boolean;
+  knownFiles?: KnownFileState[];
 }
 
 interface FileMetadata {
@@ -21,6 +25,8 @@ interface FileMetadata {
   fileName: string;
   fileExtension: string;
   parentDirectory: string;
+  changeType?: FileChangeType;
+  previousPath?: string;
 }
 
 interface ProgressUpdate {
@@ -31,110 +37,42 @@ interface ProgressUpdate {
 }
 
 interface WorkerMessage {
-  type: 'progress' | 'file' | 'error' | 'complete';
-  data: ProgressUpdate | FileMetadata | Error | null;
+  type: 'progress' | 'file' | 'delta' | 'error' | 'complete';
+  data: ProgressUpdate | FileMetadata | ScanDelta | Error | null;
 }
 
-// Default patterns to exclude during scanning
-const DEFAULT_EXCLUDE_PATTERNS = [
-  '.DS_Store',
-  'Thumbs.db',
-  '.git',
-  '.svn',
-  'node_modules',
-  '.cache',
-  '.tmp',
-  '.temp',
-  '__pycache__',
-  '*.tmp',
-  '*.temp',
-  '*.log'
-];
-
-// File extensions to include by default (if include patterns are not specified)
-const DEFAULT_INCLUDE_EXTENSIONS = [
-  '.txt', '.md', '.doc', '.docx', '.pdf', '.rtf',
-  '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.svg', '.webp',
-  '.mp4', '.avi', '.mov', '.mkv', '.wmv', '.flv', '.mp3', '.wav', '.flac',
-  '.zip', '.rar', '.7z', '.tar', '.gz',
-  '.js', '.ts', '.html', '.css', '.json', '.xml'
-];
+// Files at or above this size are left for the deferred hashing phase
+const INLINE_HASH_MAX_BYTES = 10 * 1024 * 1024;
 
 class FileScanner {
   private options: ScanOptions;
   private fileCount: number = 0;
   private processedCount: number = 0;
   private totalFiles: number = 0;
-  private excludePatterns: RegExp[];
-  private includePatterns?: RegExp[];
+  private filter: ScanFilter;
+  private incrementalState?: IncrementalScanState;
 
   constructor(options: ScanOptions) {
     this.options = options;
     
-    // Compile exclude patterns
-    const excludes = [...DEFAULT_EXCLUDE_PATTERNS, ...(options.exclude || [])];
-    this.excludePatterns = excludes.map(pattern => 
-      new RegExp(pattern.replace(/\*/g, '.*'), 'i')
-    );
-
-    // Compile include patterns if specified
-    if (options.include && options.include.length > 0) {
-      this.includePatterns = options.include.map(pattern =>
-        new RegExp(pattern.replace(/\*/g, '.*'), 'i')
-      );
-    }
+    this.filter = new ScanFilter(options.rootPath, options.include, options.exclude);
   }
 
   private shouldExclude(filePath: string): boolean {
-    const fileName = path.basename(filePath);
-    const relativePath = path.relative(this.options.rootPath, filePath);
-    
-    // Check exclude patterns
-    for (const pattern of this.excludePatterns) {
-      if (pattern.test(fileName) || pattern.test(relativePath)) {
-        return true;
-      }
-    }
-
-    // Check include patterns if specified
-    if (this.includePatterns) {
-      let shouldInclude = false;
-      for (const pattern of this.includePatterns) {
-        if (pattern.test(fileName) || pattern.test(relativePath)) {
-          shouldInclude = true;
-          break;
-        }
-      }
-      if (!shouldInclude) return true;
-    } else {
-      // Default: only include files with recognized extensions
-      const ext = path.extname(filePath).toLowerCase();
-      if (ext && !DEFAULT_INCLUDE_EXTENSIONS.includes(ext)) {
-        return true;
-      }
-    }
-
-    return false;
+    return this.filter.shouldExclude(filePath);
   }
 
   private async calculateFileHash(filePath: string): Promise<string | undefined> {
     try {
-      const fileBuffer = await fs.readFile(filePath);
-      if (fileBuffer.length === 0) return undefined;
-      
-      // Only calculate hash for files smaller than 50MB to avoid memory issues
-      if (fileBuffer.length > 50 * 1024 * 1024) {
-        return undefined;
-      }
-
-      return crypto.createHash('sha256').update(fileBuffer).digest('hex');
+      // Streamed, so file size no longer limits hashing
+      return await hashFileStream(filePath);
     } catch (error) {
       console.warn(`Failed to calculate hash for ${filePath}:`, error);
       return undefined;
     }
   }
 
-  private async extractFileMetadata(filePath: string): Promise<FileMetadata | null> {
+  private async extractFileMetadata(filePath: string, forceHash: boolean = false): Promise<FileMetadata | null> {
     try {
       const stats = await fs.stat(filePath);
       
@@ -147,9 +85,9 @@ class FileScanner {
       const parentDirectory = path.dirname(filePath);
       const relativePathFromRoot = path.relative(this.options.rootPath, filePath);
 
-      // Calculate hash for small files only during initial scan
+      // Hash small files inline; larger ones are picked up by the deferred hashing phase
       let sha256: string | undefined;
-      if (stats.size < 10 * 1024 * 1024) { // Only hash files < 10MB during scan
+      if (forceHash || stats.size < INLINE_HASH_MAX_BYTES) {
         sha256 = await this.calculateFileHash(filePath);
       }
 
@@ -170,6 +108,35 @@ class FileScanner {
     }
   }
 
+  /**
+   * Extract metadata only for files that differ from the known file rows
+   */
+  private async extractChangedFileMetadata(filePath: string): Promise<FileMetadata | null> {
+    const state = this.incrementalState!;
+
+    try {
+      const stats = await fs.stat(filePath);
+      if (!stats.isFile()) {
+        return null;
+      }
+
+      const mtime = Math.floor(stats.mtime.getTime() / 1000);
+      if (state.isUnchanged(filePath, stats.size, mtime)) {
+        return null;
+      }
+
+      const metadata = await this.extractFileMetadata(filePath, state.requiresHash(filePath, stats.size));
+      if (!metadata) {
+        return null;
+      }
+
+      return { ...metadata, ...state.recordFile(filePath, metadata.sha256) };
+    } catch (error) {
+      console.error(`Failed to check ${filePath} for changes:`, error);
+      return null;
+    }
+  }
+
   private sendProgress(phase: 'scanning' | 'hashing' | 'complete' = 'scanning') {
     if (!parentPort) return;
 
@@ -245,12 +212,22 @@ class FileScanner {
       
       console.log(`Found ${this.totalFiles} files to process`);
 
+      if (this.options.incremental) {
+        this.incrementalState = new IncrementalScanState(
+          this.options.rootPath,
+          this.options.knownFiles || [],
+          allFilePaths
+        );
+      }
+
       // Phase 2: Extract metadata for each file
       this.sendProgress('hashing');
       
       for (const filePath of allFilePaths) {
         try {
-          const metadata = await this.extractFileMetadata(filePath);
+          const metadata = this.incrementalState
+            ? await this.extractChangedFileMetadata(filePath)
+            : await this.extractFileMetadata(filePath);
           
           if (metadata) {
             this.fileCount++;
@@ -277,6 +254,16 @@ class FileScanner {
         }
       }
 
+      // Report changes relative to the previous scan
+      if (this.incrementalState) {
+        const delta = this.incrementalState.buildDelta();
+        parentPort.postMessage({ type: 'delta', data: delta } as WorkerMessage);
+        console.log(
+          `Incremental scan: ${delta.added.length} added, ${delta.modified.length} modified, ` +
+          `${delta.deleted.length} deleted, ${delta.moved.length} moved, ${delta.unchangedCount} unchanged`
+        );
+      }
+
       // Phase 3: Complete
       this.sendProgress('complete');
       
@@ -317,6 +304,7 @@ if (!isMainThread && parentPort && workerData && process.env.NODE_ENV !== 'test'
 
 // Export for use by main process
 export { FileScanner, type ScanOptions, type FileMetadata, type WorkerMessage, type ProgressUpdate };
+export type { KnownFileState, FileChangeType, ScanDelta } from './incremental-scan';
 
 // Main thread utility to create scanner worker
 export function createScannerWorker(options: ScanOptions): Worker {
@@ -0,0 +1,156 @@
+// Incremental scan bookkeeping - compares walked files against known file rows
+
+/**
+ * Minimal view of a previously scanned file used for change detection
+ */
+export interface KnownFileState {
+  path: string;
+  size: number;
+  mtime: number;
+  sha256?: string | null;
+}
+
+export type FileChangeType = 'added' | 'modified' | 'moved' | 'touched';
+
+export interface FileMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Changes found by an incremental scan relative to the stored file rows
+ */
+export interface ScanDelta {
+  rootPath: string;
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  moved: FileMove[];
+  unchangedCount: number;
+}
+
+export interface FileChange {
+  changeType: FileChangeType;
+  previousPath?: string;
+}
+
+/**
+ * Tracks the state of a single incremental scan.
+ *
+ * Files whose size and mtime match their stored row are treated as unchanged
+ * without hashing. A known path that vanished is paired with a newly seen path
+ * carrying the same hash to report a move instead of a delete + add.
+ */
+export class IncrementalScanState {
+  private knownByPath: Map<string, KnownFileState>;
+  private missingByPath: Map<string, KnownFileState> = new Map();
+  private missingSizes: Map<number, number> = new Map();
+  private missingByHash: Map<string, KnownFileState[]> = new Map();
+  private added: string[] = [];
+  private modified: string[] = [];
+  private moved: FileMove[] = [];
+  private unchangedCount = 0;
+
+  constructor(private readonly rootPath: string, knownFiles: KnownFileState[], walkedPaths: string[]) {
+    this.knownByPath = new Map(knownFiles.map(file => [file.path, file]));
+
+    const walked = new Set(walkedPaths);
+    for (const file of knownFiles) {
+      if (walked.has(file.path)) continue;
+
+      this.missingByPath.set(file.path, file);
+      this.missingSizes.set(file.size, (this.missingSizes.get(file.size) || 0) + 1);
+      if (file.sha256) {
+        const candidates = this.missingByHash.get(file.sha256) || [];
+        candidates.push(file);
+        this.missingByHash.set(file.sha256, candidates);
+      }
+    }
+  }
+
+  /**
+   * Check whether a file can be skipped because size and mtime are unchanged
+   */
+  public isUnchanged(filePath: string, size: number, mtime: number): boolean {
+    const known = this.knownByPath.get(filePath);
+    if (!known || known.size !== size || known.mtime !== mtime) {
+      return false;
+    }
+
+    this.unchangedCount++;
+    return true;
+  }
+
+  /**
+   * Check whether a file must be hashed regardless of the scanner's size limits
+   */
+  public requiresHash(filePath: string, size: number): boolean {
+    const known = this.knownByPath.get(filePath);
+    if (known) {
+      return !!known.sha256;
+    }
+    // New path with the same size as a vanished file may be a move
+    return (this.missingSizes.get(size) || 0) > 0;
+  }
+
+  /**
+   * Classify a file that was not skipped as unchanged
+   */
+  public recordFile(filePath: string, sha256: string | undefined): FileChange {
+    const known = this.knownByPath.get(filePath);
+
+    if (known) {
+      if (sha256 && known.sha256 && sha256 === known.sha256) {
+        // Metadata changed but content did not
+        return { changeType: 'touched' };
+      }
+      this.modified.push(filePath);
+      return { changeType: 'modified' };
+    }
+
+    const source = sha256 ? this.takeMissingByHash(sha256) : undefined;
+    if (source) {
+      this.moved.push({ from: source.path, to: filePath });
+      return { changeType: 'moved', previousPath: source.path };
+    }
+
+    this.added.push(filePath);
+    return { changeType: 'added' };
+  }
+
+  /**
+   * Build the delta once every walked file has been processed
+   */
+  public buildDelta(): ScanDelta {
+    return {
+      rootPath: this.rootPath,
+      added: [...this.added],
+      modified: [...this.modified],
+      deleted: Array.from(this.missingByPath.keys()),
+      moved: [...this.moved],
+      unchangedCount: this.unchangedCount,
+    };
+  }
+
+  private takeMissingByHash(sha256: string): KnownFileState | undefined {
+    const candidates = this.missingByHash.get(sha256);
+    if (!candidates || candidates.length === 0) {
+      return undefined;
+    }
+
+    const source = candidates.shift()!;
+    if (candidates.length === 0) {
+      this.missingByHash.delete(sha256);
+    }
+
+    this.missingByPath.delete(source.path);
+    const remaining = (this.missingSizes.get(source.size) || 1) - 1;
+    if (remaining > 0) {
+      this.missingSizes.set(source.size, remaining);
+    } else {
+      this.missingSizes.delete(source.size);
+    }
+
+    return source;
+  }
+}
@@ -0,0 +1,84 @@
+import * as path from 'path';
+
+// Default patterns to exclude during scanning
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '.DS_Store',
+  'Thumbs.db',
+  '.git',
+  '.svn',
+  'node_modules',
+  '.cache',
+  '.tmp',
+  '.temp',
+  '__pycache__',
+  '*.tmp',
+  '*.temp',
+  '*.log'
+];
+
+// File extensions to include by default (if include patterns are not specified)
+export const DEFAULT_INCLUDE_EXTENSIONS = [
+  '.txt', '.md', '.doc', '.docx', '.pdf', '.rtf',
+  '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.svg', '.webp', '.heic', '.tif', '.tiff',
+  '.cr2', '.cr3', '.nef', '.arw', '.dng', '.raf', '.orf', '.rw2',
+  '.mp4', '.avi', '.mov', '.mkv', '.wmv', '.flv', '.m4v', '.webm', '.mp3', '.wav', '.flac',
+  // Sidecars, so they can be moved together with the files they describe
+  '.xmp', '.aae', '.pp3', '.srt', '.vtt', '.ass', '.ssa', '.sub', '.idx', '.nfo', '.thm',
+  '.zip', '.rar', '.7z', '.tar', '.gz',
+  '.js', '.ts', '.html', '.css', '.json', '.xml'
+];
+
+/**
+ * Include/exclude rules shared by the scanner worker and the file watcher
+ */
+export class ScanFilter {
+  private excludePatterns: RegExp[];
+  private includePatterns?: RegExp[];
+
+  constructor(private readonly rootPath: string, include?: string[], exclude?: string[]) {
+    // Compile exclude patterns
+    const excludes = [...DEFAULT_EXCLUDE_PATTERNS, ...(exclude || [])];
+    this.excludePatterns = excludes.map(pattern =>
+      new RegExp(pattern.replace(/\*/g, '.*'), 'i')
+    );
+
+    // Compile include patterns if specified
+    if (include && include.length > 0) {
+      this.includePatterns = include.map(pattern =>
+        new RegExp(pattern.replace(/\*/g, '.*'), 'i')
+      );
+    }
+  }
+
+  public shouldExclude(filePath: string): boolean {
+    const fileName = path.basename(filePath);
+    const relativePath = path.relative(this.rootPath, filePath);
+
+    // Check exclude patterns
+    for (const pattern of this.excludePatterns) {
+      if (pattern.test(fileName) || pattern.test(relativePath)) {
+        return true;
+      }
+    }
+
+    // Check include patterns if specified
+    if (this.includePatterns) {
+      let shouldInclude = false;
+      for (const pattern of this.includePatterns) {
+        if (pattern.test(fileName) || pattern.test(relativePath)) {
+          shouldInclude = true;
+          break;
+        }
+      }
+      if (!shouldInclude) return true;
+    } else {
+      // Default: only include files with recognized extensions
+      const ext = path.extname(filePath).toLowerCase();
+      if (ext && !DEFAULT_INCLUDE_EXTENSIONS.includes(ext)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
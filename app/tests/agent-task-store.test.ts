@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockAgentManagerDependencies } from './helpers/agent-manager-mocks';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+import { AgentManager } from '../src/agents/agent-manager';
+import { AgentTaskStore } from '../src/lib/agent-task-store';
+import { TaskPriority, TaskState, type CreateTaskParams, type FileAnalysisTask, type HealthCheckTask } from '../src/agents/task-types';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+const healthCheck = (sessionId?: string): CreateTaskParams<HealthCheckTask> => ({
+  type: 'health-check',
+  priority: TaskPriority.NORMAL,
+  component: 'database',
+  checkInterval: 0,
+  timeoutMs: 1000,
+  maxRetries: 2,
+  metadata: sessionId ? { sessionId } : {},
+  estimatedMemoryMB: 128,
+});
+
+describe('Durable agent tasks', () => {
+  let database: MockDatabase;
+  let store: AgentTaskStore;
+  let manager: AgentManager;
+  let executeInference: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    executeInference = vi.fn();
+    mockAgentManagerDependencies({ provider: { executeInference }, extractedText: 'quarterly report' });
+
+    database = createMockDatabase();
+    store = new AgentTaskStore(database as any, mockLogger as any);
+    manager = new AgentManager({ maxConcurrentSlots: 2 });
+    manager.setTaskStore(store);
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+  });
+
+  it('should persist each state transition with the result', async () => {
+    await manager.start();
+    const completed = new Promise(resolve => manager.once('task-completed', resolve));
+
+    const taskId = manager.createTask(healthCheck('session-1'));
+    expect(database.agentTasks.get(taskId)).toMatchObject({ state: 'queued', sessionId: 'session-1', startedAt: null });
+
+    await completed;
+
+    const row = database.agentTasks.get(taskId);
+    expect(row).toMatchObject({ state: 'completed', errorMessage: null });
+    expect(row.startedAt).toBeGreaterThan(0);
+    expect(row.completedAt).toBeGreaterThanOrEqual(row.startedAt);
+    expect(JSON.parse(row.resultData)).toEqual({ status: 'healthy', connected: true });
+    expect(store.loadResults('session-1')).toEqual([
+      expect.objectContaining({ taskId, success: true, result: { status: 'healthy', connected: true } }),
+    ]);
+  });
+
+  it('should requeue orphaned running tasks and restore queued ones after a restart', () => {
+    const previous = new AgentManager();
+    previous.setTaskStore(store);
+    const orphanId = previous.createTask(healthCheck());
+    const exhaustedId = previous.createTask({ ...healthCheck(), maxRetries: 0 });
+    const sessionTaskId = previous.createTask(healthCheck('session-1'));
+    database.updateAgentTask(orphanId, { state: 'running', startedAt: Date.now() });
+    database.updateAgentTask(exhaustedId, { state: 'running', startedAt: Date.now() });
+
+    expect(manager.recoverTasks()).toEqual({ requeued: 1, failed: 1, restored: 1 });
+    expect(database.agentTasks.get(orphanId)).toMatchObject({ state: 'queued', retryCount: 1, startedAt: null });
+    expect(database.agentTasks.get(exhaustedId)).toMatchObject({ state: 'failed', errorMessage: 'Interrupted while running and no retries are left' });
+    expect(manager.getStatus().queuedTasks).toBe(1);
+
+    // Session tasks wait until the session is resumed
+    const sessionTasks = store.loadTasks({ states: [TaskState.QUEUED], sessionId: 'session-1' });
+    expect(sessionTasks).toEqual([expect.objectContaining({ id: sessionTaskId, type: 'health-check', component: 'database' })]);
+    expect(manager.restoreTasks(sessionTasks)).toBe(1);
+    expect(manager.restoreTasks(sessionTasks)).toBe(0);
+    expect(manager.getStatus().queuedTasks).toBe(2);
+  });
+
+  it('should leave running tasks queued when the manager stops', async () => {
+    executeInference.mockReturnValue(new Promise(() => {}));
+    await manager.start();
+    const dispatched = new Promise(resolve => manager.once('task-dispatched', resolve));
+
+    const taskId = manager.createTask<FileAnalysisTask>({
+      type: 'file-analysis',
+      priority: TaskPriority.HIGH,
+      filePath: '/reports/q3.txt',
+      modelName: 'llama2',
+      analysisType: 'classification',
+      promptTemplate: '',
+      expectedResponseFormat: 'json',
+      timeoutMs: 1000,
+      maxRetries: 2,
+      metadata: { sessionId: 'session-2' },
+      estimatedMemoryMB: 512,
+    });
+    await dispatched;
+    expect(database.agentTasks.get(taskId)).toMatchObject({ state: 'running', filePath: '/reports/q3.txt', modelName: 'llama2' });
+
+    await manager.stop();
+
+    expect(database.agentTasks.get(taskId)).toMatchObject({ state: 'queued', retryCount: 0, startedAt: null });
+    expect(store.countTasks({ sessionId: 'session-2', states: ['queued'] })).toBe(1);
+  });
+
+  it('should record tasks dropped by an emergency stop as cancelled', async () => {
+    const queuedId = manager.createTask(healthCheck());
+    const waitingId = manager.createTask({ ...healthCheck(), dependencies: [queuedId] });
+
+    await (manager as any).emergencyStop('Critical memory threshold exceeded');
+
+    expect(database.agentTasks.get(queuedId)).toMatchObject({ state: 'cancelled' });
+    expect(database.agentTasks.get(waitingId)).toMatchObject({ state: 'cancelled' });
+    expect(database.agentTasks.get(waitingId).completedAt).toBeGreaterThan(0);
+
+    const restarted = new AgentManager();
+    restarted.setTaskStore(store);
+    expect(restarted.recoverTasks()).toEqual({ requeued: 0, failed: 0, restored: 0 });
+  });
+});
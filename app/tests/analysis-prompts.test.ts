@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockAgentManagerDependencies } from './helpers/agent-manager-mocks';
+import { AnalysisTaskGenerator, type GenerateTasksRequest } from '../src/lib/analysis-task-generator';
+import { getAgentManager, destroyAgentManager } from '../src/agents/agent-manager';
+import { ANALYSIS_SCHEMAS } from '../src/agents/analysis-schemas';
+import { TaskPriority } from '../src/agents/task-types';
+import { getDatabase } from '../src/lib/database';
+import type { NamingProfile } from '../src/lib/confidence-scorer';
+
+vi.mock('../src/lib/database', () => ({ getDatabase: vi.fn() }));
+
+const RENAME_RESPONSE = {
+  suggestions: [{ filename: 'acme-brief.txt', tokens: { date: '2024-03-15', client: 'Acme' }, confidence: 80, reasoning: 'Client brief' }],
+};
+
+const houseStyle: NamingProfile = {
+  id: 'house-style',
+  name: 'House style',
+  template: '{date}_{client}_{project}_v{version}',
+  dateFormat: 'YYYYMMDD',
+  caseStyle: 'snake',
+  separator: '_',
+  maxLength: 80,
+  requiredTokens: ['date', 'client'],
+};
+
+/**
+ * Prompts as the model receives them: generated tasks run through the
+ * agent manager against a recording provider
+ */
+describe('Analysis prompts', () => {
+  let generator: AnalysisTaskGenerator;
+  let executeInference: ReturnType<typeof vi.fn>;
+
+  const request: GenerateTasksRequest = {
+    rootPath: '/work',
+    analysisType: 'rename-suggestions',
+    isInteractive: true,
+    modelName: 'llama2',
+  };
+
+  const runTasks = async (generateRequest: GenerateTasksRequest) => {
+    const manager = getAgentManager();
+    const completed = new Promise(resolve => manager.once('task-completed', resolve));
+    await generator.generateTasks(generateRequest);
+    await manager.start();
+    return completed;
+  };
+
+  beforeEach(() => {
+    vi.mocked(getDatabase).mockReturnValue({
+      getFilesByRootPath: vi.fn(() => [{
+        id: 1, path: '/work/brief.txt', fileName: 'brief.txt', fileExtension: '.txt', size: 2048,
+        mtime: Date.now(), lastScannedAt: Date.now(), parentDirectory: '/work',
+      }]),
+    } as any);
+    executeInference = vi.fn(async () => ({ response: JSON.stringify(RENAME_RESPONSE) }));
+    mockAgentManagerDependencies({
+      provider: { executeInference },
+      extractedText: 'Brief for the Acme brand refresh, March 2024',
+    });
+
+    generator = new AnalysisTaskGenerator();
+  });
+
+  afterEach(async () => {
+    await destroyAgentManager();
+  });
+
+  it('should send the naming profile of the file to the model with its content', async () => {
+    generator.setNamingProfileResolver(() => houseStyle);
+    const result: any = await runTasks(request);
+
+    const prompt: string = executeInference.mock.calls[0][1];
+    expect(prompt).toContain('NAMING CONVENTION:\n- Follow the "House style" naming convention: {date}_{client}_{project}_v{version}');
+    expect(prompt).toContain('Content:\nBrief for the Acme brand refresh, March 2024');
+    expect(prompt).not.toContain('{{content}}');
+    expect(result.result.analysis.suggestions[0].filename).toBe('20240315_acme.txt');
+  });
+
+  it('should send past review decisions on similar files to the model', async () => {
+    const resolver = vi.fn(() => [
+      { fileName: 'notes.txt', suggestedValue: 'notes-final.txt', decision: 'approve' as const, correctedValue: '2024-02_acme_notes.txt' },
+      { fileName: 'draft.txt', suggestedValue: 'document.txt', decision: 'reject' as const },
+    ]);
+    generator.setFeedbackExampleResolver(resolver);
+    await runTasks(request);
+
+    expect(resolver).toHaveBeenCalledWith('/work/brief.txt', 'rename-suggestions');
+    const prompt: string = executeInference.mock.calls[0][1];
+    expect(prompt).toContain('- notes.txt: "notes-final.txt" was replaced with "2024-02_acme_notes.txt"');
+    expect(prompt).toContain('- draft.txt: "document.txt" was rejected');
+  });
+
+  it('should ask for rename suggestions in the shape their schema requires', async () => {
+    const result: any = await runTasks(request);
+
+    // Valid on the first attempt, without a repair re-prompt
+    expect(executeInference).toHaveBeenCalledTimes(1);
+    const [, prompt, options] = executeInference.mock.calls[0];
+    expect(prompt).toContain('suggest a better, more descriptive filename');
+    expect(options.format).toBe(ANALYSIS_SCHEMAS['rename-suggestions']);
+    expect(result).toMatchObject({ success: true, result: { resultType: 'rename-suggestions', repaired: false } });
+
+    // Tasks without a template are prompted for their result type too
+    const manager = getAgentManager();
+    const completed = new Promise(resolve => manager.once('task-completed', resolve));
+    manager.createTask({
+      type: 'file-analysis', priority: TaskPriority.HIGH, filePath: '/work/notes.txt', modelName: 'llama2',
+      analysisType: 'classification', resultType: 'rename-suggestions', promptTemplate: '', expectedResponseFormat: 'json',
+      timeoutMs: 1000, maxRetries: 0, metadata: {}, estimatedMemoryMB: 512,
+    });
+    await completed;
+    expect(executeInference.mock.calls[1][1]).toMatch(/^Suggest better, more descriptive filenames/);
+    expect(executeInference.mock.calls[1][2].format).toBe(ANALYSIS_SCHEMAS['rename-suggestions']);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import {
+  ANALYSIS_SCHEMAS,
+  validateAgainstSchema,
+  extractJsonObject,
+  removeTrailingCommas,
+  parseAnalysisResponse,
+  buildRepairPrompt,
+  getResultSummary,
+} from '../src/agents/analysis-schemas'
+import { AnalysisError, AnalysisErrorType } from '../src/lib/logger'
+import { MockOllamaServer } from '../src/lib/mock-ollama-server'
+import { OllamaClient } from '../src/lib/ollama-client'
+
+const renameResponse = {
+  suggestions: [
+    { filename: 'invoice-2024-03.pdf', confidence: 70, reasoning: 'Date from content' },
+    { filename: 'acme-invoice-2024-03.pdf', confidence: 90, reasoning: 'Vendor and date' },
+  ],
+  originalName: 'scan0001.pdf',
+}
+
+describe('analysis schemas', () => {
+  describe('validateAgainstSchema', () => {
+    it('should accept responses matching each schema', () => {
+      expect(validateAgainstSchema(renameResponse, ANALYSIS_SCHEMAS['rename-suggestions'])).toEqual([])
+      expect(validateAgainstSchema({
+        primaryCategory: 'documents',
+        secondaryCategories: ['finance'],
+        priority: 'high',
+        confidence: 80,
+        reasoning: 'Invoice layout',
+      }, ANALYSIS_SCHEMAS['classification'])).toEqual([])
+      expect(validateAgainstSchema({
+        summary: 'Quarterly budget',
+        keyPoints: ['Q3'],
+        confidence: 75,
+        reasoning: 'Spreadsheet headers',
+      }, ANALYSIS_SCHEMAS['content-summary'])).toEqual([])
+      expect(validateAgainstSchema({
+        coreMetadata: { title: 'Budget', type: 'spreadsheet' },
+        confidence: 60,
+        reasoning: 'From headers',
+      }, ANALYSIS_SCHEMAS['metadata-extraction'])).toEqual([])
+    })
+
+    it('should report each violation with its path', () => {
+      const errors = validateAgainstSchema({
+        suggestions: [{ filename: '', confidence: 150 }],
+      }, ANALYSIS_SCHEMAS['rename-suggestions'])
+
+      expect(errors).toEqual([
+        '$.suggestions[0].reasoning: is required',
+        '$.suggestions[0].filename: must not be empty',
+        '$.suggestions[0].confidence: must be <= 100',
+      ])
+    })
+
+    it('should reject wrong types and enum values', () => {
+      expect(validateAgainstSchema({ primaryCategory: 'documents', priority: 'urgent', confidence: '80', reasoning: 'x' },
+        ANALYSIS_SCHEMAS['classification'])).toEqual([
+        '$.priority: must be one of high, medium, low',
+        '$.confidence: expected number, got string',
+      ])
+      expect(validateAgainstSchema([], ANALYSIS_SCHEMAS['content-summary'])).toEqual(['$: expected object, got array'])
+    })
+  })
+
+  describe('repair', () => {
+    it('should extract the first JSON object from surrounding text', () => {
+      const text = 'Sure! Here you go:\n```json\n{"a": "b}", "c": {"d": 1}}\n```\nAnything else? {"e": 2}'
+      expect(extractJsonObject(text)).toBe('{"a": "b}", "c": {"d": 1}}')
+      expect(extractJsonObject('no json here')).toBeNull()
+      expect(extractJsonObject('{"unterminated": ')).toBeNull()
+    })
+
+    it('should remove trailing commas outside strings', () => {
+      expect(removeTrailingCommas('{"a": [1, 2,], "b": "x,}",\n}')).toBe('{"a": [1, 2], "b": "x,}"\n}')
+    })
+  })
+
+  describe('parseAnalysisResponse', () => {
+    it('should parse valid responses without repair', () => {
+      const result = parseAnalysisResponse(JSON.stringify(renameResponse), 'rename-suggestions')
+      expect(result).toEqual({ success: true, value: renameResponse, repaired: false })
+    })
+
+    it('should repair fenced responses with trailing commas', () => {
+      const response = '```json\n{"summary": "Notes", "confidence": 50, "reasoning": "Short",}\n```'
+      const result = parseAnalysisResponse(response, 'content-summary')
+      expect(result).toEqual({
+        success: true,
+        value: { summary: 'Notes', confidence: 50, reasoning: 'Short' },
+        repaired: true,
+      })
+    })
+
+    it('should fail with validation errors for well-formed but wrong responses', () => {
+      const result = parseAnalysisResponse('{"classification": "document", "confidence": 0.95}', 'classification')
+      expect(result.success).toBe(false)
+      expect(!result.success && result.errors).toEqual(['$.primaryCategory: is required', '$.reasoning: is required'])
+    })
+
+    it('should fail when no JSON can be recovered', () => {
+      const result = parseAnalysisResponse('I cannot help with that.', 'classification')
+      expect(result.success).toBe(false)
+      expect(!result.success && result.errors[0]).toContain('Response is not JSON')
+    })
+  })
+
+  it('should build a repair prompt with the errors and schema', () => {
+    const prompt = buildRepairPrompt('Classify this file', '{"bad": true}', ['$.primaryCategory: is required'], 'classification')
+    expect(prompt).toContain('Classify this file')
+    expect(prompt).toContain('{"bad": true}')
+    expect(prompt).toContain('- $.primaryCategory: is required')
+    expect(prompt).toContain(JSON.stringify(ANALYSIS_SCHEMAS['classification']))
+  })
+
+  it('should summarize rename results by their best suggestion', () => {
+    expect(getResultSummary(renameResponse, 'rename-suggestions')).toEqual({ confidence: 90, reasoning: 'Vendor and date' })
+    expect(getResultSummary({ confidence: 40, reasoning: 'r' }, 'classification')).toEqual({ confidence: 40, reasoning: 'r' })
+  })
+
+  it('should keep the type of analysis errors when categorizing', () => {
+    const error = new AnalysisError(AnalysisErrorType.AI_INVALID_RESPONSE, 'Model response does not match the classification schema')
+    expect(AnalysisError.detectErrorType(error)).toBe(AnalysisErrorType.AI_INVALID_RESPONSE)
+  })
+})
+
+describe('schema-constrained inference', () => {
+  const server = new MockOllamaServer()
+
+  beforeAll(async () => {
+    await server.start()
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('should send the schema as the Ollama generate format', async () => {
+    const client = new OllamaClient({ endpoint: server.endpoint, retryAttempts: 1, retryDelay: 0 })
+    server.respondTo('Classify', '{"primaryCategory":"documents","confidence":80,"reasoning":"Invoice"}')
+
+    const { response } = await client.executeInference('llama3.2:3b', 'Classify this file', {
+      format: ANALYSIS_SCHEMAS['classification'],
+    })
+
+    expect(server.requestsTo('generate')[0].body.format).toEqual(ANALYSIS_SCHEMAS['classification'])
+    expect(parseAnalysisResponse(response, 'classification').success).toBe(true)
+    client.destroy()
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { BackupStore } from '../src/lib/backup-store';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { OperationJournal } from '../src/lib/operation-journal';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('BackupStore', () => {
+  let testDir: string;
+  let storeDir: string;
+  let database: MockDatabase;
+  let store: BackupStore;
+
+  const countBlobFiles = async () => {
+    let count = 0;
+    for (const prefix of await fs.readdir(path.join(storeDir, 'blobs')).catch(() => [])) {
+      count += (await fs.readdir(path.join(storeDir, 'blobs', prefix))).length;
+    }
+    return count;
+  };
+
+  /**
+   * Backdate a backup as if it had been created `days` ago
+   */
+  const age = (reference: string, days: number) => {
+    const backupId = reference.slice(BackupStore.REFERENCE_PREFIX.length);
+    database.backupEntries
+      .filter(entry => entry.backupId === backupId)
+      .forEach(entry => { entry.createdAt = Date.now() - days * DAY; });
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-backup-store-' + Date.now());
+    storeDir = path.join(testDir, '.store');
+    await fs.mkdir(path.join(testDir, 'album', 'raw'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'album', 'cover.jpg'), 'cover');
+    await fs.writeFile(path.join(testDir, 'album', 'raw', 'IMG_0001.CR2'), 'raw image data');
+    await fs.writeFile(path.join(testDir, 'report.pdf'), 'quarterly report');
+    database = createMockDatabase();
+    store = new BackupStore(database as any, mockLogger as any, storeDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should store identical content once', async () => {
+    await fs.writeFile(path.join(testDir, 'copy.pdf'), 'quarterly report');
+
+    const first = await store.createBackup(path.join(testDir, 'report.pdf'), { operationId: 'op-1' });
+    const second = await store.createBackup(path.join(testDir, 'copy.pdf'), { operationId: 'op-2' });
+
+    expect(store.isBackupReference(first)).toBe(true);
+    expect(first).not.toBe(second);
+    expect(await countBlobFiles()).toBe(1);
+    expect(store.getUsage()).toMatchObject({ backupCount: 2, blobCount: 1, storedBytes: 16, logicalBytes: 32 });
+  });
+
+  it('should restore a directory tree with modes and times', async () => {
+    const album = path.join(testDir, 'album');
+    const mtime = new Date('2023-05-01T10:00:00Z');
+    await fs.chmod(path.join(album, 'cover.jpg'), 0o640);
+    await fs.utimes(path.join(album, 'raw'), mtime, mtime);
+    await fs.symlink('cover.jpg', path.join(album, 'latest.jpg'));
+
+    const reference = await store.createBackup(album, { operationId: 'op-1', transactionId: 'tx-1' });
+    await fs.rm(album, { recursive: true });
+    await store.restoreBackup(reference, album);
+
+    expect(await fs.readFile(path.join(album, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+    expect(await fs.readlink(path.join(album, 'latest.jpg'))).toBe('cover.jpg');
+    expect((await fs.stat(path.join(album, 'cover.jpg'))).mode & 0o777).toBe(0o640);
+    expect((await fs.stat(path.join(album, 'raw'))).mtime.getTime()).toBe(mtime.getTime());
+    expect(database.backupEntries.every(entry => entry.transactionId === 'tx-1')).toBe(true);
+  });
+
+  it('should keep shared blobs until no backup refers to them', async () => {
+    const report = path.join(testDir, 'report.pdf');
+    const first = await store.createBackup(report, { operationId: 'op-1' });
+    const second = await store.createBackup(report, { operationId: 'op-2' });
+
+    await store.deleteBackup(first);
+    expect((await store.collectGarbage()).blobsRemoved).toBe(0);
+    expect(await store.hasBackup(second)).toBe(true);
+
+    await store.deleteBackup(second);
+    const result = await store.collectGarbage();
+
+    expect(result).toEqual({ backupsRemoved: 0, blobsRemoved: 1, bytesFreed: 16 });
+    expect(await countBlobFiles()).toBe(0);
+    expect(await store.hasBackup(second)).toBe(false);
+  });
+
+  it('should expire backups by age and keep the newest per file', async () => {
+    store.setRetentionPolicy({ maxAgeDays: 30, keepLastPerFile: 2, maxTotalBytes: 0 });
+    const report = path.join(testDir, 'report.pdf');
+    const references: string[] = [];
+    for (let version = 0; version < 4; version++) {
+      await fs.writeFile(report, `quarterly report v${version}`);
+      references.push(await store.createBackup(report, { operationId: `op-${version}` }));
+      age(references[version], 10 - version);
+    }
+    const old = await store.createBackup(path.join(testDir, 'album', 'cover.jpg'), { operationId: 'op-old' });
+    age(old, 45);
+
+    const result = await store.collectGarbage();
+
+    expect(result.backupsRemoved).toBe(3);
+    expect(result.blobsRemoved).toBe(3);
+    expect(await store.hasBackup(references[3])).toBe(true);
+    expect(await store.hasBackup(references[2])).toBe(true);
+    expect(await store.hasBackup(references[1])).toBe(false);
+    expect(await store.hasBackup(old)).toBe(false);
+  });
+
+  it('should drop the oldest backups until the store fits its size cap', async () => {
+    store.setRetentionPolicy({ maxAgeDays: 0, keepLastPerFile: 0, maxTotalBytes: 45 });
+    const references: string[] = [];
+    for (let index = 0; index < 3; index++) {
+      const file = path.join(testDir, `notes-${index}.txt`);
+      await fs.writeFile(file, 'x'.repeat(20));
+      await fs.appendFile(file, String(index));
+      references.push(await store.createBackup(file, { operationId: `op-${index}` }));
+      age(references[index], 3 - index);
+    }
+
+    const result = await store.collectGarbage();
+
+    expect(result.backupsRemoved).toBe(1);
+    expect(await store.hasBackup(references[0])).toBe(false);
+    expect(store.getUsage().storedBytes).toBe(42);
+  });
+
+  it('should remove blob files the database does not know', async () => {
+    const orphan = path.join(storeDir, 'blobs', 'ab', 'ab'.padEnd(64, '0'));
+    await fs.mkdir(path.dirname(orphan), { recursive: true });
+    await fs.writeFile(orphan, 'left over');
+
+    const result = await store.collectGarbage();
+
+    expect(result.bytesFreed).toBe(9);
+    await expect(fs.access(orphan)).rejects.toThrow();
+  });
+
+  it('should reject negative retention values', () => {
+    expect(() => store.setRetentionPolicy({ maxAgeDays: -1 })).toThrow('Invalid backup retention value for maxAgeDays');
+    expect(store.getRetentionPolicy().maxAgeDays).toBe(30);
+  });
+
+  it('should back up deletes for rollback and journal undo', async () => {
+    const manager = new TransactionalFileManager({} as any, mockLogger as any, path.join(testDir, '.backups'), store);
+    const album = path.join(testDir, 'album');
+    const transaction = manager.createTransaction();
+    manager.addOperation(transaction.id, { type: 'delete', source: album });
+    manager.addOperation(transaction.id, { type: 'delete', source: path.join(testDir, 'report.pdf') });
+
+    const result = await manager.executeTransaction(transaction.id);
+    expect(result.success).toBe(true);
+    await expect(fs.access(album)).rejects.toThrow();
+
+    const { id: deleteId, backupPath } = manager.getTransactionStatus(transaction.id)!.operations[0];
+    expect(store.isBackupReference(backupPath!)).toBe(true);
+    await expect(fs.access(path.join(testDir, '.backups'))).rejects.toThrow();
+
+    const journal = new OperationJournal({
+      getJournalOperations: vi.fn(() => [{
+        journalId: 'j-1', operationId: deleteId, transactionId: transaction.id, operationType: 'delete',
+        fileId: 1, sourcePath: album, targetPath: null, status: 'completed', backupPath,
+        fileSize: 0, fileHash: null, originalMtime: null, userId: null, journaledAt: Date.now(),
+        undoData: JSON.stringify({
+          reverseOperation: { type: 'restore', sourcePath: album, restoreFromBackup: backupPath },
+          originalMetadata: { path: album, size: 0, mtime: 0, permissions: '755' },
+          dependencies: [],
+        }),
+      }]),
+      updateOperationStatus: vi.fn(() => true),
+    } as any, mockLogger as any, store);
+
+    expect(await journal.canUndo(deleteId)).toMatchObject({ canUndo: true });
+    const undo = await journal.undoOperation(deleteId);
+
+    expect(undo.success).toBe(true);
+    expect(await fs.readFile(path.join(album, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+  });
+});
@@ -8,7 +8,8 @@ import {
   ConfidenceScorer, 
   SuggestionItem, 
   ProcessedSuggestion,
-  ConfidenceScoringConfig 
+  ConfidenceScoringConfig,
+  NamingProfile
 } from '../src/lib/confidence-scorer';
 
 describe('ConfidenceScorer', () => {
@@ -387,6 +388,61 @@ describe('ConfidenceScorer', () => {
     });
   });
 
+  describe('naming profiles', () => {
+    const profile: NamingProfile = {
+      id: 'dated-client-project',
+      name: 'Date, client, project, version',
+      template: '{date}_{client}_{project}_v{version}',
+      dateFormat: 'YYYY-MM-DD',
+      caseStyle: 'kebab',
+      separator: '-',
+      maxLength: 100,
+      requiredTokens: ['date', 'client', 'project'],
+    };
+
+    it('should fill in the template from token values', () => {
+      const complete = scorer.applyNamingProfile('whatever.pdf', profile, {
+        date: '20240315', client: 'Acme Corp', project: 'WebsiteRedesign', version: '3',
+      });
+      const partial = scorer.applyNamingProfile('whatever.pdf', profile, {
+        date: '2024-03-15', project: 'Website Redesign',
+      });
+
+      expect(complete).toEqual({
+        filename: '2024-03-15_acme-corp_website-redesign_v03.pdf', reformatted: true, missingTokens: [],
+      });
+      expect(partial.filename).toBe('2024-03-15_website-redesign.pdf');
+      expect(partial.missingTokens).toEqual(['client']);
+    });
+
+    it('should reformat free-form names to the case style and date format', () => {
+      const dated = { ...profile, template: '{date}_{title}', requiredTokens: ['date'] };
+      const pascal = { ...profile, template: '{title}', caseStyle: 'pascal' as const, separator: '', maxLength: 20, requiredTokens: [] };
+
+      expect(scorer.applyNamingProfile('Quarterly Report 20240315 Final.pdf', dated).filename)
+        .toBe('2024-03-15_quarterly-report-final.pdf');
+      expect(scorer.applyNamingProfile('quarterly-report.pdf', dated).missingTokens).toEqual(['date']);
+      expect(scorer.applyNamingProfile('user authentication service.ts', pascal).filename).toBe('UserAuthenticationSe.ts');
+      expect(scorer.applyNamingProfile('2024-03-15_quarterly-report.pdf', dated).reformatted).toBe(false);
+    });
+
+    it('should score suggestions after reformatting them to the profile', () => {
+      const dated = { ...profile, template: '{date}_{title}', requiredTokens: ['date'] };
+      const [withDate, withoutDate] = ['Beach Trip 2024_07_04.jpg', 'Beach Trip.jpg'].map(value =>
+        scorer.processFilenameSuggestions(
+          [{ value, confidence: 80, reasoning: 'beach trip photo', originalConfidence: 80 }],
+          'IMG_0001.jpg',
+          { ...mockFileMetadata, namingProfile: dated } as any
+        )[0]
+      );
+
+      expect(withDate.value).toBe('2024-07-04_beach-trip.jpg');
+      expect(withDate.validationFlags).toEqual(expect.arrayContaining(['reformatted-to-profile', 'matches-naming-profile']));
+      expect(withoutDate.validationFlags).toContain('missing-required-token:date');
+      expect(withoutDate.adjustedConfidence).toBeLessThan(withDate.adjustedConfidence);
+    });
+  });
+
   describe('performance', () => {
     it('should handle large numbers of suggestions efficiently', () => {
       // Arrange
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { resolveDestinationConflicts, TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { SuggestionExecutionService } from '../src/lib/suggestion-execution-service';
+import { FileOperationPreviewService } from '../src/lib/file-operation-preview';
+import { Logger } from '../src/lib/logger';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('Destination conflict resolution', () => {
+  let testDir: string;
+
+  const file = (name: string) => path.join(testDir, name);
+  const rename = (id: string, source: string, target: string) => ({
+    id, type: 'rename', sourcePath: file(source), targetPath: file(target),
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-conflicts-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(file('IMG_0001.jpg'), 'new photo, larger');
+    await fs.writeFile(file('IMG_0002.jpg'), 'second');
+    await fs.writeFile(file('beach.jpg'), 'old photo');
+    await fs.utimes(file('beach.jpg'), new Date('2022-01-01'), new Date('2022-01-01'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hold conflicting operations when asked to', async () => {
+    const result = await resolveDestinationConflicts([
+      rename('op-1', 'IMG_0001.jpg', 'beach.jpg'),
+      rename('op-2', 'IMG_0002.jpg', 'sunset.jpg'),
+    ], 'ask');
+
+    expect(result.operations.map(operation => operation.id)).toEqual(['op-2']);
+    expect(result.resolutions).toEqual([expect.objectContaining({
+      operationId: 'op-1', conflict: 'target_exists', action: 'ask', targetPath: file('beach.jpg'),
+    })]);
+  });
+
+  it('should pick the first free numbered name', async () => {
+    await fs.writeFile(file('beach (2).jpg'), 'taken');
+
+    const result = await resolveDestinationConflicts([
+      rename('op-1', 'IMG_0001.jpg', 'beach.jpg'),
+      rename('op-2', 'IMG_0002.jpg', 'beach.jpg'),
+    ], 'auto-suffix');
+
+    expect(result.operations.map(operation => operation.targetPath)).toEqual([file('beach (3).jpg'), file('beach (4).jpg')]);
+    expect(result.resolutions.map(resolution => resolution.conflict)).toEqual(['target_exists', 'target_exists']);
+  });
+
+  it('should keep the newer or larger file', async () => {
+    const newer = await resolveDestinationConflicts([rename('op-1', 'IMG_0001.jpg', 'beach.jpg')], 'keep-newer');
+    const larger = await resolveDestinationConflicts([rename('op-1', 'IMG_0002.jpg', 'beach.jpg')], 'keep-larger');
+
+    expect(newer.resolutions[0].action).toBe('overwrite');
+    expect(larger.resolutions[0].action).toBe('skip');
+    expect(larger.operations).toEqual([]);
+  });
+
+  it('should let the later operation win a duplicate target when overwriting', async () => {
+    const result = await resolveDestinationConflicts([
+      rename('op-1', 'IMG_0001.jpg', 'sunset.jpg'),
+      rename('op-2', 'IMG_0002.jpg', 'sunset.jpg'),
+    ], 'overwrite-with-backup');
+
+    expect(result.operations.map(operation => operation.id)).toEqual(['op-2']);
+    expect(result.resolutions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ operationId: 'op-1', conflict: 'duplicate_target', action: 'skip' }),
+      expect.objectContaining({ operationId: 'op-2', conflict: 'duplicate_target', action: 'proceed' }),
+    ]));
+  });
+
+  it('should apply per-operation decisions and keep targets the batch moves away taken', async () => {
+    const result = await resolveDestinationConflicts([
+      rename('op-1', 'beach.jpg', 'beach-2022.jpg'),
+      rename('op-2', 'IMG_0001.jpg', 'beach.jpg'),
+      rename('op-3', 'IMG_0002.jpg', 'beach-2022.jpg'),
+    ], 'ask', { 'op-3': 'skip' });
+
+    expect(result.operations.map(operation => operation.id)).toEqual(['op-1']);
+    expect(result.resolutions).toEqual([
+      expect.objectContaining({ operationId: 'op-2', conflict: 'target_exists', action: 'ask' }),
+      expect.objectContaining({ operationId: 'op-3', action: 'skip' }),
+    ]);
+  });
+
+  it('should not overwrite a file the batch moves away', async () => {
+    const result = await resolveDestinationConflicts([
+      rename('op-1', 'IMG_0001.jpg', 'beach.jpg'),
+      rename('op-2', 'beach.jpg', 'beach-2022.jpg'),
+    ], 'overwrite-with-backup');
+
+    expect(result.operations.map(operation => operation.id)).toEqual(['op-2']);
+    expect(result.resolutions).toEqual([expect.objectContaining({ operationId: 'op-1', action: 'skip' })]);
+  });
+
+  describe('SuggestionExecutionService', () => {
+    let service: SuggestionExecutionService;
+    const files: Record<number, string> = {};
+
+    const suggestion = (id: number, suggestedValue: string) => ({
+      id, fileId: id, requestId: `req-${id}`, analysisType: 'rename-suggestions' as const, suggestedValue,
+      originalConfidence: 0.9, adjustedConfidence: 0.9, qualityScore: 0.9, reasoning: '', modelUsed: 'test-model',
+      analysisDuration: 0, rankPosition: 1, isRecommended: true,
+    });
+
+    beforeEach(() => {
+      files[1] = file('IMG_0001.jpg');
+      files[2] = file('IMG_0002.jpg');
+      files[3] = file('beach.jpg');
+      vi.spyOn(Logger, 'getInstance').mockReturnValue(mockLogger as any);
+      const database = {
+        getFileById: vi.fn((id: number) => ({ id, path: files[id], size: 0, mtime: 0, lastScannedAt: 0 })),
+        getFileByPath: vi.fn(() => undefined),
+        getFilesWithStem: vi.fn(() => []),
+        getSetting: vi.fn(),
+      };
+      const validator = {
+        validateBatch: vi.fn(async () => ({ isValid: true, errors: [], warnings: [] })),
+        sanitizeTargetPath: vi.fn((source: string, targetPath: string) => ({ targetPath, adjustments: [] })),
+      };
+      service = new SuggestionExecutionService(
+        database as any,
+        { on: vi.fn() } as any,
+        new TransactionalFileManager(database as any, mockLogger as any, path.join(testDir, '.backups')),
+        validator as any
+      );
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return conflicts without touching files until they are decided', async () => {
+      const result = await service.executeWithTransaction([suggestion(1, 'beach.jpg'), suggestion(2, 'sunset.jpg')]);
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual([expect.objectContaining({ operationId: 'suggestion_1', action: 'ask' })]);
+      expect((await fs.readdir(testDir)).sort()).toEqual(['IMG_0001.jpg', 'IMG_0002.jpg', 'beach.jpg']);
+    });
+
+    it('should back up and replace the existing file, or suffix, as decided', async () => {
+      const result = await service.executeWithTransaction(
+        [suggestion(1, 'beach.jpg'), suggestion(2, 'beach.jpg')],
+        { conflictStrategy: 'auto-suffix', conflictDecisions: { 1: 'overwrite-with-backup' } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.completedOperations).toBe(3);
+      expect(await fs.readFile(file('beach.jpg'), 'utf8')).toBe('new photo, larger');
+      expect(await fs.readFile(file('beach (2).jpg'), 'utf8')).toBe('second');
+      expect(await fs.readdir(path.join(testDir, '.backups'))).toHaveLength(1);
+    });
+
+    it('should run a rename onto a name the same batch frees up', async () => {
+      const result = await service.executeWithTransaction(
+        [suggestion(3, 'beach-2022.jpg'), suggestion(1, 'beach.jpg')],
+        { conflictStrategy: 'auto-suffix', createBackups: false }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.conflicts).toEqual([expect.objectContaining({ operationId: 'suggestion_1', action: 'rename' })]);
+      expect(await fs.readFile(file('beach-2022.jpg'), 'utf8')).toBe('old photo');
+      expect(await fs.readFile(file('beach (2).jpg'), 'utf8')).toBe('new photo, larger');
+      await expect(fs.access(file('IMG_0001.jpg'))).rejects.toThrow();
+    });
+  });
+
+  it('should annotate batch previews with the planned resolution', async () => {
+    const paths: Record<number, string> = { 1: file('IMG_0001.jpg'), 2: file('IMG_0002.jpg') };
+    const preview = new FileOperationPreviewService(
+      { getFileById: vi.fn((id: number) => ({ id, path: paths[id], size: 1, mtime: 0, lastScannedAt: 0 })) } as any,
+      mockLogger as any
+    );
+
+    const batch = await preview.generateBatchPreview('batch-1', [
+      { operationId: 'op-1', type: 'rename', fileId: 1, targetPath: 'beach.jpg', confidence: 0.9 },
+      { operationId: 'op-2', type: 'rename', fileId: 2, targetPath: 'sunset.jpg', confidence: 0.9 },
+    ], 'auto-suffix');
+
+    const [conflict] = batch.previews[0].impactAnalysis.conflictingOperations;
+    expect(conflict).toMatchObject({ severity: 'warning', resolution: { action: 'rename' } });
+    expect(batch.previews[0].afterState.name).toBe('beach (2).jpg');
+    expect(batch.previews[1].impactAnalysis.conflictingOperations).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { ContentExtractionService, ZipArchiveReader } from '../src/lib/content-extractor';
+
+/**
+ * Build a minimal ZIP archive (deflated entries, CRC not checked by the reader)
+ */
+function buildZip(entries: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(entries)) {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const data = zlib.deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(entries).length, 8);
+  eocd.writeUInt16LE(Object.keys(entries).length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, eocd]);
+}
+
+/**
+ * Build a single-page PDF with a Flate-compressed content stream
+ */
+function buildPdf(text: string): Buffer {
+  const content = zlib.deflateSync(Buffer.from(`BT /F1 12 Tf 72 712 Td (${text}) Tj ET`, 'latin1'));
+  return Buffer.concat([
+    Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n', 'latin1'),
+    Buffer.from(`4 0 obj\n<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+    content,
+    Buffer.from('\nendstream\nendobj\n%%EOF\n', 'latin1'),
+  ]);
+}
+
+describe('ContentExtractionService', () => {
+  let testDir: string;
+  let service: ContentExtractionService;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-extractor-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    service = new ContentExtractionService({}, null);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('Extractors', () => {
+    it('should extract plain text and markdown', async () => {
+      const filePath = path.join(testDir, 'notes.md');
+      await fs.writeFile(filePath, '# Quarterly Review\r\n\r\n\r\n\r\nRevenue grew 12%.');
+
+      const result = await service.extract(filePath);
+
+      expect(result?.extractor).toBe('plain-text');
+      expect(result?.text).toBe('# Quarterly Review\n\nRevenue grew 12%.');
+    });
+
+    it('should extract structured data files', async () => {
+      const jsonPath = path.join(testDir, 'config.json');
+      await fs.writeFile(jsonPath, '{"name":"invoice","total":42}');
+      const csvPath = path.join(testDir, 'table.csv');
+      await fs.writeFile(csvPath, 'id,amount\n1,10\n2,20\n');
+
+      const json = await service.extract(jsonPath);
+      const csv = await service.extract(csvPath);
+
+      expect(json?.text).toContain('"name": "invoice"');
+      expect(csv?.text).toBe('id,amount\n1,10\n2,20');
+    });
+
+    it('should extract source code', async () => {
+      const filePath = path.join(testDir, 'auth.ts');
+      await fs.writeFile(filePath, 'export function login() {\n  return true;\n}\n');
+
+      const result = await service.extract(filePath);
+
+      expect(result?.extractor).toBe('source-code');
+      expect(result?.text).toContain('export function login()');
+    });
+
+    it('should extract paragraphs from DOCX documents', async () => {
+      const filePath = path.join(testDir, 'contract.docx');
+      await fs.writeFile(filePath, buildZip({
+        '[Content_Types].xml': '<Types/>',
+        'word/document.xml': '<w:document><w:body><w:p><w:r><w:t>Service Agreement</w:t></w:r></w:p>'
+          + '<w:p><w:r><w:t>Fees &amp; terms</w:t></w:r></w:p></w:body></w:document>',
+      }));
+
+      const result = await service.extract(filePath);
+
+      expect(result?.extractor).toBe('office-document');
+      expect(result?.text).toBe('Service Agreement\nFees & terms');
+    });
+
+    it('should extract paragraphs from ODT documents', async () => {
+      const filePath = path.join(testDir, 'letter.odt');
+      await fs.writeFile(filePath, buildZip({
+        'content.xml': '<office:text><text:h>Dear Team</text:h><text:p>See<text:s/>attached</text:p></office:text>',
+      }));
+
+      const result = await service.extract(filePath);
+
+      expect(result?.text).toBe('Dear Team\nSee attached');
+    });
+
+    it('should extract text from PDF content streams', async () => {
+      const filePath = path.join(testDir, 'invoice.pdf');
+      await fs.writeFile(filePath, buildPdf('Invoice \\(March\\) 2024'));
+
+      const result = await service.extract(filePath);
+
+      expect(result?.extractor).toBe('pdf');
+      expect(result?.text).toBe('Invoice (March) 2024');
+    });
+
+    it('should return empty text for binary content', async () => {
+      const filePath = path.join(testDir, 'disguised.txt');
+      await fs.writeFile(filePath, Buffer.from([0x89, 0x50, 0x00, 0x01, 0x02]));
+
+      const result = await service.extract(filePath);
+
+      expect(result?.text).toBe('');
+    });
+
+    it('should return null for unsupported extensions', async () => {
+      const filePath = path.join(testDir, 'photo.jpg');
+      await fs.writeFile(filePath, 'not really an image');
+
+      expect(service.canExtract(filePath)).toBe(false);
+      expect(await service.extract(filePath)).toBeNull();
+    });
+
+    it('should allow registering custom extractors', async () => {
+      const filePath = path.join(testDir, 'song.lrc');
+      await fs.writeFile(filePath, '[00:01]Hello');
+
+      service.registerExtractor({
+        name: 'lyrics',
+        extensions: ['.lrc'],
+        extract: async () => 'Hello',
+      });
+
+      const result = await service.extract(filePath);
+      expect(result?.extractor).toBe('lyrics');
+      expect(result?.text).toBe('Hello');
+    });
+  });
+
+  describe('Truncation and caching', () => {
+    it('should truncate to the requested preview length', async () => {
+      const filePath = path.join(testDir, 'long.txt');
+      await fs.writeFile(filePath, 'a'.repeat(5000));
+
+      const result = await service.extract(filePath, { maxLength: 100 });
+
+      expect(result?.text).toHaveLength(100);
+      expect(result?.isTruncated).toBe(true);
+      expect(result?.originalLength).toBe(5000);
+    });
+
+    it('should serve repeated extractions of the same hash from cache', async () => {
+      const filePath = path.join(testDir, 'cached.txt');
+      await fs.writeFile(filePath, 'original content');
+
+      const first = await service.extract(filePath, { sha256: 'abc123' });
+      await fs.writeFile(filePath, 'changed content');
+      const second = await service.extract(filePath, { sha256: 'abc123' });
+
+      expect(first?.fromCache).toBe(false);
+      expect(second?.fromCache).toBe(true);
+      expect(second?.text).toBe('original content');
+    });
+
+    it('should persist extracted content through the database cache', async () => {
+      const store = new Map<string, any>();
+      const database = {
+        getCachedContent: vi.fn((sha256: string, extractor: string) => store.get(`${extractor}:${sha256}`)),
+        setCachedContent: vi.fn((record: any) => store.set(`${record.extractor}:${record.sha256}`, record)),
+      };
+      const filePath = path.join(testDir, 'persisted.txt');
+      await fs.writeFile(filePath, 'persist me');
+
+      await new ContentExtractionService({}, database as any).extract(filePath, { sha256: 'def456' });
+      const fresh = new ContentExtractionService({}, database as any);
+      const result = await fresh.extract(filePath, { sha256: 'def456' });
+
+      expect(database.setCachedContent).toHaveBeenCalledWith(expect.objectContaining({
+        sha256: 'def456',
+        content: 'persist me',
+        extractor: 'plain-text',
+      }));
+      expect(result?.fromCache).toBe(true);
+      expect(result?.text).toBe('persist me');
+    });
+
+    it('should not serve one extractor\'s cached text to another', async () => {
+      const filePath = path.join(testDir, 'notes.lrc');
+      await fs.writeFile(filePath, 'la la la');
+      service.registerExtractor({ name: 'lyrics', extensions: ['.lrc'], extract: async () => 'Old lyrics' });
+      await service.extract(filePath, { sha256: 'same-hash' });
+
+      service.registerExtractor({ name: 'lyrics-v2', extensions: ['.lrc'], extract: async () => 'New lyrics' });
+      const result = await service.extract(filePath, { sha256: 'same-hash' });
+
+      expect(result?.fromCache).toBe(false);
+      expect(result?.extractor).toBe('lyrics-v2');
+      expect(result?.text).toBe('New lyrics');
+    });
+
+    it('should flag text cut short by the extractor\'s head read', async () => {
+      const filePath = path.join(testDir, 'sparse.txt');
+      // Blank lines collapse, so the head read yields no more text than the preview allows
+      await fs.writeFile(filePath, ('word' + '\n'.repeat(30)).repeat(10));
+      const small = new ContentExtractionService({ defaultMaxLength: 10, cacheMaxLength: 10 });
+
+      const first = await small.extract(filePath, { sha256: 'sparse' });
+      const second = await small.extract(filePath, { sha256: 'sparse' });
+
+      expect(first?.text).toBe('word\n\nword');
+      expect(first?.isTruncated).toBe(true);
+      expect(second?.fromCache).toBe(true);
+      expect(second?.isTruncated).toBe(true);
+    });
+  });
+
+  describe('ZipArchiveReader', () => {
+    it('should return null for missing entries', () => {
+      const reader = new ZipArchiveReader(buildZip({ 'a.txt': 'A' }));
+      expect(reader.readEntry('a.txt')?.toString()).toBe('A');
+      expect(reader.readEntry('b.txt')).toBeNull();
+    });
+
+    it('should reject non-zip data', () => {
+      const reader = new ZipArchiveReader(Buffer.from('plain text that is long enough to scan'));
+      expect(() => reader.readEntry('a.txt')).toThrow('end of central directory not found');
+    });
+  });
+});
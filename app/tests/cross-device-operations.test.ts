@@ -0,0 +1,181 @@
+import { describe, it as test, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { OperationJournal } from '../src/lib/operation-journal';
+
+// Real filesystem, with rename and copyFile wrapped so tests can simulate another mount
+vi.mock('fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  return {
+    ...actual,
+    rename: vi.fn(actual.rename),
+    copyFile: vi.fn(actual.copyFile),
+  };
+});
+
+const exdev = () => Object.assign(new Error('EXDEV: cross-device link not permitted'), { code: 'EXDEV' });
+
+describe('TransactionalFileManager cross-device and directory operations', () => {
+  let manager: TransactionalFileManager;
+  let mockLogger: any;
+  let testDir: string;
+
+  const run = async (operations: Parameters<TransactionalFileManager['addOperation']>[1][]) => {
+    const transaction = manager.createTransaction();
+    for (const operation of operations) {
+      manager.addOperation(transaction.id, operation);
+    }
+    return manager.executeTransaction(transaction.id);
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-cross-device-' + Date.now());
+    await fs.mkdir(path.join(testDir, 'nas'), { recursive: true });
+    await fs.mkdir(path.join(testDir, 'album', 'raw'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'album', 'cover.jpg'), 'cover');
+    await fs.writeFile(path.join(testDir, 'album', 'raw', 'IMG_0001.CR2'), 'raw image data');
+    await fs.writeFile(path.join(testDir, 'report.pdf'), 'quarterly report');
+
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    manager = new TransactionalFileManager({} as any, mockLogger, path.join(testDir, '.backups'));
+  });
+
+  afterEach(async () => {
+    vi.mocked(fs.rename).mockReset();
+    vi.mocked(fs.copyFile).mockReset();
+    const actual = await vi.importActual<typeof import('fs/promises')>('fs/promises');
+    vi.mocked(fs.rename).mockImplementation(actual.rename);
+    vi.mocked(fs.copyFile).mockImplementation(actual.copyFile);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should copy, verify and delete when a move crosses filesystems', async () => {
+    const source = path.join(testDir, 'report.pdf');
+    const target = path.join(testDir, 'nas', 'report.pdf');
+    const mtime = new Date('2023-05-01T10:00:00Z');
+    await fs.utimes(source, mtime, mtime);
+    await fs.chmod(source, 0o640);
+    vi.mocked(fs.rename).mockRejectedValueOnce(exdev());
+
+    const result = await run([{ type: 'move', source, target }]);
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(target, 'utf8')).toBe('quarterly report');
+    await expect(fs.access(source)).rejects.toThrow();
+    const stats = await fs.stat(target);
+    expect(stats.mtime.getTime()).toBe(mtime.getTime());
+    expect(stats.mode & 0o777).toBe(0o640);
+    expect(await fs.readdir(path.join(testDir, 'nas'))).toEqual(['report.pdf']);
+  });
+
+  test('should move a directory tree across filesystems as one operation', async () => {
+    const source = path.join(testDir, 'album');
+    const target = path.join(testDir, 'nas', 'album');
+    vi.mocked(fs.rename).mockRejectedValueOnce(exdev());
+
+    const result = await run([{ type: 'move', source, target }]);
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(path.join(target, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+    expect(await fs.readFile(path.join(target, 'cover.jpg'), 'utf8')).toBe('cover');
+    await expect(fs.access(source)).rejects.toThrow();
+  });
+
+  test('should leave the source untouched and no partial target when verification fails', async () => {
+    const source = path.join(testDir, 'album');
+    const target = path.join(testDir, 'nas', 'album');
+    vi.mocked(fs.rename).mockRejectedValueOnce(exdev());
+    vi.mocked(fs.copyFile).mockImplementationOnce(async (_from, to) => {
+      await fs.writeFile(to as string, 'corrupted');
+    });
+
+    const result = await run([{ type: 'move', source, target }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Checksum mismatch');
+    expect(await fs.readdir(path.join(testDir, 'nas'))).toEqual([]);
+    expect(await fs.readFile(path.join(source, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+  });
+
+  test('should roll back a cross-filesystem move when a later operation fails', async () => {
+    const source = path.join(testDir, 'report.pdf');
+    const target = path.join(testDir, 'nas', 'report.pdf');
+    vi.mocked(fs.rename)
+      .mockRejectedValueOnce(exdev())                                  // Forward move
+      .mockRejectedValueOnce(new Error('EIO: i/o error, rename'))      // Second operation
+      .mockRejectedValueOnce(exdev());                                 // Rollback move
+
+    const result = await run([
+      { type: 'move', source, target },
+      { type: 'rename', source: path.join(testDir, 'album'), target: path.join(testDir, 'album-2023') },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(await fs.readFile(source, 'utf8')).toBe('quarterly report');
+    await expect(fs.access(target)).rejects.toThrow();
+  });
+
+  test('should rename, copy and delete directories', async () => {
+    const renamed = path.join(testDir, 'album-2023');
+    const copied = path.join(testDir, 'album-copy');
+
+    expect((await run([{ type: 'rename', source: path.join(testDir, 'album'), target: renamed }])).success).toBe(true);
+    expect((await run([{ type: 'copy', source: renamed, target: copied }])).success).toBe(true);
+    expect(await fs.readFile(path.join(copied, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+
+    expect((await run([{ type: 'delete', source: copied }])).success).toBe(true);
+    await expect(fs.access(copied)).rejects.toThrow();
+  });
+
+  test('should restore a deleted directory on rollback', async () => {
+    const album = path.join(testDir, 'album');
+    vi.mocked(fs.rename).mockRejectedValueOnce(new Error('EIO: i/o error, rename'));
+
+    const result = await run([
+      { type: 'delete', source: album },
+      { type: 'rename', source: path.join(testDir, 'report.pdf'), target: path.join(testDir, 'report-q3.pdf') },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(await fs.readFile(path.join(album, 'raw', 'IMG_0001.CR2'), 'utf8')).toBe('raw image data');
+  });
+
+  test('should undo a journaled move across filesystems', async () => {
+    const original = path.join(testDir, 'report.pdf');
+    const moved = path.join(testDir, 'nas', 'report.pdf');
+    await fs.rename(original, moved);
+
+    const rows: any[] = [];
+    const database = {
+      insertJournalOperation: vi.fn((record: any) => rows.push({ ...record, status: 'completed' })),
+      getJournalOperations: vi.fn((filters: any) => rows.filter(row =>
+        (filters.operationId === undefined || row.operationId === filters.operationId) &&
+        (filters.sourcePath === undefined || row.sourcePath === filters.sourcePath))),
+      updateOperationStatus: vi.fn(),
+    };
+    const journal = new OperationJournal(database as any, mockLogger);
+    await journal.recordOperation('tx-1', 'op-1', 'move', 1, original, moved, {
+      reverseOperation: { type: 'move', sourcePath: moved, targetPath: original },
+      originalMetadata: { path: original, size: 16, mtime: 1, permissions: '644' },
+      dependencies: [],
+    }, { fileSize: 16, fileHash: 'hash', originalMtime: 1 });
+    vi.mocked(fs.rename).mockRejectedValueOnce(exdev());
+
+    const result = await journal.undoOperation('op-1');
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(original, 'utf8')).toBe('quarterly report');
+    await expect(fs.access(moved)).rejects.toThrow();
+  });
+
+  test('should refuse to move a directory into itself', async () => {
+    const album = path.join(testDir, 'album');
+
+    const result = await run([{ type: 'move', source: album, target: path.join(album, 'raw', 'album') }]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('into itself');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { DeferredHashingService } from '../src/lib/deferred-hashing-service';
+import { hashFileStream } from '../src/workers/file-hasher';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const sha256Of = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+describe('hashFileStream', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-hasher-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should match an in-memory hash across many chunks', async () => {
+    const content = 'chunked content '.repeat(10000);
+    const filePath = path.join(testDir, 'chunks.bin');
+    await fs.writeFile(filePath, content);
+
+    const onProgress = vi.fn();
+    const hash = await hashFileStream(filePath, { chunkSizeBytes: 4096, onProgress });
+
+    expect(hash).toBe(sha256Of(content));
+    expect(onProgress.mock.calls.length).toBeGreaterThan(1);
+    expect(onProgress).toHaveBeenLastCalledWith(Buffer.byteLength(content));
+  });
+
+  it('should return undefined for empty files', async () => {
+    const filePath = path.join(testDir, 'empty.bin');
+    await fs.writeFile(filePath, '');
+
+    expect(await hashFileStream(filePath)).toBeUndefined();
+  });
+
+  it('should reject when aborted', async () => {
+    const filePath = path.join(testDir, 'abort.bin');
+    await fs.writeFile(filePath, 'data');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(hashFileStream(filePath, { signal: controller.signal })).rejects.toThrow('Hashing aborted');
+  });
+});
+
+describe('DeferredHashingService', () => {
+  let testDir: string;
+  let database: MockDatabase;
+  let service: DeferredHashingService;
+
+  const addFile = async (name: string, content: string, row: Partial<any> = {}) => {
+    const filePath = path.join(testDir, name);
+    await fs.writeFile(filePath, content);
+    const stats = await fs.stat(filePath);
+    database.files.set(filePath, {
+      path: filePath,
+      size: stats.size,
+      mtime: Math.floor(stats.mtime.getTime() / 1000),
+      sha256: null,
+      ...row,
+    });
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-deferred-hash-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    database = createMockDatabase();
+    service = new DeferredHashingService(database as any, mockLogger as any, { idleDelayMs: 0, startDelayMs: 10, progressIntervalMs: 0 });
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hash every pending file and report hashing progress', async () => {
+    const video = await addFile('video.mp4', 'v'.repeat(5000));
+    const archive = await addFile('archive.zip', 'z'.repeat(3000));
+    const progress = vi.fn();
+    service.on('progress', progress);
+
+    await service.runNow();
+
+    expect(database.files.get(video).sha256).toBe(sha256Of('v'.repeat(5000)));
+    expect(database.files.get(archive).sha256).toBe(sha256Of('z'.repeat(3000)));
+    expect(progress).toHaveBeenCalledWith(expect.objectContaining({ phase: 'hashing' }));
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ phase: 'complete', percent: 100, fileCount: 2 }));
+  });
+
+  it('should hash files that changed since the scan as they are now', async () => {
+    const changed = await addFile('changed.mp4', 'new content', { size: 1, mtime: 1 });
+
+    await service.runNow();
+
+    const stats = await fs.stat(changed);
+    expect(database.updatePendingHashStats).toHaveBeenCalledWith(changed, stats.size, Math.floor(stats.mtime.getTime() / 1000));
+    expect(database.files.get(changed).sha256).toBe(sha256Of('new content'));
+    expect(database.markHashFailed).not.toHaveBeenCalled();
+  });
+
+  it('should skip files that vanished since the scan', async () => {
+    database.files.set(path.join(testDir, 'missing.mov'), {
+      path: path.join(testDir, 'missing.mov'), size: 10, mtime: 1, sha256: null,
+    });
+
+    await service.runNow();
+
+    expect(database.markHashFailed).toHaveBeenCalledWith(path.join(testDir, 'missing.mov'));
+    expect(service.getStatus().pendingFiles).toBe(0);
+  });
+
+  it('should leave files pending when paused so a later run resumes', async () => {
+    await addFile('one.mp4', 'one');
+    await addFile('two.mp4', 'two!');
+    service.on('progress', (progress) => {
+      if (progress.fileCount === 1) service.pause();
+    });
+
+    await service.runNow();
+    expect(service.getStatus().pendingFiles).toBe(1);
+
+    service.removeAllListeners('progress');
+    service.resume();
+    await vi.waitFor(() => expect(service.getStatus().pendingFiles).toBe(0), { timeout: 2000 });
+  });
+
+  it('should resume pending work when started', async () => {
+    const leftover = await addFile('leftover.mkv', 'from last session');
+    const completed = vi.fn();
+    service.on('hashing-complete', completed);
+
+    service.start();
+
+    await vi.waitFor(() => expect(completed).toHaveBeenCalledWith({ hashedFiles: 1 }), { timeout: 2000 });
+    expect(database.files.get(leftover).sha256).toBe(sha256Of('from last session'));
+  });
+});
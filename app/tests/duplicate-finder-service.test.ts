@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { DuplicateFinderService, normalizeCopyStem } from '../src/lib/duplicate-finder-service';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+describe('normalizeCopyStem', () => {
+  it('should strip common copy suffixes', () => {
+    expect(normalizeCopyStem('report (1)')).toEqual({ stem: 'report', hadCopySuffix: true });
+    expect(normalizeCopyStem('Report copy')).toEqual({ stem: 'report', hadCopySuffix: true });
+    expect(normalizeCopyStem('report - Copy (2)')).toEqual({ stem: 'report', hadCopySuffix: true });
+    expect(normalizeCopyStem('report_copy')).toEqual({ stem: 'report', hadCopySuffix: true });
+    expect(normalizeCopyStem('report copy 2 (1)')).toEqual({ stem: 'report', hadCopySuffix: true });
+  });
+
+  it('should leave ordinary names alone', () => {
+    expect(normalizeCopyStem('copyright')).toEqual({ stem: 'copyright', hadCopySuffix: false });
+    expect(normalizeCopyStem('copy')).toEqual({ stem: 'copy', hadCopySuffix: false });
+  });
+});
+
+describe('DuplicateFinderService', () => {
+  let testDir: string;
+  let executionService: { executeWithTransaction: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-duplicates-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    executionService = {
+      executeWithTransaction: vi.fn().mockResolvedValue({
+        success: true,
+        transactionId: 'tx-1',
+        completedOperations: 2,
+        errors: [],
+        rollbackAvailable: true,
+      }),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const createService = (database: MockDatabase) =>
+    new DuplicateFinderService(database as any, mockLogger as any, executionService as any);
+
+  const executed = (executedOperations: any[]) => executionService.executeWithTransaction.mockResolvedValueOnce({
+    success: true,
+    transactionId: 'tx-1',
+    completedOperations: executedOperations.length,
+    errors: [],
+    rollbackAvailable: true,
+    executedOperations,
+  });
+
+  it('should group exact duplicates by hash and keep the original name', () => {
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/photos/backup/deep/beach (1).jpg', sha256: 'aaa', size: 500, mtime: 1 },
+      { id: 2, path: '/photos/beach.jpg', sha256: 'aaa', size: 500, mtime: 2 },
+      { id: 3, path: '/photos/other.jpg', sha256: 'bbb', size: 500, mtime: 3 },
+    ] });
+
+    const result = createService(database).findDuplicates();
+
+    expect(result.exactGroups).toBe(1);
+    expect(result.groups[0]).toMatchObject({
+      id: 'exact:aaa',
+      matchType: 'exact',
+      suggestedKeeperId: 2,
+      reclaimableBytes: 500,
+    });
+    expect(result.groups[0].files.map(f => f.id).sort()).toEqual([1, 2]);
+  });
+
+  it('should find copy-suffixed near duplicates with matching size and mtime', () => {
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/docs/notes.txt', size: 100, mtime: 50 },
+      { id: 2, path: '/docs/notes copy.txt', size: 100, mtime: 50 },
+      { id: 3, path: '/docs/notes (2).txt', size: 100, mtime: 51 },
+      // Same size and mtime but no copy suffix anywhere
+      { id: 4, path: '/a/readme.md', size: 20, mtime: 9 },
+      { id: 5, path: '/b/readme.md', size: 20, mtime: 9 },
+    ] });
+
+    const result = createService(database).findDuplicates();
+
+    expect(result.nearGroups).toBe(1);
+    expect(result.groups[0]).toMatchObject({ matchType: 'near', suggestedKeeperId: 1 });
+    expect(result.groups[0].files.map(f => f.id).sort()).toEqual([1, 2]);
+  });
+
+  it('should not repeat near groups already reported as exact', () => {
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/docs/a.txt', sha256: 'same', size: 10, mtime: 5 },
+      { id: 2, path: '/docs/a (1).txt', sha256: 'same', size: 10, mtime: 5 },
+    ] });
+
+    const result = createService(database).findDuplicates();
+
+    expect(result.exactGroups).toBe(1);
+    expect(result.nearGroups).toBe(0);
+  });
+
+  it('should not offer near duplicates whose contents hash differently', () => {
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/docs/report.pdf', sha256: 'first', size: 10, mtime: 5 },
+      { id: 2, path: '/docs/report (1).pdf', sha256: 'second', size: 10, mtime: 5 },
+      { id: 3, path: '/docs/report copy.pdf', size: 10, mtime: 5 },
+    ] });
+
+    const result = createService(database).findDuplicates();
+
+    expect(result.nearGroups).toBe(0);
+    expect(result.groups).toEqual([]);
+  });
+
+  it('should delete every file except the keeper through a transaction', async () => {
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/docs/a.txt', sha256: 'same', size: 10, mtime: 5 },
+      { id: 2, path: '/docs/a (1).txt', sha256: 'same', size: 10, mtime: 5 },
+      { id: 3, path: '/docs/a copy.txt', sha256: 'same', size: 10, mtime: 5 },
+    ] });
+    const resolved = vi.fn();
+    const service = createService(database);
+    service.on('duplicates-resolved', resolved);
+    executed([{ type: 'delete', source: '/docs/a (1).txt' }, { type: 'delete', source: '/docs/a copy.txt' }]);
+
+    const result = await service.resolveGroup({ keeperId: 1, fileIds: [1, 2, 3], action: 'delete' });
+
+    expect(result).toEqual({ success: true, transactionId: 'tx-1', processedFiles: 2, errors: [] });
+    const [suggestions, options] = executionService.executeWithTransaction.mock.calls[0];
+    expect(suggestions.map((s: any) => s.fileId)).toEqual([2, 3]);
+    expect(options).toMatchObject({ operationType: 'delete', createBackups: true, operationJournaling: true });
+    expect(database.deleteFilesByPath).toHaveBeenCalledWith(['/docs/a (1).txt', '/docs/a copy.txt']);
+    expect(resolved).toHaveBeenCalledWith(expect.objectContaining({ keeperId: 1, action: 'delete' }));
+  });
+
+  it('should move duplicates into the target folder without name collisions', async () => {
+    const existing = path.join(testDir, 'dups');
+    await fs.mkdir(existing, { recursive: true });
+    await fs.writeFile(path.join(existing, 'a.txt'), 'already here');
+
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/root/a.txt', sha256: 'same', size: 10, mtime: 5, relativePathFromRoot: 'a.txt' },
+      { id: 2, path: '/root/one/a.txt', sha256: 'same', size: 10, mtime: 5, relativePathFromRoot: 'one/a.txt' },
+      { id: 3, path: '/root/two/a.txt', sha256: 'same', size: 10, mtime: 5, relativePathFromRoot: 'two/a.txt' },
+    ] });
+    executed([
+      { type: 'move', source: '/root/one/a.txt', target: path.join(existing, 'a (1).txt') },
+      { type: 'move', source: '/root/two/a.txt', target: path.join(existing, 'a (2).txt') },
+    ]);
+
+    await createService(database).resolveGroup({
+      keeperId: 1, fileIds: [1, 2, 3], action: 'move', targetFolder: existing,
+    });
+
+    const [suggestions, options] = executionService.executeWithTransaction.mock.calls[0];
+    expect(options).toMatchObject({ operationType: 'move', conflictStrategy: 'auto-suffix' });
+    expect(suggestions.map((s: any) => s.suggestedValue)).toEqual([
+      path.join(existing, 'a (1).txt'),
+      path.join(existing, 'a (2).txt'),
+    ]);
+    expect(database.moveFileRecord).toHaveBeenCalledWith('/root/one/a.txt', expect.objectContaining({
+      path: path.join(existing, 'a (1).txt'),
+      parentDirectory: existing,
+      relativePathFromRoot: undefined,
+    }));
+  });
+
+  it('should record where files and their sidecars actually went', async () => {
+    const target = path.join(testDir, 'dups');
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/root/IMG_1.CR2', sha256: 'same', size: 10, mtime: 5 },
+      { id: 2, path: '/root/copy/IMG_1.CR2', sha256: 'same', size: 10, mtime: 5 },
+      { id: 3, path: '/root/copy/IMG_1.xmp', size: 1, mtime: 5 },
+    ] });
+    // Another file took the planned name while the transaction was set up
+    executed([
+      { type: 'move', source: '/root/copy/IMG_1.CR2', target: path.join(target, 'IMG_1 (2).CR2') },
+      { type: 'move', source: '/root/copy/IMG_1.xmp', target: path.join(target, 'IMG_1 (2).xmp') },
+    ]);
+
+    await createService(database).resolveGroup({ keeperId: 1, fileIds: [1, 2], action: 'move', targetFolder: target });
+
+    expect(executionService.executeWithTransaction.mock.calls[0][0][0].suggestedValue).toBe(path.join(target, 'IMG_1.CR2'));
+    expect(database.moveFileRecord).toHaveBeenCalledTimes(2);
+    expect(database.moveFileRecord).toHaveBeenCalledWith('/root/copy/IMG_1.CR2', expect.objectContaining({
+      id: 2, path: path.join(target, 'IMG_1 (2).CR2'),
+    }));
+    expect(database.moveFileRecord).toHaveBeenCalledWith('/root/copy/IMG_1.xmp', expect.objectContaining({
+      id: 3, path: path.join(target, 'IMG_1 (2).xmp'), fileName: 'IMG_1 (2).xmp',
+    }));
+  });
+
+  it('should leave the database untouched when the transaction fails', async () => {
+    executionService.executeWithTransaction.mockResolvedValue({
+      success: false, transactionId: 'tx-2', completedOperations: 0, errors: ['permission denied'], rollbackAvailable: false,
+    });
+    const database = createMockDatabase({ files: [
+      { id: 1, path: '/docs/a.txt', sha256: 'same', size: 10, mtime: 5 },
+      { id: 2, path: '/docs/a (1).txt', sha256: 'same', size: 10, mtime: 5 },
+    ] });
+
+    const result = await createService(database).resolveGroup({ keeperId: 1, fileIds: [1, 2], action: 'delete' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['permission denied']);
+    expect(database.deleteFilesByPath).not.toHaveBeenCalled();
+  });
+
+  it('should reject a keeper outside the group', async () => {
+    const database = createMockDatabase();
+
+    await expect(createService(database).resolveGroup({ keeperId: 9, fileIds: [1, 2], action: 'delete' }))
+      .rejects.toThrow('Keeper must be a member');
+  });
+});
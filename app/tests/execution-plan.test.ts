@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { createPlanManifest, parsePlanManifest, toShellScript, toUndoShellScript } from '../src/lib/execution-plan';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { SuggestionExecutionService } from '../src/lib/suggestion-execution-service';
+import { OperationValidator } from '../src/lib/operation-validator';
+import { Logger } from '../src/lib/logger';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('Execution plans', () => {
+  let testDir: string;
+  let service: SuggestionExecutionService;
+  let database: any;
+  const files: Record<number, string> = {};
+
+  const file = (name: string) => path.join(testDir, name);
+  const suggestion = (id: number, suggestedValue: string) => ({
+    id, fileId: id, requestId: `req-${id}`, analysisType: 'rename-suggestions' as const, suggestedValue,
+    originalConfidence: 0.9, adjustedConfidence: 0.9, qualityScore: 0.9, reasoning: '', modelUsed: 'test-model',
+    analysisDuration: 0, rankPosition: 1, isRecommended: true,
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-plan-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(file("it's here.jpg"), 'photo');
+    await fs.writeFile(file('notes.txt'), 'notes');
+    await fs.writeFile(file('taken.txt'), 'older notes');
+    files[1] = file("it's here.jpg");
+    files[2] = file('notes.txt');
+
+    vi.spyOn(Logger, 'getInstance').mockReturnValue(mockLogger as any);
+    database = {
+      getFileById: vi.fn((id: number) => ({ id, path: files[id], size: 0, mtime: 0, lastScannedAt: 0 })),
+      getFileByPath: vi.fn(() => undefined),
+      getFilesWithStem: vi.fn(() => []),
+      getSetting: vi.fn(),
+    };
+    const validator = {
+      validateBatch: vi.fn(async () => ({ isValid: true, errors: [], warnings: [] })),
+      sanitizeTargetPath: vi.fn((source: string, targetPath: string) => ({ targetPath, adjustments: [] })),
+    };
+    service = new SuggestionExecutionService(
+      database as any,
+      { on: vi.fn() } as any,
+      new TransactionalFileManager(database as any, mockLogger as any, path.join(testDir, '.backups')),
+      validator as any
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should plan without touching files and replay the manifest', async () => {
+    const plan = await service.createExecutionPlan([suggestion(1, file('beach.jpg')), suggestion(2, 'taken.txt')], {
+      conflictStrategy: 'overwrite-with-backup'
+    });
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.operations.map(operation => [operation.type, path.basename(operation.source)])).toEqual([
+      ['rename', "it's here.jpg"],
+      ['delete', 'taken.txt'],
+      ['rename', 'notes.txt'],
+    ]);
+    expect(plan.operations[0].expected).toMatchObject({ size: 5 });
+    expect((await fs.readdir(testDir)).sort()).toEqual(["it's here.jpg", 'notes.txt', 'taken.txt']);
+
+    const manifest = parsePlanManifest(JSON.stringify(createPlanManifest(plan.operations)));
+    const result = await service.executePlan(manifest.operations, { operationJournaling: false });
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(file('beach.jpg'), 'utf8')).toBe('photo');
+    expect(await fs.readFile(file('taken.txt'), 'utf8')).toBe('notes');
+  });
+
+  it('should refuse plans whose files changed since they were planned', async () => {
+    const plan = await service.createExecutionPlan([suggestion(2, 'renamed.txt')]);
+    await fs.writeFile(file('notes.txt'), 'edited notes');
+
+    const result = await service.executePlan(plan.operations);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([`File changed since the plan was created: ${file('notes.txt')}`]);
+    expect(await fs.readFile(file('notes.txt'), 'utf8')).toBe('edited notes');
+  });
+
+  it('should reject manifests it cannot replay', () => {
+    const manifest = createPlanManifest([]);
+
+    expect(() => parsePlanManifest('{')).toThrow('Invalid plan manifest');
+    expect(() => parsePlanManifest(JSON.stringify({ ...manifest, version: 2 })))
+      .toThrow('Plan manifest version 2 is newer than the supported version 1');
+    expect(() => parsePlanManifest(JSON.stringify({
+      ...manifest,
+      operations: [{ type: 'rename', source: 'relative.txt', target: '/tmp/x.txt', expected: null }],
+    }))).toThrow('operation 1 needs an absolute source path');
+    expect(() => parsePlanManifest(JSON.stringify({
+      ...manifest,
+      operations: [{ type: 'copy', source: '/tmp/a.txt', target: '/tmp/b.txt', expected: null }],
+    }))).toThrow('operation 1 has unsupported type "copy"');
+    expect(() => parsePlanManifest(JSON.stringify({
+      ...manifest,
+      operations: [{ type: 'delete', source: '/tmp/a.txt', metadata: { createBackup: true, skipChecks: true }, expected: null }],
+    }))).toThrow('operation 1 has unsupported metadata "skipChecks"');
+  });
+
+  it('should refuse replaying manifests that normal execution would not run', async () => {
+    const guarded = new SuggestionExecutionService(
+      database,
+      { on: vi.fn() } as any,
+      new TransactionalFileManager(database, mockLogger as any, path.join(testDir, '.backups')),
+      new OperationValidator(database, mockLogger as any)
+    );
+    const replay = (operations: any[]) => guarded.executePlan(operations, { operationJournaling: false });
+
+    const hidden = await replay([{ type: 'rename', source: file('notes.txt'), target: file('.notes.txt'), expected: null }]);
+    const system = await replay([
+      { type: 'move', source: file('notes.txt'), target: file('repo/.git/hooks/pre-commit'), expected: null },
+    ]);
+    const forced = await replay([{
+      type: 'rename', source: file('notes.txt'), target: file('taken.txt'),
+      metadata: { force: true, createBackup: false }, expected: null
+    }]);
+    const written = await replay([{ type: 'write', source: file('taken.txt'), content: 'replaced', expected: null }]);
+
+    expect(hidden.success).toBe(false);
+    expect(hidden.errors).toContain(`Plan touches a hidden file: ${file('.notes.txt')}`);
+    expect(system.success).toBe(false);
+    expect(system.errors.some(error => error.includes('Operation on system file detected'))).toBe(true);
+    expect(forced.success).toBe(false);
+    expect(forced.errors).toContain(`Operation 1 overwrites ${file('taken.txt')} without backing it up first`);
+    expect(written.success).toBe(false);
+    expect(written.errors).toContain(`Operation 1 writes to a file outside the index: ${file('taken.txt')}`);
+    expect((await fs.readdir(testDir)).sort()).toEqual(["it's here.jpg", 'notes.txt', 'taken.txt']);
+    expect(await fs.readFile(file('taken.txt'), 'utf8')).toBe('older notes');
+  });
+
+  it('should export shell scripts that run and undo the plan', async () => {
+    const manifest = createPlanManifest([
+      { type: 'write', source: file('notes.txt'), content: "see 'photos'\n", expected: null },
+      { type: 'rename', source: file("it's here.jpg"), target: file('photos/beach.jpg'), expected: null },
+      { type: 'delete', source: file('taken.txt'), expected: null },
+    ], 'plan-test');
+    const script = toShellScript(manifest);
+    const env = { ...process.env, MAXSORT_STASH: file('.stash') };
+
+    expect(script).toContain(`mv -n -- '${testDir}/it'\\''s here.jpg' '${testDir}/photos/beach.jpg'`);
+    expect(script).toContain(`mkdir -p -- '${testDir}/photos'`);
+
+    await fs.writeFile(file('plan.sh'), script);
+    await fs.writeFile(file('plan-undo.sh'), toUndoShellScript(manifest));
+
+    execFileSync('sh', [file('plan.sh')], { env });
+    expect(await fs.readFile(file('photos/beach.jpg'), 'utf8')).toBe('photo');
+    expect(await fs.readFile(file('notes.txt'), 'utf8')).toBe("see 'photos'\n");
+    await expect(fs.access(file('taken.txt'))).rejects.toThrow();
+
+    execFileSync('sh', [file('plan-undo.sh')], { env });
+    expect(await fs.readFile(file("it's here.jpg"), 'utf8')).toBe('photo');
+    expect(await fs.readFile(file('notes.txt'), 'utf8')).toBe('notes');
+    expect(await fs.readFile(file('taken.txt'), 'utf8')).toBe('older notes');
+  });
+
+  it('should stop the script when a move target is already taken', async () => {
+    const manifest = createPlanManifest([
+      { type: 'rename', source: file('notes.txt'), target: file('taken.txt'), expected: null },
+      { type: 'delete', source: file("it's here.jpg"), expected: null },
+    ], 'plan-taken');
+    await fs.writeFile(file('plan.sh'), toShellScript(manifest));
+
+    expect(() => execFileSync('sh', [file('plan.sh')], {
+      env: { ...process.env, MAXSORT_STASH: file('.stash') },
+      stdio: 'pipe',
+    })).toThrow(`${file('taken.txt')} already exists`);
+    expect(await fs.readFile(file('notes.txt'), 'utf8')).toBe('notes');
+    expect(await fs.readFile(file('taken.txt'), 'utf8')).toBe('older notes');
+    expect(await fs.readFile(file("it's here.jpg"), 'utf8')).toBe('photo');
+  });
+});
@@ -10,6 +10,7 @@ describe('FileOperationPreviewService', () => {
 
   beforeEach(() => {
     mockDatabase = {
+      getFileById: vi.fn().mockReturnValue(undefined),
       getSuggestionsByFileId: vi.fn().mockReturnValue([{
         id: 1,
         fileId: 1,
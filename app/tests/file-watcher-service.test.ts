@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { FileWatcherService } from '../src/lib/file-watcher-service';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+describe('FileWatcherService', () => {
+  let testDir: string;
+  let database: MockDatabase;
+  let watcher: FileWatcherService;
+
+  const seed = async (relativePath: string, content: string) => {
+    const filePath = path.join(testDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    const stats = await fs.stat(filePath);
+    database.files.set(filePath, {
+      id: database.files.size + 100,
+      path: filePath,
+      sha256: crypto.createHash('sha256').update(content).digest('hex'),
+      size: stats.size,
+      mtime: Math.floor(stats.mtime.getTime() / 1000),
+      parentDirectory: path.dirname(filePath),
+    });
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-watcher-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    database = createMockDatabase({ scannedRoots: [{ rootPath: testDir }] });
+    watcher = new FileWatcherService(database as any, mockLogger as any, { debounceMs: 20 });
+  });
+
+  afterEach(async () => {
+    watcher.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('syncPaths', () => {
+    it('should add new files and skip excluded ones', async () => {
+      await fs.writeFile(path.join(testDir, 'report.pdf'), 'pdf');
+      await fs.writeFile(path.join(testDir, 'debug.log'), 'log');
+
+      const delta = await watcher.syncPaths(testDir, [testDir]);
+
+      expect(delta.added).toEqual([path.join(testDir, 'report.pdf')]);
+      expect(database.files.has(path.join(testDir, 'debug.log'))).toBe(false);
+    });
+
+    it('should leave unchanged files untouched', async () => {
+      await seed('notes.txt', 'hello');
+
+      const delta = await watcher.syncPaths(testDir, [testDir]);
+
+      expect(delta.unchangedCount).toBe(1);
+      expect(database.upsertFile).not.toHaveBeenCalled();
+    });
+
+    it('should detect renames as moves and keep the file id', async () => {
+      const original = await seed('inbox/export.txt', 'a,b\n1,2');
+      const originalId = database.files.get(original).id;
+      const renamed = path.join(testDir, 'inbox', 'export-2024.txt');
+      await fs.rename(original, renamed);
+
+      const delta = await watcher.syncPaths(testDir, [original, renamed]);
+
+      expect(delta.moved).toEqual([{ from: original, to: renamed }]);
+      expect(database.files.has(original)).toBe(false);
+      expect(database.files.get(renamed).id).toBe(originalId);
+    });
+
+    it('should remove rows for deleted directories', async () => {
+      const nested = await seed('old/deep/file.txt', 'bye');
+      await fs.rm(path.join(testDir, 'old'), { recursive: true });
+
+      const delta = await watcher.syncPaths(testDir, [path.join(testDir, 'old')]);
+
+      expect(delta.deleted).toEqual([nested]);
+      expect(database.files.size).toBe(0);
+    });
+  });
+
+  describe('Auto analysis', () => {
+    it('should enqueue added files when enabled', async () => {
+      const generateTasks = vi.fn().mockResolvedValue({ taskIds: ['t1'] });
+      watcher.setTaskGenerator({ generateTasks } as any);
+      watcher.updateConfig({ autoAnalyze: { enabled: true, analysisType: 'classification' } });
+      await fs.writeFile(path.join(testDir, 'invoice.pdf'), 'invoice');
+
+      await watcher.syncPaths(testDir, [testDir]);
+
+      expect(generateTasks).toHaveBeenCalledWith({
+        fileIds: [database.files.get(path.join(testDir, 'invoice.pdf')).id],
+        analysisType: 'classification',
+        isInteractive: false,
+        modelName: 'llama3',
+      });
+    });
+
+    it('should not enqueue when disabled', async () => {
+      const generateTasks = vi.fn();
+      watcher.setTaskGenerator({ generateTasks } as any);
+      await fs.writeFile(path.join(testDir, 'invoice.pdf'), 'invoice');
+
+      await watcher.syncPaths(testDir, [testDir]);
+
+      expect(generateTasks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Watching', () => {
+    it('should sync files dropped into a watched root', async () => {
+      const completed = vi.fn();
+      watcher.on('sync-complete', completed);
+
+      watcher.start();
+      await watcher.flushAll();
+      await fs.writeFile(path.join(testDir, 'dropped.txt'), 'new export');
+
+      await vi.waitFor(async () => {
+        await watcher.flushAll();
+        expect(database.files.has(path.join(testDir, 'dropped.txt'))).toBe(true);
+      }, { timeout: 5000, interval: 50 });
+      expect(completed).toHaveBeenCalled();
+    });
+
+    it('should apply the filters the root was scanned with', async () => {
+      database.getScannedRoots.mockReturnValue([{ rootPath: testDir, exclude: ['*.csv'] }]);
+      await fs.writeFile(path.join(testDir, 'export.csv'), 'a,b');
+      await fs.writeFile(path.join(testDir, 'summary.txt'), 'totals');
+
+      watcher.start();
+      await watcher.flushAll();
+
+      await vi.waitFor(async () => {
+        await watcher.flushAll();
+        expect(database.files.has(path.join(testDir, 'summary.txt'))).toBe(true);
+      }, { timeout: 5000, interval: 50 });
+      expect(database.files.has(path.join(testDir, 'export.csv'))).toBe(false);
+    });
+
+    it('should fall back to polling when configured', async () => {
+      watcher.updateConfig({ usePolling: true, pollIntervalMs: 50 });
+      watcher.start();
+
+      expect(watcher.getStatus()).toEqual([
+        expect.objectContaining({ rootPath: testDir, mode: 'polling' }),
+      ]);
+
+      await fs.writeFile(path.join(testDir, 'polled.txt'), 'polled');
+      await vi.waitFor(async () => {
+        await watcher.flushAll();
+        expect(database.files.has(path.join(testDir, 'polled.txt'))).toBe(true);
+      }, { timeout: 5000, interval: 50 });
+    });
+  });
+});
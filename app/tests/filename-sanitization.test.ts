@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { OperationValidator } from '../src/lib/operation-validator';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('File name sanitization', () => {
+  let validator: OperationValidator;
+  const portable = { mode: 'portable' as const };
+
+  beforeEach(() => {
+    validator = new OperationValidator({} as any, mockLogger as any);
+  });
+
+  it('should make names valid on Windows in portable mode', () => {
+    const reserved = validator.sanitizeTargetPath('/data/IMG_0001.txt', '/data/con.txt', portable);
+    const characters = validator.sanitizeTargetPath('/data/IMG_0002.pdf', '/data/Report: final?.pdf', portable);
+    const trailing = validator.sanitizeTargetPath('/data/IMG_0003', '/data/notes. ', portable);
+
+    expect(reserved.targetPath).toBe('/data/con_.txt');
+    expect(reserved.adjustments.map(adjustment => adjustment.code)).toEqual(['RESERVED_NAME_SUFFIXED']);
+    expect(characters.targetPath).toBe('/data/Report_ final_.pdf');
+    expect(trailing.targetPath).toBe('/data/notes');
+    expect(trailing.adjustments[0]).toMatchObject({ code: 'TRAILING_DOTS_SPACES_TRIMMED', before: 'notes. ', after: 'notes' });
+  });
+
+  it('should follow the platform rules in native mode', () => {
+    const linux = validator.sanitizeTargetPath('/data/a.txt', '/data/Report: final?.txt', { platform: 'linux' });
+    const darwin = validator.sanitizeTargetPath('/data/a.txt', '/data/Report: final?.txt', { platform: 'darwin' });
+
+    expect(linux).toEqual({ targetPath: '/data/Report: final?.txt', adjustments: [] });
+    expect(darwin.targetPath).toBe('/data/Report_ final?.txt');
+  });
+
+  it('should only change the components the operation introduces', () => {
+    const result = validator.sanitizeTargetPath('/data/CON/a.jpg', '/data/CON/trip. /b|c.jpg', portable);
+
+    expect(result.targetPath).toBe('/data/CON/trip/b_c.jpg');
+  });
+
+  it('should normalize Unicode and keep the extension when shortening', () => {
+    const normalized = validator.sanitizeTargetPath('/data/a.jpg', '/data/Cafe\u0301.jpg');
+    const long = validator.sanitizeTargetPath('/data/a.jpg', `/data/${'é'.repeat(200)}.jpg`);
+    const deep = validator.sanitizeTargetPath('/data/a.jpg', `/data/${'x'.repeat(200)}/${'y'.repeat(100)}.jpg`, portable);
+
+    expect(normalized.targetPath).toBe('/data/Caf\u00e9.jpg');
+    expect(normalized.adjustments.map(adjustment => adjustment.code)).toEqual(['UNICODE_NORMALIZED']);
+    expect(long.targetPath).toBe(`/data/${'é'.repeat(125)}.jpg`);
+    expect(long.adjustments.map(adjustment => adjustment.code)).toEqual(['COMPONENT_TRUNCATED']);
+    expect(deep.targetPath).toHaveLength(260);
+    expect(deep.targetPath.endsWith('.jpg')).toBe(true);
+  });
+
+  describe('case-only renames', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = path.join(os.tmpdir(), 'maxsort-sanitize-' + Date.now());
+      await fs.mkdir(testDir, { recursive: true });
+      await fs.writeFile(path.join(testDir, 'beach.jpg'), 'photo');
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should report the rename as a validation warning and carry it out', async () => {
+      const source = path.join(testDir, 'beach.jpg');
+      const { targetPath, adjustments } = validator.sanitizeTargetPath(source, path.join(testDir, 'Beach.jpg'));
+
+      expect(adjustments).toEqual([expect.objectContaining({ code: 'CASE_ONLY_RENAME', before: 'beach.jpg', after: 'Beach.jpg' })]);
+
+      const validation = await validator.validateOperation({
+        id: 'op-1', type: 'rename', sourcePath: source, targetPath, fileId: 1, adjustments
+      });
+      expect(validation.warnings).toEqual(expect.arrayContaining([
+        expect.objectContaining({ code: 'CASE_ONLY_RENAME', affectedPaths: [targetPath] }),
+      ]));
+
+      const manager = new TransactionalFileManager({} as any, mockLogger as any, path.join(testDir, '.backups'));
+      const transaction = manager.createTransaction();
+      manager.addOperation(transaction.id, { type: 'rename', source, target: targetPath });
+
+      expect((await manager.executeTransaction(transaction.id)).success).toBe(true);
+      expect(await fs.readdir(testDir)).toContain('Beach.jpg');
+      expect(await fs.readdir(testDir)).not.toContain('beach.jpg');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { vi } from 'vitest';
+import { getSystemMonitor } from '../../src/lib/system-monitor';
+import { getLLMProvider } from '../../src/lib/llm-provider';
+import { getContentExtractionService } from '../../src/lib/content-extractor';
+
+// Importing this module replaces the AgentManager's singletons; import it
+// before the modules under test
+vi.mock('../../src/lib/system-monitor', () => ({ getSystemMonitor: vi.fn() }));
+vi.mock('../../src/lib/llm-provider', () => ({ getLLMProvider: vi.fn() }));
+vi.mock('../../src/lib/content-extractor', () => ({ getContentExtractionService: vi.fn() }));
+
+export interface AgentManagerMockOptions {
+  provider?: Record<string, unknown>;   // Replaces or adds LLM provider methods
+  extractedText?: string;               // Text the content extractor returns for every file
+}
+
+/**
+ * Point the AgentManager at a healthy system monitor, an LLM provider with no
+ * models and a content extractor returning fixed text
+ */
+export function mockAgentManagerDependencies(options: AgentManagerMockOptions = {}) {
+  const monitor = {
+    on: vi.fn(), start: vi.fn(), stop: vi.fn(),
+    getCurrentHealth: vi.fn(async () => ({
+      memory: { memoryPressure: 0.2, availableForAgents: 16 * 1024 * 1024 * 1024 },
+      cpu: { loadAverage1m: 0.1 },
+    })),
+  };
+  const provider = {
+    on: vi.fn(), off: vi.fn(), getModels: vi.fn(async () => []), executeInference: vi.fn(),
+    ...options.provider,
+  };
+  const extractor = {
+    extract: vi.fn(async () => ({ text: options.extractedText ?? 'Revenue grew 12% in the third quarter' })),
+  };
+
+  vi.mocked(getSystemMonitor).mockReturnValue(monitor as any);
+  vi.mocked(getLLMProvider).mockReturnValue(provider as any);
+  vi.mocked(getContentExtractionService).mockReturnValue(extractor as any);
+
+  return { monitor, provider, extractor };
+}
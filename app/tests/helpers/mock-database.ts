@@ -0,0 +1,204 @@
+import { vi } from 'vitest';
+import * as path from 'path';
+
+export interface MockDatabaseOptions {
+  files?: any[];          // Initial rows of the files table
+  scannedRoots?: any[];   // What getScannedRoots returns
+}
+
+/**
+ * In-memory stand-in for the DatabaseManager tables the services under test
+ * use: files, the operation journal, agent tasks, review feedback and the
+ * backup store. Each table is exposed for assertions; every method is a spy.
+ */
+export function createMockDatabase(options: MockDatabaseOptions = {}) {
+  const files = new Map<string, any>();
+  const scannedRoots = [...(options.scannedRoots ?? [])];
+  const journal: any[] = [];
+  const agentTasks = new Map<string, any>();
+  const reviewFeedback: any[] = [];
+  const blobs = new Map<string, { sha256: string; size: number; createdAt: number }>();
+  const backupEntries: any[] = [];
+  const settings = new Map<string, string>();
+  let nextFileId = 1;
+  let nextFeedbackId = 1;
+
+  for (const row of options.files ?? []) {
+    files.set(row.path, { ...row });
+    nextFileId = Math.max(nextFileId, (row.id ?? 0) + 1);
+  }
+
+  const allFiles = () => Array.from(files.values());
+  const pendingHash = () => allFiles()
+    .filter(file => !file.sha256 && file.size > 0 && !file.hashFailedAt)
+    .sort((a, b) => a.size - b.size);
+
+  const removeWhere = <T>(rows: T[], predicate: (row: T) => boolean) => {
+    let removed = 0;
+    for (let i = rows.length - 1; i >= 0; i--) {
+      if (predicate(rows[i])) {
+        rows.splice(i, 1);
+        removed++;
+      }
+    }
+    return removed;
+  };
+
+  const journalMatches = (row: any, filters: any) =>
+    (filters.operationId === undefined || row.operationId === filters.operationId) &&
+    (filters.transactionId === undefined || row.transactionId === filters.transactionId) &&
+    (filters.sourceId === undefined || row.fileId === filters.sourceId) &&
+    (filters.sourcePath === undefined || row.sourcePath === filters.sourcePath) &&
+    (filters.startDate === undefined || row.journaledAt >= filters.startDate) &&
+    (filters.endDate === undefined || row.journaledAt < filters.endDate);
+  const queryJournal = (filters: any = {}) => journal
+    .filter(row => journalMatches(row, filters))
+    .sort((a, b) => b.journaledAt - a.journaledAt);
+
+  const taskMatches = (row: any, filters: any) =>
+    (!filters.states || filters.states.includes(row.state)) &&
+    (filters.sessionId === undefined || row.sessionId === filters.sessionId) &&
+    (filters.completedBefore === undefined || (row.completedAt !== null && row.completedAt < filters.completedBefore));
+
+  const feedbackMatches = (row: any, filters: any) =>
+    (filters.fileCategory === undefined || row.fileCategory === filters.fileCategory) &&
+    (filters.fileExtension === undefined || row.fileExtension === filters.fileExtension) &&
+    (filters.operation === undefined || row.operation === filters.operation) &&
+    (filters.decision === undefined || row.decision === filters.decision) &&
+    (filters.before === undefined || row.decidedAt < filters.before);
+
+  return {
+    files,
+    scannedRoots,
+    journal,
+    agentTasks,
+    reviewFeedback,
+    blobs,
+    backupEntries,
+
+    // files
+    getFileById: vi.fn((id: number) => allFiles().find(file => file.id === id)),
+    getFileByPath: vi.fn((filePath: string) => files.get(filePath)),
+    getScannedRoots: vi.fn((): any[] => scannedRoots),
+    getFileStatesByRootPath: vi.fn((dir: string) => allFiles()
+      .filter(file => file.parentDirectory === dir || file.parentDirectory?.startsWith(dir + path.sep))),
+    upsertFile: vi.fn((record: any) => {
+      const id = files.get(record.path)?.id ?? nextFileId++;
+      files.set(record.path, { ...record, id });
+      return id;
+    }),
+    moveFileRecord: vi.fn((fromPath: string, record: any) => {
+      const existing = files.get(fromPath);
+      files.delete(fromPath);
+      files.set(record.path, { ...record, id: existing?.id ?? record.id });
+      return true;
+    }),
+    deleteFilesByPath: vi.fn((filePaths: string[]) => filePaths.filter(filePath => files.delete(filePath)).length),
+    getFilesWithDuplicateHashes: vi.fn(() => allFiles().filter(file =>
+      file.sha256 && allFiles().filter(other => other.sha256 === file.sha256).length > 1
+    )),
+    getFilesWithMatchingSizeAndMtime: vi.fn(() => allFiles().filter(file =>
+      file.size > 0 && allFiles().filter(other => other.size === file.size && other.mtime === file.mtime).length > 1
+    )),
+    getFilesPendingHash: vi.fn((limit: number) => pendingHash().slice(0, limit)),
+    countFilesPendingHash: vi.fn(() => ({
+      count: pendingHash().length,
+      totalBytes: pendingHash().reduce((sum, file) => sum + file.size, 0),
+    })),
+    setFileHash: vi.fn((filePath: string, sha256: string, mtime: number) => {
+      const file = files.get(filePath);
+      if (!file || file.mtime !== mtime) return false;
+      file.sha256 = sha256;
+      return true;
+    }),
+    updatePendingHashStats: vi.fn((filePath: string, size: number, mtime: number) => {
+      const file = files.get(filePath);
+      if (file) Object.assign(file, { size, mtime, sha256: null, hashFailedAt: undefined });
+    }),
+    markHashFailed: vi.fn((filePath: string) => {
+      const file = files.get(filePath);
+      if (file) file.hashFailedAt = Date.now();
+    }),
+
+    // operations journal
+    insertJournalOperation: vi.fn((record: any) => {
+      journal.push({ ...record, status: 'completed' });
+    }),
+    getJournalOperations: vi.fn((filters: any = {}, offset = 0, limit = -1) => {
+      const found = queryJournal(filters).slice(offset);
+      return (limit < 0 ? found : found.slice(0, limit)).map(row => ({ ...row }));
+    }),
+    countJournalOperations: vi.fn((filters: any = {}) => queryJournal(filters).length),
+    deleteJournalOperations: vi.fn((journalIds: string[]) => removeWhere(journal, row => journalIds.includes(row.journalId))),
+    updateOperationStatus: vi.fn((operationId: string, status: string) => {
+      const row = journal.find(r => r.operationId === operationId);
+      if (row) row.status = status;
+      return !!row;
+    }),
+
+    // agent tasks
+    saveAgentTask: vi.fn((record: any) => { agentTasks.set(record.id, { ...record }); }),
+    updateAgentTask: vi.fn((id: string, updates: any) => {
+      if (!agentTasks.has(id)) return false;
+      agentTasks.set(id, { ...agentTasks.get(id), ...updates });
+      return true;
+    }),
+    getAgentTasks: vi.fn((filters: any = {}) => [...agentTasks.values()]
+      .filter(row => taskMatches(row, filters))
+      .sort((a, b) => a.priority - b.priority || a.createdAt - b.createdAt)),
+    countAgentTasks: vi.fn((filters: any = {}) => [...agentTasks.values()].filter(row => taskMatches(row, filters)).length),
+    deleteAgentTasks: vi.fn((filters: any) => {
+      const removed = [...agentTasks.values()].filter(row => taskMatches(row, filters));
+      removed.forEach(row => agentTasks.delete(row.id));
+      return removed.length;
+    }),
+
+    // review feedback
+    insertReviewFeedback: vi.fn((record: any) => {
+      reviewFeedback.push({ ...record, id: nextFeedbackId });
+      return nextFeedbackId++;
+    }),
+    getReviewFeedback: vi.fn((filters: any = {}, offset = 0, limit = -1) => {
+      const found = reviewFeedback.filter(row => feedbackMatches(row, filters))
+        .sort((a, b) => b.decidedAt - a.decidedAt || b.id - a.id)
+        .slice(offset);
+      return limit < 0 ? found : found.slice(0, limit);
+    }),
+    countReviewFeedback: vi.fn((filters: any = {}) => reviewFeedback.filter(row => feedbackMatches(row, filters)).length),
+    deleteReviewFeedback: vi.fn((criteria: any) => removeWhere(reviewFeedback, row => 'ids' in criteria
+      ? criteria.ids.includes(row.id)
+      : feedbackMatches(row, criteria))),
+
+    // settings
+    getSetting: vi.fn((key: string) => settings.get(key)),
+    setSetting: vi.fn((key: string, value: string) => { settings.set(key, value); }),
+    getModelPreferences: vi.fn(() => ({ mainModel: 'llama3', subModel: null, endpoint: '' })),
+
+    // backup store
+    insertBackupBlob: vi.fn((sha256: string, size: number) => {
+      if (!blobs.has(sha256)) blobs.set(sha256, { sha256, size, createdAt: Date.now() });
+    }),
+    insertBackupEntries: vi.fn((entries: any[]) => { backupEntries.push(...entries.map(entry => ({ ...entry }))); }),
+    getBackupEntries: vi.fn((backupId?: string) => backupEntries
+      .filter(entry => backupId === undefined || entry.backupId === backupId)
+      .sort((a, b) => a.createdAt - b.createdAt || a.backupId.localeCompare(b.backupId) || a.relativePath.localeCompare(b.relativePath))),
+    deleteBackups: vi.fn((backupIds: string[]) => {
+      const before = new Set(backupEntries.map(entry => entry.backupId));
+      removeWhere(backupEntries, entry => backupIds.includes(entry.backupId));
+      return backupIds.filter(id => before.has(id)).length;
+    }),
+    getUnreferencedBackupBlobs: vi.fn(() => Array.from(blobs.values())
+      .filter(blob => !backupEntries.some(entry => entry.sha256 === blob.sha256))),
+    getBackupBlobHashes: vi.fn(() => Array.from(blobs.keys())),
+    deleteBackupBlobs: vi.fn((hashes: string[]) => hashes.filter(sha256 => blobs.delete(sha256)).length),
+    getBackupUsage: vi.fn(() => ({
+      backupCount: new Set(backupEntries.map(entry => entry.backupId)).size,
+      blobCount: blobs.size,
+      storedBytes: Array.from(blobs.values()).reduce((sum, blob) => sum + blob.size, 0),
+      logicalBytes: backupEntries.reduce((sum, entry) => sum + entry.size, 0),
+      oldestBackupAt: backupEntries.length > 0 ? Math.min(...backupEntries.map(entry => entry.createdAt)) : null,
+    })),
+  };
+}
+
+export type MockDatabase = ReturnType<typeof createMockDatabase>;
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { IncrementalScanState, type KnownFileState } from '../src/workers/incremental-scan';
+
+describe('IncrementalScanState', () => {
+  const root = '/archive';
+  const knownFiles: KnownFileState[] = [
+    { path: '/archive/a.txt', size: 100, mtime: 1000, sha256: 'hash-a' },
+    { path: '/archive/b.txt', size: 200, mtime: 2000, sha256: 'hash-b' },
+    { path: '/archive/old/c.pdf', size: 300, mtime: 3000, sha256: 'hash-c' },
+    { path: '/archive/gone.txt', size: 400, mtime: 4000, sha256: 'hash-gone' },
+  ];
+
+  it('should skip files whose size and mtime are unchanged', () => {
+    const state = new IncrementalScanState(root, knownFiles, knownFiles.map(f => f.path));
+
+    expect(state.isUnchanged('/archive/a.txt', 100, 1000)).toBe(true);
+    expect(state.isUnchanged('/archive/b.txt', 250, 2000)).toBe(false);
+    expect(state.isUnchanged('/archive/new.txt', 100, 1000)).toBe(false);
+    expect(state.buildDelta().unchangedCount).toBe(1);
+  });
+
+  it('should report modified files only when content hash changed', () => {
+    const state = new IncrementalScanState(root, knownFiles, knownFiles.map(f => f.path));
+
+    expect(state.recordFile('/archive/a.txt', 'hash-a')).toEqual({ changeType: 'touched' });
+    expect(state.recordFile('/archive/b.txt', 'hash-b2')).toEqual({ changeType: 'modified' });
+
+    const delta = state.buildDelta();
+    expect(delta.modified).toEqual(['/archive/b.txt']);
+    expect(delta.added).toEqual([]);
+    expect(delta.deleted).toEqual([]);
+  });
+
+  it('should report deleted and added files', () => {
+    const walked = ['/archive/a.txt', '/archive/b.txt', '/archive/old/c.pdf', '/archive/fresh.txt'];
+    const state = new IncrementalScanState(root, knownFiles, walked);
+
+    expect(state.recordFile('/archive/fresh.txt', 'hash-fresh')).toEqual({ changeType: 'added' });
+
+    const delta = state.buildDelta();
+    expect(delta.added).toEqual(['/archive/fresh.txt']);
+    expect(delta.deleted).toEqual(['/archive/gone.txt']);
+    expect(delta.rootPath).toBe(root);
+  });
+
+  it('should detect moves by matching hash of a vanished path', () => {
+    const walked = ['/archive/a.txt', '/archive/b.txt', '/archive/new/c.pdf', '/archive/gone.txt'];
+    const state = new IncrementalScanState(root, knownFiles, walked);
+
+    expect(state.requiresHash('/archive/new/c.pdf', 300)).toBe(true);
+    expect(state.recordFile('/archive/new/c.pdf', 'hash-c')).toEqual({
+      changeType: 'moved',
+      previousPath: '/archive/old/c.pdf',
+    });
+
+    const delta = state.buildDelta();
+    expect(delta.moved).toEqual([{ from: '/archive/old/c.pdf', to: '/archive/new/c.pdf' }]);
+    expect(delta.deleted).toEqual([]);
+    expect(delta.added).toEqual([]);
+  });
+
+  it('should pair each vanished file with at most one new path', () => {
+    const walked = ['/archive/a.txt', '/archive/b.txt', '/archive/gone.txt', '/archive/copy1.pdf', '/archive/copy2.pdf'];
+    const state = new IncrementalScanState(root, knownFiles, walked);
+
+    expect(state.recordFile('/archive/copy1.pdf', 'hash-c').changeType).toBe('moved');
+    expect(state.requiresHash('/archive/copy2.pdf', 300)).toBe(false);
+    expect(state.recordFile('/archive/copy2.pdf', 'hash-c').changeType).toBe('added');
+  });
+
+  it('should only force hashing when a comparison is possible', () => {
+    const state = new IncrementalScanState(root, [
+      ...knownFiles,
+      { path: '/archive/unhashed.mov', size: 5000, mtime: 5000, sha256: null },
+    ], knownFiles.map(f => f.path).concat('/archive/unhashed.mov'));
+
+    expect(state.requiresHash('/archive/a.txt', 101)).toBe(true);
+    expect(state.requiresHash('/archive/unhashed.mov', 5001)).toBe(false);
+    expect(state.requiresHash('/archive/brand-new.txt', 999)).toBe(false);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { MockOllamaServer } from '../src/lib/mock-ollama-server'
+import { OllamaClient } from '../src/lib/ollama-client'
+import { PromptTemplateManager } from '../src/agents/prompt-templates'
+import { ConfidenceScorer } from '../src/lib/confidence-scorer'
+import { SuggestionFilter } from '../src/lib/suggestion-filter'
+import { createDefaultConfidenceThresholdConfig, SuggestionCategory } from '../src/lib/confidence-threshold-config'
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager'
+
+const MODEL = 'llama3.2:3b'
+
+describe('MockOllamaServer', () => {
+  const server = new MockOllamaServer({ models: [{ name: MODEL }, { name: 'mistral:latest', size: 4 * 1024 ** 3 }] })
+  let client: OllamaClient
+
+  beforeAll(async () => {
+    await server.start()
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  beforeEach(() => {
+    server.reset()
+    server.setLatency(0)
+    client = new OllamaClient({ endpoint: server.endpoint, retryAttempts: 1, retryDelay: 0, timeout: 2000 })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    client.destroy()
+    vi.restoreAllMocks()
+  })
+
+  it('should serve version, tags and show to the client', async () => {
+    expect(await client.testConnection()).toBe(true)
+
+    const models = await client.getModels()
+    expect(models.map(model => model.name)).toEqual([MODEL, 'mistral:latest'])
+    expect(models[1].size).toBe(4 * 1024 ** 3)
+
+    expect(await client.validateModel(MODEL)).toBe(true)
+    expect(await client.isModelReady('mistral')).toBe(true)
+    expect(await client.isModelReady('missing')).toBe(false)
+  })
+
+  it('should answer generate requests from scripted rules', async () => {
+    server
+      .respondTo(/invoice/i, '{"suggestions":[]}')
+      .respondTo('hello', (prompt) => `echo: ${prompt}`)
+
+    const scripted = await client.executeInference(MODEL, 'Rename this Invoice', { format: 'json', temperature: 0.1, maxTokens: 50 })
+    const dynamic = await client.executeInference(MODEL, 'hello world')
+    const fallback = await client.executeInference(MODEL, 'anything else')
+
+    expect(scripted.response).toBe('{"suggestions":[]}')
+    expect(dynamic.response).toBe('echo: hello world')
+    expect(fallback.response).toBe('OK')
+    expect(server.requestsTo('generate')[0].body).toMatchObject({
+      model: MODEL,
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.1, num_predict: 50 },
+    })
+  })
+
+  it('should stop applying a rule after its use limit', async () => {
+    server.respondTo('ping', 'first', { times: 1 }).respondTo('ping', 'later')
+
+    expect((await client.executeInference(MODEL, 'ping')).response).toBe('first')
+    expect((await client.executeInference(MODEL, 'ping')).response).toBe('later')
+  })
+
+  it('should stream scripted chunks', async () => {
+    server.respondTo('story', undefined, { chunks: ['Once ', 'upon ', 'a time'] })
+    const chunks: string[] = []
+
+    const result = await client.executeStreamingInference(MODEL, 'tell a story', chunk => chunks.push(chunk))
+
+    expect(chunks).toEqual(['Once ', 'upon ', 'a time'])
+    expect(result.fullResponse).toBe('Once upon a time')
+  })
+
+  it('should load and unload models', async () => {
+    expect(await client.preloadModel(MODEL)).toBe(true)
+    expect(server.getLoadedModels()).toEqual([MODEL])
+
+    const ps = await (await fetch(`${server.endpoint}/api/ps`)).json() as any
+    expect(ps.models.map((model: any) => model.name)).toEqual([MODEL])
+
+    const unload = await fetch(`${server.endpoint}/api/generate`, {
+      method: 'POST',
+      body: JSON.stringify({ model: MODEL, keep_alive: 0 }),
+    })
+    expect(await unload.json()).toMatchObject({ done: true, done_reason: 'unload' })
+    expect(server.getLoadedModels()).toEqual([])
+  })
+
+  it('should reject generate requests for unknown models', async () => {
+    await expect(client.executeInference('missing', 'hi')).rejects.toThrow('HTTP 404')
+  })
+
+  it('should inject HTTP failures and recover on retry', async () => {
+    client.updateConfig({ retryAttempts: 2 })
+    server.failNext('generate', { type: 'http', status: 500 })
+
+    const result = await client.executeInference(MODEL, 'hi')
+
+    expect(result.response).toBe('OK')
+    expect(server.requestsTo('generate')).toHaveLength(2)
+  })
+
+  it('should fail matching prompts with disconnects and malformed bodies', async () => {
+    server
+      .failWhen('drop', { type: 'disconnect' })
+      .failWhen('garble', { type: 'malformed' })
+
+    await expect(client.executeInference(MODEL, 'drop this')).rejects.toThrow()
+    await expect(client.executeInference(MODEL, 'garble this')).rejects.toThrow()
+  })
+
+  it('should time the client out on hanging or slow responses', async () => {
+    server.failWhen('stuck', { type: 'hang' })
+    await expect(client.executeInference(MODEL, 'stuck', { timeout: 100 })).rejects.toThrow()
+
+    server.setLatency(300)
+    await expect(client.executeInference(MODEL, 'slow', { timeout: 100 })).rejects.toThrow()
+  })
+
+  it('should end truncated streams without a done message', async () => {
+    server.failWhen('cut', { type: 'truncate-stream', afterChunks: 1 }, { chunks: ['partial ', 'answer'] })
+    const chunks: string[] = []
+
+    await expect(client.executeStreamingInference(MODEL, 'cut short', chunk => chunks.push(chunk)))
+      .rejects.toThrow('Streaming response ended unexpectedly')
+    expect(chunks).toEqual(['partial '])
+  })
+})
+
+describe('offline analysis pipeline against the mock server', () => {
+  const server = new MockOllamaServer()
+  let tempDir: string
+  let client: OllamaClient
+
+  beforeAll(async () => {
+    await server.start()
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'maxsort-mock-ollama-'))
+    await fs.writeFile(path.join(tempDir, 'scan0001.pdf'), 'ACME Corp invoice #4417, due 2024-03-31')
+    await fs.writeFile(path.join(tempDir, 'notes.txt'), 'misc')
+
+    server.reset()
+    server
+      .respondTo('scan0001.pdf', JSON.stringify({
+        suggestions: [{ filename: 'acme-invoice-4417-2024-03.pdf', confidence: 95, reasoning: 'Invoice number and vendor from content' }],
+      }))
+      .respondTo('notes.txt', JSON.stringify({
+        suggestions: [{ filename: 'file.txt', confidence: 15, reasoning: 'Too little content to name' }],
+      }))
+
+    client = new OllamaClient({ endpoint: server.endpoint, retryAttempts: 1, retryDelay: 0, timeout: 2000 })
+  })
+
+  afterEach(async () => {
+    client.destroy()
+    await fs.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should scan, analyze, filter and execute renames end to end', async () => {
+    const scorer = new ConfidenceScorer()
+    const filter = new SuggestionFilter(createDefaultConfidenceThresholdConfig())
+    const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } as any
+    const mockDatabase = {} as any
+    const fileManager = new TransactionalFileManager(mockDatabase, mockLogger, path.join(tempDir, '.backups'))
+    const transaction = fileManager.createTransaction()
+
+    // Scan
+    const fileNames = (await fs.readdir(tempDir)).filter(name => !name.startsWith('.')).sort()
+
+    for (const fileName of fileNames) {
+      const filePath = path.join(tempDir, fileName)
+      const stats = await fs.stat(filePath)
+      const extension = path.extname(fileName)
+
+      // Analyze
+      const prompt = PromptTemplateManager.generatePrompt({
+        fileName,
+        fileExtension: extension,
+        filePath,
+        fileSize: stats.size,
+        parentDirectory: tempDir,
+      }, 'rename-suggestions')
+      const { response } = await client.executeInference(MODEL, prompt, { format: 'json' })
+      const parsed = JSON.parse(response)
+
+      // Filter
+      const processed = scorer.processFilenameSuggestions(
+        parsed.suggestions.map((suggestion: any) => ({
+          value: suggestion.filename,
+          confidence: suggestion.confidence,
+          reasoning: suggestion.reasoning,
+          originalConfidence: suggestion.confidence,
+        })),
+        fileName,
+        { extension, size: stats.size, path: filePath, parentDirectory: tempDir }
+      )
+      const { filteredSuggestions } = await filter.filterSuggestions(processed)
+      const approved = filteredSuggestions.find(suggestion => suggestion.category === SuggestionCategory.AUTO_APPROVE)
+
+      if (approved) {
+        fileManager.addOperation(transaction.id, {
+          type: 'rename',
+          source: filePath,
+          target: path.join(tempDir, approved.originalSuggestion.value),
+          metadata: { confidence: approved.originalSuggestion.adjustedConfidence },
+        })
+      }
+    }
+
+    // Execute
+    const result = await fileManager.executeTransaction(transaction.id)
+
+    expect(result.success).toBe(true)
+    expect(result.completedOperations).toBe(1)
+    expect((await fs.readdir(tempDir)).filter(name => !name.startsWith('.')).sort())
+      .toEqual(['acme-invoice-4417-2024-03.pdf', 'notes.txt'])
+    expect(server.requestsTo('generate')).toHaveLength(2)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockAgentManagerDependencies } from './helpers/agent-manager-mocks';
+import { AgentManager, type AgentManagerConfig } from '../src/agents/agent-manager';
+import { TaskPriority, type AgentTask, type CreateTaskParams, type FileAnalysisTask } from '../src/agents/task-types';
+
+const classification = (modelName: string, fileName: string): CreateTaskParams<FileAnalysisTask> => ({
+  type: 'file-analysis',
+  priority: TaskPriority.NORMAL,
+  filePath: `/reports/${fileName}`,
+  modelName,
+  analysisType: 'classification',
+  resultType: 'classification',
+  promptTemplate: '',
+  expectedResponseFormat: 'json',
+  timeoutMs: 60000,
+  maxRetries: 0,
+  metadata: { fileName },
+  estimatedMemoryMB: 512,
+});
+
+describe('Model residency', () => {
+  let manager: AgentManager;
+  let provider: Record<string, ReturnType<typeof vi.fn>>;
+  let holdInference: boolean;
+
+  const createManager = (config: Partial<AgentManagerConfig>) => {
+    manager = new AgentManager(config);
+    return manager;
+  };
+
+  beforeEach(() => {
+    // Held inference only ends when its task is cancelled or the manager stops
+    holdInference = false;
+    provider = {
+      getModels: vi.fn(async () => [{ name: 'main' }, { name: 'sub' }]),
+      estimateModelMemory: vi.fn(() => 2 * 1024 * 1024 * 1024),
+      preloadModel: vi.fn(async () => true),
+      unloadModel: vi.fn(async () => true),
+      executeInference: vi.fn((_model: string, _prompt: string, options: { signal: AbortSignal }) => holdInference
+        ? new Promise((_resolve, reject) => options.signal.addEventListener('abort', () => reject(new Error('aborted'))))
+        : Promise.resolve({ response: JSON.stringify({ primaryCategory: 'work', confidence: 80, reasoning: 'Figures' }) })),
+    };
+    mockAgentManagerDependencies({ provider });
+  });
+
+  afterEach(async () => {
+    await manager?.stop();
+  });
+
+  it('should keep each model within its slot pool', async () => {
+    holdInference = true;
+    createManager({ maxConcurrentSlots: 4, modelSlotLimits: { sub: 1 } });
+    const dispatched: AgentTask[] = [];
+    manager.on('task-dispatched', ({ task }) => dispatched.push(task));
+
+    ['a.txt', 'b.txt', 'c.txt'].forEach(file => manager.createTask(classification('sub', file)));
+    manager.createTask(classification('main', 'd.txt'));
+    await manager.start();
+    await vi.waitFor(() => expect(dispatched).toHaveLength(2));
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    // The two other sub tasks wait for the sub slot instead of holding free ones
+    expect(dispatched.map(task => (task as FileAnalysisTask).modelName)).toEqual(['sub', 'main']);
+    expect(manager.getStatus()).toMatchObject({ totalSlots: 4, availableSlots: 2, queuedTasks: 2 });
+    expect(manager.getModelResidency()).toEqual(expect.arrayContaining([
+      expect.objectContaining({ modelName: 'sub', memoryMB: 2048, activeSlots: 1, slotLimit: 1, queuedTasks: 2 }),
+      expect.objectContaining({ modelName: 'main', activeSlots: 1, slotLimit: 4, queuedTasks: 0 }),
+    ]));
+  });
+
+  it('should preload models, run their tasks first and unload them once idle', async () => {
+    createManager({ maxConcurrentSlots: 1, slotRecomputeInterval: 20, idleModelUnloadMs: 0 });
+    await manager.start();
+    expect(await manager.preloadModels(['main', 'main'])).toEqual(['main']);
+    expect(provider.preloadModel).toHaveBeenCalledTimes(1);
+    expect(provider.preloadModel).toHaveBeenCalledWith('main', '10m');
+    expect(manager.getStatus().systemHealth.models).toEqual([expect.objectContaining({ modelName: 'main', activeSlots: 0 })]);
+
+    const order: string[] = [];
+    const unloaded: string[] = [];
+    manager.on('task-completed', result => order.push(result.result.modelUsed));
+    manager.on('model-unloaded', ({ modelName }) => unloaded.push(modelName));
+
+    // The older sub task waits while the loaded model has work
+    manager.createTask(classification('sub', 'a.txt'));
+    manager.createTask(classification('main', 'b.txt'));
+    await vi.waitFor(() => expect(unloaded).toHaveLength(2));
+
+    expect(order).toEqual(['main', 'sub']);
+    expect(provider.executeInference).toHaveBeenCalledWith('main', expect.any(String), expect.objectContaining({ keepAlive: '10m' }));
+    expect(unloaded.sort()).toEqual(['main', 'sub']);
+    expect(provider.unloadModel).toHaveBeenCalledWith('sub');
+    expect(manager.getStatus().systemHealth.models).toEqual([]);
+  });
+});
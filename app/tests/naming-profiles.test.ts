@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NamingProfileService, BUILT_IN_NAMING_PROFILES, validateNamingProfile } from '../src/lib/naming-profiles';
+import { PromptTemplateManager } from '../src/agents/prompt-templates';
+import { applyNamingProfileToSuggestions } from '../src/agents/analysis-schemas';
+import type { NamingProfile } from '../src/lib/confidence-scorer';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('Naming profiles', () => {
+  let settings: Map<string, string>;
+  let service: NamingProfileService;
+
+  const houseStyle: NamingProfile = {
+    id: 'house-style',
+    name: 'House style',
+    template: '{date}_{client}_{project}_v{version}',
+    dateFormat: 'YYYYMMDD',
+    caseStyle: 'snake',
+    separator: '_',
+    maxLength: 80,
+    requiredTokens: ['date', 'client'],
+  };
+
+  beforeEach(() => {
+    settings = new Map();
+    const database = {
+      getSetting: vi.fn((key: string) => settings.get(key)),
+      setSetting: vi.fn((key: string, value: string) => settings.set(key, value)),
+    };
+    service = new NamingProfileService(database as any, mockLogger as any);
+  });
+
+  it('should follow the profile of the deepest assigned root', () => {
+    service.saveProfiles([houseStyle]);
+    service.assignProfileToRoot('/work', 'house-style');
+    service.assignProfileToRoot('/work/code', 'pascal-case');
+
+    expect(service.getProfiles().map(profile => profile.id)).toEqual([
+      ...BUILT_IN_NAMING_PROFILES.map(profile => profile.id), 'house-style',
+    ]);
+    expect(service.getProfileForPath('/work/clients/brief.docx')?.id).toBe('house-style');
+    expect(service.getProfileForPath('/work/code/main.ts')?.id).toBe('pascal-case');
+    expect(service.getProfileForPath('/workshop/notes.txt')).toBeUndefined();
+
+    service.saveProfiles([]);
+    expect(service.getRootProfiles()).toEqual({ '/work/code': 'pascal-case' });
+  });
+
+  it('should reject unusable profiles and unknown assignments', () => {
+    expect(validateNamingProfile({ ...houseStyle, requiredTokens: ['author'], maxLength: 4 })).toEqual([
+      'Naming profile "House style" requires {author}, which its template does not use',
+      'Naming profile "House style" maximum length must be between 8 and 255',
+    ]);
+    expect(() => service.saveProfiles([houseStyle, houseStyle])).toThrow('Naming profile ids must be unique');
+    expect(() => service.assignProfileToRoot('/work', 'missing')).toThrow('Unknown naming profile: missing');
+  });
+
+  it('should describe the profile in rename prompts and enforce it on the response', () => {
+    const prompt = PromptTemplateManager.generatePrompt({
+      fileName: 'scan001.pdf', fileExtension: '.pdf', filePath: '/work/scan001.pdf', fileSize: 2048, parentDirectory: '/work',
+    }, 'rename-suggestions', { responseFormat: 'json', namingProfile: houseStyle });
+
+    expect(prompt).toContain('- Follow the "House style" naming convention: {date}_{client}_{project}_v{version}');
+    expect(prompt).toContain('- Write dates as YYYYMMDD');
+    expect(prompt).toContain('- Always include: date, client');
+    expect(prompt).toContain('"tokens"');
+    expect(prompt).not.toContain('Maximum filename length: 100 characters');
+
+    const analysis = applyNamingProfileToSuggestions({
+      suggestions: [
+        { filename: 'Acme brief.pdf', tokens: { date: '2024-03-15', client: 'Acme', project: 'Brand Refresh' }, confidence: 80, reasoning: '' },
+        { filename: 'Brand Refresh.pdf', confidence: 60, reasoning: '' },
+      ],
+    }, houseStyle);
+
+    expect(analysis.namingProfileId).toBe('house-style');
+    expect(analysis.suggestions[0]).toMatchObject({ filename: '20240315_acme_brand_refresh.pdf', modelFilename: 'Acme brief.pdf' });
+    expect(analysis.suggestions[1]).toMatchObject({ filename: 'brand_refresh.pdf', missingTokens: ['date'] });
+  });
+});
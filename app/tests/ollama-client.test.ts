@@ -116,6 +116,50 @@ describe('OllamaClient', () => {
     })
   })
 
+  describe('inference cancellation', () => {
+    it('should abort an in-flight request without retrying when the caller aborts', async () => {
+      const retrying = new OllamaClient({ retryAttempts: 3, retryDelay: 0, timeout: 1000 })
+      mockFetch.mockImplementation((_url: string, init: { signal: AbortSignal }) => new Promise((_resolve, reject) => {
+        if (init.signal.aborted) reject(init.signal.reason)
+        init.signal.addEventListener('abort', () => reject(init.signal.reason))
+      }))
+
+      const controller = new AbortController()
+      const inference = retrying.executeInference('llama2', 'Classify this', { signal: controller.signal })
+      controller.abort(new Error('Task cancelled'))
+
+      await expect(inference).rejects.toThrow('Task cancelled')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+
+      // A signal aborted before the call fails it at once
+      await expect(retrying.executeInference('llama2', 'Classify this', { signal: controller.signal })).rejects.toThrow('Task cancelled')
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      mockFetch.mockReset()
+    })
+  })
+
+  describe('model residency', () => {
+    it('should preload with a keep-alive and unload with keep_alive 0', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: vi.fn().mockResolvedValue({ response: '' })
+      })
+
+      expect(await client.preloadModel('llama2', '10m')).toBe(true)
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ model: 'llama2', prompt: '', keep_alive: '10m' })
+
+      expect(await client.unloadModel('llama2')).toBe(true)
+      expect(mockFetch).toHaveBeenLastCalledWith('http://127.0.0.1:11434/api/generate', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ model: 'llama2', keep_alive: 0 })
+      }))
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500 })
+      expect(await client.unloadModel('llama2')).toBe(false)
+      mockFetch.mockReset()
+    })
+  })
+
   describe('health monitoring', () => {
     afterEach(() => {
       // Ensure monitoring is always stopped after each test
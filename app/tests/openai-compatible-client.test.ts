@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { OpenAICompatibleClient, parseParameterCount } from '../src/lib/openai-compatible-client'
+import { OllamaClient } from '../src/lib/ollama-client'
+import { createLLMProvider } from '../src/lib/llm-provider'
+
+// Mock fetch globally
+global.fetch = vi.fn()
+
+const GB = 1024 * 1024 * 1024
+
+// Build a fetch response whose body streams the given server-sent event chunks
+const streamingResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder()
+  let index = 0
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: async () => index < chunks.length
+          ? { done: false, value: encoder.encode(chunks[index++]) }
+          : { done: true, value: undefined },
+        releaseLock: () => {},
+      }),
+    },
+  }
+}
+
+describe('OpenAICompatibleClient', () => {
+  let client: OpenAICompatibleClient
+  const mockFetch = fetch as any
+
+  beforeEach(() => {
+    client = new OpenAICompatibleClient({
+      endpoint: 'http://127.0.0.1:1234/',
+      retryAttempts: 1,
+      retryDelay: 0,
+      timeout: 1000
+    })
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    client.stopHealthMonitoring()
+  })
+
+  describe('getModels', () => {
+    it('should map /v1/models entries to models', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          object: 'list',
+          data: [
+            { id: 'qwen2.5-7b-instruct', object: 'model', created: 1700000000, owned_by: 'organization_owner' },
+            { id: 'model.gguf', object: 'model', meta: { n_params: 3800000000, size: 2300000000 } },
+          ]
+        })
+      })
+
+      const models = await client.getModels()
+
+      expect(mockFetch).toHaveBeenCalledWith('http://127.0.0.1:1234/v1/models', expect.objectContaining({ method: 'GET' }))
+      expect(models).toEqual([
+        { name: 'qwen2.5-7b-instruct', size: 0, modified_at: new Date(1700000000 * 1000).toISOString(), details: undefined },
+        { name: 'model.gguf', size: 2300000000, modified_at: undefined, details: { parameter_size: '3.8B' } },
+      ])
+    })
+
+    it('should send the API key as a bearer token', async () => {
+      client.updateConfig({ apiKey: 'secret' })
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: [] }) })
+
+      await client.getModels()
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer secret',
+      })
+    })
+  })
+
+  describe('getHealthStatus', () => {
+    it('should report healthy with the model count', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200 })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ data: [{ id: 'a' }, { id: 'b' }] }) })
+
+      const health = await client.getHealthStatus()
+
+      expect(health).toMatchObject({ status: 'healthy', models_available: true, model_count: 2, provider: 'openai-compatible' })
+    })
+
+    it('should report unhealthy when the server is unreachable', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+
+      const health = await client.getHealthStatus()
+
+      expect(health.status).toBe('unhealthy')
+      expect(health.message).toContain('http://127.0.0.1:1234')
+    })
+  })
+
+  describe('estimateModelMemory', () => {
+    it('should use the reported size when available', () => {
+      const estimate = client.estimateModelMemory({ name: 'model.gguf', size: 4 * GB })
+      expect(estimate).toBe(Math.ceil((4 * GB + 0.8 * GB) * 1.5))
+    })
+
+    it('should estimate from parameter count and quantization in the name', () => {
+      const q4 = client.estimateModelMemory({ name: 'llama-3-8b-instruct-Q4_K_M', size: 0 })
+      const q8 = client.estimateModelMemory({ name: 'llama-3-8b-instruct-Q8_0', size: 0 })
+
+      expect(q4).toBe(Math.ceil((8e9 * 4.5 / 8) * 1.2 * 1.5))
+      expect(q8).toBeGreaterThan(q4)
+    })
+
+    it('should fall back to a 4GB model when nothing is known', () => {
+      expect(client.estimateModelMemory({ name: 'mystery', size: 0 })).toBe(Math.ceil(4.8 * GB * 1.5))
+    })
+
+    it('should parse parameter counts from names', () => {
+      expect(parseParameterCount('phi-3.5-mini-3.8b')).toBe(3.8e9)
+      expect(parseParameterCount('Qwen2.5-0.5B-Instruct')).toBe(0.5e9)
+      expect(parseParameterCount('smollm-135m')).toBe(135e6)
+      expect(parseParameterCount('gpt-oss')).toBeNull()
+    })
+  })
+
+  describe('executeInference', () => {
+    it('should post a chat completion and return the message content', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { role: 'assistant', content: '{"name":"report.pdf"}' } }] })
+      })
+
+      const result = await client.executeInference('qwen2.5-7b-instruct', 'Suggest a name', {
+        format: 'json',
+        temperature: 0.2,
+        maxTokens: 64,
+      })
+
+      expect(result.response).toBe('{"name":"report.pdf"}')
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('http://127.0.0.1:1234/v1/chat/completions')
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'qwen2.5-7b-instruct',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        stream: false,
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+        max_tokens: 64,
+      })
+    })
+
+    it('should request a JSON schema response format for schema-constrained output', async () => {
+      const schema = { type: 'object' as const, properties: { summary: { type: 'string' as const } }, required: ['summary'] }
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ choices: [{ message: { role: 'assistant', content: '{"summary":"Notes"}' } }] })
+      })
+
+      await client.executeInference('qwen2.5-7b-instruct', 'Summarize', { format: schema })
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      })
+    })
+
+    it('should surface HTTP errors', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' })
+
+      await expect(client.executeInference('missing', 'hi')).rejects.toThrow('HTTP 404')
+    })
+  })
+
+  describe('executeStreamingInference', () => {
+    it('should assemble server-sent event deltas split across chunks', async () => {
+      mockFetch.mockResolvedValueOnce(streamingResponse([
+        'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+        'ta":{"content":"lo"}}]}\n\n',
+        'data: [DONE]\n\n',
+      ]))
+      const chunks: string[] = []
+
+      const result = await client.executeStreamingInference('model', 'hi', chunk => chunks.push(chunk))
+
+      expect(result.fullResponse).toBe('Hello')
+      expect(chunks).toEqual(['Hel', 'lo'])
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true)
+    })
+  })
+})
+
+describe('createLLMProvider', () => {
+  it('should create the client for each provider type with its default endpoint', () => {
+    const ollama = createLLMProvider({ type: 'ollama' })
+    const compatible = createLLMProvider({ type: 'openai-compatible', endpoint: 'http://localhost:1234' })
+
+    expect(ollama).toBeInstanceOf(OllamaClient)
+    expect(ollama.getConfig().endpoint).toBe('http://127.0.0.1:11434')
+    expect(compatible).toBeInstanceOf(OpenAICompatibleClient)
+    expect(compatible.getConfig().endpoint).toBe('http://localhost:1234')
+  })
+
+  it('should reject unknown provider types', () => {
+    expect(() => createLLMProvider({ type: 'bogus' as any })).toThrow('Unknown LLM provider type')
+  })
+})
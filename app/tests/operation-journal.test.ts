@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { OperationJournal } from '../src/lib/operation-journal';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+};
+
+const metadata = { fileSize: 4, fileHash: 'hash', originalMtime: 1 };
+
+const undoData = (reverseOperation: any) => ({
+  reverseOperation,
+  originalMetadata: { path: reverseOperation.targetPath || reverseOperation.sourcePath, size: 4, mtime: 1, permissions: '644' },
+  dependencies: [],
+});
+
+describe('OperationJournal', () => {
+  let testDir: string;
+  let database: MockDatabase;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-journal-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+    database = createMockDatabase();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const recordMove = async (journal: OperationJournal, operationId: string, from: string, to: string) => {
+    await fs.mkdir(path.dirname(to), { recursive: true });
+    await fs.rename(from, to);
+    return journal.recordOperation(
+      'tx-1', operationId, 'move', 1, from, to,
+      undoData({ type: 'move', sourcePath: to, targetPath: from }),
+      metadata
+    );
+  };
+
+  it('should undo a move recorded by an earlier journal instance', async () => {
+    const original = path.join(testDir, 'inbox', 'report.txt');
+    const moved = path.join(testDir, 'archive', 'report.txt');
+    await fs.mkdir(path.dirname(original), { recursive: true });
+    await fs.writeFile(original, 'data');
+
+    await recordMove(new OperationJournal(database as any, mockLogger as any), 'op-1', original, moved);
+    // The source folder disappeared in the meantime
+    await fs.rm(path.join(testDir, 'inbox'), { recursive: true });
+
+    // Simulates an app restart: only the database carries the entry over
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    const result = await journal.undoOperation('op-1');
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(original, 'utf8')).toBe('data');
+    expect(database.journal[0].status).toBe('rolled_back');
+
+    const again = await journal.undoOperation('op-1');
+    expect(again.success).toBe(false);
+    expect(again.error).toContain('already rolled back');
+  });
+
+  it('should restore deleted files from their backup', async () => {
+    const original = path.join(testDir, 'photo.jpg');
+    const backup = path.join(testDir, 'photo.jpg.deleted.op-2');
+    await fs.writeFile(backup, 'pixels');
+
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    await journal.recordOperation(
+      'tx-2', 'op-2', 'delete', 5, original, undefined,
+      undoData({ type: 'restore', sourcePath: original, restoreFromBackup: backup }),
+      { ...metadata, backupPath: backup }
+    );
+
+    expect(await journal.canUndo('op-2')).toEqual({ canUndo: true });
+    const result = await journal.undoOperation('op-2');
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(original, 'utf8')).toBe('pixels');
+  });
+
+  it('should move file records back with an undone move', async () => {
+    const original = path.join(testDir, 'inbox', 'report.txt');
+    const moved = path.join(testDir, 'archive', 'report.txt');
+    await fs.mkdir(path.dirname(original), { recursive: true });
+    await fs.writeFile(original, 'data');
+
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    await recordMove(journal, 'op-1', original, moved);
+    database.files.set(moved, {
+      id: 1, path: moved, sha256: 'hash', size: 4, mtime: 1, lastScannedAt: 1,
+      relativePathFromRoot: path.join('archive', 'report.txt'), fileName: 'report.txt',
+    });
+
+    await journal.undoOperation('op-1');
+
+    expect(database.files.has(moved)).toBe(false);
+    expect(database.files.get(original)).toMatchObject({
+      id: 1,
+      relativePathFromRoot: path.join('inbox', 'report.txt'),
+      parentDirectory: path.dirname(original),
+    });
+  });
+
+  it('should index restored files again under their scanned root', async () => {
+    const original = path.join(testDir, 'photos', 'photo.jpg');
+    const backup = path.join(testDir, 'photo.jpg.deleted.op-2');
+    await fs.writeFile(backup, 'pixels');
+    database.scannedRoots.push({ rootPath: testDir });
+
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    await journal.recordOperation(
+      'tx-2', 'op-2', 'delete', 5, original, undefined,
+      undoData({ type: 'restore', sourcePath: original, restoreFromBackup: backup }),
+      { ...metadata, fileSize: 6, backupPath: backup }
+    );
+
+    await journal.undoOperation('op-2');
+
+    expect(database.files.get(original)).toMatchObject({
+      sha256: 'hash',
+      size: 6,
+      relativePathFromRoot: path.join('photos', 'photo.jpg'),
+      fileName: 'photo.jpg',
+    });
+  });
+
+  it('should undo a whole transaction in reverse order', async () => {
+    const a = path.join(testDir, 'a.txt');
+    const b = path.join(testDir, 'b.txt');
+    const c = path.join(testDir, 'c.txt');
+    await fs.writeFile(a, 'content');
+
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    await recordMove(journal, 'op-1', a, b);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await recordMove(journal, 'op-2', b, c);
+
+    // op-1 cannot be undone while op-2 still depends on its target
+    expect((await journal.canUndo('op-1')).dependencies).toEqual(['op-2']);
+
+    const result = await journal.undoTransaction('tx-1');
+
+    expect(result.success).toBe(true);
+    expect(result.undoResults.map(r => r.operationId)).toEqual(['op-2', 'op-1']);
+    expect(await fs.readFile(a, 'utf8')).toBe('content');
+  });
+
+  it('should page through persisted history', async () => {
+    const journal = new OperationJournal(database as any, mockLogger as any);
+    for (let i = 0; i < 3; i++) {
+      await journal.recordOperation(
+        'tx-3', `op-${i}`, 'rename', 1, `/src/${i}`, `/dst/${i}`,
+        undoData({ type: 'rename', sourcePath: `/dst/${i}`, targetPath: `/src/${i}` }),
+        metadata
+      );
+    }
+
+    const history = await journal.getOperationHistory({ transactionId: 'tx-3', pageSize: 2 });
+
+    expect(history.totalCount).toBe(3);
+    expect(history.entries).toHaveLength(2);
+    expect(history.hasMore).toBe(true);
+    expect(history.entries[0].undoData.reverseOperation.type).toBe('rename');
+  });
+
+  it('should purge entries older than the undo window with their backups', async () => {
+    const backup = path.join(testDir, 'old.backup');
+    await fs.writeFile(backup, 'old');
+    const journal = new OperationJournal(database as any, mockLogger as any);
+
+    await journal.recordOperation(
+      'tx-old', 'op-old', 'delete', 1, '/gone.txt', undefined,
+      undoData({ type: 'restore', sourcePath: '/gone.txt', restoreFromBackup: backup }),
+      { ...metadata, backupPath: backup }
+    );
+    await journal.recordOperation(
+      'tx-new', 'op-new', 'rename', 1, '/a', '/b',
+      undoData({ type: 'rename', sourcePath: '/b', targetPath: '/a' }),
+      metadata
+    );
+    database.journal.find(r => r.operationId === 'op-old').journaledAt = Date.now() - 31 * 24 * 60 * 60 * 1000;
+
+    const removed = await journal.cleanupOldEntries();
+
+    expect(removed).toBe(1);
+    expect(database.journal.map(r => r.operationId)).toEqual(['op-new']);
+    await expect(fs.access(backup)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { OrganizerService } from '../src/lib/organizer-service';
+import { renderDestination, ruleMatches, validateRule, type OrganizerRule } from '../src/lib/organizer-rules';
+
+// 2024-03-15 12:00 local time, in seconds as stored in the files table
+const MARCH_2024 = Math.floor(new Date(2024, 2, 15, 12).getTime() / 1000);
+
+const rule = (overrides: Partial<OrganizerRule> = {}): OrganizerRule => ({
+  id: 'rule-1',
+  name: 'Invoices',
+  enabled: true,
+  conditions: {},
+  destination: '{category}/{year}/{month}',
+  ...overrides,
+});
+
+describe('organizer rules', () => {
+  const subject = {
+    path: '/data/inbox/scan 001.PDF',
+    size: 2048,
+    mtime: MARCH_2024,
+    category: 'Finance',
+    summary: 'Invoice from ACME for March services',
+    suggestedName: 'acme-invoice-2024-03',
+  };
+
+  it('should match every configured condition', () => {
+    expect(ruleMatches(rule({ conditions: { extensions: ['.pdf'], categories: ['finance'] } }), subject)).toBe(true);
+    expect(ruleMatches(rule({ conditions: { keywords: ['receipt', 'invoice'] } }), subject)).toBe(true);
+    expect(ruleMatches(rule({ conditions: { pathPattern: '/inbox/', minSize: 1024, maxSize: 4096 } }), subject)).toBe(true);
+    expect(ruleMatches(rule({ conditions: { modifiedAfter: new Date(2024, 0, 1).getTime() } }), subject)).toBe(true);
+
+    expect(ruleMatches(rule({ conditions: { extensions: ['jpg'] } }), subject)).toBe(false);
+    expect(ruleMatches(rule({ conditions: { categories: ['Photos'] } }), subject)).toBe(false);
+    expect(ruleMatches(rule({ conditions: { minSize: 4096 } }), subject)).toBe(false);
+    expect(ruleMatches(rule({ conditions: { modifiedBefore: new Date(2024, 0, 1).getTime() } }), subject)).toBe(false);
+  });
+
+  it('should render templates under the base directory', () => {
+    expect(renderDestination(rule(), subject, '/data'))
+      .toBe(path.join('/data', 'Finance', '2024', '03', 'scan 001.PDF'));
+    expect(renderDestination(rule({ destination: 'Docs/{extension}', fileName: '{suggested_name}' }), subject, '/data'))
+      .toBe(path.join('/data', 'Docs', 'pdf', 'acme-invoice-2024-03.PDF'));
+  });
+
+  it('should not let token values escape the destination', () => {
+    const hostile = { ...subject, category: '../../etc' };
+    expect(renderDestination(rule({ destination: '{category}' }), hostile, '/data'))
+      .toBe(path.join('/data', '..-..-etc', 'scan 001.PDF'));
+    expect(renderDestination(rule({ destination: '../{category}' }), { ...subject, category: undefined }, '/data'))
+      .toBe(path.join('/data', 'Uncategorized', 'scan 001.PDF'));
+  });
+
+  it('should report unknown tokens and invalid patterns', () => {
+    expect(validateRule(rule())).toEqual([]);
+    expect(validateRule(rule({ destination: '{colour}' }))[0]).toContain('{colour}');
+    expect(validateRule(rule({ conditions: { pathPattern: '(' } }))[0]).toContain('invalid path pattern');
+    expect(validateRule(rule({ fileName: 'sub/{original_name}' }))[0]).toContain('must not contain folders');
+  });
+});
+
+describe('OrganizerService', () => {
+  let testDir: string;
+  let settings: Map<string, string>;
+  let files: Map<number, any>;
+  let database: any;
+  let previewService: { generateBatchPreview: ReturnType<typeof vi.fn> };
+  let executionService: { executeWithTransaction: ReturnType<typeof vi.fn> };
+
+  const mockLogger = {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-organizer-test-' + Date.now());
+    await fs.mkdir(testDir, { recursive: true });
+
+    settings = new Map();
+    files = new Map([
+      [1, { id: 1, path: path.join(testDir, 'invoice.pdf'), relativePathFromRoot: 'invoice.pdf', size: 100, mtime: MARCH_2024, lastScannedAt: 0 }],
+      [2, { id: 2, path: path.join(testDir, 'holiday.jpg'), relativePathFromRoot: 'holiday.jpg', size: 100, mtime: MARCH_2024, lastScannedAt: 0 }],
+      [3, { id: 3, path: path.join(testDir, 'notes.txt'), relativePathFromRoot: 'notes.txt', size: 100, mtime: MARCH_2024, lastScannedAt: 0 }],
+    ]);
+
+    database = {
+      getSetting: vi.fn((key: string) => settings.get(key) ?? null),
+      setSetting: vi.fn((key: string, value: string) => settings.set(key, value)),
+      getFileById: vi.fn((id: number) => files.get(id)),
+      getFileByPath: vi.fn((filePath: string) => Array.from(files.values()).find(file => file.path === filePath)),
+      getFilesByRootPath: vi.fn(() => Array.from(files.values())),
+      getBestSuggestionValues: vi.fn((_ids: number[], analysisType: string) =>
+        analysisType === 'classification' ? new Map([[1, 'Finance']]) : new Map()
+      ),
+      moveFileRecord: vi.fn(() => true),
+    };
+    previewService = {
+      generateBatchPreview: vi.fn(async (batchId: string, operations: any[]) => ({ batchId, operations })),
+    };
+    executionService = {
+      executeWithTransaction: vi.fn().mockResolvedValue({
+        success: true,
+        transactionId: 'tx-1',
+        completedOperations: 2,
+        errors: [],
+        rollbackAvailable: true,
+      }),
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const createService = () =>
+    new OrganizerService(database, mockLogger as any, previewService as any, executionService as any);
+
+  const executed = (executedOperations: any[]) => executionService.executeWithTransaction.mockResolvedValueOnce({
+    success: true,
+    transactionId: 'tx-1',
+    completedOperations: executedOperations.length,
+    errors: [],
+    rollbackAvailable: true,
+    executedOperations,
+  });
+
+  it('should reject invalid rules without saving them', () => {
+    const service = createService();
+
+    expect(() => service.saveRules([rule({ destination: '{nope}' })])).toThrow('unknown token');
+    expect(() => service.saveRules([rule(), rule()])).toThrow('unique');
+    expect(settings.has('organizer_rules')).toBe(false);
+
+    service.saveRules([rule()]);
+    expect(service.getRules()).toEqual([rule()]);
+  });
+
+  it('should apply the first matching enabled rule in order', async () => {
+    const service = createService();
+    service.saveRules([
+      rule({ id: 'disabled', enabled: false, conditions: { extensions: ['pdf'] }, destination: 'Never' }),
+      rule({ id: 'finance', conditions: { categories: ['finance'] }, destination: '{category}/{year}' }),
+      rule({ id: 'pdfs', conditions: { extensions: ['pdf'] }, destination: 'PDFs' }),
+      rule({ id: 'images', name: 'Images', conditions: { extensions: ['jpg'] }, destination: 'Photos/{year}-{month}' }),
+    ]);
+
+    const plan = await service.planOrganization({ rootPath: testDir });
+
+    expect(plan.unmatchedFiles).toBe(1);
+    expect(plan.operations.map(op => [op.fileId, op.ruleId, op.targetPath])).toEqual([
+      [1, 'finance', path.join(testDir, 'Finance', '2024', 'invoice.pdf')],
+      [2, 'images', path.join(testDir, 'Photos', '2024-03', 'holiday.jpg')],
+    ]);
+  });
+
+  it('should avoid collisions within a plan and with existing files', async () => {
+    files.set(4, { id: 4, path: path.join(testDir, 'sub', 'invoice.pdf'), relativePathFromRoot: path.join('sub', 'invoice.pdf'), size: 1, mtime: MARCH_2024, lastScannedAt: 0 });
+    await fs.mkdir(path.join(testDir, 'Docs'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'Docs', 'invoice.pdf'), 'existing');
+
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['pdf'] }, destination: 'Docs' })]);
+
+    const plan = await service.planOrganization({ rootPath: testDir });
+
+    expect(plan.operations.map(op => op.targetPath)).toEqual([
+      path.join(testDir, 'Docs', 'invoice (1).pdf'),
+      path.join(testDir, 'Docs', 'invoice (2).pdf'),
+    ]);
+  });
+
+  it('should skip files that are already where the rule puts them', async () => {
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['txt'] }, destination: '.' })]);
+
+    const plan = await service.planOrganization({ fileIds: [3] });
+
+    expect(plan.operations).toHaveLength(0);
+    expect(plan.alreadyOrganized).toBe(1);
+  });
+
+  it('should preview plans as move operations', async () => {
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['jpg'] }, destination: 'Photos' })]);
+    const plan = await service.planOrganization({ rootPath: testDir });
+
+    await service.previewPlan(plan.planId);
+
+    expect(previewService.generateBatchPreview).toHaveBeenCalledWith(plan.planId, [{
+      operationId: plan.operations[0].operationId,
+      type: 'move',
+      fileId: 2,
+      targetPath: path.join(testDir, 'Photos', 'holiday.jpg'),
+      confidence: 1,
+    }]);
+  });
+
+  it('should execute plans as journaled move transactions and update the index', async () => {
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['jpg', 'pdf'] }, destination: 'Sorted/{extension}' })]);
+    const plan = await service.planOrganization({ rootPath: testDir });
+    executed([{ type: 'move', source: path.join(testDir, 'holiday.jpg'), target: path.join(testDir, 'Sorted', 'jpg', 'holiday.jpg') }]);
+
+    const result = await service.executePlan(plan.planId, [plan.operations[1].operationId]);
+
+    expect(result).toMatchObject({ success: true, transactionId: 'tx-1', movedFiles: 1 });
+    const [suggestions, options] = executionService.executeWithTransaction.mock.calls[0];
+    expect(options).toMatchObject({
+      operationType: 'move', createBackups: true, operationJournaling: true, conflictStrategy: 'auto-suffix',
+    });
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ fileId: 2, suggestedValue: path.join(testDir, 'Sorted', 'jpg', 'holiday.jpg') });
+
+    await expect(fs.stat(path.join(testDir, 'Sorted', 'jpg'))).resolves.toBeTruthy();
+    expect(database.moveFileRecord).toHaveBeenCalledWith(
+      path.join(testDir, 'holiday.jpg'),
+      expect.objectContaining({
+        path: path.join(testDir, 'Sorted', 'jpg', 'holiday.jpg'),
+        relativePathFromRoot: path.join('Sorted', 'jpg', 'holiday.jpg'),
+      })
+    );
+
+    await expect(service.executePlan(plan.planId)).rejects.toThrow('plan not found');
+  });
+
+  it('should update the index with executed targets, sidecars included', async () => {
+    files.set(4, { id: 4, path: path.join(testDir, 'holiday.xmp'), relativePathFromRoot: 'holiday.xmp', size: 1, mtime: MARCH_2024, lastScannedAt: 0 });
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['jpg'] }, destination: 'Photos' })]);
+    const plan = await service.planOrganization({ fileIds: [2] });
+    // A file took the planned name after planning, so the move was suffixed
+    executed([
+      { type: 'move', source: path.join(testDir, 'holiday.jpg'), target: path.join(testDir, 'Photos', 'holiday (2).jpg') },
+      { type: 'move', source: path.join(testDir, 'holiday.xmp'), target: path.join(testDir, 'Photos', 'holiday (2).xmp') },
+    ]);
+
+    await service.executePlan(plan.planId);
+
+    expect(plan.operations[0].targetPath).toBe(path.join(testDir, 'Photos', 'holiday.jpg'));
+    expect(database.moveFileRecord).toHaveBeenCalledTimes(2);
+    expect(database.moveFileRecord).toHaveBeenCalledWith(path.join(testDir, 'holiday.jpg'), expect.objectContaining({
+      id: 2, path: path.join(testDir, 'Photos', 'holiday (2).jpg'),
+    }));
+    expect(database.moveFileRecord).toHaveBeenCalledWith(path.join(testDir, 'holiday.xmp'), expect.objectContaining({
+      id: 4, path: path.join(testDir, 'Photos', 'holiday (2).xmp'), relativePathFromRoot: path.join('Photos', 'holiday (2).xmp'),
+    }));
+  });
+
+  it('should leave the index untouched when execution fails', async () => {
+    executionService.executeWithTransaction.mockResolvedValue({
+      success: false,
+      transactionId: 'tx-2',
+      completedOperations: 0,
+      errors: ['Permission denied'],
+      rollbackAvailable: false,
+    });
+    const service = createService();
+    service.saveRules([rule({ conditions: { extensions: ['jpg'] }, destination: 'Photos' })]);
+    const plan = await service.planOrganization({ rootPath: testDir });
+
+    const result = await service.executePlan(plan.planId);
+
+    expect(result).toMatchObject({ success: false, movedFiles: 0, errors: ['Permission denied'] });
+    expect(database.moveFileRecord).not.toHaveBeenCalled();
+  });
+});
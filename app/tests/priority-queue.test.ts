@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PriorityQueue } from '../src/agents/priority-queue';
 import { TaskPriority, TaskState, type AgentTask } from '../src/agents/task-types';
 
@@ -185,6 +185,101 @@ describe('PriorityQueue', () => {
     });
   });
 
+  describe('Aging and Fair Sharing', () => {
+    const sessionTask = (id: string, sessionId: string, priority = TaskPriority.NORMAL): AgentTask =>
+      ({ ...createMockTask(id, priority), metadata: { sessionId } });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should raise the priority of tasks that wait', () => {
+      vi.useFakeTimers();
+      const background = createMockTask('background', TaskPriority.BACKGROUND);
+      queue.enqueue(background);
+
+      vi.advanceTimersByTime(2 * 60 * 1000);
+      queue.enqueue(createMockTask('normal-1', TaskPriority.NORMAL));
+      expect(queue.getEffectivePriority(background)).toBe(TaskPriority.LOW);
+      expect(queue.peek()?.id).toBe('normal-1');
+
+      // A steady stream of newer NORMAL tasks no longer keeps it waiting
+      vi.advanceTimersByTime(4 * 60 * 1000);
+      queue.enqueue(createMockTask('normal-2', TaskPriority.NORMAL));
+      expect(queue.dequeue()?.id).toBe('normal-1');
+      expect(queue.dequeue()).toBe(background);
+
+      // Aging stops below CRITICAL
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      queue.enqueue(createMockTask('critical', TaskPriority.CRITICAL));
+      expect(queue.getEffectivePriority(queue.getTask('normal-2')!)).toBe(TaskPriority.HIGH);
+      expect(queue.dequeue()?.id).toBe('critical');
+    });
+
+    it('should alternate between sessions at the same priority', () => {
+      ['a1', 'a2', 'a3'].forEach(id => queue.enqueue(sessionTask(id, 'batch')));
+      ['b1', 'b2'].forEach(id => queue.enqueue(sessionTask(id, 'interactive')));
+
+      const order = [1, 2, 3, 4, 5].map(() => queue.dequeue()!.id);
+      expect(order).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+
+      const strict = new PriorityQueue({ fairSharing: false });
+      ['a1', 'a2'].forEach(id => strict.enqueue(sessionTask(id, 'batch')));
+      strict.enqueue(sessionTask('b1', 'interactive'));
+      expect([1, 2, 3].map(() => strict.dequeue()!.id)).toEqual(['a1', 'a2', 'b1']);
+    });
+
+    it('should report wait times per session', () => {
+      vi.useFakeTimers();
+      queue.enqueue(sessionTask('a1', 'batch'));
+      queue.enqueue(sessionTask('a2', 'batch'));
+      vi.advanceTimersByTime(5000);
+      queue.enqueue(sessionTask('b1', 'interactive', TaskPriority.HIGH));
+      queue.enqueue(createMockTask('loose', TaskPriority.LOW));
+      vi.advanceTimersByTime(1000);
+      expect(queue.dequeue()?.id).toBe('b1');
+
+      expect(queue.getStats().bySession).toEqual([
+        { sessionId: 'batch', queuedTasks: 2, longestWaitTime: 6000, averageWaitTime: 6000, nextPriority: TaskPriority.NORMAL, lastDispatchedAt: undefined },
+        { sessionId: null, queuedTasks: 1, longestWaitTime: 1000, averageWaitTime: 1000, nextPriority: TaskPriority.LOW, lastDispatchedAt: undefined },
+      ]);
+    });
+  });
+
+  describe('Dispatch Selector', () => {
+    const modelTask = (id: string, modelName: string, sessionId: string, priority = TaskPriority.NORMAL): AgentTask =>
+      ({ ...createMockTask(id, priority), createdAt: Date.now(), modelName, metadata: { sessionId } } as AgentTask);
+    const usesModel = (modelName: string) => (task: AgentTask) => (task as any).modelName === modelName;
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should favour preferred tasks at the same priority and pass over tasks that cannot run', () => {
+      vi.useFakeTimers();
+      queue.enqueue(modelTask('a1', 'large', 'batch'));
+      vi.advanceTimersByTime(10);
+      queue.enqueue(modelTask('b1', 'small', 'interactive'));
+      vi.advanceTimersByTime(10);
+      queue.enqueue(modelTask('a2', 'small', 'batch'));
+
+      // Batching by model: both small tasks go before the older large one
+      expect(queue.dequeue({ prefer: usesModel('small') })?.id).toBe('b1');
+      expect(queue.dequeue({ prefer: usesModel('small') })?.id).toBe('a2');
+
+      // A higher priority still comes first
+      queue.enqueue(modelTask('urgent', 'large', 'interactive', TaskPriority.HIGH));
+      queue.enqueue(modelTask('a3', 'small', 'batch'));
+      expect(queue.dequeue({ prefer: usesModel('small') })?.id).toBe('urgent');
+
+      // Tasks whose model has no free slot stay queued
+      const smallOnly = { canDispatch: usesModel('small') };
+      expect(queue.dequeue(smallOnly)?.id).toBe('a3');
+      expect(queue.dequeue(smallOnly)).toBeNull();
+      expect(queue.dequeue()?.id).toBe('a1');
+    });
+  });
+
   describe('Task Filtering and Retrieval', () => {
     it('should filter tasks by state', () => {
       const tasks = [
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ReferenceRewriter } from '../src/lib/reference-rewriter';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { SuggestionExecutionService } from '../src/lib/suggestion-execution-service';
+import { OperationJournal } from '../src/lib/operation-journal';
+import { Logger } from '../src/lib/logger';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('ReferenceRewriter', () => {
+  let testDir: string;
+  let database: any;
+  let rewriter: ReferenceRewriter;
+
+  const file = (name: string) => path.join(testDir, name);
+  const record = (id: number, relativePath: string) => ({
+    id, path: file(relativePath), relativePathFromRoot: relativePath, size: 100, mtime: 0, lastScannedAt: 0,
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-references-' + Date.now());
+    await fs.mkdir(path.join(testDir, 'docs', 'images'), { recursive: true });
+    await fs.writeFile(file('docs/images/IMG_0001.jpg'), 'photo');
+    await fs.writeFile(file('docs/guide.md'), [
+      '# Guide',
+      '![Beach](images/IMG_0001.jpg "At the beach")',
+      'See [the notes](./notes.md#setup) and [raw](https://example.com/images/IMG_0001.jpg).',
+      '```',
+      '![Beach](images/IMG_0001.jpg)',
+      '```',
+      '[photo]: images/IMG_0001.jpg',
+    ].join('\n'));
+    await fs.writeFile(file('docs/notes.md'), 'Back to the [guide](guide.md).');
+    await fs.writeFile(file('index.html'), '<a href="docs/guide.md">Guide</a><img src=\'docs/images/IMG_0001.jpg?w=200\'>');
+
+    const files = [
+      record(1, 'docs/images/IMG_0001.jpg'),
+      record(2, 'docs/guide.md'),
+      record(3, 'docs/notes.md'),
+      record(4, 'index.html'),
+    ];
+    database = {
+      getFileById: vi.fn((id: number) => files.find(f => f.id === id)),
+      getFileByPath: vi.fn((filePath: string) => files.find(f => f.path === filePath)),
+      getFilesByRootPath: vi.fn(() => files),
+      getFilesWithStem: vi.fn(() => []),
+      getSetting: vi.fn(),
+    };
+    rewriter = new ReferenceRewriter(database, mockLogger as any);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should rewrite Markdown and HTML links to a renamed file', async () => {
+    const edits = await rewriter.planRewrites([
+      { source: file('docs/images/IMG_0001.jpg'), target: file('docs/images/beach sunset.jpg') },
+    ]);
+
+    expect(edits.map(edit => edit.path).sort()).toEqual([file('docs/guide.md'), file('index.html')]);
+
+    const guide = edits.find(edit => edit.path === file('docs/guide.md'))!;
+    expect(guide.changes).toEqual([
+      {
+        line: 2,
+        before: '![Beach](images/IMG_0001.jpg "At the beach")',
+        after: '![Beach](images/beach%20sunset.jpg "At the beach")',
+      },
+      { line: 7, before: '[photo]: images/IMG_0001.jpg', after: '[photo]: images/beach%20sunset.jpg' },
+    ]);
+    expect(guide.content).toContain('```\n![Beach](images/IMG_0001.jpg)\n```');
+
+    const index = edits.find(edit => edit.path === file('index.html'))!;
+    expect(index.content).toBe('<a href="docs/guide.md">Guide</a><img src=\'docs/images/beach%20sunset.jpg?w=200\'>');
+  });
+
+  it('should keep links from a moved document to files that stay', async () => {
+    const edits = await rewriter.planRewrites([
+      { source: file('docs/guide.md'), target: file('archive/guide.md') },
+    ]);
+
+    const byPath = Object.fromEntries(edits.map(edit => [edit.path, edit.content]));
+    expect(byPath[file('docs/guide.md')]).toContain('![Beach](../docs/images/IMG_0001.jpg "At the beach")');
+    expect(byPath[file('docs/guide.md')]).toContain('[the notes](../docs/notes.md#setup)');
+    expect(byPath[file('docs/notes.md')]).toBe('Back to the [guide](../archive/guide.md).');
+    expect(byPath[file('index.html')]).toContain('href="archive/guide.md"');
+  });
+
+  it('should follow files inside a moved directory', async () => {
+    const edits = await rewriter.planRewrites([
+      { source: file('docs/images'), target: file('media/photos') },
+    ]);
+
+    expect(edits.find(edit => edit.path === file('index.html'))!.content)
+      .toContain('src=\'media/photos/IMG_0001.jpg?w=200\'');
+  });
+
+  describe('in transactions', () => {
+    let service: SuggestionExecutionService;
+
+    const suggestion = (id: number, suggestedValue: string) => ({
+      id, fileId: id, requestId: `req-${id}`, analysisType: 'rename-suggestions' as const, suggestedValue,
+      originalConfidence: 0.9, adjustedConfidence: 0.9, qualityScore: 0.9, reasoning: '', modelUsed: 'test-model',
+      analysisDuration: 0, rankPosition: 1, isRecommended: true,
+    });
+
+    beforeEach(() => {
+      vi.spyOn(Logger, 'getInstance').mockReturnValue(mockLogger as any);
+      const validator = {
+        validateBatch: vi.fn(async () => ({ isValid: true, errors: [], warnings: [] })),
+        sanitizeTargetPath: vi.fn((source: string, targetPath: string) => ({ targetPath, adjustments: [] })),
+      };
+      service = new SuggestionExecutionService(
+        database,
+        { on: vi.fn() } as any,
+        new TransactionalFileManager(database, mockLogger as any, path.join(testDir, '.backups')),
+        validator as any
+      );
+      service.setReferenceRewriter(rewriter);
+    });
+
+    it('should rewrite links together with the rename and undo both', async () => {
+      const journaled: any[] = [];
+      service.setOperationJournal({
+        recordOperation: vi.fn(async (...args: any[]) => { journaled.push(args); return `j-${journaled.length}`; }),
+      });
+
+      const result = await service.executeWithTransaction(
+        [suggestion(1, 'beach.jpg')],
+        { rewriteReferences: true, operationJournaling: true }
+      );
+
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(file('docs/notes.md'), 'utf8')).toBe('Back to the [guide](guide.md).');
+      expect(await fs.readFile(file('index.html'), 'utf8')).toContain('src=\'docs/images/beach.jpg?w=200\'');
+
+      const write = journaled.find(args => args[2] === 'write' && args[4] === file('index.html'));
+      expect(write[6].reverseOperation).toMatchObject({ type: 'restore-content', sourcePath: file('index.html') });
+
+      const journal = new OperationJournal({
+        getJournalOperations: vi.fn(() => [{
+          journalId: 'j-1', operationId: write[1], transactionId: write[0], operationType: 'write', fileId: 4,
+          sourcePath: write[4], targetPath: null, status: 'completed', backupPath: write[7].backupPath,
+          fileSize: 0, fileHash: null, originalMtime: null, userId: null, journaledAt: Date.now(),
+          undoData: JSON.stringify(write[6]),
+        }]),
+        updateOperationStatus: vi.fn(() => true),
+      } as any, mockLogger as any);
+
+      expect((await journal.undoOperation(write[1])).success).toBe(true);
+      expect(await fs.readFile(file('index.html'), 'utf8')).toContain('src=\'docs/images/IMG_0001.jpg?w=200\'');
+    });
+  });
+
+  it('should restore rewritten content when the transaction rolls back', async () => {
+    const manager = new TransactionalFileManager({} as any, mockLogger as any, path.join(testDir, '.backups'));
+    const notes = file('docs/notes.md');
+    const transaction = manager.createTransaction();
+    manager.addOperation(transaction.id, { type: 'write', source: notes, content: 'Back to the [guide](../guide.md).' });
+    manager.addOperation(transaction.id, { type: 'delete', source: notes });
+    // Validated up front, fails once the delete has run
+    manager.addOperation(transaction.id, { type: 'copy', source: notes, target: file('notes-copy.md') });
+
+    const result = await manager.executeTransaction(transaction.id);
+
+    expect(result.success).toBe(false);
+    expect(await fs.readFile(notes, 'utf8')).toBe('Back to the [guide](guide.md).');
+    expect((await fs.readdir(file('docs'))).sort()).toEqual(['guide.md', 'images', 'notes.md']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReviewFeedbackService } from '../src/lib/review-feedback';
+import { ManualReviewQueue, type ReviewFeedback } from '../src/lib/manual-review-queue';
+import { ConfidenceScorer } from '../src/lib/confidence-scorer';
+import { PromptTemplateManager } from '../src/agents/prompt-templates';
+import { createMockDatabase, type MockDatabase } from './helpers/mock-database';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('Review feedback', () => {
+  let database: MockDatabase;
+  let service: ReviewFeedbackService;
+  let decidedAt: number;
+
+  const feedback = (overrides: Partial<ReviewFeedback>): ReviewFeedback => ({
+    originalPath: '/photos/IMG_0001.jpg',
+    operation: 'rename',
+    suggestedValue: 'beach-trip.jpg',
+    decision: 'approve',
+    confidence: 70,
+    validationFlags: [],
+    reason: 'ok',
+    source: 'review',
+    reviewedBy: 'reviewer',
+    decidedAt: decidedAt++,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    decidedAt = 1_700_000_000_000;
+    database = createMockDatabase();
+    service = new ReviewFeedbackService(database as any, mockLogger as any);
+  });
+
+  it('should record review decisions and overrides from the queue', async () => {
+    const queue = new ManualReviewQueue();
+    queue.setFeedbackRecorder(example => { service.recordFeedback(example); });
+    await queue.addSuggestions({
+      autoApprove: [],
+      reject: [],
+      manualReview: ['IMG_0001.jpg', 'IMG_0002.jpg'].map(name => ({
+        suggestion: {
+          value: 'Beach Trip.jpg', confidence: 70, originalConfidence: 70, adjustedConfidence: 70,
+          qualityScore: 60, validationFlags: ['bad-pattern-spaces'], isRecommended: false, rank: 1,
+        },
+        confidence: 70,
+        operation: 'rename',
+        originalPath: `/photos/${name}`,
+        reason: 'Medium confidence',
+      })),
+    });
+    const [first, second] = queue.getPendingItems();
+
+    await queue.processReviewDecision(first.id, { action: 'reject', reason: 'No spaces', appliedAt: new Date() }, 'reviewer');
+    await queue.applyOverride(second.id, 'approve', 'Use our style', 'reviewer', '2024-07-04_beach-trip.jpg');
+
+    expect(database.reviewFeedback).toEqual([
+      expect.objectContaining({
+        filePath: first.suggestion.originalPath, fileExtension: '.jpg', fileCategory: 'image',
+        decision: 'reject', correctedValue: null, validationFlags: ['bad-pattern-spaces'], source: 'review',
+      }),
+      expect.objectContaining({
+        filePath: second.suggestion.originalPath, decision: 'approve',
+        correctedValue: '2024-07-04_beach-trip.jpg', source: 'override',
+      }),
+    ]);
+
+    const failing = new ManualReviewQueue();
+    failing.setFeedbackRecorder(() => { throw new Error('database closed'); });
+    await failing.addSuggestions({ autoApprove: [], reject: [], manualReview: [first.suggestion] });
+    const [pending] = failing.getPendingItems();
+    await failing.processReviewDecision(pending.id, { action: 'approve', reason: 'fine', appliedAt: new Date() }, 'reviewer');
+    expect(failing.getApprovedEntries()).toHaveLength(1);
+  });
+
+  it('should show decisions on similar files in prompts', () => {
+    service.recordFeedback(feedback({ originalPath: '/docs/a.pdf', suggestedValue: 'scan.pdf', decision: 'reject' }));
+    service.recordFeedback(feedback({ originalPath: '/docs/b.docx', suggestedValue: 'minutes.docx' }));
+    service.recordFeedback(feedback({ originalPath: '/docs/c.pdf', suggestedValue: 'doc.pdf', decision: 'reject' }));
+    service.recordFeedback(feedback({
+      originalPath: '/docs/d.pdf', suggestedValue: 'invoice.pdf', source: 'override', correctedValue: '2024-03_acme_invoice.pdf',
+    }));
+    service.recordFeedback(feedback({ originalPath: '/docs/e.pdf', operation: 'move', suggestedValue: '/archive/e.pdf' }));
+
+    const examples = service.getFewShotExamples('/docs/new.pdf', 'rename-suggestions', 3);
+
+    expect(examples).toEqual([
+      { fileName: 'd.pdf', suggestedValue: 'invoice.pdf', decision: 'approve', correctedValue: '2024-03_acme_invoice.pdf' },
+      { fileName: 'c.pdf', suggestedValue: 'doc.pdf', decision: 'reject' },
+      { fileName: 'b.docx', suggestedValue: 'minutes.docx', decision: 'approve' },
+    ]);
+    expect(service.getFewShotExamples('/docs/new.pdf', 'content-summary')).toEqual([]);
+
+    const prompt = PromptTemplateManager.generatePrompt({
+      fileName: 'new.pdf', fileExtension: '.pdf', filePath: '/docs/new.pdf', fileSize: 2048, parentDirectory: '/docs',
+    }, 'rename-suggestions', { responseFormat: 'json', feedbackExamples: examples });
+    expect(prompt).toContain('- d.pdf: "invoice.pdf" was replaced with "2024-03_acme_invoice.pdf"');
+    expect(prompt).toContain('- c.pdf: "doc.pdf" was rejected');
+  });
+
+  it('should derive confidence priors per file category', () => {
+    const scorer = new ConfidenceScorer();
+    const baseWeights = scorer.getConfig();
+    expect(service.getPrior('image', baseWeights)).toMatchObject({ samples: 0, confidenceMultiplier: 1 });
+
+    for (let i = 0; i < 6; i++) {
+      service.recordFeedback(feedback({ decision: 'reject', validationFlags: ['inconsistent-case'] }));
+    }
+    service.recordFeedback(feedback({ validationFlags: ['consistent-case'] }));
+    service.recordFeedback(feedback({ originalPath: '/docs/a.pdf' }));
+
+    const prior = service.getPriorForPath('/photos/new.png', baseWeights);
+    expect(prior).toMatchObject({ category: 'image', samples: 7, approvalRate: 0.222, confidenceMultiplier: 0.722 });
+    expect(prior.weights.conventionComplianceWeight).toBeGreaterThan(baseWeights.conventionComplianceWeight);
+    expect(Object.values(prior.weights).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 2);
+
+    const metadata = { extension: '.png', size: 1024, path: '/photos/new.png', parentDirectory: '/photos' };
+    const suggestion = { value: 'beach-trip.png', confidence: 80, reasoning: 'beach photo', originalConfidence: 80 };
+    const [plain] = scorer.processFilenameSuggestions([suggestion], 'IMG_0002.png', metadata);
+    const [learned] = scorer.processFilenameSuggestions([suggestion], 'IMG_0002.png', { ...metadata, feedbackPrior: prior });
+
+    expect(learned.validationFlags).toContain('feedback-prior-lowered');
+    expect(learned.adjustedConfidence).toBeLessThan(plain.adjustedConfidence);
+  });
+
+  it('should summarize and prune the learned examples', () => {
+    const old = service.recordFeedback(feedback({ decision: 'reject' }));
+    service.recordFeedback(feedback({}));
+    service.recordFeedback(feedback({ originalPath: '/docs/a.pdf', correctedValue: 'minutes.pdf', source: 'override' }));
+
+    expect(service.getSummary()).toEqual([
+      { category: 'document', total: 1, approved: 0, corrected: 1, rejected: 0, approvalRate: 0, recentApprovalRate: 0 },
+      { category: 'image', total: 2, approved: 1, corrected: 0, rejected: 1, approvalRate: 0.5, recentApprovalRate: 0.5 },
+    ]);
+
+    expect(service.pruneFeedback({ ids: [old.id!] })).toBe(1);
+    expect(service.pruneFeedback({ fileCategory: 'document' })).toBe(1);
+    expect(service.listFeedback()).toEqual({ examples: [expect.objectContaining({ fileCategory: 'image', decision: 'approve' })], total: 1 });
+
+    const capped = new ReviewFeedbackService(database as any, mockLogger as any, { maxStoredExamples: 2 });
+    capped.recordFeedback(feedback({}));
+    capped.recordFeedback(feedback({}));
+    expect(database.reviewFeedback).toHaveLength(2);
+  });
+});
@@ -73,6 +73,9 @@ describe('SuggestionExecutionService', () => {
     mockDatabase = {
       getTopSuggestions: vi.fn(),
       getFileById: vi.fn(),
+      getFilesWithStem: vi.fn(() => []),
+      getSetting: vi.fn(),
+      setSetting: vi.fn(),
       recordOperation: vi.fn(),
       updateSuggestion: vi.fn(),
       getOperations: vi.fn(),
@@ -135,6 +138,7 @@ describe('SuggestionExecutionService', () => {
         warnings: []
       }),
       generateValidationReport: vi.fn().mockReturnValue('All validations passed'),
+      sanitizeTargetPath: vi.fn((sourcePath: string, targetPath: string) => ({ targetPath, adjustments: [] })),
     } as any;
 
     // Mock Logger.getInstance
@@ -409,6 +413,56 @@ describe('SuggestionExecutionService', () => {
       expect(Array.isArray(result.transactions)).toBe(true);
     });
 
+    it('should execute delete operations without a target', async () => {
+      mockDatabase.getFileById.mockReturnValue({
+        id: 1, path: '/test/copy (1).txt', size: 10, mtime: 1, lastScannedAt: 1
+      });
+
+      const result = await service.executeWithTransaction([mockSuggestions[0]], { operationType: 'delete' });
+
+      expect(result.success).toBe(true);
+      expect(mockTransactionManager.addOperation).toHaveBeenCalledWith('test-transaction', expect.objectContaining({
+        type: 'delete',
+        source: '/test/copy (1).txt',
+        target: undefined
+      }));
+    });
+
+    it('should send deletes to the trash unless disabled', async () => {
+      mockDatabase.getFileById.mockReturnValue({
+        id: 1, path: '/test/copy (1).txt', size: 10, mtime: 1, lastScannedAt: 1
+      });
+
+      await service.executeWithTransaction([mockSuggestions[0]], { operationType: 'delete' });
+      await service.executeWithTransaction([mockSuggestions[0]], { operationType: 'delete', useTrash: false });
+
+      expect(mockTransactionManager.addOperation.mock.calls.map(([, operation]: any[]) => operation.metadata.useTrash))
+        .toEqual([true, false]);
+    });
+
+    it('should journal completed operations with their reverse operation', async () => {
+      const journal = { recordOperation: vi.fn().mockResolvedValue('journal-1') };
+      service.setOperationJournal(journal);
+      mockDatabase.getFileById.mockReturnValue({
+        id: 7, path: '/test/original.txt', sha256: 'abc', size: 10, mtime: 1, lastScannedAt: 1
+      });
+
+      await service.executeWithTransaction([mockSuggestions[0]], {});
+
+      expect(journal.recordOperation).toHaveBeenCalledWith(
+        'test-transaction',
+        'op-1',
+        'rename',
+        7,
+        '/test/original.txt',
+        '/test/renamed.txt',
+        expect.objectContaining({
+          reverseOperation: { type: 'rename', sourcePath: '/test/renamed.txt', targetPath: '/test/original.txt' }
+        }),
+        expect.objectContaining({ fileHash: 'abc', fileSize: 10 })
+      );
+    });
+
     it('should handle transaction errors gracefully', async () => {
       const suggestions = [mockSuggestions[0]];
       const error = new Error('Database error');
@@ -423,6 +477,68 @@ describe('SuggestionExecutionService', () => {
     });
   });
 
+  describe('sidecars', () => {
+    const raw = { id: 1, path: '/photos/IMG_1234.CR2', size: 10, mtime: 1, lastScannedAt: 1 };
+    const sidecar = (name: string, id: number) => ({ id, path: `/photos/${name}`, size: 1, mtime: 1, lastScannedAt: 1 });
+
+    beforeEach(() => {
+      mockDatabase.getFileById.mockReturnValue(raw);
+      mockDatabase.getFilesWithStem.mockReturnValue([
+        raw,
+        sidecar('IMG_1234.xmp', 2),
+        sidecar('IMG_1234.CR2.xmp', 3),
+        sidecar('IMG_1234.JPG', 4),
+        sidecar('IMG_1234.backup.txt', 5),
+      ]);
+    });
+
+    const targets = () => mockTransactionManager.addOperation.mock.calls.map(([, operation]: any[]) => operation.target);
+
+    it('should rename companion files together with their primary file', async () => {
+      const result = await service.executeWithTransaction([{ ...mockSuggestions[0], suggestedValue: 'beach.CR2' }]);
+
+      expect(result.success).toBe(true);
+      expect(mockDatabase.getFilesWithStem).toHaveBeenCalledWith('/photos', 'IMG_1234');
+      expect(targets()).toEqual(['/photos/beach.CR2', '/photos/beach.xmp', '/photos/beach.CR2.xmp', '/photos/beach.JPG']);
+      expect(result.executedOperations).toEqual([
+        { type: 'rename', source: '/photos/IMG_1234.CR2', target: '/photos/beach.CR2' },
+        { type: 'rename', source: '/photos/IMG_1234.xmp', target: '/photos/beach.xmp' },
+        { type: 'rename', source: '/photos/IMG_1234.CR2.xmp', target: '/photos/beach.CR2.xmp' },
+        { type: 'rename', source: '/photos/IMG_1234.JPG', target: '/photos/beach.JPG' },
+      ]);
+    });
+
+    it('should follow saved rules and leave sidecars alone when asked to', async () => {
+      mockDatabase.getSetting.mockReturnValue(JSON.stringify([
+        { id: 'raw', name: 'RAW', enabled: true, primaryExtensions: ['cr2'], companionExtensions: ['xmp'] },
+      ]));
+
+      await service.executeWithTransaction([{ ...mockSuggestions[0], suggestedValue: 'beach.CR2' }]);
+      await service.executeWithTransaction([{ ...mockSuggestions[0], suggestedValue: 'beach.CR2' }], { includeSidecars: false });
+
+      expect(targets()).toEqual(['/photos/beach.CR2', '/photos/beach.xmp', '/photos/beach.CR2.xmp', '/photos/beach.CR2']);
+    });
+
+    it('should list companions on batch operations for the preview', async () => {
+      const batches = await service.createExecutionBatches([mockSuggestions[0]], { groupBy: 'none' });
+
+      expect(batches[0].operations[0].companionPaths).toEqual([
+        '/photos/IMG_1234.xmp', '/photos/IMG_1234.CR2.xmp', '/photos/IMG_1234.JPG',
+      ]);
+    });
+
+    it('should normalize saved rules and reject incomplete ones', () => {
+      const saved = service.saveSidecarRules([
+        { id: 'video', name: 'Video', enabled: true, primaryExtensions: ['.MKV'], companionExtensions: ['.srt', 'SRT', 'nfo'] },
+      ]);
+
+      expect(saved[0]).toMatchObject({ primaryExtensions: ['mkv'], companionExtensions: ['srt', 'nfo'] });
+      expect(() => service.saveSidecarRules([
+        { id: 'video', name: 'Video', enabled: true, primaryExtensions: [], companionExtensions: ['srt'] },
+      ])).toThrow('Invalid sidecar rules');
+    });
+  });
+
   describe('validation methods', () => {
     it('should validate suggestions before execution', async () => {
       const suggestions = [mockSuggestions[0]];
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockAgentManagerDependencies } from './helpers/agent-manager-mocks';
+import { AgentManager } from '../src/agents/agent-manager';
+import { TaskPriority, TaskState, type CreateTaskParams, type FileAnalysisTask } from '../src/agents/task-types';
+
+const classification = (sessionId: string): CreateTaskParams<FileAnalysisTask> => ({
+  type: 'file-analysis',
+  priority: TaskPriority.NORMAL,
+  filePath: '/reports/q3.txt',
+  modelName: 'llama2',
+  analysisType: 'classification',
+  resultType: 'classification',
+  promptTemplate: '',
+  expectedResponseFormat: 'json',
+  timeoutMs: 60000,
+  maxRetries: 2,
+  metadata: { sessionId },
+  estimatedMemoryMB: 512,
+});
+
+describe('Task cancellation', () => {
+  let manager: AgentManager;
+  let signals: AbortSignal[];
+  let store: { saveTask: ReturnType<typeof vi.fn>; updateTask: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+
+    // Inference only ends when its request is aborted, as a slow model would
+    signals = [];
+    const executeInference = vi.fn((_model: string, _prompt: string, options: { signal: AbortSignal }) => {
+      signals.push(options.signal);
+      return new Promise((_resolve, reject) => {
+        options.signal.addEventListener('abort', () => reject(new Error('Inference request was aborted')));
+      });
+    });
+    mockAgentManagerDependencies({ provider: { executeInference } });
+
+    store = { saveTask: vi.fn(), updateTask: vi.fn() };
+    manager = new AgentManager({ maxConcurrentSlots: 2 });
+    manager.setTaskStore({ ...store, recoverInterruptedTasks: vi.fn(), loadTasks: vi.fn() } as any);
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+  });
+
+  const dispatchAll = async (count: number) => {
+    let dispatched = 0;
+    const done = new Promise<void>(resolve => manager.on('task-dispatched', () => {
+      if (++dispatched === count) resolve();
+    }));
+    const taskIds = Array.from({ length: count }, (_, i) => manager.createTask(classification(`session-${i}`)));
+    await manager.start();
+    await done;
+    // Let the content extraction finish so inference is in flight
+    await vi.waitFor(() => expect(signals).toHaveLength(count));
+    return taskIds;
+  };
+
+  it('should abort the in-flight inference and free the slot when a task is cancelled', async () => {
+    const failed = vi.fn();
+    const retried = vi.fn();
+    manager.on('task-failed', failed);
+    manager.on('task-retry', retried);
+    const [taskId] = await dispatchAll(1);
+    const { totalSlots, availableSlots } = manager.getStatus();
+    expect(availableSlots).toBe(totalSlots - 1);
+
+    expect(await manager.cancelTask(taskId, 'Session cancelled')).toBe(true);
+
+    expect(signals[0].aborted).toBe(true);
+    expect(manager.getStatus()).toMatchObject({ availableSlots: totalSlots, runningTasks: 0 });
+
+    // The aborted inference settles without turning the cancellation into a failure or retry
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(store.updateTask).toHaveBeenLastCalledWith(expect.objectContaining({ id: taskId, state: TaskState.CANCELLED }), undefined);
+    expect(failed).not.toHaveBeenCalled();
+    expect(retried).not.toHaveBeenCalled();
+  });
+
+  it('should cancel every running task on request', async () => {
+    const cancelled: string[] = [];
+    manager.on('task-cancelled', event => cancelled.push(event.taskId));
+    const taskIds = await dispatchAll(2);
+
+    expect(await manager.cancelRunningTasks('Emergency stop: User initiated')).toBe(2);
+
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    expect(cancelled.sort()).toEqual([...taskIds].sort());
+    const status = manager.getStatus();
+    expect(status).toMatchObject({ availableSlots: status.totalSlots, runningTasks: 0 });
+  });
+});
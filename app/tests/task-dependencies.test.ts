@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mockAgentManagerDependencies } from './helpers/agent-manager-mocks';
+import { AgentManager } from '../src/agents/agent-manager';
+import { PromptTemplateManager, type AnalysisType } from '../src/agents/prompt-templates';
+import { TaskPriority, TaskState, type AgentTask, type CreateTaskParams, type FileAnalysisTask } from '../src/agents/task-types';
+
+const RESPONSES: Partial<Record<AnalysisType, object>> = {
+  'metadata-extraction': {
+    coreMetadata: { title: 'Q3 Revenue Report', type: 'report' },
+    contentMetadata: { keywords: ['revenue', 'forecast'] },
+    confidence: 90,
+    reasoning: 'Title page',
+  },
+  'classification': { primaryCategory: 'work', contentType: 'financial report', confidence: 85, reasoning: 'Figures' },
+};
+
+const analysis = (resultType: AnalysisType, dependencies?: string[]): CreateTaskParams<FileAnalysisTask> => ({
+  type: 'file-analysis',
+  priority: TaskPriority.NORMAL,
+  filePath: '/reports/q3.txt',
+  modelName: 'llama2',
+  analysisType: resultType === 'metadata-extraction' ? 'extraction' : 'classification',
+  resultType,
+  promptTemplate: '',
+  expectedResponseFormat: 'json',
+  timeoutMs: 1000,
+  maxRetries: 0,
+  metadata: { fileName: 'q3.txt' },
+  estimatedMemoryMB: 512,
+  dependencies,
+});
+
+describe('Task dependencies', () => {
+  let manager: AgentManager;
+  let executeInference: ReturnType<typeof vi.fn>;
+  let store: { saveTask: ReturnType<typeof vi.fn>; updateTask: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    executeInference = vi.fn(async (_model: string, prompt: string) => {
+      const resultType = prompt.startsWith('Extract') ? 'metadata-extraction' : 'classification';
+      return { response: JSON.stringify(RESPONSES[resultType]) };
+    });
+    mockAgentManagerDependencies({ provider: { executeInference } });
+
+    store = { saveTask: vi.fn(), updateTask: vi.fn() };
+    manager = new AgentManager({ maxConcurrentSlots: 4 });
+    manager.setTaskStore({ ...store, recoverInterruptedTasks: vi.fn(), loadTasks: vi.fn() } as any);
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+  });
+
+  it('should dispatch a task once its dependency completed, with the upstream result in its prompt', async () => {
+    const metadataId = manager.createTask(analysis('metadata-extraction'));
+    const classificationId = manager.createTask(analysis('classification', [metadataId]));
+    expect(manager.getStatus()).toMatchObject({ queuedTasks: 1, waitingTasks: 1 });
+
+    const completed: string[] = [];
+    const done = new Promise<void>(resolve => manager.on('task-completed', result => {
+      completed.push(result.taskId);
+      if (completed.length === 2) resolve();
+    }));
+    await manager.start();
+    await done;
+
+    expect(completed).toEqual([metadataId, classificationId]);
+    const classificationPrompt: string = executeInference.mock.calls[1][1];
+    expect(classificationPrompt).toContain('EARLIER ANALYSIS OF THIS FILE:\n- Metadata: title "Q3 Revenue Report"; type report; keywords revenue, forecast');
+
+    // The upstream result is persisted with the dependent before it runs
+    expect(store.saveTask).toHaveBeenLastCalledWith(expect.objectContaining({
+      id: classificationId,
+      upstreamAnalyses: [{ analysisType: 'metadata-extraction', result: RESPONSES['metadata-extraction'] }],
+    }));
+
+    const prompt = PromptTemplateManager.generatePrompt({
+      fileName: 'q3.txt', fileExtension: '.txt', filePath: '/reports/q3.txt', fileSize: 2048, parentDirectory: '/reports',
+      upstreamAnalyses: [{ analysisType: 'classification', result: RESPONSES.classification }],
+    }, 'rename-suggestions');
+    expect(prompt).toContain('- Classification: work; financial report');
+  });
+
+  it('should cancel every dependent of a failed task with the reason', async () => {
+    executeInference.mockRejectedValueOnce(new Error('model not found'));
+    const metadataId = manager.createTask(analysis('metadata-extraction'));
+    const classificationId = manager.createTask(analysis('classification', [metadataId]));
+    const renameId = manager.createTask(analysis('rename-suggestions', [metadataId, classificationId]));
+
+    const cancelled: Array<{ taskId: string; reason: string }> = [];
+    const done = new Promise<void>(resolve => manager.on('task-cancelled', event => {
+      cancelled.push(event);
+      if (cancelled.length === 2) resolve();
+    }));
+    await manager.start();
+    await done;
+
+    const reason = `Prerequisite metadata-extraction task ${metadataId} failed: model not found`;
+    expect(cancelled).toEqual([{ taskId: classificationId, reason }, { taskId: renameId, reason }]);
+    expect(executeInference).toHaveBeenCalledTimes(1);
+    expect(store.updateTask).toHaveBeenCalledWith(expect.objectContaining({ id: renameId, state: TaskState.CANCELLED }), undefined);
+    expect(manager.getStatus().waitingTasks).toBe(0);
+
+    // Cancelling a queued task cancels what waits on it
+    const first = manager.createTask(analysis('metadata-extraction'));
+    const second = manager.createTask(analysis('classification', [first]));
+    await manager.cancelTask(first, 'User requested');
+    expect(cancelled.at(-1)).toEqual({
+      taskId: second,
+      reason: `Prerequisite metadata-extraction task ${first} was cancelled: User requested`,
+    });
+  });
+
+  it('should restore waiting tasks behind the dependencies restored with them', () => {
+    const persisted = (id: string, dependencies?: string[]): AgentTask => ({
+      ...analysis('classification', dependencies),
+      id,
+      state: TaskState.QUEUED,
+      createdAt: Date.now(),
+      retryCount: 0,
+    } as AgentTask);
+
+    // 'finished' completed before the restart, so it no longer holds anything back
+    const restored = manager.restoreTasks([
+      persisted('rename', ['summary', 'finished']),
+      persisted('summary', ['finished']),
+    ]);
+
+    expect(restored).toBe(2);
+    expect(manager.getStatus()).toMatchObject({ queuedTasks: 1, waitingTasks: 1 });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { FreedesktopTrash } from '../src/lib/trash';
+import { TransactionalFileManager } from '../src/lib/transactional-file-manager';
+import { OperationJournal } from '../src/lib/operation-journal';
+
+const mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+
+describe('FreedesktopTrash', () => {
+  let testDir: string;
+  let trashDir: string;
+  let trash: FreedesktopTrash;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), 'maxsort-trash-' + Date.now());
+    trashDir = path.join(testDir, '.local', 'share', 'Trash');
+    await fs.mkdir(path.join(testDir, 'docs', 'old drafts'), { recursive: true });
+    await fs.writeFile(path.join(testDir, 'docs', 'report.pdf'), 'quarterly report');
+    await fs.writeFile(path.join(testDir, 'docs', 'old drafts', 'draft 1.txt'), 'first draft');
+    trash = new FreedesktopTrash(mockLogger as any, { homeTrashDirectory: trashDir, uid: 1000 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should move files to the home trash with a .trashinfo entry', async () => {
+    const source = path.join(testDir, 'docs', 'old drafts');
+
+    const trashedPath = await trash.moveToTrash(source);
+
+    expect(trashedPath).toBe(path.join(trashDir, 'files', 'old drafts'));
+    expect(await fs.readFile(path.join(trashedPath, 'draft 1.txt'), 'utf8')).toBe('first draft');
+    await expect(fs.access(source)).rejects.toThrow();
+
+    const info = await fs.readFile(path.join(trashDir, 'info', 'old drafts.trashinfo'), 'utf8');
+    expect(info).toMatch(/^\[Trash Info\]\nPath=.*\/docs\/old%20drafts\nDeletionDate=\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\n$/);
+    expect((await trash.readTrashInfo(trashedPath)).originalPath).toBe(source);
+  });
+
+  it('should give trashed files with the same name distinct entries', async () => {
+    const report = path.join(testDir, 'docs', 'report.pdf');
+
+    const first = await trash.moveToTrash(report);
+    await fs.writeFile(report, 'revised report');
+    const second = await trash.moveToTrash(report);
+
+    expect(path.basename(first)).toBe('report.pdf');
+    expect(path.basename(second)).toBe('report.2.pdf');
+    expect(await fs.readdir(path.join(trashDir, 'info'))).toEqual(['report.2.pdf.trashinfo', 'report.pdf.trashinfo']);
+  });
+
+  it('should restore to the original path and drop the info file', async () => {
+    const report = path.join(testDir, 'docs', 'report.pdf');
+    const trashedPath = await trash.moveToTrash(report);
+
+    await trash.restoreFromTrash(trashedPath);
+
+    expect(await fs.readFile(report, 'utf8')).toBe('quarterly report');
+    expect(await fs.readdir(path.join(trashDir, 'info'))).toEqual([]);
+  });
+
+  it('should refuse to restore over an existing file', async () => {
+    const report = path.join(testDir, 'docs', 'report.pdf');
+    const trashedPath = await trash.moveToTrash(report);
+    await fs.writeFile(report, 'new report');
+
+    await expect(trash.restoreFromTrash(trashedPath)).rejects.toThrow('already exists');
+    expect(await fs.readFile(trashedPath, 'utf8')).toBe('quarterly report');
+  });
+
+  it('should recognize paths inside its trashes', () => {
+    expect(trash.isTrashedPath(path.join(trashDir, 'files', 'report.pdf'))).toBe(true);
+    expect(trash.isTrashedPath('/media/usb/.Trash-1000/files/report.pdf')).toBe(true);
+    expect(trash.isTrashedPath('/media/usb/.Trash/1000/files/report.pdf')).toBe(true);
+    expect(trash.isTrashedPath('/media/usb/.Trash-1001/files/report.pdf')).toBe(false);
+    expect(trash.isTrashedPath(path.join(testDir, 'docs', 'files', 'report.pdf'))).toBe(false);
+  });
+
+  it('should trash deletes that ask for it and restore them on rollback', async () => {
+    const manager = new TransactionalFileManager({} as any, mockLogger as any, path.join(testDir, '.backups'));
+    manager.setTrash(trash);
+    const report = path.join(testDir, 'docs', 'report.pdf');
+    const transaction = manager.createTransaction();
+    manager.addOperation(transaction.id, { type: 'delete', source: report, metadata: { useTrash: true, createBackup: true } });
+    // Validated up front, fails once the delete has run
+    manager.addOperation(transaction.id, { type: 'copy', source: report, target: path.join(testDir, 'report-copy.pdf') });
+
+    const result = await manager.executeTransaction(transaction.id);
+
+    expect(result.success).toBe(false);
+    expect(await fs.readFile(report, 'utf8')).toBe('quarterly report');
+    expect(await fs.readdir(path.join(trashDir, 'files'))).toEqual([]);
+    expect(await fs.readdir(path.join(testDir, '.backups'))).toEqual([]);
+  });
+
+  it('should undo journaled deletes from the trash and leave the trash alone on cleanup', async () => {
+    const report = path.join(testDir, 'docs', 'report.pdf');
+    const trashedPath = await trash.moveToTrash(report);
+    const record = {
+      journalId: 'j-1', operationId: 'op-1', transactionId: 'tx-1', operationType: 'delete', fileId: 1,
+      sourcePath: report, targetPath: null, status: 'completed', backupPath: trashedPath,
+      fileSize: 16, fileHash: null, originalMtime: null, userId: null, journaledAt: 0,
+      undoData: JSON.stringify({
+        reverseOperation: { type: 'restore', sourcePath: report, restoreFromBackup: trashedPath },
+        originalMetadata: { path: report, size: 16, mtime: 0, permissions: '644' },
+        dependencies: [],
+      }),
+    };
+    const database = {
+      getJournalOperations: vi.fn(() => [record]),
+      deleteJournalOperations: vi.fn((ids: string[]) => ids.length),
+      updateOperationStatus: vi.fn(() => true),
+    };
+    const journal = new OperationJournal(database as any, mockLogger as any, undefined, trash);
+
+    expect(await journal.cleanupOldEntries()).toBeGreaterThan(0);
+    expect(await fs.readFile(trashedPath, 'utf8')).toBe('quarterly report');
+
+    const undo = await journal.undoOperation('op-1');
+
+    expect(undo.success).toBe(true);
+    expect(await fs.readFile(report, 'utf8')).toBe('quarterly report');
+    expect(await fs.readdir(path.join(trashDir, 'info'))).toEqual([]);
+  });
+});